@@ -1,5 +1,5 @@
 // Service Worker for PWA with modern lifecycle control and network-first navigation
-const APP_VERSION = 'v1.0.142';
+const APP_VERSION = 'v1.0.143';
 const CACHE_NAME = 'ramptrack-cache-' + APP_VERSION;
 const RUNTIME_CACHE = 'ramptrack-runtime-' + APP_VERSION;
 
@@ -22,17 +22,21 @@ const STATIC_ASSETS = [
   '/assets/Report_Issue_Icon.png',
 ];
 
+// Content-hashed barcode decoder worker files, filled in at build time by
+// the precacheDecoders plugin in vite.config.js
+const DECODER_ASSETS = [];
+
 // Install event - cache static assets and skip waiting
 self.addEventListener('install', (event) => {
   console.log('[SW] Installing service worker version:', APP_VERSION);
   event.waitUntil(
     caches.open(CACHE_NAME).then((cache) => {
       console.log('[SW] Caching static assets');
-      return cache.addAll(STATIC_ASSETS).catch((error) => {
+      return cache.addAll([...STATIC_ASSETS, ...DECODER_ASSETS]).catch((error) => {
         console.error('[SW] Failed to cache some assets:', error);
         // Try to cache assets individually to identify which ones fail
         return Promise.allSettled(
-          STATIC_ASSETS.map(url => 
+          [...STATIC_ASSETS, ...DECODER_ASSETS].map(url => 
             cache.add(url).catch(err => {
               console.error(`[SW] Failed to cache ${url}:`, err);
               return null;
@@ -1,17 +1,38 @@
 import type React from "react";
 import { useEffect, useState } from "react";
 import LoginScreen from "./components/LoginScreen";
+import NotificationBell from "./components/NotificationBell";
+import OfflineIndicator from "./components/OfflineIndicator";
 import ReconnectingOverlay from "./components/ReconnectingOverlay";
 import RoleSelectionScreen from "./components/RoleSelectionScreen";
+import SessionLockScreen from "./components/SessionLockScreen";
 import SignOnScreen from "./components/SignOnScreen";
+import SwitchOperatorButton from "./components/SwitchOperatorButton";
 import { AuthProvider, useAuth } from "./contexts/AuthContext";
+import { useEquipmentSync } from "./hooks/useEquipmentSync";
+import { useOverdueMonitor } from "./hooks/useOverdueMonitor";
 import { subscribeToRefreshState } from "./lib/apiClient";
+import {
+  type Permission,
+  hasPermission,
+  recordPermissionDenial,
+} from "./lib/permissions";
 import AdminDashboard from "./pages/AdminDashboard";
 import CheckInScreen from "./pages/CheckInScreen";
 import CheckOutScreen from "./pages/CheckOutScreen";
+import EquipmentDetailScreen from "./pages/EquipmentDetailScreen";
+import EquipmentTypeCatalogScreen from "./pages/EquipmentTypeCatalogScreen";
+import FleetAnalyticsScreen from "./pages/FleetAnalyticsScreen";
+import GeofenceEditorScreen from "./pages/GeofenceEditorScreen";
+import IssueBoardScreen from "./pages/IssueBoardScreen";
+import LabelPrintingScreen from "./pages/LabelPrintingScreen";
 import ManageEquipmentScreen from "./pages/ManageEquipmentScreen";
 import OperatorHomeScreen from "./pages/OperatorHomeScreen";
+import RampControl from "./pages/RampControl";
+import ReconciliationScreen from "./pages/ReconciliationScreen";
 import ReportIssueScreen from "./pages/ReportIssueScreen";
+import StationManagementScreen from "./pages/StationManagementScreen";
+import UserManagementScreen from "./pages/UserManagementScreen";
 
 export interface CurrentUser {
   username: string;
@@ -27,11 +48,67 @@ type ViewType =
   | "takeEquipment"
   | "returnEquipment"
   | "reportIssue"
-  | "manageEquipment";
+  | "manageEquipment"
+  | "reconciliation"
+  | "issueBoard"
+  | "geofences"
+  | "stations"
+  | "equipmentTypes"
+  | "users"
+  | "rampControl"
+  | "analytics"
+  | "labels"
+  | "equipment";
+
+// Views whose hash carries a parameter (#equipment/TV1077)
+const PARAM_VIEWS: ViewType[] = ["equipment"];
+
+// Permission each view requires (views not listed are open to any signed-in
+// user)
+const VIEW_PERMISSIONS: Partial<Record<ViewType, Permission>> = {
+  takeEquipment: "equipment.checkout",
+  returnEquipment: "equipment.checkin",
+  reportIssue: "equipment.report",
+  adminMenu: "dashboard.view",
+  manageEquipment: "equipment.edit",
+  reconciliation: "sync.view",
+  issueBoard: "issue.manage",
+  geofences: "geofence.manage",
+  stations: "station.manage",
+  equipmentTypes: "equipmentType.manage",
+  users: "user.manage",
+  rampControl: "dashboard.view",
+  analytics: "dashboard.view",
+  labels: "equipment.edit",
+  equipment: "dashboard.view",
+};
+
+// Split a hash into its view name and parameter, e.g. "equipment/TV1077"
+function parseHash(hash: string): { name: string; param: string } {
+  const [name, ...rest] = hash.split("/");
+  let param = rest.join("/");
+  try {
+    param = decodeURIComponent(param);
+  } catch {
+    // Keep the raw parameter when it is not valid URI encoding
+  }
+  return { name, param };
+}
+
+// Whether a hash names a view, with a parameter exactly when the view takes one
+function isValidRoute(
+  validViews: ViewType[],
+  { name, param }: { name: string; param: string },
+): boolean {
+  return (
+    validViews.includes(name as ViewType) &&
+    PARAM_VIEWS.includes(name as ViewType) === !!param
+  );
+}
 
 // Helper to get current view from hash
 function getViewFromHash(): ViewType {
-  const hash = window.location.hash.slice(1); // Remove '#'
+  const route = parseHash(window.location.hash.slice(1)); // Remove '#'
   const validViews: ViewType[] = [
     "roleSelection",
     "signOn",
@@ -41,24 +118,46 @@ function getViewFromHash(): ViewType {
     "returnEquipment",
     "reportIssue",
     "manageEquipment",
+    "reconciliation",
+    "issueBoard",
+    "geofences",
+    "stations",
+    "equipmentTypes",
+    "users",
+    "rampControl",
+    "analytics",
+    "labels",
+    "equipment",
   ];
-  return validViews.includes(hash as ViewType)
-    ? (hash as ViewType)
+  return isValidRoute(validViews, route)
+    ? (route.name as ViewType)
     : "roleSelection";
 }
 
+// Parameter of the current hash route (empty for plain views)
+function getParamFromHash(): string {
+  return parseHash(window.location.hash.slice(1)).param;
+}
+
 // Helper to navigate to a view
-function navigateTo(view: ViewType) {
-  window.location.hash = view;
+function navigateTo(view: ViewType, param?: string) {
+  window.location.hash = param ? `${view}/${encodeURIComponent(param)}` : view;
 }
 
 // Inner component that uses useAuth() - must be inside AuthProvider
 function AppContent() {
-  const { auth, isRefreshing } = useAuth();
+  const { auth, isRefreshing, isLocked } = useAuth();
 
   const [apiClientRefreshing, setApiClientRefreshing] = useState(false);
   const [overlayDismissed, setOverlayDismissed] = useState(false);
   const [currentView, setCurrentView] = useState<ViewType>(getViewFromHash());
+  const [viewParam, setViewParam] = useState(getParamFromHash);
+
+  // Keep the local equipment registry reconciled with the backend while signed in
+  useEquipmentSync(!!auth);
+
+  // Notify holders and supervisors about units kept out too long
+  useOverdueMonitor(!!auth);
 
   // Convert auth to CurrentUser format for backward compatibility with child components
   const legacyCurrentUser: CurrentUser | null = auth
@@ -73,6 +172,7 @@ function AppContent() {
   useEffect(() => {
     const handleHashChange = () => {
       setCurrentView(getViewFromHash());
+      setViewParam(getParamFromHash());
     };
     window.addEventListener("hashchange", handleHashChange);
     return () => window.removeEventListener("hashchange", handleHashChange);
@@ -81,7 +181,7 @@ function AppContent() {
   // Navigate to roleSelection when auth becomes truthy and hash is empty or invalid
   useEffect(() => {
     if (auth) {
-      const currentHash = window.location.hash.slice(1);
+      const currentRoute = parseHash(window.location.hash.slice(1));
       const validSignedInViews: ViewType[] = [
         "roleSelection",
         "signOn",
@@ -91,13 +191,20 @@ function AppContent() {
         "returnEquipment",
         "reportIssue",
         "manageEquipment",
+        "reconciliation",
+        "issueBoard",
+        "geofences",
+        "stations",
+        "equipmentTypes",
+        "users",
+        "rampControl",
+        "analytics",
+        "labels",
+        "equipment",
       ];
 
       // If hash is empty or not a valid signed-in view, navigate to roleSelection
-      if (
-        !currentHash ||
-        !validSignedInViews.includes(currentHash as ViewType)
-      ) {
+      if (!isValidRoute(validSignedInViews, currentRoute)) {
         console.log(
           "[App] Auth became truthy with invalid/empty hash, navigating to roleSelection",
         );
@@ -106,6 +213,27 @@ function AppContent() {
     }
   }, [auth]);
 
+  // Send users away from views their role may not open
+  const requiredPermission = VIEW_PERMISSIONS[currentView];
+  const viewDenied =
+    !!auth &&
+    !!requiredPermission &&
+    !hasPermission(auth.role, requiredPermission);
+
+  useEffect(() => {
+    if (!auth || !requiredPermission || !viewDenied) return;
+
+    recordPermissionDenial({
+      permission: requiredPermission,
+      role: auth.role,
+      user: auth.badgeId || auth.user,
+      target: viewParam ? `#${currentView}/${viewParam}` : `#${currentView}`,
+    });
+    navigateTo(
+      hasPermission(auth.role, "dashboard.view") ? "adminMenu" : "agentMenu",
+    );
+  }, [auth, currentView, viewParam, requiredPermission, viewDenied]);
+
   // Subscribe to apiClient refresh state
   useEffect(() => {
     const unsubscribe = subscribeToRefreshState((refreshing) => {
@@ -164,9 +292,14 @@ function AppContent() {
     );
   }
 
-  // Authenticated: render signed-in UI based on currentView (derived from hash)
+  // Authenticated: render signed-in UI based on currentView (derived from hash).
+  // Denied views render nothing while the redirect above happens.
   let content: React.ReactNode;
-  switch (currentView) {
+  switch (viewDenied ? null : currentView) {
+    case null:
+      content = null;
+      break;
+
     case "roleSelection":
       content = (
         <RoleSelectionScreen
@@ -229,13 +362,80 @@ function AppContent() {
             }
           }}
           onManageEquipment={() => navigateTo("manageEquipment")}
+          onReconciliation={() => navigateTo("reconciliation")}
+          onIssueBoard={() => navigateTo("issueBoard")}
+          onGeofences={() => navigateTo("geofences")}
+          onStations={() => navigateTo("stations")}
+          onLabels={() => navigateTo("labels")}
+          onUsers={() => navigateTo("users")}
+          onRampControl={() => navigateTo("rampControl")}
+          onAnalytics={() => navigateTo("analytics")}
+          onOpenEquipment={(id) => navigateTo("equipment", id)}
         />
       );
       break;
 
     case "manageEquipment":
       content = (
-        <ManageEquipmentScreen onBack={() => navigateTo("adminMenu")} />
+        <ManageEquipmentScreen
+          onBack={() => navigateTo("adminMenu")}
+          onEquipmentTypes={() => navigateTo("equipmentTypes")}
+          onOpenEquipment={(id) => navigateTo("equipment", id)}
+        />
+      );
+      break;
+
+    case "reconciliation":
+      content = <ReconciliationScreen onBack={() => navigateTo("adminMenu")} />;
+      break;
+
+    case "issueBoard":
+      content = <IssueBoardScreen onBack={() => navigateTo("adminMenu")} />;
+      break;
+
+    case "geofences":
+      content = <GeofenceEditorScreen onBack={() => navigateTo("adminMenu")} />;
+      break;
+
+    case "stations":
+      content = (
+        <StationManagementScreen onBack={() => navigateTo("adminMenu")} />
+      );
+      break;
+
+    case "equipmentTypes":
+      content = (
+        <EquipmentTypeCatalogScreen
+          onBack={() => navigateTo("manageEquipment")}
+        />
+      );
+      break;
+
+    case "users":
+      content = <UserManagementScreen onBack={() => navigateTo("adminMenu")} />;
+      break;
+
+    // Kiosk route for the ramp control wall display
+    case "rampControl":
+      content = <RampControl onBack={() => navigateTo("adminMenu")} />;
+      break;
+
+    case "analytics":
+      content = <FleetAnalyticsScreen onBack={() => navigateTo("adminMenu")} />;
+      break;
+
+    case "labels":
+      content = <LabelPrintingScreen onBack={() => navigateTo("adminMenu")} />;
+      break;
+
+    // Deep link target for equipment labels (#equipment/TV1077)
+    case "equipment":
+      content = (
+        <EquipmentDetailScreen
+          key={viewParam}
+          equipmentId={viewParam}
+          onBack={() => navigateTo("adminMenu")}
+        />
       );
       break;
 
@@ -255,6 +455,13 @@ function AppContent() {
   return (
     <>
       {content}
+      {currentView !== "rampControl" && (
+        <>
+          <SwitchOperatorButton />
+          <NotificationBell />
+        </>
+      )}
+      {isLocked && <SessionLockScreen />}
       <ReconnectingOverlay
         isVisible={showReconnectingOverlay}
         onDismiss={handleOverlayDismiss}
@@ -268,6 +475,7 @@ export default function App() {
   return (
     <AuthProvider>
       <AppContent />
+      <OfflineIndicator />
     </AuthProvider>
   );
 }
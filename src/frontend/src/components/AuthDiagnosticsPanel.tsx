@@ -4,12 +4,14 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { CheckCircle, Info, Wifi, WifiOff, XCircle } from "lucide-react";
 import { useEffect, useState } from "react";
 import { APP_BUILD_VERSION, BUILD_DATE } from "../config/appBuild";
+import { getSchemaStatus } from "../lib/storageSchema";
 
 export default function AuthDiagnosticsPanel() {
   const [isOnline, setIsOnline] = useState(navigator.onLine);
   const [swController, setSwController] = useState<ServiceWorker | null>(null);
   const [swState, setSwState] = useState<string>("unknown");
   const [noSwMode, setNoSwMode] = useState(false);
+  const [schemas] = useState(getSchemaStatus);
 
   useEffect(() => {
     // Check for nosw parameter
@@ -135,6 +137,40 @@ export default function AuthDiagnosticsPanel() {
           )}
         </div>
 
+        {/* Storage Schemas */}
+        {schemas.length > 0 && (
+          <div className="space-y-1">
+            <div className="text-sm text-slate-400">Storage Schemas</div>
+            {schemas.map((schema) => (
+              <div key={schema.key} className="space-y-0.5">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-sm">{schema.label}</span>
+                  <Badge
+                    variant="outline"
+                    className={
+                      schema.version === schema.latest
+                        ? "bg-green-900/30 text-green-300 border-green-700"
+                        : "bg-yellow-900/30 text-yellow-300 border-yellow-700"
+                    }
+                  >
+                    v{schema.version}
+                    {schema.version !== schema.latest &&
+                      ` of v${schema.latest}`}
+                  </Badge>
+                </div>
+                {schema.error && (
+                  <div className="text-xs text-red-300">{schema.error}</div>
+                )}
+                {schema.backupAt && (
+                  <div className="text-xs text-slate-500">
+                    Backup from {new Date(schema.backupAt).toLocaleString()}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
         {/* Helpful Info */}
         <div className="pt-4 border-t border-slate-700 space-y-2">
           <div className="text-xs text-slate-400">
@@ -0,0 +1,325 @@
+import { AlertCircle, Download, Upload } from "lucide-react";
+import { useState } from "react";
+import { toast } from "sonner";
+import { useAuth } from "../contexts/AuthContext";
+import { useActiveStation } from "../hooks/useActiveStation";
+import { ensureUserContext } from "../lib/ensureUserContext";
+import {
+  type ImportPlan,
+  type ImportPlanRow,
+  type ImportRowKind,
+  applyEquipmentImport,
+  fleetImportTable,
+  planEquipmentImport,
+} from "../lib/equipmentImport";
+import { getStationEquipment } from "../lib/equipmentRegistry";
+import { formatEquipmentType } from "../lib/equipmentTypeCatalog";
+import { exportTables } from "../lib/exportFormats";
+import { Alert, AlertDescription } from "./ui/alert";
+import { Badge } from "./ui/badge";
+import { Button } from "./ui/button";
+import { Checkbox } from "./ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "./ui/dialog";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "./ui/table";
+
+const KIND_LABELS: Record<ImportRowKind, string> = {
+  new: "New",
+  changed: "Changed",
+  unchanged: "Unchanged",
+  conflict: "Conflict",
+  invalid: "Invalid",
+};
+
+const KIND_VARIANTS: Record<
+  ImportRowKind,
+  "default" | "secondary" | "destructive" | "outline"
+> = {
+  new: "default",
+  changed: "secondary",
+  unchanged: "outline",
+  conflict: "destructive",
+  invalid: "destructive",
+};
+
+const FIELD_LABELS: Record<ImportPlanRow["changes"][number]["field"], string> =
+  {
+    type: "Type",
+    label: "Label",
+    stationCode: "Station",
+    status: "Status",
+  };
+
+interface EquipmentImportDialogProps {
+  onClose: () => void;
+  // Called after an import was applied
+  onImported: () => void;
+}
+
+// Describe what a planned row will do
+const rowDetails = (row: ImportPlanRow) => {
+  if (row.problems.length > 0) return row.problems.join("; ");
+  if (row.kind === "unchanged") return "No changes";
+  return row.changes
+    .map((change) => {
+      const format = (value?: string) =>
+        value && change.field === "type" ? formatEquipmentType(value) : value;
+      return row.kind === "new"
+        ? `${FIELD_LABELS[change.field]}: ${format(change.to)}`
+        : `${FIELD_LABELS[change.field]}: ${format(change.from) ?? "—"} → ${format(change.to)}`;
+    })
+    .join(", ");
+};
+
+export default function EquipmentImportDialog({
+  onClose,
+  onImported,
+}: EquipmentImportDialogProps) {
+  const { auth } = useAuth();
+  const { stationCode } = useActiveStation();
+  const [fileName, setFileName] = useState("");
+  const [csvText, setCsvText] = useState("");
+  const [plan, setPlan] = useState<ImportPlan | null>(null);
+  const [showUnchanged, setShowUnchanged] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isApplying, setIsApplying] = useState(false);
+
+  const operator = auth?.badgeId || auth?.user || "unknown";
+  const blocked = plan ? plan.counts.conflict + plan.counts.invalid : 0;
+  const pending = plan ? plan.counts.new + plan.counts.changed : 0;
+  const visibleRows =
+    plan?.rows.filter((row) => showUnchanged || row.kind !== "unchanged") ?? [];
+
+  const handleFile = async (file: File | undefined) => {
+    setError(null);
+    setPlan(null);
+    if (!file) return;
+    try {
+      const text = await file.text();
+      setFileName(file.name);
+      setCsvText(text);
+      setPlan(planEquipmentImport(text, operator));
+    } catch (err) {
+      console.error("Failed to read import file:", err);
+      setError("Could not read the file");
+    }
+  };
+
+  const handleDownloadFleet = () => {
+    const result = exportTables(
+      "csv",
+      `ramptrack_${stationCode.toLowerCase()}`,
+      "Fleet",
+      [],
+      [fleetImportTable(getStationEquipment(stationCode))],
+    );
+    if (!result.success) setError(result.error || "Export failed");
+  };
+
+  const handleApply = async () => {
+    const isValid = await ensureUserContext();
+    if (!isValid) {
+      toast.error("Session expired. Please log in again.");
+      return;
+    }
+
+    setIsApplying(true);
+    setError(null);
+    try {
+      const result = applyEquipmentImport(csvText, operator);
+      if (!result.success) {
+        setError(result.error || "Import failed");
+        // The registry may have changed since the dry run
+        setPlan(planEquipmentImport(csvText, operator));
+        return;
+      }
+      toast.success(
+        `Imported ${result.added} new and ${result.updated} updated units`,
+      );
+      onImported();
+      onClose();
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={(next) => !next && onClose()}>
+      <DialogContent
+        className="max-w-3xl"
+        style={{
+          background: "rgba(15, 23, 42, 0.98)",
+          borderColor: "rgba(255,255,255,0.18)",
+        }}
+      >
+        <DialogHeader>
+          <DialogTitle style={{ color: "#ffffff" }}>
+            Import Equipment from CSV
+          </DialogTitle>
+          <DialogDescription style={{ color: "#cbd5f5" }}>
+            Columns: id, type, label, station, status (AVAILABLE or
+            MAINTENANCE). Blank cells keep the current value. Nothing changes
+            until you apply the import.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex flex-wrap items-end gap-2">
+            <div className="flex-1 min-w-48">
+              <Label htmlFor="import-file" style={{ color: "#cbd5f5" }}>
+                CSV file
+              </Label>
+              <Input
+                id="import-file"
+                type="file"
+                accept=".csv,text/csv"
+                onChange={(e) => {
+                  handleFile(e.target.files?.[0]);
+                  // Allow choosing the same file again after fixing it
+                  e.target.value = "";
+                }}
+              />
+            </div>
+            <Button variant="outline" onClick={handleDownloadFleet}>
+              <Download className="mr-2 h-4 w-4" />
+              Current {stationCode} fleet
+            </Button>
+          </div>
+
+          {plan?.error && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>{plan.error}</AlertDescription>
+            </Alert>
+          )}
+
+          {plan && !plan.error && (
+            <>
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="text-sm" style={{ color: "#cbd5f5" }}>
+                  {fileName}:
+                </span>
+                {(Object.keys(KIND_LABELS) as ImportRowKind[]).map((kind) => (
+                  <Badge key={kind} variant={KIND_VARIANTS[kind]}>
+                    {plan.counts[kind]} {KIND_LABELS[kind]}
+                  </Badge>
+                ))}
+                <div className="flex items-center gap-2 ml-auto">
+                  <Checkbox
+                    id="import-show-unchanged"
+                    checked={showUnchanged}
+                    onCheckedChange={(checked) =>
+                      setShowUnchanged(checked === true)
+                    }
+                  />
+                  <Label
+                    htmlFor="import-show-unchanged"
+                    style={{ color: "#cbd5f5" }}
+                  >
+                    Show unchanged
+                  </Label>
+                </div>
+              </div>
+
+              {visibleRows.length > 0 && (
+                <div
+                  className="rounded-lg border overflow-auto max-h-80"
+                  style={{ borderColor: "rgba(255,255,255,0.1)" }}
+                >
+                  <Table>
+                    <TableHeader>
+                      <TableRow
+                        style={{ borderColor: "rgba(255,255,255,0.1)" }}
+                      >
+                        <TableHead style={{ color: "#cbd5f5" }}>Line</TableHead>
+                        <TableHead style={{ color: "#cbd5f5" }}>ID</TableHead>
+                        <TableHead style={{ color: "#cbd5f5" }}>
+                          Result
+                        </TableHead>
+                        <TableHead style={{ color: "#cbd5f5" }}>
+                          Details
+                        </TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {visibleRows.map((row) => (
+                        <TableRow
+                          key={row.line}
+                          style={{ borderColor: "rgba(255,255,255,0.1)" }}
+                        >
+                          <TableCell style={{ color: "#cbd5f5" }}>
+                            {row.line}
+                          </TableCell>
+                          <TableCell style={{ color: "#ffffff" }}>
+                            {row.id || row.rawId || "—"}
+                          </TableCell>
+                          <TableCell>
+                            <Badge variant={KIND_VARIANTS[row.kind]}>
+                              {KIND_LABELS[row.kind]}
+                            </Badge>
+                          </TableCell>
+                          <TableCell
+                            className="text-xs"
+                            style={{
+                              color:
+                                row.problems.length > 0 ? "#fbbf24" : "#ffffff",
+                            }}
+                          >
+                            {rowDetails(row)}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+
+              {blocked > 0 && (
+                <p className="text-sm" style={{ color: "#fbbf24" }}>
+                  Fix the {blocked} conflicting or invalid row
+                  {blocked === 1 ? "" : "s"} and choose the file again. The
+                  import is applied all at once or not at all.
+                </p>
+              )}
+            </>
+          )}
+
+          {error && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          <div className="flex gap-2 pt-2">
+            <Button variant="outline" className="flex-1" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button
+              className="flex-1"
+              disabled={!plan || blocked > 0 || pending === 0 || isApplying}
+              onClick={handleApply}
+            >
+              <Upload className="mr-2 h-4 w-4" />
+              Apply {pending} change{pending === 1 ? "" : "s"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,6 +1,7 @@
 import { Button } from "@/components/ui/button";
 import { AlertCircle, Loader2 } from "lucide-react";
 import React, { useEffect, useRef, useCallback } from "react";
+import { decodeFrame, releaseDecoder } from "../lib/barcodeScanner";
 import { normalizeEquipmentId } from "../lib/equipmentRegistry";
 import { parseBadgeId } from "../lib/parseBadge";
 
@@ -171,7 +172,6 @@ function EquipmentQRScannerComponent({
   // All state in refs - zero React state updates during scanning
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
-  const readerRef = useRef<any>(null);
   const streamRef = useRef<MediaStream | null>(null);
   const decodeLoopRef = useRef<number | null>(null);
   const scanLockedRef = useRef<boolean>(false);
@@ -301,14 +301,8 @@ function EquipmentQRScannerComponent({
       }
     }
 
-    // Reset reader
-    if (readerRef.current) {
-      try {
-        readerRef.current.reset();
-      } catch (err) {
-        console.error("[EquipmentQRScanner] Error resetting reader:", err);
-      }
-    }
+    // Stop the decoder worker
+    releaseDecoder();
 
     // Stop all camera tracks
     if (streamRef.current) {
@@ -411,68 +405,29 @@ function EquipmentQRScannerComponent({
     [mode, onScan, cleanup, playBeep, vibrate, updateUI],
   );
 
-  // Manual decode loop using canvas and decodeFromCanvas
-  const startManualDecodeLoop = useCallback(() => {
-    if (
-      !readerRef.current ||
-      !videoRef.current ||
-      !canvasRef.current ||
-      !mountedRef.current
-    ) {
+  // Decode loop: each frame goes to the shared decoder worker
+  const startDecodeLoop = useCallback(() => {
+    if (!videoRef.current || !canvasRef.current || !mountedRef.current) {
       return;
     }
 
     const video = videoRef.current;
     const canvas = canvasRef.current;
-    const ctx = canvas.getContext("2d", { willReadFrequently: true });
-
-    if (!ctx) {
-      console.error("[EquipmentQRScanner] Failed to get canvas context");
-      return;
-    }
 
-    console.log(
-      "[EquipmentQRScanner] Starting manual decode loop with decodeFromCanvas...",
-    );
+    console.log("[EquipmentQRScanner] Starting decode loop...");
 
-    const decode = () => {
+    const decode = async () => {
       if (!mountedRef.current || scanLockedRef.current) {
         return;
       }
 
       try {
-        // Check if video is ready
-        if (video.readyState === video.HAVE_ENOUGH_DATA) {
-          const width = video.videoWidth;
-          const height = video.videoHeight;
-
-          // Set canvas size to match video
-          if (canvas.width !== width || canvas.height !== height) {
-            canvas.width = width;
-            canvas.height = height;
-          }
-
-          // Draw current video frame to canvas
-          ctx.drawImage(video, 0, 0, width, height);
-
-          // Decode using ZXing's decodeFromCanvas method
-          try {
-            const result = readerRef.current.decodeFromCanvas(canvas);
-            if (result?.text && !scanLockedRef.current) {
-              scanLockedRef.current = true;
-              handleScanSuccess(result.text);
-              return; // Stop loop after successful scan
-            }
-          } catch (err: any) {
-            // NotFoundException is expected when no code is found
-            if (err.name !== "NotFoundException") {
-              console.error(
-                "[EquipmentQRScanner] Decode error:",
-                err.name,
-                err.message,
-              );
-            }
-          }
+        // Frames arriving while the worker is busy resolve null
+        const result = await decodeFrame(video, canvas);
+        if (result?.text && mountedRef.current && !scanLockedRef.current) {
+          scanLockedRef.current = true;
+          handleScanSuccess(result.text);
+          return; // Stop loop after successful scan
         }
       } catch (err) {
         console.error("[EquipmentQRScanner] Frame processing error:", err);
@@ -497,42 +452,10 @@ function EquipmentQRScannerComponent({
 
     const initializeScanner = async () => {
       try {
-        // Load ZXing Browser if not already loaded
-        if (typeof (window as any).ZXingBrowser === "undefined") {
-          console.log("[EquipmentQRScanner] Loading ZXing Browser from CDN...");
-          await new Promise<void>((resolve, reject) => {
-            const script = document.createElement("script");
-            script.src = "https://unpkg.com/@zxing/browser@0.1.1";
-            script.async = true;
-            script.onload = () => {
-              console.log(
-                "[EquipmentQRScanner] ZXing Browser loaded successfully",
-              );
-              resolve();
-            };
-            script.onerror = () =>
-              reject(new Error("Failed to load ZXing Browser"));
-            document.head.appendChild(script);
-          });
-        }
-
-        if (!(window as any).ZXingBrowser) {
-          throw new Error("ZXing Browser library not available");
-        }
-
-        const { BrowserMultiFormatReader } = (window as any).ZXingBrowser;
-
-        // Initialize reader with multi-format support
-        const reader = new BrowserMultiFormatReader();
-        readerRef.current = reader;
-        console.log(
-          "[EquipmentQRScanner] ZXing Browser reader initialized with multi-format support",
-        );
-
-        // Create canvas for manual decode
+        // Create canvas for frame capture
         const canvas = document.createElement("canvas");
         canvasRef.current = canvas;
-        console.log("[EquipmentQRScanner] Canvas created for manual decode");
+        console.log("[EquipmentQRScanner] Canvas created for frame capture");
 
         // SINGLE getUserMedia CALL - Request camera access
         console.log("[EquipmentQRScanner] Requesting camera access...");
@@ -580,8 +503,8 @@ function EquipmentQRScannerComponent({
               isLoadingRef.current = false;
               updateUI();
 
-              // Start manual decode loop with decodeFromCanvas
-              startManualDecodeLoop();
+              // Start decode loop
+              startDecodeLoop();
             } catch (err) {
               console.error("[EquipmentQRScanner] Video play error:", err);
               errorRef.current = "Failed to start video preview";
@@ -613,7 +536,7 @@ function EquipmentQRScannerComponent({
       mountedRef.current = false;
       cleanup();
     };
-  }, [cleanup, updateUI, startManualDecodeLoop]);
+  }, [cleanup, updateUI, startDecodeLoop]);
 
   // Flashlight toggle
   const toggleTorch = useCallback(async () => {
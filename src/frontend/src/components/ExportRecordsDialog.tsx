@@ -0,0 +1,258 @@
+import { AlertCircle, FileSpreadsheet, FileText, Printer } from "lucide-react";
+import { useState } from "react";
+import { useActiveStation } from "../hooks/useActiveStation";
+import {
+  useGetAllActivityLogs,
+  useGetAllAssignments,
+  useGetAllIssues,
+} from "../hooks/useQueries";
+import { getEventsByStation } from "../lib/auditLog";
+import { getStationEquipment } from "../lib/equipmentRegistry";
+import { type ExportFormat, exportTables } from "../lib/exportFormats";
+import {
+  RECORD_KIND_LABELS,
+  type RecordFilters,
+  type RecordKind,
+  buildRecordTables,
+} from "../lib/recordExports";
+import { getShiftStart } from "../lib/sessionPolicy";
+import { Alert, AlertDescription } from "./ui/alert";
+import { Button } from "./ui/button";
+import { Checkbox } from "./ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "./ui/dialog";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
+
+type ExportPeriod = "shift" | "24h" | "7d" | "all";
+
+const PERIOD_LABELS: Record<ExportPeriod, string> = {
+  shift: "Current shift",
+  "24h": "Last 24 hours",
+  "7d": "Last 7 days",
+  all: "All records",
+};
+
+const RECORD_KINDS = Object.keys(RECORD_KIND_LABELS) as RecordKind[];
+
+// Mounted while open, so the screen's current filters seed it each time
+interface ExportRecordsDialogProps {
+  onClose: () => void;
+  // Filters currently applied on screen, used as the starting point
+  equipmentId?: string;
+  user?: string;
+}
+
+function periodStart(period: ExportPeriod, now: Date): number | undefined {
+  switch (period) {
+    case "shift":
+      // No shift changes configured: fall back to the last 12 hours
+      return getShiftStart(now)?.getTime() ?? now.getTime() - 12 * 3600000;
+    case "24h":
+      return now.getTime() - 24 * 3600000;
+    case "7d":
+      return now.getTime() - 7 * 24 * 3600000;
+    case "all":
+      return undefined;
+  }
+}
+
+export default function ExportRecordsDialog({
+  onClose,
+  equipmentId = "",
+  user = "",
+}: ExportRecordsDialogProps) {
+  const { stationCode, station } = useActiveStation();
+  const { data: assignments = [], isLoading: assignmentsLoading } =
+    useGetAllAssignments();
+  const { data: issues = [], isLoading: issuesLoading } = useGetAllIssues();
+  const { data: activity = [], isLoading: activityLoading } =
+    useGetAllActivityLogs();
+
+  const [kinds, setKinds] = useState<RecordKind[]>(RECORD_KINDS);
+  const [period, setPeriod] = useState<ExportPeriod>("shift");
+  const [equipmentFilter, setEquipmentFilter] = useState(equipmentId);
+  const [userFilter, setUserFilter] = useState(user);
+  const [error, setError] = useState<string | null>(null);
+
+  const isLoading = assignmentsLoading || issuesLoading || activityLoading;
+
+  const toggleKind = (kind: RecordKind, checked: boolean) => {
+    setKinds((current) =>
+      checked
+        ? RECORD_KINDS.filter((k) => k === kind || current.includes(k))
+        : current.filter((k) => k !== kind),
+    );
+  };
+
+  const handleExport = (format: ExportFormat) => {
+    const now = new Date();
+    const filters: RecordFilters = {
+      from: periodStart(period, now),
+      to: now.getTime(),
+      equipmentId: equipmentFilter.trim(),
+      user: userFilter.trim(),
+    };
+    const tables = buildRecordTables(
+      kinds,
+      {
+        scans: getEventsByStation(stationCode),
+        equipment: getStationEquipment(stationCode),
+        assignments,
+        issues,
+        activity,
+      },
+      filters,
+    );
+
+    const details: [string, string][] = [
+      ["Station", station ? `${station.name} (${stationCode})` : stationCode],
+      [
+        "Period",
+        filters.from !== undefined
+          ? `${new Date(filters.from).toLocaleString()} – ${now.toLocaleString()}`
+          : `All records to ${now.toLocaleString()}`,
+      ],
+      ["Equipment filter", filters.equipmentId || "None"],
+      ["User filter", filters.user || "None"],
+      ["Generated", now.toLocaleString()],
+    ];
+
+    const result = exportTables(
+      format,
+      `ramptrack_${stationCode.toLowerCase()}`,
+      `Shift Report · ${station?.name ?? stationCode}`,
+      details,
+      tables,
+    );
+    if (!result.success) {
+      setError(result.error || "Export failed");
+      return;
+    }
+    onClose();
+  };
+
+  return (
+    <Dialog open onOpenChange={(next) => !next && onClose()}>
+      <DialogContent
+        className="max-w-md"
+        style={{
+          background: "rgba(15, 23, 42, 0.98)",
+          borderColor: "rgba(255,255,255,0.18)",
+        }}
+      >
+        <DialogHeader>
+          <DialogTitle style={{ color: "#ffffff" }}>Export Records</DialogTitle>
+          <DialogDescription style={{ color: "#cbd5f5" }}>
+            Scan and registry history cover {station?.name ?? stationCode}.
+            Backend records cover every station.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label style={{ color: "#cbd5f5" }}>Records</Label>
+            {RECORD_KINDS.map((kind) => (
+              <div key={kind} className="flex items-center gap-2">
+                <Checkbox
+                  id={`export-${kind}`}
+                  checked={kinds.includes(kind)}
+                  onCheckedChange={(checked) =>
+                    toggleKind(kind, checked === true)
+                  }
+                />
+                <Label htmlFor={`export-${kind}`} style={{ color: "#ffffff" }}>
+                  {RECORD_KIND_LABELS[kind]}
+                </Label>
+              </div>
+            ))}
+          </div>
+
+          <div>
+            <Label style={{ color: "#cbd5f5" }}>Period</Label>
+            <Select
+              value={period}
+              onValueChange={(value) => setPeriod(value as ExportPeriod)}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(PERIOD_LABELS) as ExportPeriod[]).map((p) => (
+                  <SelectItem key={p} value={p}>
+                    {PERIOD_LABELS[p]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <Label htmlFor="export-equipment" style={{ color: "#cbd5f5" }}>
+                Equipment ID
+              </Label>
+              <Input
+                id="export-equipment"
+                placeholder="Any"
+                value={equipmentFilter}
+                onChange={(e) => setEquipmentFilter(e.target.value)}
+              />
+            </div>
+            <div>
+              <Label htmlFor="export-user" style={{ color: "#cbd5f5" }}>
+                User
+              </Label>
+              <Input
+                id="export-user"
+                placeholder="Any"
+                value={userFilter}
+                onChange={(e) => setUserFilter(e.target.value)}
+              />
+            </div>
+          </div>
+
+          {isLoading && (
+            <p className="text-sm" style={{ color: "#fbbf24" }}>
+              Backend records are still loading and may be incomplete.
+            </p>
+          )}
+
+          {error && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          <div className="grid grid-cols-3 gap-2 pt-2">
+            <Button variant="outline" onClick={() => handleExport("csv")}>
+              <FileText className="mr-2 h-4 w-4" />
+              CSV
+            </Button>
+            <Button variant="outline" onClick={() => handleExport("xlsx")}>
+              <FileSpreadsheet className="mr-2 h-4 w-4" />
+              Excel
+            </Button>
+            <Button onClick={() => handleExport("pdf")}>
+              <Printer className="mr-2 h-4 w-4" />
+              PDF
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -2,17 +2,15 @@ import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { AlertCircle, Settings, Trash2, X } from "lucide-react";
+import { AlertCircle, KeyRound, Settings, Trash2, X } from "lucide-react";
 import { useCallback, useEffect, useRef, useState } from "react";
 import { APP_BUILD_VERSION } from "../config/appBuild";
 import { useAuth } from "../contexts/AuthContext";
-import {
-  getDemoCredentials,
-  validateBadgeScan,
-  validateCredentials,
-} from "../data/userRoster";
+import { type UserRosterEntry, getDemoCredentials } from "../data/userRoster";
 import { clearCachedApp } from "../lib/clearCachedApp";
 import { parseBadgeId } from "../lib/parseBadge";
+import { requiresSecondFactor } from "../lib/secondFactor";
+import { validateBadgeScan, validateCredentials } from "../lib/userStore";
 import AuthDiagnosticsPanel from "./AuthDiagnosticsPanel";
 import EquipmentQRScanner from "./EquipmentQRScanner";
 
@@ -25,6 +23,10 @@ export default function LoginScreen({
   const [showScanner, setShowScanner] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [showDiagnostics, setShowDiagnostics] = useState(false);
+  // Badge holder waiting to enter their PIN or authenticator code
+  const [secondFactorUser, setSecondFactorUser] =
+    useState<UserRosterEntry | null>(null);
+  const [secondFactorCode, setSecondFactorCode] = useState("");
 
   const { login, loginError, clearLoginError } = useAuth();
 
@@ -53,18 +55,19 @@ export default function LoginScreen({
       return;
     }
 
-    const user = validateCredentials(username, password);
+    setIsLoading(true);
+    const user = await validateCredentials(username, password);
     if (!user) {
       setError("Invalid username or password");
+      setIsLoading(false);
       return;
     }
 
-    setIsLoading(true);
     try {
+      // No badge here: password sign-in does not need a second factor
       await login({
         username: user.email || user.badgeId,
         password,
-        badge: user.badgeId,
       });
 
       console.log(
@@ -103,9 +106,15 @@ export default function LoginScreen({
           return;
         }
 
+        if (requiresSecondFactor(user)) {
+          setShowScanner(false);
+          setSecondFactorUser(user);
+          return;
+        }
+
         await login({
           username: user.email || user.badgeId,
-          password: user.password || "badge-scan",
+          password: "badge-scan",
           badge: scannedId,
         });
 
@@ -173,7 +182,11 @@ export default function LoginScreen({
           if (badgeId) {
             const user = validateBadgeScan(badgeId);
 
-            if (user) {
+            if (user && requiresSecondFactor(user)) {
+              setUsername("");
+              inputBufferRef.current = "";
+              setSecondFactorUser(user);
+            } else if (user) {
               console.log(`[SCAN] triggering login for badgeId=${badgeId}`);
 
               const autoPassword = password || "test123";
@@ -225,6 +238,35 @@ export default function LoginScreen({
     [password, login],
   );
 
+  const handleSecondFactorSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!secondFactorUser) return;
+
+    setError("");
+    setIsLoading(true);
+    try {
+      await login({
+        username: secondFactorUser.email || secondFactorUser.badgeId,
+        password: "badge-scan",
+        badge: secondFactorUser.badgeId,
+        secondFactor: secondFactorCode,
+      });
+      setSecondFactorUser(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Code not accepted");
+    } finally {
+      setSecondFactorCode("");
+      setIsLoading(false);
+    }
+  };
+
+  const handleCancelSecondFactor = () => {
+    setSecondFactorUser(null);
+    setSecondFactorCode("");
+    setError("");
+    clearLoginError();
+  };
+
   const handleClearCache = async () => {
     await clearCachedApp();
   };
@@ -288,57 +330,109 @@ export default function LoginScreen({
         </h1>
         <p className="text-[#cbd5f5] text-center mb-8">Sign in to continue</p>
 
-        <form onSubmit={handleSubmit} className="space-y-6">
-          <div className="space-y-2">
-            <Label htmlFor="username" className="text-white">
-              Username / Badge ID
-            </Label>
-            <Input
-              id="username"
-              type="text"
-              value={username}
-              onChange={handleUsernameChange}
-              placeholder="Enter username or badge ID"
-              className="bg-white/10 border-white/30 text-white placeholder:text-white/50 focus:border-blue-400 focus:ring-blue-400"
-              disabled={isLoading}
-            />
-          </div>
+        {secondFactorUser ? (
+          <form onSubmit={handleSecondFactorSubmit} className="space-y-6">
+            <div className="flex items-start gap-3">
+              <KeyRound
+                className="h-6 w-6 mt-0.5"
+                style={{ color: "#fbbf24" }}
+              />
+              <p className="text-[#cbd5f5] text-sm">
+                {secondFactorUser.displayName} ({secondFactorUser.role}) — enter
+                your badge PIN or the 6-digit code from your authenticator app.
+              </p>
+            </div>
 
-          <div className="space-y-2">
-            <Label htmlFor="password" className="text-white">
-              Password
-            </Label>
-            <Input
-              id="password"
-              type="password"
-              value={password}
-              onChange={(e) => setPassword(e.target.value)}
-              placeholder="Enter password"
-              className="bg-white/10 border-white/30 text-white placeholder:text-white/50 focus:border-blue-400 focus:ring-blue-400"
-              disabled={isLoading}
-            />
-          </div>
+            <div className="space-y-2">
+              <Label htmlFor="second-factor" className="text-white">
+                PIN or Code
+              </Label>
+              <Input
+                id="second-factor"
+                type="password"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                autoFocus
+                value={secondFactorCode}
+                onChange={(e) => setSecondFactorCode(e.target.value)}
+                placeholder="Enter PIN or code"
+                className="bg-white/10 border-white/30 text-white placeholder:text-white/50 focus:border-blue-400 focus:ring-blue-400"
+                disabled={isLoading}
+              />
+            </div>
 
-          <div className="space-y-3">
-            <Button
-              type="submit"
-              className="w-full bg-blue-600 hover:bg-blue-700 text-white font-semibold py-6 text-lg"
-              disabled={isLoading}
-            >
-              {isLoading ? "Signing In..." : "Sign In"}
-            </Button>
+            <div className="space-y-3">
+              <Button
+                type="submit"
+                className="w-full bg-blue-600 hover:bg-blue-700 text-white font-semibold py-6 text-lg"
+                disabled={isLoading || !secondFactorCode.trim()}
+              >
+                {isLoading ? "Verifying..." : "Verify"}
+              </Button>
+              <Button
+                type="button"
+                onClick={handleCancelSecondFactor}
+                variant="outline"
+                className="w-full bg-white/10 hover:bg-white/20 text-white border-white/30 font-semibold py-6 text-lg"
+                disabled={isLoading}
+              >
+                Cancel
+              </Button>
+            </div>
+          </form>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-6">
+            <div className="space-y-2">
+              <Label htmlFor="username" className="text-white">
+                Username / Badge ID
+              </Label>
+              <Input
+                id="username"
+                type="text"
+                value={username}
+                onChange={handleUsernameChange}
+                placeholder="Enter username or badge ID"
+                className="bg-white/10 border-white/30 text-white placeholder:text-white/50 focus:border-blue-400 focus:ring-blue-400"
+                disabled={isLoading}
+              />
+            </div>
 
-            <Button
-              type="button"
-              onClick={handleOpenScanner}
-              variant="outline"
-              className="w-full bg-white/10 hover:bg-white/20 text-white border-white/30 font-semibold py-6 text-lg"
-              disabled={isLoading}
-            >
-              Scan Badge to Sign In
-            </Button>
-          </div>
-        </form>
+            <div className="space-y-2">
+              <Label htmlFor="password" className="text-white">
+                Password
+              </Label>
+              <Input
+                id="password"
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                placeholder="Enter password"
+                className="bg-white/10 border-white/30 text-white placeholder:text-white/50 focus:border-blue-400 focus:ring-blue-400"
+                disabled={isLoading}
+              />
+            </div>
+
+            <div className="space-y-3">
+              <Button
+                type="submit"
+                className="w-full bg-blue-600 hover:bg-blue-700 text-white font-semibold py-6 text-lg"
+                disabled={isLoading}
+              >
+                {isLoading ? "Signing In..." : "Sign In"}
+              </Button>
+
+              <Button
+                type="button"
+                onClick={handleOpenScanner}
+                variant="outline"
+                className="w-full bg-white/10 hover:bg-white/20 text-white border-white/30 font-semibold py-6 text-lg"
+                disabled={isLoading}
+              >
+                Scan Badge to Sign In
+              </Button>
+            </div>
+          </form>
+        )}
 
         <div className="mt-6 pt-6 border-t border-white/20">
           <p className="text-[#cbd5f5] text-xs text-center">
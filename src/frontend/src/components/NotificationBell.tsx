@@ -0,0 +1,135 @@
+import { Bell } from "lucide-react";
+import { useEffect, useState } from "react";
+import { useAuth } from "../contexts/AuthContext";
+import {
+  type AppNotification,
+  getNotificationsFor,
+  markNotificationsRead,
+  subscribeToNotifications,
+} from "../lib/notificationStore";
+import { Button } from "./ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "./ui/popover";
+
+// Most recent notifications listed in the panel
+const VISIBLE_NOTIFICATIONS = 20;
+
+/**
+ * Floating bell with the signed-in user's notifications (overdue checkouts
+ * and the like)
+ */
+export default function NotificationBell() {
+  const { auth } = useAuth();
+  const badgeId = auth ? auth.badgeId || auth.user : "";
+  const role = auth?.role ?? "";
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+
+  useEffect(() => {
+    if (!badgeId) return;
+
+    const load = () => setNotifications(getNotificationsFor(badgeId, role));
+    load();
+    return subscribeToNotifications(load);
+  }, [badgeId, role]);
+
+  if (!auth) return null;
+
+  const unread = notifications.filter((n) => !n.readBy.includes(badgeId));
+  const visible = notifications.slice(0, VISIBLE_NOTIFICATIONS);
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          className="fixed bottom-4 right-4 z-40 flex items-center gap-2 bg-slate-900/95 text-white px-4 py-2 rounded-lg shadow-lg"
+          aria-label={`Notifications (${unread.length} unread)`}
+        >
+          <Bell className="h-4 w-4" />
+          {unread.length > 0 && (
+            <span
+              className="rounded-full px-2 text-xs font-bold"
+              style={{ background: "#fbbf24", color: "#0f172a" }}
+            >
+              {unread.length}
+            </span>
+          )}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent
+        align="end"
+        className="w-96 p-0"
+        style={{
+          background: "rgba(15, 23, 42, 0.98)",
+          borderColor: "rgba(255,255,255,0.18)",
+        }}
+      >
+        <div
+          className="flex items-center justify-between border-b px-4 py-3"
+          style={{ borderColor: "rgba(255,255,255,0.1)" }}
+        >
+          <p className="font-semibold" style={{ color: "#ffffff" }}>
+            Notifications
+          </p>
+          <Button
+            size="sm"
+            variant="ghost"
+            style={{ color: "#cbd5f5" }}
+            disabled={unread.length === 0}
+            onClick={() =>
+              markNotificationsRead(
+                unread.map((n) => n.id),
+                badgeId,
+              )
+            }
+          >
+            Mark all read
+          </Button>
+        </div>
+        {visible.length === 0 ? (
+          <p className="px-4 py-6 text-sm" style={{ color: "#cbd5f5" }}>
+            No notifications.
+          </p>
+        ) : (
+          <ul className="max-h-96 overflow-y-auto">
+            {visible.map((notification) => {
+              const isUnread = !notification.readBy.includes(badgeId);
+              return (
+                <li
+                  key={notification.id}
+                  className="border-b px-4 py-3"
+                  style={{
+                    borderColor: "rgba(255,255,255,0.1)",
+                    background: isUnread
+                      ? "rgba(251, 191, 36, 0.08)"
+                      : undefined,
+                  }}
+                >
+                  <button
+                    type="button"
+                    className="w-full text-left"
+                    onClick={() =>
+                      markNotificationsRead([notification.id], badgeId)
+                    }
+                  >
+                    <p
+                      className="text-sm font-medium"
+                      style={{ color: isUnread ? "#fbbf24" : "#ffffff" }}
+                    >
+                      {notification.title}
+                    </p>
+                    <p className="text-sm" style={{ color: "#cbd5f5" }}>
+                      {notification.message}
+                    </p>
+                    <p className="text-xs mt-1" style={{ color: "#cbd5f5" }}>
+                      {new Date(notification.createdAt).toLocaleString()}
+                    </p>
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
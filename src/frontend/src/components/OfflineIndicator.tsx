@@ -1,8 +1,44 @@
-import { Wifi, WifiOff } from "lucide-react";
+import { AlertTriangle, CloudUpload, WifiOff } from "lucide-react";
 import { useEffect, useState } from "react";
+import type { ActivityLog, Assignment, Equipment, Issue } from "../backend";
+import { useOutboxSync } from "../hooks/useOutboxSync";
+import { type OutboxEntry, resolveConflict } from "../lib/offlineOutbox";
+import { Button } from "./ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "./ui/dialog";
+
+// Helper to describe a queued mutation for display
+const describeEntry = (entry: OutboxEntry): string => {
+  switch (entry.kind) {
+    case "createAssignment": {
+      const assignment = entry.payload as Assignment;
+      return `Assignment ${assignment.action} for ${assignment.equipment_id}`;
+    }
+    case "addEquipment":
+      return `New equipment ${(entry.payload as Equipment).id}`;
+    case "updateEquipment": {
+      const equipment = entry.payload as Equipment;
+      return `Equipment ${equipment.id} → ${equipment.status}`;
+    }
+    case "logActivity":
+      return `Activity: ${(entry.payload as ActivityLog).details}`;
+    case "reportIssue":
+    case "updateIssue": {
+      const issue = entry.payload as Pick<Issue, "equipment_id" | "status">;
+      return `Issue ${entry.kind === "reportIssue" ? "report" : `update (${issue.status})`} for ${issue.equipment_id}`;
+    }
+  }
+};
 
 export default function OfflineIndicator() {
   const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const [showConflicts, setShowConflicts] = useState(false);
+  const { pending, conflicts, replay } = useOutboxSync();
 
   useEffect(() => {
     const handleOnline = () => {
@@ -24,14 +60,116 @@ export default function OfflineIndicator() {
     };
   }, []);
 
-  if (isOnline) {
+  const handleResolve = async (
+    entry: OutboxEntry,
+    resolution: "retry" | "discard",
+  ) => {
+    await resolveConflict(entry.seq, resolution);
+    if (resolution === "retry") {
+      await replay();
+    }
+  };
+
+  if (isOnline && pending === 0 && conflicts.length === 0) {
     return null;
   }
 
   return (
-    <div className="fixed top-4 right-4 z-50 flex items-center gap-2 bg-red-900/95 text-white px-4 py-2 rounded-lg shadow-lg">
-      <WifiOff className="h-4 w-4" />
-      <span className="text-sm font-medium">No Internet Connection</span>
-    </div>
+    <>
+      <div className="fixed top-4 right-4 z-50 flex flex-col items-end gap-2">
+        {!isOnline && (
+          <div className="flex items-center gap-2 bg-red-900/95 text-white px-4 py-2 rounded-lg shadow-lg">
+            <WifiOff className="h-4 w-4" />
+            <span className="text-sm font-medium">No Internet Connection</span>
+          </div>
+        )}
+        {pending > 0 && (
+          <div className="flex items-center gap-2 bg-slate-900/95 text-white px-4 py-2 rounded-lg shadow-lg">
+            <CloudUpload className="h-4 w-4" />
+            <span className="text-sm font-medium">
+              {pending} change{pending === 1 ? "" : "s"} waiting to sync
+            </span>
+          </div>
+        )}
+        {conflicts.length > 0 && (
+          <button
+            type="button"
+            className="flex items-center gap-2 bg-amber-700/95 text-white px-4 py-2 rounded-lg shadow-lg"
+            onClick={() => setShowConflicts(true)}
+          >
+            <AlertTriangle className="h-4 w-4" />
+            <span className="text-sm font-medium">
+              {conflicts.length} sync conflict
+              {conflicts.length === 1 ? "" : "s"}
+            </span>
+          </button>
+        )}
+      </div>
+
+      <Dialog open={showConflicts} onOpenChange={setShowConflicts}>
+        <DialogContent
+          className="max-w-2xl max-h-[80vh] overflow-y-auto"
+          style={{
+            background: "rgba(15, 23, 42, 0.98)",
+            borderColor: "rgba(255,255,255,0.18)",
+          }}
+        >
+          <DialogHeader>
+            <DialogTitle style={{ color: "#ffffff" }}>
+              Sync Conflicts
+            </DialogTitle>
+            <DialogDescription style={{ color: "#cbd5f5" }}>
+              These offline changes could not be applied to the backend. Retry
+              to apply them as recorded, or discard them.
+            </DialogDescription>
+          </DialogHeader>
+          {conflicts.length === 0 ? (
+            <p className="text-sm" style={{ color: "#cbd5f5" }}>
+              No conflicts remaining.
+            </p>
+          ) : (
+            <div className="space-y-3">
+              {conflicts.map((entry) => (
+                <div
+                  key={entry.seq}
+                  className="p-3 rounded-lg border"
+                  style={{
+                    background: "rgba(30, 41, 59, 0.5)",
+                    borderColor: "rgba(255,255,255,0.1)",
+                  }}
+                >
+                  <p className="font-medium" style={{ color: "#ffffff" }}>
+                    {describeEntry(entry)}
+                  </p>
+                  {entry.lastError && (
+                    <p className="text-sm mt-1" style={{ color: "#fca5a5" }}>
+                      {entry.lastError}
+                    </p>
+                  )}
+                  <p className="text-xs mt-1" style={{ color: "#cbd5f5" }}>
+                    Queued {new Date(entry.enqueuedAt).toLocaleString()}
+                  </p>
+                  <div className="flex gap-2 mt-3">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleResolve(entry, "discard")}
+                    >
+                      Discard
+                    </Button>
+                    <Button
+                      size="sm"
+                      onClick={() => handleResolve(entry, "retry")}
+                    >
+                      Retry
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
   );
 }
@@ -0,0 +1,235 @@
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  AlertCircle,
+  Camera,
+  KeyRound,
+  Loader2,
+  Lock,
+  LogOut,
+} from "lucide-react";
+import { useCallback, useRef, useState } from "react";
+import { useAuth } from "../contexts/AuthContext";
+import { parseBadgeId } from "../lib/parseBadge";
+import { requiresSecondFactor } from "../lib/secondFactor";
+import { validateBadgeScan } from "../lib/userStore";
+import EquipmentQRScanner from "./EquipmentQRScanner";
+
+/**
+ * Full-screen lock shown over the current screen after inactivity or when
+ * the operator taps "Switch Operator". The signed-in badge unlocks; any other
+ * badge switches operator without leaving the screen.
+ */
+export default function SessionLockScreen() {
+  const { auth, unlockWithBadge, logout } = useAuth();
+  const [badgeInput, setBadgeInput] = useState("");
+  const [error, setError] = useState("");
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [showScanner, setShowScanner] = useState(false);
+  // Badge that still needs its PIN or authenticator code
+  const [pendingBadge, setPendingBadge] = useState<string | null>(null);
+  const [secondFactorCode, setSecondFactorCode] = useState("");
+  const scannerMountedRef = useRef(false);
+
+  const handleBadge = useCallback(
+    async (raw: string) => {
+      const badgeId = parseBadgeId(raw);
+      if (!badgeId) {
+        setError("Could not read a badge number. Please scan again.");
+        return;
+      }
+
+      setError("");
+      const user = validateBadgeScan(badgeId);
+      if (user && requiresSecondFactor(user)) {
+        setBadgeInput("");
+        setPendingBadge(badgeId);
+        return;
+      }
+
+      setIsUnlocking(true);
+      try {
+        await unlockWithBadge(badgeId);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Badge not accepted");
+      } finally {
+        setBadgeInput("");
+        setIsUnlocking(false);
+      }
+    },
+    [unlockWithBadge],
+  );
+
+  const handleSecondFactor = async () => {
+    if (!pendingBadge) return;
+
+    setError("");
+    setIsUnlocking(true);
+    try {
+      await unlockWithBadge(pendingBadge, secondFactorCode);
+      setPendingBadge(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Code not accepted");
+    } finally {
+      setSecondFactorCode("");
+      setIsUnlocking(false);
+    }
+  };
+
+  const handleScan = useCallback(
+    (scannedValue: string) => {
+      scannerMountedRef.current = false;
+      setShowScanner(false);
+      void handleBadge(scannedValue);
+    },
+    [handleBadge],
+  );
+
+  const handleCloseScanner = useCallback(() => {
+    scannerMountedRef.current = false;
+    setShowScanner(false);
+  }, []);
+
+  if (showScanner) {
+    return (
+      <div className="fixed inset-0 z-[60]">
+        <EquipmentQRScanner
+          mode="login"
+          title="Scan Badge"
+          onScan={handleScan}
+          onClose={handleCloseScanner}
+        />
+      </div>
+    );
+  }
+
+  return (
+    <div
+      className="fixed inset-0 z-[60] flex items-center justify-center p-6"
+      style={{
+        backgroundImage: "url(/assets/HomescreenBackground.jpg)",
+        backgroundSize: "cover",
+        backgroundPosition: "center",
+      }}
+    >
+      <div className="absolute inset-0 bg-black/70 backdrop-blur-sm" />
+
+      <div
+        className="relative w-full max-w-sm space-y-5 border p-6 shadow-2xl"
+        style={{
+          background: "rgba(15, 23, 42, 0.96)",
+          borderColor: "rgba(255,255,255,0.18)",
+          borderRadius: "16px",
+        }}
+      >
+        <div className="text-center space-y-2">
+          <Lock className="h-10 w-10 mx-auto" style={{ color: "#fbbf24" }} />
+          <h1 className="text-2xl font-bold" style={{ color: "#ffffff" }}>
+            Device Locked
+          </h1>
+          <p className="text-sm" style={{ color: "#cbd5f5" }}>
+            Signed in as {auth?.name ?? "Unknown User"}. Scan your badge to
+            continue, or scan a different badge to switch operator.
+          </p>
+        </div>
+
+        {pendingBadge ? (
+          <form
+            className="space-y-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (secondFactorCode.trim()) void handleSecondFactor();
+            }}
+          >
+            <Label
+              htmlFor="lock-second-factor"
+              className="flex items-center gap-2"
+              style={{ color: "#cbd5f5" }}
+            >
+              <KeyRound className="h-4 w-4" />
+              PIN or authenticator code for badge {pendingBadge}
+            </Label>
+            <Input
+              id="lock-second-factor"
+              type="password"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              autoFocus
+              value={secondFactorCode}
+              disabled={isUnlocking}
+              onChange={(e) => setSecondFactorCode(e.target.value)}
+              placeholder="Enter PIN or code"
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              className="w-full"
+              style={{ color: "#cbd5f5" }}
+              disabled={isUnlocking}
+              onClick={() => {
+                setPendingBadge(null);
+                setSecondFactorCode("");
+                setError("");
+              }}
+            >
+              Use a different badge
+            </Button>
+          </form>
+        ) : (
+          <form
+            className="space-y-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (badgeInput.trim()) void handleBadge(badgeInput);
+            }}
+          >
+            <Label htmlFor="lock-badge" style={{ color: "#cbd5f5" }}>
+              Badge
+            </Label>
+            <Input
+              id="lock-badge"
+              autoFocus
+              autoComplete="off"
+              inputMode="numeric"
+              value={badgeInput}
+              disabled={isUnlocking}
+              onChange={(e) => setBadgeInput(e.target.value)}
+              placeholder="Scan or type badge number"
+            />
+          </form>
+        )}
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <Button
+          className="w-full"
+          disabled={isUnlocking}
+          onClick={() => {
+            if (!scannerMountedRef.current) {
+              scannerMountedRef.current = true;
+              setShowScanner(true);
+            }
+          }}
+        >
+          {isUnlocking ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <Camera className="mr-2 h-4 w-4" />
+          )}
+          Scan Badge with Camera
+        </Button>
+        <Button variant="outline" className="w-full" onClick={logout}>
+          <LogOut className="mr-2 h-4 w-4" />
+          Sign Out
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,23 @@
+import { UserRoundCog } from "lucide-react";
+import { useAuth } from "../contexts/AuthContext";
+
+/**
+ * Floating shortcut that locks the device so the next operator can badge in
+ * without losing the current screen
+ */
+export default function SwitchOperatorButton() {
+  const { auth, lockSession } = useAuth();
+
+  if (!auth) return null;
+
+  return (
+    <button
+      type="button"
+      className="fixed bottom-4 left-4 z-40 flex items-center gap-2 bg-slate-900/95 text-white px-4 py-2 rounded-lg shadow-lg"
+      onClick={lockSession}
+    >
+      <UserRoundCog className="h-4 w-4" />
+      <span className="text-sm font-medium">Switch Operator</span>
+    </button>
+  );
+}
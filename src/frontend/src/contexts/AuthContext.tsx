@@ -4,9 +4,30 @@ import {
   useCallback,
   useContext,
   useEffect,
+  useRef,
   useState,
 } from "react";
-import { validateBadgeScan, validateCredentials } from "../data/userRoster";
+import { requiresSecondFactor, verifySecondFactor } from "../lib/secondFactor";
+import { getSessionEndReason, getSessionPolicy } from "../lib/sessionPolicy";
+import {
+  type StoredSession,
+  clearSession,
+  migrateLegacySession,
+  readSession,
+  subscribeToSession,
+  writeSession,
+} from "../lib/sessionStore";
+import {
+  getActiveStationCode,
+  getUserStations,
+  setActiveStation,
+} from "../lib/stationStore";
+import {
+  isSessionUserActive,
+  resolveSessionRole,
+  validateBadgeScan,
+  validateCredentials,
+} from "../lib/userStore";
 
 // Export unique instance ID for debugging
 export const AUTH_CONTEXT_INSTANCE_ID = `AuthContext@${Math.random().toString(36).slice(2)}`;
@@ -29,8 +50,18 @@ interface AuthContextType {
     username: string;
     password: string;
     badge?: string;
+    // PIN or authenticator code for roles that need a second factor
+    secondFactor?: string;
   }) => Promise<void>;
   logout: () => void;
+  // True while the device is locked to the badge re-scan screen
+  isLocked: boolean;
+  lockSession: () => void;
+  // Unlock with the signed-in badge, or switch to another operator in place
+  unlockWithBadge: (badge: string, secondFactor?: string) => Promise<void>;
+  // Wall displays nobody touches: suspends the idle lock and the session
+  // lifetime and shift change limits while enabled
+  setKioskMode: (enabled: boolean) => void;
   refreshSession: () => Promise<boolean>;
   clearAuth: () => void;
   setAuth: (authData: AuthState) => void;
@@ -48,6 +79,10 @@ const defaultAuthContext: AuthContextType = {
     console.error("[AuthContext] login called before provider mounted");
   },
   logout: () => {},
+  isLocked: false,
+  lockSession: () => {},
+  unlockWithBadge: async () => {},
+  setKioskMode: () => {},
   refreshSession: async () => false,
   clearAuth: () => {},
   setAuth: () => {},
@@ -56,8 +91,27 @@ const defaultAuthContext: AuthContextType = {
 
 const AuthContext = createContext<AuthContextType>(defaultAuthContext);
 
-// Single storage key - ramptrack_v2_session is the ONLY key
-const STORAGE_KEY = "ramptrack_v2_session";
+// Survives reloads so a locked device cannot be unlocked by refreshing
+const LOCK_KEY = "ramptrack_session_locked";
+// Hash route of the ramp control wall display (App.tsx)
+const KIOSK_ROUTE = "rampControl";
+
+// Whether the page is opening on the kiosk display, so reloading it keeps its
+// session. Every other route applies the session limits at boot.
+function isKioskRoute(): boolean {
+  return window.location.hash.slice(1).split("/")[0] === KIOSK_ROUTE;
+}
+
+// In-memory auth state for a persisted session, with the same role the
+// store permission checks use (resolveSessionRole)
+function toAuthState(session: StoredSession): AuthState {
+  return {
+    user: session.username,
+    role: resolveSessionRole(session),
+    badgeId: session.badgeId || session.username,
+    name: session.displayName || session.username || "Signed out",
+  };
+}
 
 export function AuthProvider({ children }: { children: ReactNode }) {
   console.log(
@@ -70,80 +124,45 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const [hydrationCompleted, setHydrationCompleted] = useState(false);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [loginError, setLoginError] = useState<string | null>(null);
+  const [isLocked, setIsLocked] = useState(
+    () => localStorage.getItem(LOCK_KEY) === "1",
+  );
+  const kioskModeRef = useRef(false);
 
   // Main hydration logic - sets hydrationCompleted = true at the end
   useEffect(() => {
     console.log("[AUTH] AUTH_BOOT_START");
 
     try {
-      // Read from ramptrack_v2_session key
-      const storedAuthJson = localStorage.getItem(STORAGE_KEY);
+      // Sessions stored under older keys are converted first
+      const session = migrateLegacySession();
 
-      // Sanitize: check for null, "undefined", or empty string BEFORE parsing
-      if (
-        storedAuthJson === null ||
-        storedAuthJson === "undefined" ||
-        storedAuthJson === ""
-      ) {
-        console.log(
-          '[AUTH] No valid stored session found (null, "undefined", or empty)',
-        );
-        // Skip parsing entirely - no valid data
+      if (!session) {
+        console.log("[AUTH] No valid stored session found");
       } else {
-        // Wrap JSON parsing in try-catch for error handling
-        try {
-          const storedData = JSON.parse(storedAuthJson);
-
-          if (storedData?.username) {
-            console.log(
-              "[AUTH] Successfully parsed from ramptrack_v2_session:",
-              storedData,
-            );
-
-            // Construct authData from ramptrack_v2_session
-            const authData: AuthState = {
-              user: storedData.username,
-              role:
-                storedData.roles && Array.isArray(storedData.roles)
-                  ? storedData.roles[0]
-                  : "guest",
-              badgeId: storedData.badgeId || storedData.username,
-              name:
-                storedData.displayName || storedData.username || "Signed out",
-            };
-
-            console.log(
-              "[AUTH] Constructed authData from ramptrack_v2_session:",
-              authData,
-            );
-            console.log("[AUTH] AUTH_SET");
-
-            // Set auth state synchronously
-            setAuthState(authData);
-          } else {
-            // ramptrack_v2_session exists but is invalid - remove it
-            console.warn(
-              "[AUTH] ramptrack_v2_session exists but invalid structure, removing",
-            );
-            try {
-              localStorage.removeItem(STORAGE_KEY);
-            } catch (e) {
-              console.warn("[AUTH] Failed to remove invalid key:", e);
-            }
-          }
-        } catch (parseError) {
-          // JSON.parse threw an error - corrupted data
-          console.error(
-            "[AUTH] Failed to parse localStorage data:",
-            parseError,
+        const endReason = isKioskRoute()
+          ? null
+          : getSessionEndReason(session.startedAt);
+
+        // Users deactivated since they signed in lose their session
+        if (!isSessionUserActive(session)) {
+          console.warn(
+            "[AUTH] Stored session belongs to a deactivated user, removing",
           );
-          // Remove corrupted data
-          try {
-            localStorage.removeItem(STORAGE_KEY);
-            console.log("[AUTH] Removed corrupted ramptrack_v2_session key");
-          } catch (e) {
-            console.warn("[AUTH] Failed to remove corrupted key:", e);
-          }
+          clearSession();
+        } else if (endReason) {
+          console.log("[AUTH] Stored session ended:", endReason);
+          clearSession();
+          localStorage.removeItem(LOCK_KEY);
+          setIsLocked(false);
+          setLoginError(endReason);
+        } else {
+          const authData = toAuthState(session);
+          console.log("[AUTH] Restored stored session:", authData);
+          console.log("[AUTH] AUTH_SET");
+
+          // Set auth state synchronously
+          setAuthState(authData);
         }
       }
     } catch (error) {
@@ -171,13 +190,34 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   }, [hydrationCompleted]);
 
+  // Follow sign-ins, operator switches and sign-outs made in other tabs
+  useEffect(
+    () =>
+      subscribeToSession((session) => {
+        setAuthState((current) => {
+          if (!session) return null;
+          const next = toAuthState(session);
+          return current &&
+            current.user === next.user &&
+            current.role === next.role &&
+            current.badgeId === next.badgeId &&
+            current.name === next.name
+            ? current
+            : next;
+        });
+      }),
+    [],
+  );
+
   // Clear authentication state
   const clearAuthState = useCallback(() => {
     setAuthState(null);
+    setIsLocked(false);
 
-    console.log("[AUTH] Clearing storage key");
+    console.log("[AUTH] Clearing stored session");
 
-    localStorage.removeItem(STORAGE_KEY);
+    clearSession();
+    localStorage.removeItem(LOCK_KEY);
   }, []);
 
   // Set auth function - explicitly sets auth state with proper structure
@@ -199,24 +239,18 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     // Update in-memory state FIRST
     setAuthState(validatedAuth);
 
-    // Write to ramptrack_v2_session key
-    const storageData = {
-      username: validatedAuth.badgeId || validatedAuth.user,
-      roles: [validatedAuth.role],
-      displayName: validatedAuth.name,
+    // Persist, keeping the start time and token of the current session
+    const current = readSession();
+    writeSession({
+      username: validatedAuth.user,
       badgeId: validatedAuth.badgeId,
-    };
-
-    const storageJson = JSON.stringify(storageData);
-    localStorage.setItem(STORAGE_KEY, storageJson);
+      displayName: validatedAuth.name,
+      role: validatedAuth.role,
+      startedAt: current?.startedAt,
+      token: current?.token,
+    });
 
-    console.log("[AUTH] Wrote session to ramptrack_v2_session");
-    console.log("[AUTH WRITE] origin=", window.location.origin);
-    console.log(
-      "[AUTH WRITE] ramptrack_v2_session readback=",
-      localStorage.getItem(STORAGE_KEY),
-    );
-    console.log("[AUTH WRITE] localStorage keys=", Object.keys(localStorage));
+    console.log("[AUTH] Wrote session");
 
     console.log("[AUTH] Session write complete:", {
       user: validatedAuth.user,
@@ -235,6 +269,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       username: string;
       password: string;
       badge?: string;
+      secondFactor?: string;
     }) => {
       console.log("[AUTH] AUTH_LOGIN_START");
 
@@ -242,12 +277,10 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       setLoginError(null);
 
       try {
-        const { username, password, badge } = credentials;
+        const { username, password, badge, secondFactor } = credentials;
 
         // 1. LOCAL VALIDATION - Validate credentials immediately
-        let user:
-          | ReturnType<typeof validateBadgeScan>
-          | ReturnType<typeof validateCredentials>;
+        let user: ReturnType<typeof validateBadgeScan>;
         if (badge) {
           console.log("[AUTH] Validating badge:", badge);
           user = validateBadgeScan(badge);
@@ -257,9 +290,18 @@ export function AuthProvider({ children }: { children: ReactNode }) {
             setLoginError(errorMsg);
             throw new Error(errorMsg);
           }
+          if (requiresSecondFactor(user)) {
+            const result = await verifySecondFactor(user, secondFactor);
+            if (!result.success) {
+              const errorMsg = result.error ?? "Second factor not accepted";
+              console.error("[AUTH] AUTH_LOGIN_FAIL:", errorMsg);
+              setLoginError(errorMsg);
+              throw new Error(errorMsg);
+            }
+          }
         } else {
           console.log("[AUTH] Validating credentials for:", username);
-          user = validateCredentials(username, password);
+          user = await validateCredentials(username, password);
           if (!user) {
             const errorMsg = "Invalid username or password";
             console.error("[AUTH] AUTH_LOGIN_FAIL:", errorMsg);
@@ -284,29 +326,23 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         setAuthState(authData);
         console.log("[AUTH] AUTH_SET (immediate after validation)");
 
-        // 4. PERSISTENCE - Write to ramptrack_v2_session key
+        // Keep the device on a station this user works at
+        const stations = getUserStations(user.badgeId, user.role);
+        if (!stations.includes(getActiveStationCode())) {
+          setActiveStation(stations[0]);
+        }
+
+        // 4. PERSISTENCE - A new sign-in starts a new session
         console.log("[AUTH] WRITE_AUTH_STATE_START");
 
-        const storageData = {
-          username: authData.badgeId || authData.user,
-          roles: [authData.role],
-          displayName: authData.name,
+        writeSession({
+          username: authData.user,
           badgeId: authData.badgeId,
-        };
-        const storageJson = JSON.stringify(storageData);
-
-        localStorage.setItem(STORAGE_KEY, storageJson);
+          displayName: authData.name,
+          role: authData.role,
+        });
 
-        console.log("[AUTH] WRITE_AUTH_STATE_OK - length:", storageJson.length);
-        console.log("[AUTH WRITE] origin=", window.location.origin);
-        console.log(
-          "[AUTH WRITE] ramptrack_v2_session readback=",
-          localStorage.getItem(STORAGE_KEY),
-        );
-        console.log(
-          "[AUTH WRITE] localStorage keys=",
-          Object.keys(localStorage),
-        );
+        console.log("[AUTH] WRITE_AUTH_STATE_OK");
 
         // 5. FIRE-AND-FORGET API CALL - Non-blocking with 10s timeout
         const controller = new AbortController();
@@ -387,6 +423,93 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     console.log("[AUTH] Logout complete - storage key cleared");
   }, [clearAuthState]);
 
+  const lockSession = useCallback(() => {
+    localStorage.setItem(LOCK_KEY, "1");
+    setIsLocked(true);
+  }, []);
+
+  const unlockWithBadge = useCallback(
+    async (badge: string, secondFactor?: string) => {
+      const user = validateBadgeScan(badge);
+      if (!user) {
+        throw new Error(`Badge ${badge} not found in system`);
+      }
+
+      // A different badge switches operator without leaving the screen
+      if (!auth || user.badgeId !== auth.badgeId) {
+        console.log("[AUTH] Switching operator to", user.badgeId);
+        await login({
+          username: user.email || user.badgeId,
+          password: "badge-scan",
+          badge: user.badgeId,
+          secondFactor,
+        });
+      } else if (requiresSecondFactor(user)) {
+        const result = await verifySecondFactor(user, secondFactor);
+        if (!result.success) {
+          throw new Error(result.error ?? "Second factor not accepted");
+        }
+      }
+
+      localStorage.removeItem(LOCK_KEY);
+      setIsLocked(false);
+    },
+    [auth, login],
+  );
+
+  const setKioskMode = useCallback((enabled: boolean) => {
+    kioskModeRef.current = enabled;
+  }, []);
+
+  // Shared devices: end sessions at their lifetime or a shift change, and
+  // lock to a badge re-scan after inactivity. Kiosk displays are exempt from
+  // all three; leaving kiosk mode applies them again at the next check.
+  useEffect(() => {
+    if (!auth) return;
+
+    let lastActivity = Date.now();
+    const markActive = () => {
+      lastActivity = Date.now();
+    };
+    const activityEvents = ["pointerdown", "keydown", "touchstart"] as const;
+    for (const event of activityEvents) {
+      window.addEventListener(event, markActive, { passive: true });
+    }
+
+    const interval = setInterval(() => {
+      // Deactivation ends every session, kiosk displays included
+      const session = readSession();
+      if (session && !isSessionUserActive(session)) {
+        console.warn("[AUTH] Signed-in user was deactivated, ending session");
+        clearAuthState();
+        setLoginError("Your account has been deactivated.");
+        return;
+      }
+      if (kioskModeRef.current) return;
+
+      const endReason = getSessionEndReason(session?.startedAt);
+      if (endReason) {
+        console.log("[AUTH] Session ended:", endReason);
+        clearAuthState();
+        setLoginError(endReason);
+        return;
+      }
+      if (
+        Date.now() - lastActivity >
+        getSessionPolicy().idleLockMinutes * 60000
+      ) {
+        lockSession();
+      }
+    }, 15000);
+
+    return () => {
+      clearInterval(interval);
+      for (const event of activityEvents) {
+        window.removeEventListener(event, markActive);
+      }
+    };
+  }, [auth, clearAuthState, lockSession]);
+
   // Refresh session function
   const refreshSession = useCallback(async (): Promise<boolean> => {
     if (isRefreshing) {
@@ -407,33 +530,14 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
       const refreshPromise = (async (): Promise<boolean> => {
         try {
-          const storedAuthJson = localStorage.getItem(STORAGE_KEY);
+          const session = readSession();
 
-          if (
-            !storedAuthJson ||
-            storedAuthJson === "undefined" ||
-            storedAuthJson === ""
-          ) {
+          if (!session) {
             console.log("[AUTH] Refresh - no stored session");
             return false;
           }
 
-          const storedData = JSON.parse(storedAuthJson);
-
-          if (!storedData || !storedData.username) {
-            console.log("[AUTH] Refresh - invalid stored data");
-            return false;
-          }
-
-          const authData: AuthState = {
-            user: storedData.username,
-            role:
-              storedData.roles && Array.isArray(storedData.roles)
-                ? storedData.roles[0]
-                : "guest",
-            badgeId: storedData.badgeId || storedData.username,
-            name: storedData.displayName || storedData.username || "Signed out",
-          };
+          const authData = toAuthState(session);
 
           await new Promise((resolve) => setTimeout(resolve, 800));
 
@@ -478,6 +582,10 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     loginError,
     login,
     logout,
+    isLocked,
+    lockSession,
+    unlockWithBadge,
+    setKioskMode,
     refreshSession,
     clearAuth,
     setAuth,
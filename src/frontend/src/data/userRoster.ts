@@ -1,20 +1,28 @@
 /**
- * Full user roster data for authentication and badge lookup.
- * This data is used for validating badge scans and manual logins.
- * DO NOT modify this file - it contains the complete employee database.
+ * Seed user roster for authentication and badge lookup.
+ * The runtime roster in lib/userStore.ts starts from this list and is then
+ * edited by admins, so this file only matters on a fresh device.
+ * Passwords are stored as salted PBKDF2 hashes (see lib/passwordHash.ts).
  */
 
 export interface UserRosterEntry {
   badgeId: string;
   email?: string;
-  password?: string;
+  passwordHash?: string;
   role: "admin" | "manager" | "agent" | "operator";
   displayName: string;
   employeeId: string;
+  // Deactivated users keep their history but can no longer sign in
+  active?: boolean;
+  // Badge PIN hash (see lib/secondFactor.ts, which also keeps the
+  // authenticator secrets outside the roster)
+  pinHash?: string;
+  // Equipment type codes the user is certified to operate
+  certifications?: string[];
 }
 
 /**
- * Complete user roster including all employees.
+ * Seed roster including all employees.
  * Badge 970251 is the manager badge for Jayson James.
  * Demo credentials are included for testing purposes.
  */
@@ -23,7 +31,8 @@ export const USER_ROSTER: UserRosterEntry[] = [
   {
     badgeId: "DEMO001",
     email: "operator@demo.com",
-    password: "test123",
+    passwordHash:
+      "pbkdf2-sha256$210000$lxNbaCUnqmTeRYLOFmmJUA==$yRJGx0vQK4Uad/jCcUrdIkQjJiqzxyjll3ljOGNj36c=",
     role: "agent",
     displayName: "Demo Operator",
     employeeId: "DEMO001",
@@ -33,7 +42,8 @@ export const USER_ROSTER: UserRosterEntry[] = [
   {
     badgeId: "970251",
     email: "970251",
-    password: "test123",
+    passwordHash:
+      "pbkdf2-sha256$210000$F6wEY022Bpeb0IgsB0JoBw==$Mk51aXIc7sPqhUP5ofook4NkrjlkJSXy+1UENnbxA4w=",
     role: "manager",
     displayName: "Jayson James",
     employeeId: "970251",
@@ -43,7 +53,8 @@ export const USER_ROSTER: UserRosterEntry[] = [
   {
     badgeId: "970231",
     email: "admin1@ramptrack.com",
-    password: "admin123",
+    passwordHash:
+      "pbkdf2-sha256$210000$JUXSz57p/oscPMOi8KhXYw==$T2w8Y1vr0WI1u+gm1c0trghSuTaRXs9tzF6NCGT0wqA=",
     role: "admin",
     displayName: "Admin User 1",
     employeeId: "970231",
@@ -51,7 +62,8 @@ export const USER_ROSTER: UserRosterEntry[] = [
   {
     badgeId: "970232",
     email: "admin2@ramptrack.com",
-    password: "admin123",
+    passwordHash:
+      "pbkdf2-sha256$210000$huziElqM4NYrmRXvcEIH7Q==$tVAmgj0fqo58/5sSqNYlHEEhV11KWIMNZcsWBO0sJAs=",
     role: "admin",
     displayName: "Admin User 2",
     employeeId: "970232",
@@ -61,7 +73,8 @@ export const USER_ROSTER: UserRosterEntry[] = [
   {
     badgeId: "970233",
     email: "agent1@ramptrack.com",
-    password: "agent123",
+    passwordHash:
+      "pbkdf2-sha256$210000$xfVd9yAEB9qBZvelt45Y2w==$WQvZjmZSrYeSv6p/KzIGAC5wzWA91+o2g3Ngj0rs0DQ=",
     role: "agent",
     displayName: "Agent User 1",
     employeeId: "970233",
@@ -69,7 +82,8 @@ export const USER_ROSTER: UserRosterEntry[] = [
   {
     badgeId: "970234",
     email: "agent2@ramptrack.com",
-    password: "agent123",
+    passwordHash:
+      "pbkdf2-sha256$210000$cI/vZaFpsoxcu+ZhpuPETg==$qF2P4IKMdWq0V5vD117FAuov5AZjJP0mIujnMH64W+c=",
     role: "agent",
     displayName: "Agent User 2",
     employeeId: "970234",
@@ -77,7 +91,8 @@ export const USER_ROSTER: UserRosterEntry[] = [
   {
     badgeId: "970235",
     email: "agent3@ramptrack.com",
-    password: "agent123",
+    passwordHash:
+      "pbkdf2-sha256$210000$iLeLb75ML4iWMjSIyB1Y3w==$iVkMVqKF9TFVn8t9Ge87MvgKYldSYhjB8IpSioZndvA=",
     role: "agent",
     displayName: "Agent User 3",
     employeeId: "970235",
@@ -178,68 +193,6 @@ export const USER_ROSTER: UserRosterEntry[] = [
   },
 ];
 
-/**
- * Normalize string for comparison - trim whitespace and convert to string.
- * Ensures consistent string handling across all authentication methods.
- */
-function normalizeString(input: string | undefined | null): string {
-  return String(input || "").trim();
-}
-
-/**
- * Lookup user by badge ID with string normalization.
- * Returns user data if badge exists in roster, null otherwise.
- */
-export function lookupUserByBadge(badgeId: string): UserRosterEntry | null {
-  const normalizedInput = normalizeString(badgeId);
-  return (
-    USER_ROSTER.find(
-      (user) => normalizeString(user.badgeId) === normalizedInput,
-    ) || null
-  );
-}
-
-/**
- * Lookup user by email or username with string normalization.
- * Returns user data if email/username exists in roster, null otherwise.
- */
-export function lookupUserByEmail(email: string): UserRosterEntry | null {
-  const normalizedInput = normalizeString(email).toLowerCase();
-  return (
-    USER_ROSTER.find((user) => {
-      const normalizedEmail = normalizeString(user.email).toLowerCase();
-      const normalizedBadge = normalizeString(user.badgeId).toLowerCase();
-      return (
-        normalizedEmail === normalizedInput ||
-        normalizedBadge === normalizedInput
-      );
-    }) || null
-  );
-}
-
-/**
- * Validate user credentials (email/username + password) with string normalization.
- * Returns user data if credentials are valid, null otherwise.
- */
-export function validateCredentials(
-  email: string,
-  password: string,
-): UserRosterEntry | null {
-  const user = lookupUserByEmail(email);
-  if (!user || !user.password) {
-    return null;
-  }
-  return user.password === password ? user : null;
-}
-
-/**
- * Validate badge scan with string normalization.
- * Returns user data if badge exists in roster, null otherwise.
- */
-export function validateBadgeScan(badgeId: string): UserRosterEntry | null {
-  return lookupUserByBadge(badgeId);
-}
-
 /**
  * Get demo credentials for UI display only.
  * This is the ONLY credential that should be shown in the UI.
@@ -0,0 +1,26 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+  type Station,
+  getActiveStationCode,
+  getStation,
+  setActiveStation,
+  subscribeToStationChange,
+} from "../lib/stationStore";
+
+/**
+ * The station the app is scoped to, re-rendering when it is switched
+ */
+export function useActiveStation() {
+  const [stationCode, setStationCode] = useState(getActiveStationCode);
+
+  useEffect(() => subscribeToStationChange(setStationCode), []);
+
+  const switchStation = useCallback(
+    (code: string) => setActiveStation(code),
+    [],
+  );
+
+  const station: Station | null = getStation(stationCode);
+
+  return { stationCode, station, switchStation };
+}
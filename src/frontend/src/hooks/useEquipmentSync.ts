@@ -0,0 +1,51 @@
+import { useQueryClient } from "@tanstack/react-query";
+import { useCallback, useEffect, useState } from "react";
+import {
+  type EquipmentSyncReport,
+  SYNC_INTERVAL_MS,
+  subscribeToSyncReport,
+  syncEquipment,
+} from "../lib/equipmentSync";
+import { useActor } from "./useActor";
+
+/**
+ * Reconciles the local equipment registry with the backend on startup, on an
+ * interval and on reconnect. Pass enabled=false to only observe the report.
+ */
+export function useEquipmentSync(enabled = true) {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+  const [report, setReport] = useState<EquipmentSyncReport | null>(null);
+  const [isSyncing, setIsSyncing] = useState(false);
+
+  useEffect(() => subscribeToSyncReport(setReport), []);
+
+  const syncNow = useCallback(async () => {
+    if (!actor || !navigator.onLine) return;
+
+    setIsSyncing(true);
+    try {
+      await syncEquipment(actor);
+      queryClient.invalidateQueries({ queryKey: ["equipment"] });
+    } finally {
+      setIsSyncing(false);
+    }
+  }, [actor, queryClient]);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    void syncNow();
+    const interval = setInterval(() => void syncNow(), SYNC_INTERVAL_MS);
+
+    const handleOnline = () => void syncNow();
+    window.addEventListener("online", handleOnline);
+
+    return () => {
+      clearInterval(interval);
+      window.removeEventListener("online", handleOnline);
+    };
+  }, [enabled, syncNow]);
+
+  return { report, isSyncing, syncNow };
+}
@@ -0,0 +1,68 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  type EquipmentEvent,
+  type EventQuery,
+  queryEvents,
+  subscribeToEventHistory,
+} from "../lib/equipmentHistory";
+
+/**
+ * Pages through the persistent event store newest-first. Reloads the pages
+ * already shown whenever the query changes or an event is logged.
+ * Pass null to skip loading.
+ */
+export function useEventHistory(query: EventQuery | null, pageSize = 25) {
+  const [events, setEvents] = useState<EquipmentEvent[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | undefined>();
+  const [isLoading, setIsLoading] = useState(query !== null);
+  const loadedCount = useRef(pageSize);
+
+  // Stable dependency for object queries built inline by callers
+  const queryKey = JSON.stringify(query);
+
+  const reload = useCallback(async () => {
+    const current = JSON.parse(queryKey) as EventQuery | null;
+    if (!current) {
+      setEvents([]);
+      setNextCursor(undefined);
+      setIsLoading(false);
+      return;
+    }
+
+    try {
+      const page = await queryEvents(current, loadedCount.current);
+      setEvents(page.events);
+      setNextCursor(page.nextCursor);
+    } catch (error) {
+      console.error("[useEventHistory] Failed to load events:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [queryKey]);
+
+  useEffect(() => {
+    loadedCount.current = pageSize;
+    setIsLoading(true);
+    void reload();
+    return subscribeToEventHistory(() => void reload());
+  }, [reload, pageSize]);
+
+  const loadMore = useCallback(async () => {
+    const current = JSON.parse(queryKey) as EventQuery | null;
+    if (!current || !nextCursor) return;
+
+    setIsLoading(true);
+    try {
+      const page = await queryEvents(current, pageSize, nextCursor);
+      setEvents((prev) => [...prev, ...page.events]);
+      setNextCursor(page.nextCursor);
+      loadedCount.current += page.events.length;
+    } catch (error) {
+      console.error("[useEventHistory] Failed to load more events:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [queryKey, nextCursor, pageSize]);
+
+  return { events, hasMore: !!nextCursor, isLoading, loadMore };
+}
@@ -0,0 +1,92 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { type LocationMatch, getAutoLocation } from "../lib/autoGateLocator";
+import type { Zone } from "../lib/geofenceStore";
+import { type LocationFix, acquireLocation } from "../lib/locationService";
+
+export type LocationSource = "gps" | "manual";
+
+export interface AcquiredLocation {
+  label: string;
+  source: LocationSource;
+  // Smoothed fix for GPS, best raw fix (if any) for a manual pick
+  fix?: LocationFix;
+  match?: LocationMatch;
+}
+
+/**
+ * Drives location capture for check-out and check-in: collects and smooths
+ * fixes, resolves them to a zone, and lets the operator pick a zone manually
+ * when the fix never meets the accuracy threshold.
+ */
+export function useLocationAcquisition() {
+  const [location, setLocation] = useState<AcquiredLocation | null>(null);
+  const [progress, setProgress] = useState<LocationFix | null>(null);
+  const [isAcquiring, setIsAcquiring] = useState(false);
+  const [error, setError] = useState("");
+  const [bestRawFix, setBestRawFix] = useState<LocationFix | undefined>();
+  const abortRef = useRef<AbortController | null>(null);
+
+  const start = useCallback(async () => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    setLocation(null);
+    setProgress(null);
+    setError("");
+    setBestRawFix(undefined);
+    setIsAcquiring(true);
+
+    const result = await acquireLocation(
+      { onProgress: (fix) => !controller.signal.aborted && setProgress(fix) },
+      controller.signal,
+    );
+    if (controller.signal.aborted) return;
+
+    setIsAcquiring(false);
+    setBestRawFix(result.bestRawFix);
+    if (!result.success || !result.fix) {
+      setError(result.error || "Failed to capture GPS location.");
+      return;
+    }
+
+    const match = getAutoLocation(
+      result.fix.lat,
+      result.fix.lng,
+      result.fix.accuracy,
+    );
+    setLocation({ label: match.label, source: "gps", fix: result.fix, match });
+  }, []);
+
+  // Operator-selected zone, recorded as a manual override
+  const selectManual = useCallback(
+    (zone: Zone) => {
+      abortRef.current?.abort();
+      setIsAcquiring(false);
+      setError("");
+      setLocation({ label: zone.label, source: "manual", fix: bestRawFix });
+    },
+    [bestRawFix],
+  );
+
+  const reset = useCallback(() => {
+    abortRef.current?.abort();
+    setLocation(null);
+    setProgress(null);
+    setError("");
+    setBestRawFix(undefined);
+    setIsAcquiring(false);
+  }, []);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  return {
+    location,
+    progress,
+    isAcquiring,
+    error,
+    start,
+    selectManual,
+    reset,
+  };
+}
@@ -0,0 +1,57 @@
+import { useQueryClient } from "@tanstack/react-query";
+import { useCallback, useEffect, useState } from "react";
+import {
+  type OutboxSnapshot,
+  replayOutbox,
+  subscribeToOutbox,
+} from "../lib/offlineOutbox";
+import { useActor } from "./useActor";
+
+/**
+ * Keeps the offline outbox draining: replays queued mutations when the actor
+ * becomes available and whenever the device comes back online.
+ */
+export function useOutboxSync() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+  const [snapshot, setSnapshot] = useState<OutboxSnapshot>({
+    pending: 0,
+    conflicts: [],
+  });
+
+  useEffect(() => subscribeToOutbox(setSnapshot), []);
+
+  const replay = useCallback(async () => {
+    if (!actor || !navigator.onLine) return;
+
+    try {
+      await replayOutbox(actor);
+    } catch (error) {
+      console.error("[useOutboxSync] Replay failed:", error);
+    }
+
+    for (const queryKey of [
+      ["equipment"],
+      ["assignments"],
+      ["issues"],
+      ["activityLogs"],
+    ]) {
+      queryClient.invalidateQueries({ queryKey });
+    }
+  }, [actor, queryClient]);
+
+  // Replay on startup (once the actor exists) and on reconnect
+  useEffect(() => {
+    void replay();
+
+    const handleOnline = () => {
+      console.log("[useOutboxSync] Network online, replaying outbox");
+      void replay();
+    };
+
+    window.addEventListener("online", handleOnline);
+    return () => window.removeEventListener("online", handleOnline);
+  }, [replay]);
+
+  return { ...snapshot, replay };
+}
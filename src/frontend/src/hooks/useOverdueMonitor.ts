@@ -0,0 +1,22 @@
+import { useEffect } from "react";
+import {
+  OVERDUE_CHECK_INTERVAL_MS,
+  checkOverdueCheckouts,
+} from "../lib/overdueCheckouts";
+
+/**
+ * Raises overdue checkout notifications on startup and every minute while
+ * enabled (i.e. while someone is signed in)
+ */
+export function useOverdueMonitor(enabled = true) {
+  useEffect(() => {
+    if (!enabled) return;
+
+    checkOverdueCheckouts();
+    const interval = setInterval(
+      () => checkOverdueCheckouts(),
+      OVERDUE_CHECK_INTERVAL_MS,
+    );
+    return () => clearInterval(interval);
+  }, [enabled]);
+}
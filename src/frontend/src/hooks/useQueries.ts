@@ -1,6 +1,7 @@
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import type { ActivityLog, Assignment, Equipment, Issue } from "../backend";
 import { ensureUserContext } from "../lib/ensureUserContext";
+import { submitMutation } from "../lib/offlineOutbox";
 import { useActor } from "./useActor";
 
 // Equipment queries
@@ -46,8 +47,6 @@ export function useUpdateEquipment() {
 
   return useMutation({
     mutationFn: async (equipment: Equipment) => {
-      if (!actor) throw new Error("Actor not available");
-
       // Validate session before write operation
       // Pass the operator ID if available for badge validation
       const operatorId = equipment.assigned_operator || undefined;
@@ -56,7 +55,11 @@ export function useUpdateEquipment() {
         throw new Error("Authentication validation failed");
       }
 
-      await actor.updateEquipment(equipment);
+      // Route through the offline outbox so writes survive lost signal
+      return submitMutation(actor, {
+        kind: "updateEquipment",
+        payload: equipment,
+      });
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["equipment"] });
@@ -72,8 +75,6 @@ export function useCreateAssignment() {
 
   return useMutation({
     mutationFn: async (assignment: Assignment) => {
-      if (!actor) throw new Error("Actor not available");
-
       // Validate session before write operation
       // Pass the operator ID for badge validation
       const isValid = await ensureUserContext(assignment.operator_id);
@@ -81,7 +82,11 @@ export function useCreateAssignment() {
         throw new Error("Authentication validation failed");
       }
 
-      await actor.createAssignment(assignment);
+      // Route through the offline outbox so writes survive lost signal
+      return submitMutation(actor, {
+        kind: "createAssignment",
+        payload: assignment,
+      });
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["assignments"] });
@@ -116,8 +121,6 @@ export function useReportIssue() {
 
   return useMutation({
     mutationFn: async (issue: Issue) => {
-      if (!actor) throw new Error("Actor not available");
-
       // Validate session before write operation
       // Pass the operator ID for badge validation
       const isValid = await ensureUserContext(issue.operator_id);
@@ -125,7 +128,8 @@ export function useReportIssue() {
         throw new Error("Authentication validation failed");
       }
 
-      await actor.reportIssue(issue);
+      // Route through the offline outbox so writes survive lost signal
+      return submitMutation(actor, { kind: "reportIssue", payload: issue });
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["issues"] });
@@ -141,8 +145,6 @@ export function useUpdateIssue() {
 
   return useMutation({
     mutationFn: async (issue: Issue) => {
-      if (!actor) throw new Error("Actor not available");
-
       // Validate session before write operation (admin only)
       // No badge ID needed for admin operations
       const isValid = await ensureUserContext();
@@ -150,7 +152,8 @@ export function useUpdateIssue() {
         throw new Error("Authentication validation failed");
       }
 
-      await actor.updateIssue(issue);
+      // Route through the offline outbox so writes survive lost signal
+      return submitMutation(actor, { kind: "updateIssue", payload: issue });
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["issues"] });
@@ -185,8 +188,6 @@ export function useLogActivity() {
 
   return useMutation({
     mutationFn: async (activity: ActivityLog) => {
-      if (!actor) throw new Error("Actor not available");
-
       // Validate session before write operation
       // Pass the user ID for badge validation
       const isValid = await ensureUserContext(activity.user_id);
@@ -194,7 +195,8 @@ export function useLogActivity() {
         throw new Error("Authentication validation failed");
       }
 
-      await actor.logActivity(activity);
+      // Route through the offline outbox so writes survive lost signal
+      return submitMutation(actor, { kind: "logActivity", payload: activity });
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["activityLogs"] });
@@ -1,4 +1,5 @@
 import { handleAuthError } from "./ensureUserContext";
+import { getSessionToken } from "./sessionStore";
 
 /**
  * Centralized API client utility for making authenticated requests.
@@ -85,8 +86,8 @@ export async function apiRequest<T>(
     url = `${endpoint}?${queryString}`;
   }
 
-  // Get auth token from localStorage
-  const authToken = localStorage.getItem("ramptrack_auth_token");
+  // Get auth token from the stored session
+  const authToken = getSessionToken();
 
   // Build request headers
   const requestHeaders: Record<string, string> = {
@@ -1,6 +1,9 @@
 // Audit Log Module - Comprehensive scan event tracking system with GPS data
 
-import { useAuth } from "../contexts/AuthContext";
+import { checkPermission } from "./permissions";
+import { readSession } from "./sessionStore";
+import { getActiveStationCode, stationOf } from "./stationStore";
+import { type StoreSchema, migrateStore } from "./storageSchema";
 
 export interface ScanEvent {
   id: string;
@@ -8,9 +11,15 @@ export interface ScanEvent {
   action: "checkin" | "checkout";
   equipmentId: string;
   locationLabel: string;
-  lat: number;
-  lng: number;
-  accuracyMeters: number;
+  // "manual" when the operator picked the zone because GPS was too poor;
+  // absent on events recorded before manual selection existed
+  locationSource?: "gps" | "manual";
+  // Absent when a manual pick was made without any GPS fix
+  lat?: number;
+  lng?: number;
+  accuracyMeters?: number;
+  // Station the scan happened at (absent = default station)
+  stationCode?: string;
   user: {
     badge: string;
     username: string;
@@ -22,49 +31,48 @@ export interface ScanEvent {
 const AUDIT_LOG_KEY = "ramptrack_scan_audit";
 const MAX_AUDIT_EVENTS = 250;
 
+const UNKNOWN_USER: ScanEvent["user"] = {
+  badge: "unknown",
+  username: "unknown",
+  displayName: "Unknown User",
+  roles: ["agent"],
+};
+
+// Audit log payload versions
+export const AUDIT_SCHEMA: StoreSchema = {
+  key: AUDIT_LOG_KEY,
+  label: "Scan audit log",
+  migrations: [
+    {
+      to: 1,
+      description: "Give every scan event an ID and a user",
+      migrate: (data) => {
+        if (!Array.isArray(data)) throw new Error("Audit log is not a list");
+        return data
+          .filter((e) => e && typeof e === "object")
+          .map((e: ScanEvent, index) => ({
+            ...e,
+            id: e.id || `migrated-${Date.parse(e.timestamp) || 0}-${index}`,
+            user: { ...UNKNOWN_USER, ...e.user },
+          }));
+      },
+    },
+  ],
+};
+
+migrateStore(AUDIT_SCHEMA);
+
 /**
- * Get current user from AuthContext or localStorage fallback
+ * Signed-in user from the stored session, for events recorded outside React
  */
 export function getCurrentUser(): ScanEvent["user"] {
-  // Try to get from new AuthContext storage first
-  const authUser = localStorage.getItem("ramptrack_current_user");
-  if (authUser) {
-    try {
-      const user = JSON.parse(authUser);
-      return {
-        badge: user.badge || user.username || "unknown",
-        username: user.username || "unknown",
-        displayName: user.displayName || user.username || "Unknown User",
-        roles: user.roles || ["agent"],
-      };
-    } catch (e) {
-      console.error("Error parsing auth user:", e);
-    }
-  }
-
-  // Fallback to legacy storage
-  const currentUser = localStorage.getItem("currentUser");
-  const currentUserBadge = localStorage.getItem("currentUser_badge");
-
-  if (currentUser) {
-    try {
-      const user = JSON.parse(currentUser);
-      return {
-        badge: currentUserBadge || user.username || "unknown",
-        username: user.username || "unknown",
-        displayName: user.displayName || user.username || "Unknown User",
-        roles: user.roles || ["agent"],
-      };
-    } catch (e) {
-      console.error("Error parsing current user:", e);
-    }
-  }
-
+  const session = readSession();
+  if (!session) return UNKNOWN_USER;
   return {
-    badge: "unknown",
-    username: "unknown",
-    displayName: "Unknown User",
-    roles: ["agent"],
+    badge: session.badgeId || session.username,
+    username: session.username,
+    displayName: session.displayName,
+    roles: [session.role],
   };
 }
 
@@ -86,7 +94,10 @@ export function loadAuditEvents(): ScanEvent[] {
  * Append a new audit event (prepends to array, trims to max 250)
  */
 export function appendAuditEvent(
-  event: Omit<ScanEvent, "id" | "timestamp">,
+  event: Omit<ScanEvent, "id" | "timestamp" | "user"> & {
+    // Defaults to the signed-in user
+    user?: ScanEvent["user"];
+  },
 ): void {
   try {
     const events = loadAuditEvents();
@@ -100,7 +111,9 @@ export function appendAuditEvent(
     const newEvent: ScanEvent = {
       id,
       timestamp: new Date().toISOString(),
+      stationCode: getActiveStationCode(),
       ...event,
+      user: event.user ?? getCurrentUser(),
     };
 
     // Prepend new event (newest first)
@@ -116,6 +129,15 @@ export function appendAuditEvent(
   }
 }
 
+/**
+ * Filter events by station (defaults to the active station)
+ */
+export function getEventsByStation(
+  stationCode: string = getActiveStationCode(),
+): ScanEvent[] {
+  return loadAuditEvents().filter((e) => stationOf(e) === stationCode);
+}
+
 /**
  * Filter events by equipment ID
  */
@@ -141,6 +163,10 @@ export function getEventsByUser(userIdentifier: string): ScanEvent[] {
 /**
  * Clear all audit events (admin only)
  */
-export function clearAuditEvents(): void {
+export function clearAuditEvents(): { success: boolean; error?: string } {
+  const denied = checkPermission("audit.clear");
+  if (denied) return { success: false, error: denied };
+
   localStorage.removeItem(AUDIT_LOG_KEY);
+  return { success: true };
 }
@@ -1,46 +1,33 @@
-// Automatic Gate Location System - GPS-based gate detection using Haversine formula
+// Automatic Gate Location System - GPS-based zone detection
+//
+// Zones come from the active station in the geofence store: circles match
+// within their own radius (Haversine distance), polygons match when the fix
+// is inside them. When several zones match, the highest priority wins and
+// distance breaks ties.
 
-interface GateCoordinate {
-  gate: string;
-  lat: number;
-  lng: number;
+import {
+  type LatLng,
+  type Zone,
+  type ZoneType,
+  getStationZones,
+  getZonePriority,
+} from "./geofenceStore";
+
+export const OUT_OF_AREA_LABEL = "Out of area";
+
+export type LocationConfidence = "high" | "medium" | "low" | "none";
+
+export interface LocationMatch {
+  label: string;
+  zoneId?: string;
+  zoneType?: ZoneType;
+  // Distance from the fix to the zone center (polygon vertex centroid)
+  distanceMeters?: number;
+  confidence: LocationConfidence;
 }
 
-// Internal constant gate coordinate table
-const GATE_COORDINATES: readonly GateCoordinate[] = [
-  { gate: "B1", lat: 33.43652941271447, lng: -111.99648442024326 },
-  { gate: "B2", lat: 33.43668190654748, lng: -111.99705682189241 },
-  { gate: "B3", lat: 33.43673513220326, lng: -111.99651112464439 },
-  { gate: "B4", lat: 33.43688154066052, lng: -111.99706718842459 },
-  { gate: "B5", lat: 33.43718145515051, lng: -111.99650353821168 },
-  { gate: "B6", lat: 33.43741056883996, lng: -111.99706240387128 },
-  { gate: "B7", lat: 33.43737137911717, lng: -111.99651965938126 },
-  { gate: "B8", lat: 33.4376780762007, lng: -111.99706798585063 },
-  { gate: "B9", lat: 33.43776458337843, lng: -111.99654248243465 },
-  { gate: "B10", lat: 33.43794225554831, lng: -111.99706878327603 },
-  { gate: "B11", lat: 33.43794225554789, lng: -111.99654487471129 },
-  { gate: "B12", lat: 33.43803741314922, lng: -111.99696511795754 },
-  { gate: "B13", lat: 33.43805338364498, lng: -111.99676097702903 },
-  { gate: "B14", lat: 33.43804140577353, lng: -111.99689574193673 },
-  { gate: "B15A", lat: 33.43647778584341, lng: -111.99387927676857 },
-  { gate: "B15B", lat: 33.43670936191042, lng: -111.99284421844931 },
-  { gate: "B16", lat: 33.43666411146744, lng: -111.99464161556904 },
-  { gate: "B17", lat: 33.43661220651089, lng: -111.99393350170439 },
-  { gate: "B18", lat: 33.43687040008856, lng: -111.99464480527213 },
-  { gate: "B19", lat: 33.43679587005656, lng: -111.99398294208704 },
-  { gate: "B20", lat: 33.43691964310474, lng: -111.9946527795274 },
-  { gate: "B21", lat: 33.43724438013012, lng: -111.99399410604437 },
-  { gate: "B22", lat: 33.43746530709402, lng: -111.99463364131637 },
-  { gate: "B23", lat: 33.43766760116439, lng: -111.99403397732058 },
-  { gate: "B24", lat: 33.43766627028742, lng: -111.99465756408296 },
-  { gate: "B25", lat: 33.43792978422625, lng: -111.99400048544894 },
-  { gate: "B26", lat: 33.43792179896715, lng: -111.99464161557242 },
-  { gate: "B27", lat: 33.43805355564857, lng: -111.99427161012802 },
-  { gate: "B28", lat: 33.43807618051315, lng: -111.99438005999964 },
-  { gate: "A1", lat: 33.43651899128809, lng: -111.99903042276948 },
-] as const;
-
-const THRESHOLD_METERS = 120;
+// Fixes less accurate than this never produce a high-confidence label
+const HIGH_CONFIDENCE_ACCURACY_METERS = 25;
 
 /**
  * Calculate distance between two GPS coordinates using Haversine formula
@@ -71,24 +58,153 @@ function haversineDistance(
 }
 
 /**
- * Get automatic location label based on GPS coordinates
- * Returns nearest gate label if within 120m threshold, otherwise "Out of area"
+ * Ray-casting point-in-polygon test. Treats lat/lng as planar, which is
+ * accurate enough at the scale of an apron.
  */
-export function getAutoLocation(lat: number, lng: number): string {
-  let nearestGate: string | null = null;
-  let minDistance = Number.POSITIVE_INFINITY;
-
-  for (const gate of GATE_COORDINATES) {
-    const distance = haversineDistance(lat, lng, gate.lat, gate.lng);
-    if (distance < minDistance) {
-      minDistance = distance;
-      nearestGate = gate.gate;
+function pointInPolygon(point: LatLng, polygon: LatLng[]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if (
+      a.lat > point.lat !== b.lat > point.lat &&
+      point.lng <
+        ((b.lng - a.lng) * (point.lat - a.lat)) / (b.lat - a.lat) + a.lng
+    ) {
+      inside = !inside;
     }
   }
+  return inside;
+}
+
+/**
+ * Distance in meters from a point to the segment a-b, using a local
+ * equirectangular projection around the point
+ */
+function distanceToSegment(point: LatLng, a: LatLng, b: LatLng): number {
+  const metersPerDegLat = 111320;
+  const metersPerDegLng = 111320 * Math.cos((point.lat * Math.PI) / 180);
+  const ax = (a.lng - point.lng) * metersPerDegLng;
+  const ay = (a.lat - point.lat) * metersPerDegLat;
+  const bx = (b.lng - point.lng) * metersPerDegLng;
+  const by = (b.lat - point.lat) * metersPerDegLat;
+
+  const dx = bx - ax;
+  const dy = by - ay;
+  const lengthSquared = dx * dx + dy * dy;
+  const t =
+    lengthSquared === 0
+      ? 0
+      : Math.max(0, Math.min(1, -(ax * dx + ay * dy) / lengthSquared));
+  return Math.hypot(ax + t * dx, ay + t * dy);
+}
+
+interface ZoneHit {
+  zone: Zone;
+  distanceMeters: number;
+  // How far inside the zone boundary the fix is
+  marginMeters: number;
+}
+
+/**
+ * Match a fix against a zone, or null when the fix is outside it
+ */
+function matchZone(point: LatLng, zone: Zone): ZoneHit | null {
+  if (zone.shape.kind === "polygon") {
+    const { points } = zone.shape;
+    if (!pointInPolygon(point, points)) return null;
+
+    const centroid = {
+      lat: points.reduce((sum, p) => sum + p.lat, 0) / points.length,
+      lng: points.reduce((sum, p) => sum + p.lng, 0) / points.length,
+    };
+    const marginMeters = Math.min(
+      ...points.map((p, i) =>
+        distanceToSegment(point, p, points[(i + 1) % points.length]),
+      ),
+    );
+    return {
+      zone,
+      distanceMeters: haversineDistance(
+        point.lat,
+        point.lng,
+        centroid.lat,
+        centroid.lng,
+      ),
+      marginMeters,
+    };
+  }
+
+  const { center, radiusMeters } = zone.shape;
+  const distance = haversineDistance(
+    point.lat,
+    point.lng,
+    center.lat,
+    center.lng,
+  );
+  if (distance > radiusMeters) return null;
+  return {
+    zone,
+    distanceMeters: distance,
+    marginMeters: radiusMeters - distance,
+  };
+}
+
+/**
+ * Confidence in a match given the fix accuracy and any zone it competes with
+ * at the same priority
+ */
+function rateConfidence(
+  hit: ZoneHit,
+  contested: boolean,
+  accuracyMeters?: number,
+): LocationConfidence {
+  const accuracy = accuracyMeters ?? 0;
+  if (accuracy > hit.marginMeters * 2) return "low";
+  if (
+    contested ||
+    accuracy > hit.marginMeters ||
+    accuracy > HIGH_CONFIDENCE_ACCURACY_METERS
+  ) {
+    return "medium";
+  }
+  return "high";
+}
 
-  if (minDistance <= THRESHOLD_METERS && nearestGate) {
-    return nearestGate;
+/**
+ * Resolve a GPS fix to a zone. Among matching zones the highest priority
+ * wins, then the closest. Returns an "Out of area" match with confidence
+ * "none" when no zone contains the fix.
+ */
+export function getAutoLocation(
+  lat: number,
+  lng: number,
+  accuracyMeters?: number,
+): LocationMatch {
+  const hits: ZoneHit[] = [];
+  for (const zone of getStationZones()) {
+    const hit = matchZone({ lat, lng }, zone);
+    if (hit) hits.push(hit);
   }
 
-  return "Out of area";
+  if (hits.length === 0) {
+    return { label: OUT_OF_AREA_LABEL, confidence: "none" };
+  }
+
+  hits.sort(
+    (a, b) =>
+      getZonePriority(b.zone) - getZonePriority(a.zone) ||
+      a.distanceMeters - b.distanceMeters,
+  );
+  const [best, runnerUp] = hits;
+  const contested =
+    !!runnerUp && getZonePriority(runnerUp.zone) === getZonePriority(best.zone);
+
+  return {
+    label: best.zone.label,
+    zoneId: best.zone.id,
+    zoneType: best.zone.type,
+    distanceMeters: Math.round(best.distanceMeters),
+    confidence: rateConfidence(best, contested, accuracyMeters),
+  };
 }
@@ -0,0 +1,42 @@
+// Barcode Decoder Worker - decodes camera frames off the main thread
+//
+// Receives { id, width, height, buffer } with the RGBA pixels transferred
+// and replies { id, result }. Bundled under decoders/ with a content hash;
+// the build adds the file to the service worker's precache list.
+
+import { type DecodedBarcode, detectBarcode } from "./barcodeDecoding";
+
+export interface DecodeRequest {
+  id: number;
+  width: number;
+  height: number;
+  buffer: ArrayBuffer;
+}
+
+export interface DecodeResponse {
+  id: number;
+  result: DecodedBarcode | null;
+}
+
+// The project compiles against the DOM lib; a dedicated worker's global has
+// the same postMessage signature as a Worker handle
+const scope = self as unknown as Worker;
+
+scope.addEventListener(
+  "message",
+  async (event: MessageEvent<DecodeRequest>) => {
+    const { id, width, height, buffer } = event.data;
+    let result: DecodedBarcode | null = null;
+    try {
+      result = await detectBarcode({
+        width,
+        height,
+        data: new Uint8ClampedArray(buffer),
+      });
+    } catch (error) {
+      console.error("[BarcodeDecoder] Decode failed:", error);
+    }
+    const response: DecodeResponse = { id, result };
+    scope.postMessage(response);
+  },
+);
@@ -0,0 +1,135 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { FrameData } from "./barcodeDecoding";
+import { encodeCode128 } from "./code128";
+import { encodeQr } from "./qrCode";
+
+const WIDTH = 320;
+const HEIGHT = 240;
+
+// Camera-sized frame with dark cells drawn at an offset on grey paper
+function frame(
+  isInk: (column: number, row: number) => boolean,
+  cellWidth: number,
+  cellHeight: number,
+  left: number,
+  top: number,
+): FrameData {
+  const data = new Uint8ClampedArray(WIDTH * HEIGHT * 4);
+  for (let y = 0; y < HEIGHT; y++) {
+    for (let x = 0; x < WIDTH; x++) {
+      const column = Math.floor((x - left) / cellWidth);
+      const row = Math.floor((y - top) / cellHeight);
+      const grey = x >= left && y >= top && isInk(column, row) ? 40 : 210;
+      const p = (y * WIDTH + x) * 4;
+      data.fill(grey, p, p + 3);
+      data[p + 3] = 255;
+    }
+  }
+  return { width: WIDTH, height: HEIGHT, data };
+}
+
+function qrFrame(text: string): FrameData {
+  const code = encodeQr(text);
+  if (!code) throw new Error(`${text} does not fit`);
+  return frame((x, y) => code.modules[y]?.[x] === true, 4, 4, 70, 30);
+}
+
+function code128Frame(text: string): FrameData {
+  const widths = encodeCode128(text) ?? [];
+  const modules = widths.flatMap((w, i) => new Array(w).fill(i % 2 === 0));
+  return frame((x, y) => y < 40 && modules[x] === true, 2, 2, 40, 80);
+}
+
+// The native detector is looked up once per module instance
+async function loadDecoding() {
+  vi.resetModules();
+  return import("./barcodeDecoding");
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("decodeFrameData", () => {
+  it("reads a QR label", async () => {
+    const { decodeFrameData } = await loadDecoding();
+
+    expect(
+      decodeFrameData(qrFrame("https://ramp.example/#equipment/TV1077")),
+    ).toEqual({
+      text: "https://ramp.example/#equipment/TV1077",
+      format: "qr_code",
+    });
+  });
+
+  it("reads a Code 128 badge", async () => {
+    const { decodeFrameData } = await loadDecoding();
+
+    expect(decodeFrameData(code128Frame("970251"))).toEqual({
+      text: "970251",
+      format: "code_128",
+    });
+  });
+
+  it("finds nothing in an empty frame", async () => {
+    const { decodeFrameData } = await loadDecoding();
+
+    expect(decodeFrameData(frame(() => false, 1, 1, 0, 0))).toBeNull();
+  });
+});
+
+describe("detectBarcode", () => {
+  it("uses the bundled decoders without a native detector", async () => {
+    vi.stubGlobal("BarcodeDetector", undefined);
+    const { detectBarcode } = await loadDecoding();
+
+    expect(await detectBarcode(code128Frame("TV1077"))).toEqual({
+      text: "TV1077",
+      format: "code_128",
+    });
+  });
+
+  it("prefers a native detector that reads QR codes", async () => {
+    const detect = vi.fn(async () => [
+      { rawValue: "TV1077", format: "qr_code" },
+    ]);
+    const Detector = Object.assign(
+      vi.fn(() => ({ detect })),
+      { getSupportedFormats: async () => ["qr_code", "code_128", "ean_13"] },
+    );
+    vi.stubGlobal("BarcodeDetector", Detector);
+    // Not provided by the test DOM
+    vi.stubGlobal(
+      "ImageData",
+      class {
+        constructor(
+          readonly data: Uint8ClampedArray,
+          readonly width: number,
+          readonly height: number,
+        ) {}
+      },
+    );
+    const { detectBarcode } = await loadDecoding();
+
+    expect(await detectBarcode(frame(() => false, 1, 1, 0, 0))).toEqual({
+      text: "TV1077",
+      format: "qr_code",
+    });
+    expect(Detector).toHaveBeenCalledWith({ formats: ["qr_code", "code_128"] });
+    expect(detect).toHaveBeenCalledOnce();
+  });
+
+  it("falls back when the native detector cannot read QR codes", async () => {
+    const Detector = Object.assign(vi.fn(), {
+      getSupportedFormats: async () => ["code_128"],
+    });
+    vi.stubGlobal("BarcodeDetector", Detector);
+    const { detectBarcode } = await loadDecoding();
+
+    expect(await detectBarcode(qrFrame("TV1077"))).toEqual({
+      text: "TV1077",
+      format: "qr_code",
+    });
+    expect(Detector).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,80 @@
+// Barcode Decoding - one entry point for every decoder the app ships
+//
+// Uses the browser's native BarcodeDetector where it exists and falls back
+// to the bundled QR, Code 128 and Code 39 decoders, so scanning never
+// depends on a script from a CDN. Runs in the decoder worker and, when a
+// worker cannot be started, on the main thread (lib/barcodeScanner.ts).
+
+import { binarize, toLuminance } from "./imageBinarizer";
+import { type LinearFormat, decodeLinearBarcode } from "./linearBarcodeDecoder";
+import { decodeQr } from "./qrDecoder";
+
+export type BarcodeFormat = "qr_code" | LinearFormat;
+
+export interface DecodedBarcode {
+  text: string;
+  format: BarcodeFormat;
+}
+
+export interface FrameData {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray<ArrayBuffer>;
+}
+
+const NATIVE_FORMATS: BarcodeFormat[] = ["qr_code", "code_128", "code_39"];
+
+let nativeDetector: Promise<BarcodeDetector | null> | null = null;
+
+function getNativeDetector(): Promise<BarcodeDetector | null> {
+  if (!nativeDetector) {
+    const Detector = globalThis.BarcodeDetector;
+    nativeDetector = Detector
+      ? Detector.getSupportedFormats()
+          .then((supported) => {
+            const formats = NATIVE_FORMATS.filter((f) => supported.includes(f));
+            return formats.includes("qr_code")
+              ? new Detector({ formats })
+              : null;
+          })
+          .catch(() => null)
+      : Promise.resolve(null);
+  }
+  return nativeDetector;
+}
+
+/**
+ * Decode with the bundled decoders only
+ */
+export function decodeFrameData(frame: FrameData): DecodedBarcode | null {
+  const { width, height, data } = frame;
+  const image = binarize(toLuminance(data, width, height), width, height);
+  const qr = decodeQr(image);
+  if (qr !== null) return { text: qr, format: "qr_code" };
+  return decodeLinearBarcode(image);
+}
+
+/**
+ * Decode the first QR code or linear barcode in an RGBA frame
+ */
+export async function detectBarcode(
+  frame: FrameData,
+): Promise<DecodedBarcode | null> {
+  const detector = await getNativeDetector();
+  if (detector) {
+    try {
+      const imageData = new ImageData(frame.data, frame.width, frame.height);
+      const [barcode] = await detector.detect(imageData);
+      if (barcode?.rawValue) {
+        return {
+          text: barcode.rawValue,
+          format: barcode.format as BarcodeFormat,
+        };
+      }
+      return null;
+    } catch {
+      // Fall through to the bundled decoders
+    }
+  }
+  return decodeFrameData(frame);
+}
@@ -0,0 +1,107 @@
+// Barcode Scanner - shared decoding API for badge and equipment scans
+//
+// Grabs a frame from the camera video and decodes it in the barcode decoder
+// worker. Only one frame is in flight at a time: while the worker is busy,
+// further frames are skipped rather than queued, so a slow device never
+// falls behind the camera. When no worker can be started the bundled
+// decoders run on the main thread instead.
+
+import type { DecodeRequest, DecodeResponse } from "./barcodeDecoder.worker";
+import {
+  type DecodedBarcode,
+  decodeFrameData,
+  detectBarcode,
+} from "./barcodeDecoding";
+
+export type { BarcodeFormat, DecodedBarcode } from "./barcodeDecoding";
+
+// Frames are scaled down to this width before decoding
+const MAX_FRAME_WIDTH = 960;
+
+let worker: Worker | null = null;
+let workerFailed = false;
+let nextRequestId = 1;
+let pending: {
+  id: number;
+  resolve: (result: DecodedBarcode | null) => void;
+} | null = null;
+
+function getWorker(): Worker | null {
+  if (worker || workerFailed) return worker;
+  try {
+    worker = new Worker(
+      new URL("./barcodeDecoder.worker.ts", import.meta.url),
+      { type: "module" },
+    );
+    worker.addEventListener(
+      "message",
+      (event: MessageEvent<DecodeResponse>) => {
+        if (pending && pending.id === event.data.id) {
+          pending.resolve(event.data.result);
+          pending = null;
+        }
+      },
+    );
+    worker.addEventListener("error", (event) => {
+      console.error("[BarcodeScanner] Decoder worker failed:", event.message);
+      releaseDecoder();
+      workerFailed = true;
+    });
+  } catch (error) {
+    console.error("[BarcodeScanner] Could not start decoder worker:", error);
+    workerFailed = true;
+  }
+  return worker;
+}
+
+/**
+ * Decode the current video frame. Resolves null when nothing was found, the
+ * video has no frame yet, or the previous frame is still being decoded.
+ */
+export async function decodeFrame(
+  video: HTMLVideoElement,
+  canvas: HTMLCanvasElement,
+): Promise<DecodedBarcode | null> {
+  if (pending || video.readyState < video.HAVE_CURRENT_DATA) return null;
+  if (!video.videoWidth || !video.videoHeight) return null;
+
+  const scale = Math.min(1, MAX_FRAME_WIDTH / video.videoWidth);
+  const width = Math.round(video.videoWidth * scale);
+  const height = Math.round(video.videoHeight * scale);
+  if (canvas.width !== width) canvas.width = width;
+  if (canvas.height !== height) canvas.height = height;
+  const context = canvas.getContext("2d", { willReadFrequently: true });
+  if (!context) return null;
+  context.drawImage(video, 0, 0, width, height);
+  const imageData = context.getImageData(0, 0, width, height);
+
+  const decoder = getWorker();
+  if (!decoder) {
+    return detectBarcode(imageData).catch(() => decodeFrameData(imageData));
+  }
+
+  const id = nextRequestId++;
+  const request: DecodeRequest = {
+    id,
+    width,
+    height,
+    buffer: imageData.data.buffer,
+  };
+  return new Promise((resolve) => {
+    pending = { id, resolve };
+    decoder.postMessage(request, [request.buffer]);
+  });
+}
+
+/**
+ * Stop the decoder worker, e.g. when a scanner closes. The next decodeFrame
+ * call starts a new one.
+ */
+export function releaseDecoder(): void {
+  worker?.terminate();
+  worker = null;
+  if (pending) {
+    pending.resolve(null);
+    pending = null;
+  }
+}
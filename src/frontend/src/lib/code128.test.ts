@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { CODE128_PATTERNS, encodeCode128 } from "./code128";
+
+// Split the widths back into symbol values: six elements each, seven for stop
+function symbolValues(widths: number[]): number[] {
+  const values: number[] = [];
+  for (let i = 0; i < widths.length; i += 6) {
+    const length = i + 7 === widths.length ? 7 : 6;
+    values.push(CODE128_PATTERNS.indexOf(widths.slice(i, i + length).join("")));
+    i += length - 6;
+  }
+  return values;
+}
+
+describe("encodeCode128", () => {
+  it("encodes text in code set B with its check symbol", () => {
+    // (104 + 55·1 + 73·2 + 75·3 + 73·4 + 80·5 + 69·6 + 68·7 + 73·8 + 65·9)
+    // mod 103 = 3281 mod 103 = 88
+    expect(symbolValues(encodeCode128("Wikipedia") ?? [])).toEqual([
+      104, 55, 73, 75, 73, 80, 69, 68, 73, 65, 88, 106,
+    ]);
+  });
+
+  it("packs an even run of digits into code set C", () => {
+    // (105 + 97·1 + 2·2 + 51·3) mod 103 = 50
+    expect(symbolValues(encodeCode128("970251") ?? [])).toEqual([
+      105, 97, 2, 51, 50, 106,
+    ]);
+  });
+
+  it("keeps an odd run of digits in code set B", () => {
+    expect(symbolValues(encodeCode128("12345") ?? [])[0]).toBe(104);
+  });
+
+  it("starts with a bar and has 11 modules per symbol plus 13 for stop", () => {
+    const widths = encodeCode128("TV1077") ?? [];
+    const modules = widths.reduce((sum, width) => sum + width, 0);
+
+    // Start, six characters, check, stop
+    expect(modules).toBe(11 * 8 + 13);
+    expect(widths.length % 2).toBe(1);
+  });
+
+  it("rejects text outside printable ASCII", () => {
+    expect(encodeCode128("")).toBeNull();
+    expect(encodeCode128("TV\t1077")).toBeNull();
+    expect(encodeCode128("Café")).toBeNull();
+  });
+});
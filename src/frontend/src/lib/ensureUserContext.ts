@@ -1,4 +1,4 @@
-import { UserProfile } from "../backend";
+import { clearSession, readSession } from "./sessionStore";
 
 export interface UserContext {
   employeeId: string;
@@ -7,60 +7,19 @@ export interface UserContext {
 }
 
 /**
- * Get local user context from localStorage with fallbacks.
- * NEVER returns null - always provides a valid UserContext.
- *
- * Hydration order (CANONICAL FIRST):
- * 1. Try ramptrack_auth_state (canonical format)
- * 2. Try currentUser (legacy format)
- * 3. Return guest context as final fallback
+ * Get local user context from the stored session.
+ * NEVER returns null - returns a guest context when signed out.
  */
 export function getLocalUserContext(): UserContext {
-  try {
-    // Try CANONICAL key first (ramptrack_auth_state)
-    let storedAuthJson = localStorage.getItem("ramptrack_auth_state");
-    let source = "ramptrack_auth_state";
-
-    // If not found, try LEGACY key (currentUser)
-    if (!storedAuthJson) {
-      storedAuthJson = localStorage.getItem("currentUser");
-      source = "currentUser";
-    }
-
-    if (storedAuthJson) {
-      const rawData = JSON.parse(storedAuthJson);
-
-      if (source === "currentUser") {
-        // Legacy format: { username, roles, displayName? }
-        if (
-          rawData?.username &&
-          rawData.roles &&
-          Array.isArray(rawData.roles)
-        ) {
-          return {
-            employeeId: rawData.username,
-            displayName:
-              rawData.displayName || rawData.username || "Signed out",
-            role: rawData.roles[0] || "guest",
-          };
-        }
-      } else {
-        // Canonical format: { user, role, badgeId?, name?, ts? }
-        if (rawData?.user && rawData.role) {
-          return {
-            employeeId: rawData.badgeId || rawData.user,
-            displayName:
-              rawData.name || rawData.badgeId || rawData.user || "Signed out",
-            role: rawData.role,
-          };
-        }
-      }
-    }
-  } catch (error) {
-    console.error("[getLocalUserContext] Failed to parse stored auth:", error);
+  const session = readSession();
+  if (session) {
+    return {
+      employeeId: session.badgeId || session.username,
+      displayName: session.displayName,
+      role: session.role,
+    };
   }
 
-  // Final fallback - return guest context
   return {
     employeeId: "GUEST",
     displayName: "Guest User",
@@ -132,7 +91,7 @@ export async function ensureUserContext(operatorId?: string): Promise<boolean> {
 }
 
 /**
- * Handle authentication errors by clearing BOTH auth keys and redirecting to login.
+ * Handle authentication errors by signing out (AuthContext returns to login).
  * Only call this for true authentication failures (401, 403, invalid tokens).
  * DO NOT call for profile-missing errors or network failures.
  */
@@ -142,15 +101,12 @@ export function handleAuthError(error: {
 }): void {
   console.error("[handleAuthError] Authentication error:", error);
 
-  // Clear BOTH auth keys from localStorage
   try {
-    localStorage.removeItem("ramptrack_auth_state");
-    localStorage.removeItem("currentUser");
+    clearSession();
     localStorage.removeItem("ramptrack_last_verified");
   } catch (err) {
     console.error("[handleAuthError] Failed to clear localStorage:", err);
   }
 
-  // Note: We don't redirect here because this is a library function
-  // The calling code should handle the redirect after catching the error
+  // No redirect here: AuthContext follows the session and returns to sign-in
 }
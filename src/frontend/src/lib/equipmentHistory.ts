@@ -1,54 +1,411 @@
-// In-memory equipment event history system
+// Equipment Event History - persistent IndexedDB event store
+//
+// Single source for equipment events (check-outs, returns, issue reports,
+// maintenance releases). Events are indexed by equipment, operator, gate and
+// time so screens can page through them newest-first, and old events are
+// pruned by a configurable retention policy.
 
-export type EventType = "CHECK_OUT" | "CHECK_IN" | "REPORT_ISSUE";
+import { loadAuditEvents } from "./auditLog";
+import { OUT_OF_AREA_LABEL } from "./autoGateLocator";
+import { getAllEquipment } from "./equipmentRegistry";
+import { openDatabase, requestToPromise, transactionDone } from "./idb";
+import { checkPermission } from "./permissions";
+import { getActiveStationCode, stationOf } from "./stationStore";
+
+export type EventType = "CHECK_OUT" | "CHECK_IN" | "REPORT_ISSUE" | "RELEASE";
 
 export interface EquipmentEvent {
   id: string;
   equipmentId: string;
   eventType: EventType;
   operator: string;
+  operatorName?: string;
   timestamp: string;
   location?: string;
+  // Gate the event happened at (absent when out of area or unknown)
+  gate?: string;
+  lat?: number;
+  lng?: number;
+  accuracyMeters?: number;
+  locationSource?: "gps" | "manual";
+  // Station the event happened at (absent = default station)
+  stationCode?: string;
   notes?: string;
 }
 
-// In-memory storage
-let eventHistory: EquipmentEvent[] = [];
+export interface EventQuery {
+  stationCode?: string;
+  equipmentId?: string;
+  operator?: string;
+  gate?: string;
+  eventTypes?: EventType[];
+  // Inclusive ISO timestamp bounds
+  from?: string;
+  to?: string;
+}
+
+export interface EventPage {
+  events: EquipmentEvent[];
+  // Pass back to queryEvents to fetch the next (older) page
+  nextCursor?: string;
+}
+
+export interface RetentionPolicy {
+  maxAgeDays: number;
+  maxEvents: number;
+}
+
+const DB_NAME = "ramptrack_events";
+const DB_VERSION = 1;
+const STORE = "events";
+const RETENTION_KEY = "ramptrack_event_retention";
+const DEFAULT_RETENTION: RetentionPolicy = {
+  maxAgeDays: 365,
+  maxEvents: 20000,
+};
+// Apply retention after this many writes
+const RETENTION_WRITE_INTERVAL = 100;
+const DEFAULT_PAGE_SIZE = 25;
+
+// Filters that have an index, most selective first
+const INDEXED_FILTERS = ["equipmentId", "operator", "gate"] as const;
+
+/**
+ * Gate for a location label, or undefined when the label is not a gate
+ */
+export function gateFromLocation(location?: string): string | undefined {
+  if (!location || location === OUT_OF_AREA_LABEL) return undefined;
+  return location;
+}
+
+// Seed a new store from the capped audit log and the registry history so
+// existing devices keep what they already recorded
+function backfillEvents(store: IDBObjectStore): void {
+  const events = new Map<string, EquipmentEvent>();
+
+  const auditEvents = loadAuditEvents();
+  for (const scan of auditEvents) {
+    events.set(scan.id, {
+      id: scan.id,
+      equipmentId: scan.equipmentId,
+      eventType: scan.action === "checkout" ? "CHECK_OUT" : "CHECK_IN",
+      operator: scan.user.badge,
+      operatorName: scan.user.displayName,
+      timestamp: scan.timestamp,
+      location: scan.locationLabel,
+      gate: gateFromLocation(scan.locationLabel),
+      lat: scan.lat,
+      lng: scan.lng,
+      accuracyMeters: scan.accuracyMeters,
+      locationSource: scan.locationSource,
+      stationCode: scan.stationCode,
+    });
+  }
+
+  // The audit log covers recent check-outs and returns with GPS; older ones
+  // only survive in the registry history
+  const oldestAudit = auditEvents.reduce<string | null>(
+    (oldest, scan) =>
+      oldest === null || scan.timestamp < oldest ? scan.timestamp : oldest,
+    null,
+  );
+
+  for (const record of getAllEquipment()) {
+    record.history.forEach((entry, index) => {
+      let eventType: EventType;
+      if (entry.action === "MAINTENANCE") eventType = "REPORT_ISSUE";
+      else if (entry.action === "RELEASE") eventType = "RELEASE";
+      else if (entry.action === "CHECKOUT") eventType = "CHECK_OUT";
+      else if (entry.action === "RETURN") eventType = "CHECK_IN";
+      else return;
+
+      if (
+        (eventType === "CHECK_OUT" || eventType === "CHECK_IN") &&
+        oldestAudit !== null &&
+        entry.timestamp >= oldestAudit
+      ) {
+        return;
+      }
+
+      const id = `history-${record.id}-${index}`;
+      events.set(id, {
+        id,
+        equipmentId: record.id,
+        eventType,
+        operator: entry.operator || "unknown",
+        timestamp: entry.timestamp,
+        location: entry.location,
+        gate: gateFromLocation(entry.location),
+        notes: entry.notes,
+      });
+    });
+  }
+
+  for (const event of events.values()) {
+    store.put(event);
+  }
+  console.log(`[equipmentHistory] Backfilled ${events.size} events`);
+}
+
+function openEventStore(): Promise<IDBDatabase> {
+  return openDatabase(DB_NAME, DB_VERSION, (db, oldVersion) => {
+    if (!db.objectStoreNames.contains(STORE)) {
+      const store = db.createObjectStore(STORE, { keyPath: "id" });
+      // Compound keys end in timestamp + id so every index pages in time order
+      store.createIndex("timestamp", ["timestamp", "id"]);
+      store.createIndex("equipmentId", ["equipmentId", "timestamp", "id"]);
+      store.createIndex("operator", ["operator", "timestamp", "id"]);
+      store.createIndex("gate", ["gate", "timestamp", "id"]);
+
+      if (oldVersion === 0) {
+        try {
+          backfillEvents(store);
+        } catch (error) {
+          console.error("[equipmentHistory] Backfill failed:", error);
+        }
+      }
+    }
+  });
+}
+
+// Change listeners (same pattern as apiClient refresh state)
+const historyListeners: Set<() => void> = new Set();
 
 /**
- * Log a new equipment event
+ * Subscribe to event store changes
+ * Returns unsubscribe function
  */
-export function logEvent(event: EquipmentEvent): void {
-  eventHistory.push(event);
+export function subscribeToEventHistory(listener: () => void): () => void {
+  historyListeners.add(listener);
+
+  return () => {
+    historyListeners.delete(listener);
+  };
 }
 
+function notifyHistoryListeners(): void {
+  for (const listener of historyListeners) {
+    try {
+      listener();
+    } catch (error) {
+      console.error("[equipmentHistory] Error in history listener:", error);
+    }
+  }
+}
+
+let writesSinceRetention = 0;
+
 /**
- * Get all events for a specific equipment ID, sorted newest-first
+ * Log a new equipment event. Failures are logged, never thrown, so a full or
+ * unavailable store cannot block a check-out.
  */
-export function getHistoryForEquipment(equipmentId: string): EquipmentEvent[] {
-  return eventHistory
-    .filter((event) => event.equipmentId === equipmentId)
-    .sort(
-      (a, b) =>
-        new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime(),
-    );
+export async function logEvent(event: EquipmentEvent): Promise<void> {
+  try {
+    const db = await openEventStore();
+    const tx = db.transaction(STORE, "readwrite");
+    tx.objectStore(STORE).put({
+      ...event,
+      gate: event.gate ?? gateFromLocation(event.location),
+      stationCode: event.stationCode ?? getActiveStationCode(),
+    });
+    await transactionDone(tx);
+  } catch (error) {
+    console.error("[equipmentHistory] Failed to log event:", error);
+    return;
+  }
+
+  notifyHistoryListeners();
+
+  writesSinceRetention++;
+  if (writesSinceRetention >= RETENTION_WRITE_INTERVAL) {
+    writesSinceRetention = 0;
+    void applyRetention();
+  }
 }
 
+const encodeCursor = (event: EquipmentEvent): string =>
+  `${event.timestamp}|${event.id}`;
+
+const decodeCursor = (cursor: string): [string, string] => {
+  const split = cursor.indexOf("|");
+  return [cursor.slice(0, split), cursor.slice(split + 1)];
+};
+
+const matchesQuery = (event: EquipmentEvent, query: EventQuery): boolean =>
+  (!query.stationCode || stationOf(event) === query.stationCode) &&
+  (!query.equipmentId || event.equipmentId === query.equipmentId) &&
+  (!query.operator || event.operator === query.operator) &&
+  (!query.gate || event.gate === query.gate) &&
+  (!query.eventTypes || query.eventTypes.includes(event.eventType)) &&
+  (!query.from || event.timestamp >= query.from) &&
+  (!query.to || event.timestamp <= query.to);
+
 /**
- * Get all events, sorted newest-first
+ * Query events newest-first, one page at a time
  */
-export function getAllHistory(): EquipmentEvent[] {
-  return eventHistory
-    .slice()
-    .sort(
-      (a, b) =>
-        new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime(),
+export async function queryEvents(
+  query: EventQuery = {},
+  limit: number = DEFAULT_PAGE_SIZE,
+  cursor?: string,
+): Promise<EventPage> {
+  const db = await openEventStore();
+  const tx = db.transaction(STORE, "readonly");
+  const store = tx.objectStore(STORE);
+
+  // Walk the most selective index; remaining filters are checked per event
+  const indexName =
+    INDEXED_FILTERS.find((field) => query[field]) ?? "timestamp";
+  const prefix = indexName === "timestamp" ? [] : [query[indexName] as string];
+
+  const lower = [...prefix, query.from ?? ""];
+  const upper = cursor
+    ? [...prefix, ...decodeCursor(cursor)]
+    : [...prefix, query.to ?? "\uffff", "\uffff"];
+  if (indexedDB.cmp(lower, upper) >= (cursor ? 0 : 1)) return { events: [] };
+  const range = IDBKeyRange.bound(lower, upper, false, !!cursor);
+
+  const events: EquipmentEvent[] = [];
+  let hasMore = false;
+
+  await new Promise<void>((resolve, reject) => {
+    const request = store.index(indexName).openCursor(range, "prev");
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => {
+      const current = request.result;
+      if (!current) {
+        resolve();
+        return;
+      }
+
+      const event = current.value as EquipmentEvent;
+      if (matchesQuery(event, query)) {
+        if (events.length === limit) {
+          hasMore = true;
+          resolve();
+          return;
+        }
+        events.push(event);
+      }
+      current.continue();
+    };
+  });
+
+  return {
+    events,
+    nextCursor: hasMore ? encodeCursor(events[events.length - 1]) : undefined,
+  };
+}
+
+/**
+ * Get events for a specific equipment ID, sorted newest-first
+ */
+export async function getHistoryForEquipment(
+  equipmentId: string,
+  limit?: number,
+): Promise<EquipmentEvent[]> {
+  return (await queryEvents({ equipmentId }, limit)).events;
+}
+
+/**
+ * Count stored events
+ */
+export async function getEventCount(): Promise<number> {
+  const db = await openEventStore();
+  const tx = db.transaction(STORE, "readonly");
+  return requestToPromise(tx.objectStore(STORE).count());
+}
+
+/**
+ * Load the retention policy from localStorage
+ */
+export function getRetentionPolicy(): RetentionPolicy {
+  try {
+    const data = localStorage.getItem(RETENTION_KEY);
+    return data
+      ? { ...DEFAULT_RETENTION, ...(JSON.parse(data) as RetentionPolicy) }
+      : DEFAULT_RETENTION;
+  } catch (e) {
+    console.error("Error loading retention policy:", e);
+    return DEFAULT_RETENTION;
+  }
+}
+
+/**
+ * Save the retention policy and prune the store to match
+ */
+export async function setRetentionPolicy(
+  policy: RetentionPolicy,
+): Promise<number> {
+  localStorage.setItem(RETENTION_KEY, JSON.stringify(policy));
+  return applyRetention();
+}
+
+/**
+ * Delete events older than the retention age, then the oldest events beyond
+ * the retention count. Returns the number of events removed.
+ */
+export async function applyRetention(): Promise<number> {
+  const policy = getRetentionPolicy();
+  const cutoff = new Date(
+    Date.now() - policy.maxAgeDays * 24 * 60 * 60 * 1000,
+  ).toISOString();
+
+  try {
+    const db = await openEventStore();
+    const tx = db.transaction(STORE, "readwrite");
+    const store = tx.objectStore(STORE);
+    const index = store.index("timestamp");
+
+    const expired = await requestToPromise(
+      index.count(IDBKeyRange.upperBound([cutoff], true)),
     );
+    const total = await requestToPromise(store.count());
+    const toRemove = Math.max(expired, total - policy.maxEvents);
+
+    if (toRemove > 0) {
+      await new Promise<void>((resolve, reject) => {
+        let removed = 0;
+        const request = index.openCursor();
+        request.onerror = () => reject(request.error);
+        request.onsuccess = () => {
+          const current = request.result;
+          if (!current || removed >= toRemove) {
+            resolve();
+            return;
+          }
+          current.delete();
+          removed++;
+          current.continue();
+        };
+      });
+    }
+
+    await transactionDone(tx);
+
+    if (toRemove > 0) {
+      console.log(`[equipmentHistory] Retention removed ${toRemove} events`);
+      notifyHistoryListeners();
+    }
+    return toRemove;
+  } catch (error) {
+    console.error("[equipmentHistory] Failed to apply retention:", error);
+    return 0;
+  }
 }
 
 /**
  * Clear all history (for testing/reset purposes)
  */
-export function clearHistory(): void {
-  eventHistory = [];
+export async function clearHistory(): Promise<void> {
+  const denied = checkPermission("audit.clear");
+  if (denied) throw new Error(denied);
+
+  const db = await openEventStore();
+  const tx = db.transaction(STORE, "readwrite");
+  tx.objectStore(STORE).clear();
+  await transactionDone(tx);
+  notifyHistoryListeners();
 }
+
+// Prune on startup
+void applyRetention();
@@ -0,0 +1,429 @@
+// Equipment Import - bulk add and update registry units from a CSV file
+//
+// Columns: id (required), type, label, station, status. Blank cells keep the
+// unit's current value (or the default for new units). An import is planned
+// first (dry run: new, changed, unchanged, conflicting and invalid rows) and
+// only applied when every row is clean, in a single registry write with a
+// history entry per affected unit.
+
+import {
+  type EquipmentRecord,
+  type EquipmentStatus,
+  type HistoryEntry,
+  getAllEquipment,
+  getRetiredIds,
+  normalizeEquipmentId,
+  saveAllEquipment,
+} from "./equipmentRegistry";
+import {
+  getEquipmentType,
+  inferEquipmentType,
+  matchesTypePattern,
+} from "./equipmentTypeCatalog";
+import type { ExportTable } from "./exportFormats";
+import { checkPermission } from "./permissions";
+import { getActiveStationCode, getStation, stationOf } from "./stationStore";
+
+export type ImportRowKind =
+  | "new"
+  | "changed"
+  | "unchanged"
+  | "conflict"
+  | "invalid";
+
+export interface ImportFieldChange {
+  field: "type" | "label" | "stationCode" | "status";
+  from?: string;
+  to: string;
+}
+
+export interface ImportPlanRow {
+  // 1-based line in the file (header is line 1)
+  line: number;
+  rawId: string;
+  // Normalized ID (empty when the raw ID held none)
+  id: string;
+  kind: ImportRowKind;
+  // Why the row is a conflict or invalid
+  problems: string[];
+  changes: ImportFieldChange[];
+  // The record as it will be written (new and changed rows only)
+  record?: EquipmentRecord;
+}
+
+export interface ImportPlan {
+  rows: ImportPlanRow[];
+  counts: Record<ImportRowKind, number>;
+  // Set when the file itself cannot be read (no rows planned)
+  error?: string;
+}
+
+// Statuses an import may set; ASSIGNED only comes from a check-out
+const IMPORT_STATUSES: readonly EquipmentStatus[] = [
+  "AVAILABLE",
+  "MAINTENANCE",
+];
+
+const COLUMN_ALIASES: Record<string, keyof ParsedRow> = {
+  id: "id",
+  equipmentid: "id",
+  type: "type",
+  equipmenttype: "type",
+  label: "label",
+  name: "label",
+  station: "station",
+  homestation: "station",
+  stationcode: "station",
+  status: "status",
+};
+
+interface ParsedRow {
+  id: string;
+  type: string;
+  label: string;
+  station: string;
+  status: string;
+}
+
+/**
+ * Split CSV text into rows of fields (RFC 4180 quoting, any line ending)
+ */
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+function emptyCounts(): Record<ImportRowKind, number> {
+  return { new: 0, changed: 0, unchanged: 0, conflict: 0, invalid: 0 };
+}
+
+/**
+ * Dry run: compare a CSV file against the registry without changing anything.
+ * `operator` is recorded on the history entries the import would add.
+ */
+export function planEquipmentImport(
+  csvText: string,
+  operator?: string,
+): ImportPlan {
+  const lines = parseCsv(csvText.replace(/^\uFEFF/, ""));
+  const header = (lines[0] ?? []).map((name) =>
+    name
+      .trim()
+      .toLowerCase()
+      .replace(/[\s_-]/g, ""),
+  );
+  const columns = header.map((name) => COLUMN_ALIASES[name]);
+  if (!columns.includes("id")) {
+    return {
+      rows: [],
+      counts: emptyCounts(),
+      error: "The first line must be a header with at least an id column",
+    };
+  }
+
+  const existing = new Map(getAllEquipment().map((e) => [e.id, e]));
+  const retiredIds = new Set(getRetiredIds());
+  const seen = new Map<string, number>();
+  const now = new Date().toISOString();
+  const rows: ImportPlanRow[] = [];
+
+  lines.slice(1).forEach((cells, index) => {
+    // Skip blank lines
+    if (cells.every((cell) => !cell.trim())) return;
+
+    const parsed: ParsedRow = {
+      id: "",
+      type: "",
+      label: "",
+      station: "",
+      status: "",
+    };
+    columns.forEach((column, i) => {
+      if (column) parsed[column] = (cells[i] ?? "").trim();
+    });
+
+    const line = index + 2;
+    const id = normalizeEquipmentId(parsed.id);
+    const current = existing.get(id);
+    const problems: string[] = [];
+    const plan: ImportPlanRow = {
+      line,
+      rawId: parsed.id,
+      id,
+      kind: "unchanged",
+      problems,
+      changes: [],
+    };
+    rows.push(plan);
+
+    // Validate the row on its own
+    if (!id) problems.push("Missing equipment ID");
+
+    const typeCode = parsed.type
+      ? parsed.type.toUpperCase().replace(/[\s-]+/g, "_")
+      : (current?.type ?? inferEquipmentType(id));
+    const type = getEquipmentType(typeCode);
+    if (!type) {
+      problems.push(`Unknown equipment type: ${parsed.type}`);
+    } else if (id && !matchesTypePattern(type, id)) {
+      problems.push(
+        `${id} does not match the ${type.name} ID pattern (${type.idPattern})`,
+      );
+    }
+
+    const stationCode = parsed.station
+      ? parsed.station.toUpperCase()
+      : current
+        ? stationOf(current)
+        : getActiveStationCode();
+    if (!getStation(stationCode)) {
+      problems.push(`Unknown station: ${parsed.station}`);
+    }
+
+    const status = (parsed.status.toUpperCase() ||
+      current?.status ||
+      "AVAILABLE") as EquipmentStatus;
+    if (parsed.status && !IMPORT_STATUSES.includes(status)) {
+      problems.push(
+        `Status must be one of ${IMPORT_STATUSES.join(", ")} (got ${parsed.status})`,
+      );
+    }
+
+    if (problems.length > 0) {
+      plan.kind = "invalid";
+      return;
+    }
+
+    // Conflicts with other rows or with the unit's current state
+    const firstLine = seen.get(id);
+    if (firstLine !== undefined) {
+      problems.push(`Duplicate of line ${firstLine}`);
+    }
+    seen.set(id, line);
+
+    const label = parsed.label || current?.label;
+    const next: Record<ImportFieldChange["field"], string | undefined> = {
+      type: type?.code,
+      label,
+      stationCode,
+      status,
+    };
+    const before: Record<ImportFieldChange["field"], string | undefined> = {
+      type: current?.type,
+      label: current?.label,
+      stationCode: current ? stationOf(current) : undefined,
+      status: current?.status,
+    };
+    for (const field of Object.keys(next) as ImportFieldChange["field"][]) {
+      const to = next[field];
+      if (to !== undefined && to !== before[field]) {
+        plan.changes.push({ field, from: before[field], to });
+      }
+    }
+
+    if (!current && retiredIds.has(id)) {
+      problems.push(`${id} was retired and cannot be added again`);
+    }
+    if (
+      (current?.status === "OUT_OF_SERVICE" || current?.status === "RETIRED") &&
+      plan.changes.length > 0
+    ) {
+      problems.push(
+        current.status === "RETIRED"
+          ? `${id} is retired and can no longer be changed`
+          : `${id} is out of service; return it to service before importing changes`,
+      );
+    }
+    if (
+      current?.status === "ASSIGNED" &&
+      plan.changes.some((c) => c.field !== "label")
+    ) {
+      problems.push(
+        `${id} is checked out${current.lastOperator ? ` to ${current.lastOperator}` : ""}; return it before changing its type, station or status`,
+      );
+    }
+
+    if (problems.length > 0) {
+      plan.kind = "conflict";
+      return;
+    }
+
+    if (!current) {
+      plan.kind = "new";
+      plan.record = {
+        id,
+        type: typeCode,
+        label,
+        stationCode,
+        status,
+        createdAt: now,
+        updatedAt: now,
+        history: [
+          {
+            timestamp: now,
+            action: "CREATED",
+            operator,
+            notes: `Imported from CSV (line ${line})`,
+          },
+          ...(status === "MAINTENANCE"
+            ? [
+                {
+                  timestamp: now,
+                  action: "MAINTENANCE" as const,
+                  operator,
+                  notes: "Imported as out for maintenance",
+                },
+              ]
+            : []),
+        ],
+      };
+      return;
+    }
+
+    if (plan.changes.length === 0) return;
+
+    plan.kind = "changed";
+    const entries: HistoryEntry[] = [];
+    const statusChange = plan.changes.find((c) => c.field === "status");
+    const otherChanges = plan.changes.filter((c) => c.field !== "status");
+    if (otherChanges.length > 0) {
+      entries.push({
+        timestamp: now,
+        action: "UPDATED",
+        operator,
+        notes: `CSV import: ${otherChanges
+          .map((c) => `${c.field} ${c.from ?? "—"} → ${c.to}`)
+          .join(", ")}`,
+      });
+    }
+    if (statusChange) {
+      entries.push({
+        timestamp: now,
+        action: status === "MAINTENANCE" ? "MAINTENANCE" : "RELEASE",
+        operator,
+        notes: `CSV import: status ${statusChange.from} → ${statusChange.to}`,
+      });
+    }
+    plan.record = {
+      ...current,
+      type: typeCode,
+      label,
+      stationCode,
+      status,
+      updatedAt: now,
+      history: [...current.history, ...entries],
+    };
+  });
+
+  const counts = emptyCounts();
+  for (const row of rows) counts[row.kind]++;
+  return { rows, counts };
+}
+
+/**
+ * Apply a planned import in one registry write. The plan is re-made against
+ * the current registry, and nothing is written if any row is a conflict or
+ * invalid.
+ */
+export function applyEquipmentImport(
+  csvText: string,
+  operator?: string,
+): {
+  success: boolean;
+  error?: string;
+  added?: number;
+  updated?: number;
+} {
+  const plan = planEquipmentImport(csvText, operator);
+  if (plan.error) return { success: false, error: plan.error };
+
+  const blocked = plan.counts.conflict + plan.counts.invalid;
+  if (blocked > 0) {
+    return {
+      success: false,
+      error: `${blocked} row${blocked === 1 ? "" : "s"} must be fixed before the import can be applied`,
+    };
+  }
+  if (plan.counts.new + plan.counts.changed === 0) {
+    return { success: false, error: "The file holds no changes" };
+  }
+
+  if (plan.counts.new > 0) {
+    const denied = checkPermission("equipment.create", "CSV import");
+    if (denied) return { success: false, error: denied };
+  }
+  if (plan.counts.changed > 0) {
+    const denied = checkPermission("equipment.edit", "CSV import");
+    if (denied) return { success: false, error: denied };
+  }
+  // Returning grounded units to service is a supervisor release
+  if (
+    plan.rows.some((row) =>
+      row.changes.some((c) => c.field === "status" && c.from === "MAINTENANCE"),
+    )
+  ) {
+    const denied = checkPermission("equipment.release", "CSV import");
+    if (denied) return { success: false, error: denied };
+  }
+
+  try {
+    const byId = new Map(getAllEquipment().map((e) => [e.id, e]));
+    for (const row of plan.rows) {
+      if (row.record) byId.set(row.id, row.record);
+    }
+    saveAllEquipment([...byId.values()]);
+    return {
+      success: true,
+      added: plan.counts.new,
+      updated: plan.counts.changed,
+    };
+  } catch (error) {
+    console.error("Error applying equipment import:", error);
+    return { success: false, error: "Failed to apply the import" };
+  }
+}
+
+/**
+ * The registry in the import format, as a starting point for edits
+ */
+export function fleetImportTable(equipment: EquipmentRecord[]): ExportTable {
+  return {
+    title: "Fleet",
+    columns: ["id", "type", "label", "station", "status"],
+    rows: equipment.map((e) => [e.id, e.type, e.label, stationOf(e), e.status]),
+  };
+}
@@ -1,11 +1,49 @@
 // Client-side Equipment Registry with localStorage persistence
 
-export type EquipmentType =
-  | "TUG"
-  | "ELECTRIC_TUG"
-  | "STANDUP_PUSHBACK"
-  | "LAMBO_PUSHBACK";
-export type EquipmentStatus = "AVAILABLE" | "ASSIGNED" | "MAINTENANCE";
+import {
+  type SupervisorOverride,
+  type TransitionError,
+  checkTransition,
+} from "./equipmentStateMachine";
+import {
+  extractEquipmentId,
+  getEquipmentType,
+  inferEquipmentType,
+  matchesTypePattern,
+} from "./equipmentTypeCatalog";
+import { type Permission, checkPermission, hasPermission } from "./permissions";
+import {
+  UNASSIGNED_STATION_CODE,
+  getActiveStationCode,
+  getStation,
+  stationOf,
+} from "./stationStore";
+import { type StoreSchema, migrateStore } from "./storageSchema";
+import { isUserActive, lookupUserByBadge } from "./userStore";
+
+// Code of an entry in the equipment type catalog
+export type EquipmentType = string;
+export type EquipmentStatus =
+  | "AVAILABLE"
+  | "ASSIGNED"
+  | "MAINTENANCE"
+  // Parked or awaiting disposal; a supervisor can return it to service
+  | "OUT_OF_SERVICE"
+  // Permanently removed; the record stays for its history
+  | "RETIRED";
+
+export type RemovedStatus = "OUT_OF_SERVICE" | "RETIRED";
+
+export interface EquipmentRetirement {
+  status: RemovedStatus;
+  reason: string;
+  // Date the removal takes effect (YYYY-MM-DD)
+  effectiveDate: string;
+  // Badge of the supervisor who approved it
+  approvedBy: string;
+  recordedBy: string;
+  recordedAt: string;
+}
 
 export interface EquipmentRecord {
   id: string;
@@ -18,50 +56,68 @@ export interface EquipmentRecord {
   returnTime?: string;
   location?: string;
   maintenanceNotes?: string;
+  // Set while the unit is out of service or retired
+  retirement?: EquipmentRetirement;
+  // Station that owns the unit (absent = default station)
+  stationCode?: string;
   history: HistoryEntry[];
+  // Last local modification (absent for untouched seeded records)
+  updatedAt?: string;
+  // Last successful reconciliation with the backend Equipment record
+  lastSync?: EquipmentSyncStamp;
+}
+
+export interface EquipmentSyncStamp {
+  at: string;
+  // Backend last_update_time (nanoseconds) at the time of the sync
+  remoteUpdateTime: string;
 }
 
 export interface HistoryEntry {
   timestamp: string;
-  action: "CHECKOUT" | "RETURN" | "MAINTENANCE" | "CREATED";
+  // UPDATED records detail edits (type, label, station) from a bulk import
+  action:
+    | "CHECKOUT"
+    | "RETURN"
+    | "MAINTENANCE"
+    | "RELEASE"
+    | "CREATED"
+    | "UPDATED"
+    | "OUT_OF_SERVICE"
+    | "RETIRED";
   operator?: string;
   location?: string;
   notes?: string;
+  // Set when a supervisor forced a transition the state machine rejects
+  override?: { by: string; reason: string };
+}
+
+export interface StatusUpdateResult {
+  success: boolean;
+  error?: string;
+  transitionError?: TransitionError;
 }
 
 const STORAGE_KEY = "ramptrack_equipment_registry";
-const INIT_FLAG_KEY = "ramptrack_tugs_initialized_v3";
-
-// Electric TUG IDs (specific list from requirements)
-const ELECTRIC_TUG_IDS = [
-  "TV1077",
-  "TV1078",
-  "TV1079",
-  "TV1080",
-  "TV1081",
-  "TV1082",
-  "TV1083",
-  "TV1084",
-  "TV1088",
-  "TV1089",
-  "TV1280",
-  "TV1341",
-  "TV1342",
-  "TV1343",
-  "TV1344",
+const LEGACY_INIT_FLAG_KEYS = [
+  "ramptrack_tugs_initialized",
+  "ramptrack_tugs_initialized_v2",
+  "ramptrack_tugs_initialized_v3",
 ];
+// IDs of retired units, kept apart from the registry so the fleet bootstrap
+// never re-creates them even if the registry itself is rebuilt
+const RETIRED_IDS_KEY = "ramptrack_retired_equipment_ids";
 
 // Additional equipment IDs that must exist
 const REQUIRED_EQUIPMENT: Array<{
   id: string;
-  type: EquipmentType;
   isElectric: boolean;
 }> = [
-  { id: "TV0637", type: "TUG", isElectric: false },
-  { id: "TV1077", type: "ELECTRIC_TUG", isElectric: true },
-  { id: "TV0883", type: "TUG", isElectric: false },
-  { id: "TV0989", type: "TUG", isElectric: false },
-  { id: "TV0884", type: "TUG", isElectric: false },
+  { id: "TV0637", isElectric: false },
+  { id: "TV1077", isElectric: true },
+  { id: "TV0883", isElectric: false },
+  { id: "TV0989", isElectric: false },
+  { id: "TV0884", isElectric: false },
 ];
 
 /**
@@ -69,7 +125,9 @@ const REQUIRED_EQUIPMENT: Array<{
  * 1. Trim whitespace
  * 2. Convert to uppercase
  * 3. Remove internal spaces
- * 4. Extract TV#### pattern if found within suffix/prefix text (including URLs or "ID:TV####")
+ * 4. Extract the first catalog ID pattern found within suffix/prefix text
+ *    (including URLs or "ID:TV####"); for printed label deep links only the
+ *    text after "#equipment/" is searched
  */
 export function normalizeEquipmentId(rawId: string): string {
   if (!rawId) return "";
@@ -83,13 +141,14 @@ export function normalizeEquipmentId(rawId: string): string {
   // Step 3: Remove internal spaces
   normalized = normalized.replace(/\s+/g, "");
 
-  // Step 4: Extract TV#### pattern if found
-  // Match TV followed by 4 digits
-  const tvPattern = /TV\d{4}/;
-  const match = normalized.match(tvPattern);
+  // Step 4: Extract an ID matching one of the catalog's type patterns
+  const route = normalized.indexOf("#EQUIPMENT/");
+  const match = extractEquipmentId(
+    route >= 0 ? normalized.slice(route + "#EQUIPMENT/".length) : normalized,
+  );
 
   if (match) {
-    normalized = match[0];
+    normalized = match;
   }
 
   // Remove common prefixes
@@ -103,107 +162,130 @@ export function normalizeEquipmentId(rawId: string): string {
   return normalized;
 }
 
-// Initialize TUG equipment on first load
-function initializeTugs() {
-  const initialized = localStorage.getItem(INIT_FLAG_KEY);
-  if (initialized) {
-    // Check if required equipment exists, add if missing
-    const allEquipment = getAllEquipmentRaw();
-    let needsUpdate = false;
-
-    for (const required of REQUIRED_EQUIPMENT) {
-      const exists = allEquipment.some((e) => e.id === required.id);
-      if (!exists) {
-        console.log(
-          `[equipmentRegistry] Adding missing required equipment: ${required.id}`,
-        );
-        const newEquipment: EquipmentRecord = {
-          id: required.id,
-          type: required.isElectric ? "ELECTRIC_TUG" : "TUG",
-          status: "AVAILABLE",
-          createdAt: new Date().toISOString(),
-          history: [
-            {
-              timestamp: new Date().toISOString(),
-              action: "CREATED",
-              notes: required.isElectric
-                ? "Auto-imported electric tug"
-                : "Auto-imported diesel/gas tug",
-            },
-          ],
-        };
-        allEquipment.push(newEquipment);
-        needsUpdate = true;
-      }
-    }
-
-    if (needsUpdate) {
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(allEquipment));
-    }
+/**
+ * Whether a unit is in service (not out of service or retired)
+ */
+export const isInService = (record: { status: EquipmentStatus }): boolean =>
+  record.status !== "OUT_OF_SERVICE" && record.status !== "RETIRED";
 
-    return;
+/**
+ * IDs of every unit ever retired
+ */
+export function getRetiredIds(): string[] {
+  try {
+    const data = localStorage.getItem(RETIRED_IDS_KEY);
+    return data ? (JSON.parse(data) as string[]) : [];
+  } catch (error) {
+    console.error("Error reading retired equipment IDs:", error);
+    return [];
   }
+}
 
-  // Clear old data and start fresh
-  localStorage.removeItem(STORAGE_KEY);
-  localStorage.removeItem("ramptrack_tugs_initialized");
-  localStorage.removeItem("ramptrack_tugs_initialized_v2");
+// A seeded unit of the default station's tug fleet
+function seedRecord(id: string, isElectric: boolean): EquipmentRecord {
+  const now = new Date().toISOString();
+  return {
+    id,
+    type: isElectric ? "ELECTRIC_TUG" : "TUG",
+    status: "AVAILABLE",
+    createdAt: now,
+    history: [
+      {
+        timestamp: now,
+        action: "CREATED",
+        notes: isElectric
+          ? "Auto-imported electric tug"
+          : "Auto-imported diesel/gas tug",
+      },
+    ],
+  };
+}
 
-  const allEquipment: EquipmentRecord[] = [];
+// Seeded units missing from `existing`: the required units, plus the
+// TV0989 to TV1344 fleet range when `withFleet` is set. Retired units are
+// never re-created.
+function missingSeedUnits(
+  existing: EquipmentRecord[],
+  withFleet: boolean,
+): EquipmentRecord[] {
+  const skip = new Set([...getRetiredIds(), ...existing.map((e) => e.id)]);
+  const added: EquipmentRecord[] = [];
 
-  // Add required equipment first
   for (const required of REQUIRED_EQUIPMENT) {
-    const newEquipment: EquipmentRecord = {
-      id: required.id,
-      type: required.isElectric ? "ELECTRIC_TUG" : "TUG",
-      status: "AVAILABLE",
-      createdAt: new Date().toISOString(),
-      history: [
-        {
-          timestamp: new Date().toISOString(),
-          action: "CREATED",
-          notes: required.isElectric
-            ? "Auto-imported electric tug"
-            : "Auto-imported diesel/gas tug",
-        },
-      ],
-    };
-    allEquipment.push(newEquipment);
+    if (skip.has(required.id)) continue;
+    skip.add(required.id);
+    added.push(seedRecord(required.id, required.isElectric));
   }
 
-  // Generate TV0989 to TV1344 (inclusive) - full fleet range
-  for (let i = 989; i <= 1344; i++) {
-    const tugId = `TV${String(i).padStart(4, "0")}`;
-
-    // Skip if already added in required equipment
-    if (allEquipment.some((e) => e.id === tugId)) {
-      continue;
+  if (withFleet) {
+    for (let i = 989; i <= 1344; i++) {
+      const tugId = `TV${String(i).padStart(4, "0")}`;
+      if (skip.has(tugId)) continue;
+      skip.add(tugId);
+      // Determine if this is an electric tug based on the catalog
+      added.push(
+        seedRecord(tugId, inferEquipmentType(tugId) === "ELECTRIC_TUG"),
+      );
     }
-
-    // Determine if this is an electric tug based on the specific list
-    const isElectric = ELECTRIC_TUG_IDS.includes(tugId);
-
-    const newTug: EquipmentRecord = {
-      id: tugId,
-      type: isElectric ? "ELECTRIC_TUG" : "TUG",
-      status: "AVAILABLE",
-      createdAt: new Date().toISOString(),
-      history: [
-        {
-          timestamp: new Date().toISOString(),
-          action: "CREATED",
-          notes: isElectric
-            ? "Auto-imported electric tug"
-            : "Auto-imported diesel/gas tug",
-        },
-      ],
-    };
-
-    allEquipment.push(newTug);
   }
+  return added;
+}
 
-  localStorage.setItem(STORAGE_KEY, JSON.stringify(allEquipment));
-  localStorage.setItem(INIT_FLAG_KEY, "true");
+// Registry payload versions. Fleet seeding changes are added as a new step
+// here rather than by clearing the registry.
+export const REGISTRY_SCHEMA: StoreSchema = {
+  key: STORAGE_KEY,
+  label: "Equipment registry",
+  migrations: [
+    {
+      to: 1,
+      description: "Give every unit a history array",
+      migrate: (data) => {
+        if (!Array.isArray(data)) throw new Error("Registry is not a list");
+        return (data as EquipmentRecord[]).map((e) => ({
+          ...e,
+          history: e.history || [],
+        }));
+      },
+    },
+    {
+      to: 2,
+      description: "Add missing units of the TV0989-TV1344 fleet",
+      migrate: (data) => {
+        const units = data as EquipmentRecord[];
+        return [...units, ...missingSeedUnits(units, true)];
+      },
+    },
+  ],
+};
+
+// Bring the registry up to date on load: seed the fleet on first use,
+// migrate older payloads, and add required units that are missing. The
+// seeded fleet belongs to the default station, so seeded records carry no
+// stationCode.
+function initializeTugs() {
+  // Builds before schema versions wiped the registry when this flag changed
+  for (const key of LEGACY_INIT_FLAG_KEYS) localStorage.removeItem(key);
+
+  // An empty registry is stamped with the current version and seeded below
+  if (!migrateStore(REGISTRY_SCHEMA).success) return;
+
+  const firstUse = localStorage.getItem(STORAGE_KEY) === null;
+  const allEquipment = getAllEquipmentRaw();
+  const missing = missingSeedUnits(allEquipment, firstUse);
+  if (missing.length > 0) {
+    if (!firstUse) {
+      console.log(
+        `[equipmentRegistry] Adding missing required equipment: ${missing
+          .map((e) => e.id)
+          .join(", ")}`,
+      );
+    }
+    localStorage.setItem(
+      STORAGE_KEY,
+      JSON.stringify([...allEquipment, ...missing]),
+    );
+  }
 }
 
 // Get all equipment from localStorage (raw, no normalization)
@@ -246,38 +328,67 @@ export function getAllEquipment(): EquipmentRecord[] {
   }
 }
 
-// Add new equipment
+// Get the equipment owned by a station (defaults to the active station)
+export function getStationEquipment(
+  stationCode: string = getActiveStationCode(),
+): EquipmentRecord[] {
+  return getAllEquipment().filter((e) => stationOf(e) === stationCode);
+}
+
+// Units pulled from the backend that no station has claimed yet
+export function getUnassignedEquipment(): EquipmentRecord[] {
+  return getStationEquipment(UNASSIGNED_STATION_CODE).filter(
+    (e) => e.status !== "RETIRED",
+  );
+}
+
+// Add new equipment (to the active station unless one is given)
 export function addEquipment(
   equipment: Omit<EquipmentRecord, "createdAt" | "status" | "history">,
 ): { success: boolean; error?: string } {
+  const denied = checkPermission("equipment.create", equipment.id);
+  if (denied) return { success: false, error: denied };
+
   try {
     const allEquipment = getAllEquipment();
 
     // Normalize and clean ID
-    let equipmentId = normalizeEquipmentId(equipment.id);
+    const equipmentId = normalizeEquipmentId(equipment.id);
 
     // Check for duplicate ID
     if (allEquipment.some((e) => e.id === equipmentId)) {
       return { success: false, error: "Equipment ID already exists" };
     }
+    if (getRetiredIds().includes(equipmentId)) {
+      return {
+        success: false,
+        error: `${equipmentId} was retired and cannot be added again`,
+      };
+    }
 
-    // Determine equipment type based on ID
-    let equipmentType = equipment.type;
-    if (equipmentType === "TUG" || equipmentType === "ELECTRIC_TUG") {
-      // Check if it's one of the specific electric tugs
-      if (ELECTRIC_TUG_IDS.includes(equipmentId)) {
-        equipmentType = "ELECTRIC_TUG";
-      } else {
-        equipmentType = "TUG"; // Standard TUG (Gas/Diesel)
-      }
+    // The type must be in the catalog and the ID must fit its pattern
+    const equipmentType = getEquipmentType(equipment.type);
+    if (!equipmentType) {
+      return {
+        success: false,
+        error: `Unknown equipment type: ${equipment.type}`,
+      };
+    }
+    if (!matchesTypePattern(equipmentType, equipmentId)) {
+      return {
+        success: false,
+        error: `${equipmentId} does not match the ${equipmentType.name} ID pattern (${equipmentType.idPattern})`,
+      };
     }
 
     const newEquipment: EquipmentRecord = {
       ...equipment,
       id: equipmentId,
-      type: equipmentType,
+      type: equipmentType.code,
+      stationCode: equipment.stationCode ?? getActiveStationCode(),
       status: "AVAILABLE",
       createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
       history: [
         {
           timestamp: new Date().toISOString(),
@@ -298,13 +409,16 @@ export function addEquipment(
 }
 
 // Update equipment status with history
+// Transitions are validated by the equipment state machine; pass a supervisor
+// override to force a rejected transition or release grounded equipment.
 export function updateEquipmentStatus(
   id: string,
   status: EquipmentStatus,
   operator?: string,
   location?: string,
   notes?: string,
-): { success: boolean; error?: string } {
+  override?: SupervisorOverride,
+): StatusUpdateResult {
   try {
     const allEquipment = getAllEquipment();
 
@@ -314,20 +428,73 @@ export function updateEquipmentStatus(
     const index = allEquipment.findIndex((e) => e.id === equipmentId);
 
     if (index === -1) {
-      return { success: false, error: "Equipment not found" };
+      return {
+        success: false,
+        error: "Equipment not found",
+        transitionError: {
+          code: "NOT_FOUND",
+          message: `${equipmentId} is not in the equipment registry.`,
+          overridable: false,
+        },
+      };
+    }
+
+    // Removal needs a reason, date and approver
+    if (!isInService({ status })) {
+      return {
+        success: false,
+        error: "Use retireEquipment to take a unit out of service",
+      };
     }
 
     const timestamp = new Date().toISOString();
     const equipment = allEquipment[index];
 
+    // Each kind of status change has its own permission
+    const permission: Permission =
+      status === "ASSIGNED"
+        ? "equipment.checkout"
+        : status === "MAINTENANCE"
+          ? "equipment.report"
+          : equipment.status === "MAINTENANCE"
+            ? "equipment.release"
+            : equipment.status === "OUT_OF_SERVICE"
+              ? "equipment.retire"
+              : "equipment.checkin";
+    const denied =
+      checkPermission(permission, equipmentId) ??
+      (override ? checkPermission("equipment.override", equipmentId) : null);
+    if (denied) return { success: false, error: denied };
+
+    const transitionError = checkTransition(
+      equipment,
+      status,
+      operator,
+      override,
+    );
+    if (transitionError) {
+      console.log(
+        `[Registry] Rejected ${equipment.status} → ${status} for ${equipmentId}: ${transitionError.code}`,
+      );
+      return {
+        success: false,
+        error: transitionError.message,
+        transitionError,
+      };
+    }
+
     // Determine action type
-    let action: "CHECKOUT" | "RETURN" | "MAINTENANCE" | "CREATED" = "CREATED";
+    let action: HistoryEntry["action"] = "CREATED";
     if (status === "ASSIGNED") {
       action = "CHECKOUT";
       equipment.checkoutTime = timestamp;
       equipment.lastOperator = operator;
     } else if (status === "AVAILABLE") {
-      action = "RETURN";
+      action =
+        equipment.status === "MAINTENANCE" ||
+        equipment.status === "OUT_OF_SERVICE"
+          ? "RELEASE"
+          : "RETURN";
       equipment.returnTime = timestamp;
     } else if (status === "MAINTENANCE") {
       action = "MAINTENANCE";
@@ -335,7 +502,9 @@ export function updateEquipmentStatus(
     }
 
     // Update equipment
+    if (equipment.status === "OUT_OF_SERVICE") equipment.retirement = undefined;
     equipment.status = status;
+    equipment.updatedAt = timestamp;
     if (location) equipment.location = location;
 
     // Add history entry
@@ -346,6 +515,9 @@ export function updateEquipmentStatus(
       operator,
       location,
       notes,
+      ...(override && {
+        override: { by: override.supervisor, reason: override.reason.trim() },
+      }),
     });
 
     allEquipment[index] = equipment;
@@ -361,8 +533,12 @@ export function updateEquipmentStatus(
 // Update equipment details
 export function updateEquipment(
   id: string,
-  updates: Partial<Omit<EquipmentRecord, "id" | "createdAt">>,
+  // Status changes go through updateEquipmentStatus so the state machine applies
+  updates: Partial<Omit<EquipmentRecord, "id" | "createdAt" | "status">>,
 ): { success: boolean; error?: string } {
+  const denied = checkPermission("equipment.edit", id);
+  if (denied) return { success: false, error: denied };
+
   try {
     const allEquipment = getAllEquipment();
 
@@ -374,10 +550,23 @@ export function updateEquipment(
     if (index === -1) {
       return { success: false, error: "Equipment not found" };
     }
+    if (allEquipment[index].status === "RETIRED") {
+      return {
+        success: false,
+        error: `${equipmentId} is retired and can no longer be edited`,
+      };
+    }
+    if (updates.stationCode !== undefined && !getStation(updates.stationCode)) {
+      return {
+        success: false,
+        error: `Unknown station: ${updates.stationCode}`,
+      };
+    }
 
     allEquipment[index] = {
       ...allEquipment[index],
       ...updates,
+      updatedAt: new Date().toISOString(),
     };
     localStorage.setItem(STORAGE_KEY, JSON.stringify(allEquipment));
 
@@ -388,6 +577,104 @@ export function updateEquipment(
   }
 }
 
+// Take a unit out of service or retire it. Needs a reason, an effective date
+// and an approving supervisor; history stays with the record for audits.
+export function retireEquipment(
+  id: string,
+  details: {
+    status: RemovedStatus;
+    reason: string;
+    effectiveDate: string;
+    approvedBy: string;
+  },
+  recordedBy: string,
+): { success: boolean; error?: string } {
+  const equipmentId = normalizeEquipmentId(id);
+  const denied = checkPermission("equipment.retire", equipmentId);
+  if (denied) return { success: false, error: denied };
+
+  const reason = details.reason.trim();
+  if (!reason) {
+    return { success: false, error: "A reason is required" };
+  }
+  if (
+    !/^\d{4}-\d{2}-\d{2}$/.test(details.effectiveDate) ||
+    Number.isNaN(new Date(details.effectiveDate).getTime())
+  ) {
+    return { success: false, error: "Enter a valid effective date" };
+  }
+  const approver = lookupUserByBadge(details.approvedBy);
+  if (
+    !approver ||
+    !isUserActive(approver) ||
+    !hasPermission(approver.role, "equipment.retire")
+  ) {
+    return {
+      success: false,
+      error: `${details.approvedBy || "The approver"} is not an active supervisor who can approve removals`,
+    };
+  }
+
+  try {
+    const allEquipment = getAllEquipment();
+    const index = allEquipment.findIndex((e) => e.id === equipmentId);
+    if (index === -1) {
+      return { success: false, error: "Equipment not found" };
+    }
+
+    const equipment = allEquipment[index];
+    const transitionError = checkTransition(equipment, details.status);
+    if (transitionError) {
+      return { success: false, error: transitionError.message };
+    }
+
+    const timestamp = new Date().toISOString();
+    allEquipment[index] = {
+      ...equipment,
+      status: details.status,
+      retirement: {
+        status: details.status,
+        reason,
+        effectiveDate: details.effectiveDate,
+        approvedBy: approver.badgeId,
+        recordedBy,
+        recordedAt: timestamp,
+      },
+      updatedAt: timestamp,
+      history: [
+        ...equipment.history,
+        {
+          timestamp,
+          action: details.status,
+          operator: recordedBy,
+          notes: `${reason} (effective ${details.effectiveDate}, approved by ${approver.badgeId})`,
+        },
+      ],
+    };
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(allEquipment));
+
+    if (details.status === "RETIRED") {
+      const retiredIds = getRetiredIds();
+      if (!retiredIds.includes(equipmentId)) {
+        localStorage.setItem(
+          RETIRED_IDS_KEY,
+          JSON.stringify([...retiredIds, equipmentId]),
+        );
+      }
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error("Error retiring equipment:", error);
+    return { success: false, error: "Failed to update equipment status" };
+  }
+}
+
+// Replace the whole registry (used by backend reconciliation)
+export function saveAllEquipment(equipment: EquipmentRecord[]): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(equipment));
+}
+
 // Find equipment by ID (with normalization)
 export function findById(id: string): EquipmentRecord | null {
   const allEquipment = getAllEquipment();
@@ -398,14 +685,18 @@ export function findById(id: string): EquipmentRecord | null {
   return allEquipment.find((e) => e.id === equipmentId) || null;
 }
 
-// Get equipment counts by status
-export function getEquipmentCounts() {
-  const allEquipment = getAllEquipment();
+// Get equipment counts by status for a station (defaults to the active station)
+// The total only covers units in service
+export function getEquipmentCounts(stationCode?: string) {
+  const allEquipment = getStationEquipment(stationCode);
   return {
-    total: allEquipment.length,
+    total: allEquipment.filter(isInService).length,
     available: allEquipment.filter((e) => e.status === "AVAILABLE").length,
     assigned: allEquipment.filter((e) => e.status === "ASSIGNED").length,
     maintenance: allEquipment.filter((e) => e.status === "MAINTENANCE").length,
+    outOfService: allEquipment.filter((e) => e.status === "OUT_OF_SERVICE")
+      .length,
+    retired: allEquipment.filter((e) => e.status === "RETIRED").length,
   };
 }
 
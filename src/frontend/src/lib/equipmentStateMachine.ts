@@ -0,0 +1,199 @@
+// Equipment State Machine - allowed status transitions for registry records
+//
+//   CREATED → AVAILABLE → ASSIGNED → AVAILABLE
+//   any → MAINTENANCE
+//   MAINTENANCE → AVAILABLE (supervisor release only)
+//   AVAILABLE / MAINTENANCE → OUT_OF_SERVICE → AVAILABLE (supervisor only)
+//   AVAILABLE / MAINTENANCE / OUT_OF_SERVICE → RETIRED (final)
+//
+// Anything else is rejected with a typed error unless a supervisor override
+// is supplied, in which case the override is recorded in the history entry.
+// Retired units and check-outs of out-of-service units cannot be overridden.
+// Check-outs of types that require certification are rejected unless the
+// operator holds it on the roster.
+
+import type { EquipmentStatus } from "./equipmentRegistry";
+import { getEquipmentType } from "./equipmentTypeCatalog";
+import { hasPermission } from "./permissions";
+import { isCertifiedFor } from "./userStore";
+
+export type EquipmentLifecycleState = "CREATED" | EquipmentStatus;
+
+export type TransitionErrorCode =
+  | "NOT_FOUND"
+  | "INVALID_TRANSITION"
+  | "ALREADY_ASSIGNED"
+  | "GROUNDED"
+  | "NOT_ASSIGNED"
+  | "NOT_ASSIGNED_TO_OPERATOR"
+  | "OUT_OF_SERVICE"
+  | "RETIRED"
+  | "RELEASE_REQUIRES_SUPERVISOR"
+  | "OVERRIDE_NOT_AUTHORIZED"
+  | "NOT_CERTIFIED";
+
+export interface TransitionError {
+  code: TransitionErrorCode;
+  message: string;
+  // True when a supervisor override may force the transition
+  overridable: boolean;
+}
+
+export interface SupervisorOverride {
+  supervisor: string;
+  role: string;
+  reason: string;
+}
+
+// Transitions that need no further checks
+const TRANSITIONS: Record<EquipmentLifecycleState, readonly EquipmentStatus[]> =
+  {
+    CREATED: ["AVAILABLE", "MAINTENANCE"],
+    AVAILABLE: ["ASSIGNED", "MAINTENANCE", "OUT_OF_SERVICE", "RETIRED"],
+    ASSIGNED: ["AVAILABLE", "MAINTENANCE"],
+    MAINTENANCE: ["MAINTENANCE", "OUT_OF_SERVICE", "RETIRED"],
+    OUT_OF_SERVICE: ["AVAILABLE", "RETIRED"],
+    RETIRED: [],
+  };
+
+/**
+ * Check whether a role may act as supervisor for overrides and releases
+ */
+export function isSupervisorRole(role: string | undefined | null): boolean {
+  return hasPermission(role, "equipment.override");
+}
+
+function rejection(
+  code: TransitionErrorCode,
+  message: string,
+  overridable: boolean,
+): TransitionError {
+  return { code, message, overridable };
+}
+
+/**
+ * Validate a status transition. Returns null when allowed, otherwise a typed
+ * error. A valid supervisor override (or release) bypasses the table.
+ */
+export function checkTransition(
+  current: {
+    id: string;
+    status: EquipmentLifecycleState;
+    type?: string;
+    lastOperator?: string;
+  },
+  to: EquipmentStatus,
+  operator?: string,
+  override?: SupervisorOverride,
+): TransitionError | null {
+  const from = current.status;
+
+  if (from === "RETIRED") {
+    return rejection(
+      "RETIRED",
+      `${current.id} is retired and can no longer be used.`,
+      false,
+    );
+  }
+
+  if (to === "ASSIGNED" && from === "OUT_OF_SERVICE") {
+    return rejection(
+      "OUT_OF_SERVICE",
+      `${current.id} is out of service and cannot be checked out.`,
+      false,
+    );
+  }
+
+  if ((to === "OUT_OF_SERVICE" || to === "RETIRED") && from === "ASSIGNED") {
+    return rejection(
+      "INVALID_TRANSITION",
+      `${current.id} is checked out${current.lastOperator ? ` to ${current.lastOperator}` : ""}. It must be returned before it is taken out of service.`,
+      false,
+    );
+  }
+
+  if (override) {
+    if (!isSupervisorRole(override.role)) {
+      return rejection(
+        "OVERRIDE_NOT_AUTHORIZED",
+        "Only a manager or admin can override equipment status.",
+        false,
+      );
+    }
+    if (!override.reason.trim()) {
+      return rejection(
+        "OVERRIDE_NOT_AUTHORIZED",
+        "A reason is required for a supervisor override.",
+        false,
+      );
+    }
+    return null;
+  }
+
+  if (from === "MAINTENANCE" && to === "AVAILABLE") {
+    return rejection(
+      "RELEASE_REQUIRES_SUPERVISOR",
+      `${current.id} is grounded for maintenance. A supervisor must release it back to service.`,
+      true,
+    );
+  }
+
+  if (to === "ASSIGNED" && from === "ASSIGNED") {
+    return rejection(
+      "ALREADY_ASSIGNED",
+      `${current.id} is already checked out${current.lastOperator ? ` to ${current.lastOperator}` : ""}. It must be returned before it can be checked out again.`,
+      true,
+    );
+  }
+
+  if (to === "ASSIGNED" && from === "MAINTENANCE") {
+    return rejection(
+      "GROUNDED",
+      `${current.id} is grounded for maintenance and cannot be checked out.`,
+      true,
+    );
+  }
+
+  if (to === "ASSIGNED" && operator && current.type) {
+    const type = getEquipmentType(current.type);
+    if (type?.requiresCertification && !isCertifiedFor(operator, type.code)) {
+      return rejection(
+        "NOT_CERTIFIED",
+        `${operator} is not certified to operate ${type.name}. A supervisor must approve this check-out.`,
+        true,
+      );
+    }
+  }
+
+  if (to === "AVAILABLE" && from === "AVAILABLE") {
+    return rejection(
+      "NOT_ASSIGNED",
+      `${current.id} is not checked out, so there is nothing to return.`,
+      false,
+    );
+  }
+
+  if (
+    to === "AVAILABLE" &&
+    from === "ASSIGNED" &&
+    current.lastOperator &&
+    operator &&
+    current.lastOperator !== operator
+  ) {
+    return rejection(
+      "NOT_ASSIGNED_TO_OPERATOR",
+      `${current.id} is checked out to ${current.lastOperator}. Only that operator can return it.`,
+      true,
+    );
+  }
+
+  if (!TRANSITIONS[from].includes(to)) {
+    return rejection(
+      "INVALID_TRANSITION",
+      `${current.id} cannot move from ${from} to ${to}.`,
+      false,
+    );
+  }
+
+  return null;
+}
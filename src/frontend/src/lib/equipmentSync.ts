@@ -0,0 +1,431 @@
+// Equipment Sync - two-way reconciliation between the localStorage registry
+// and the backend Equipment records
+//
+// The newer side wins, compared by local updatedAt vs backend last_update_time,
+// except that a locally retired unit is never revived by the backend.
+// The backend Equipment record has no station, so the station stays a local
+// field: units only the backend knows are created unassigned
+// (UNASSIGNED_STATION_CODE) and appear in no station's fleet until a
+// supervisor assigns them from Manage Equipment.
+// Every record where the two sides disagreed is reported as a divergence so
+// supervisors can see what moved in the reconciliation view.
+
+import type { Equipment, backendInterface } from "../backend";
+import {
+  type EquipmentRecord,
+  type EquipmentStatus,
+  type HistoryEntry,
+  getAllEquipment,
+  getRetiredIds,
+  normalizeEquipmentId,
+  saveAllEquipment,
+} from "./equipmentRegistry";
+import { inferEquipmentType } from "./equipmentTypeCatalog";
+import { enqueueMutation, replayOutbox } from "./offlineOutbox";
+import { UNASSIGNED_STATION_CODE } from "./stationStore";
+
+export interface SyncSide {
+  status: EquipmentStatus;
+  operator?: string;
+  location?: string;
+  updatedAt?: string;
+}
+
+export interface SyncDivergence {
+  equipmentId: string;
+  local?: SyncSide;
+  remote?: SyncSide;
+  resolution: "pulled" | "pushed" | "created_local" | "created_remote";
+  // Both sides changed since the last sync; the newer one was kept
+  concurrent: boolean;
+}
+
+export interface EquipmentSyncReport {
+  startedAt: string;
+  finishedAt: string;
+  pulled: number;
+  pushed: number;
+  inSync: number;
+  divergences: SyncDivergence[];
+  error?: string;
+}
+
+export interface ReconcileResult {
+  merged: EquipmentRecord[];
+  toAdd: Equipment[];
+  toUpdate: Equipment[];
+  divergences: SyncDivergence[];
+  inSync: number;
+}
+
+const SYNC_REPORT_KEY = "ramptrack_equipment_sync_report";
+export const SYNC_INTERVAL_MS = 60000;
+
+/**
+ * Map registry status to the backend's lowercase status
+ */
+export function toBackendStatus(status: EquipmentStatus): string {
+  return status.toLowerCase();
+}
+
+/**
+ * Map a backend status back to a registry status (unknown values → AVAILABLE)
+ */
+export function fromBackendStatus(status: string): EquipmentStatus {
+  const upper = status.toUpperCase();
+  if (
+    upper === "ASSIGNED" ||
+    upper === "MAINTENANCE" ||
+    upper === "OUT_OF_SERVICE" ||
+    upper === "RETIRED"
+  ) {
+    return upper;
+  }
+  return "AVAILABLE";
+}
+
+// Backend timestamps are nanoseconds since epoch
+const nanosToIso = (nanos: bigint): string =>
+  new Date(Number(nanos / 1000000n)).toISOString();
+const isoToNanos = (iso: string): bigint =>
+  BigInt(new Date(iso).getTime()) * 1000000n;
+
+/**
+ * Convert a registry record to the backend Equipment shape
+ */
+export function toBackendEquipment(record: EquipmentRecord): Equipment {
+  return {
+    id: record.id,
+    name: record.label || record.id,
+    status: toBackendStatus(record.status),
+    assigned_operator:
+      record.status === "ASSIGNED" ? record.lastOperator : undefined,
+    last_location: record.location || "",
+    last_update_time: isoToNanos(record.updatedAt || record.createdAt),
+  };
+}
+
+const localSide = (record: EquipmentRecord): SyncSide => ({
+  status: record.status,
+  operator: record.status === "ASSIGNED" ? record.lastOperator : undefined,
+  location: record.location,
+  updatedAt: record.updatedAt,
+});
+
+const remoteSide = (remote: Equipment): SyncSide => ({
+  status: fromBackendStatus(remote.status),
+  operator: remote.assigned_operator,
+  location: remote.last_location || undefined,
+  updatedAt: nanosToIso(remote.last_update_time),
+});
+
+const sameState = (a: SyncSide, b: SyncSide): boolean =>
+  a.status === b.status &&
+  (a.operator ?? "") === (b.operator ?? "") &&
+  (a.location ?? "") === (b.location ?? "");
+
+const HISTORY_ACTION: Record<EquipmentStatus, HistoryEntry["action"]> = {
+  AVAILABLE: "RETURN",
+  ASSIGNED: "CHECKOUT",
+  MAINTENANCE: "MAINTENANCE",
+  OUT_OF_SERVICE: "OUT_OF_SERVICE",
+  RETIRED: "RETIRED",
+};
+
+// Apply the backend state to a local record, recording it in history
+function applyRemote(
+  record: EquipmentRecord,
+  remote: Equipment,
+  now: string,
+): EquipmentRecord {
+  const side = remoteSide(remote);
+  const updated: EquipmentRecord = {
+    ...record,
+    status: side.status,
+    location: side.location ?? record.location,
+    lastSync: {
+      at: now,
+      remoteUpdateTime: remote.last_update_time.toString(),
+    },
+  };
+
+  if (side.status === "ASSIGNED") {
+    updated.lastOperator = side.operator ?? record.lastOperator;
+    if (record.status !== "ASSIGNED") updated.checkoutTime = side.updatedAt;
+  } else if (side.status === "AVAILABLE" && record.status !== "AVAILABLE") {
+    updated.returnTime = side.updatedAt;
+  }
+
+  if (record.status !== side.status) {
+    updated.history = [
+      ...record.history,
+      {
+        timestamp: side.updatedAt ?? now,
+        action: HISTORY_ACTION[side.status],
+        operator: side.operator,
+        location: side.location,
+        notes: "Synced from backend",
+      },
+    ];
+  }
+
+  return updated;
+}
+
+/**
+ * Merge local and remote equipment. Pure - callers persist the result.
+ * Backend-only units whose IDs were retired here are not re-created.
+ */
+export function reconcileEquipment(
+  local: EquipmentRecord[],
+  remote: Equipment[],
+  now: string = new Date().toISOString(),
+  retiredIds: string[] = [],
+): ReconcileResult {
+  const remoteById = new Map(remote.map((e) => [e.id, e]));
+  const localIds = new Set(local.map((e) => e.id));
+  const result: ReconcileResult = {
+    merged: [],
+    toAdd: [],
+    toUpdate: [],
+    divergences: [],
+    inSync: 0,
+  };
+
+  for (const record of local) {
+    const remoteRecord = remoteById.get(record.id);
+
+    if (!remoteRecord) {
+      // Local-only equipment - create it in the backend
+      result.toAdd.push(toBackendEquipment(record));
+      result.merged.push({
+        ...record,
+        lastSync: {
+          at: now,
+          remoteUpdateTime:
+            toBackendEquipment(record).last_update_time.toString(),
+        },
+      });
+      result.divergences.push({
+        equipmentId: record.id,
+        local: localSide(record),
+        resolution: "created_remote",
+        concurrent: false,
+      });
+      continue;
+    }
+
+    const mine = localSide(record);
+    const theirs = remoteSide(remoteRecord);
+
+    if (sameState(mine, theirs)) {
+      result.inSync++;
+      result.merged.push({
+        ...record,
+        lastSync: {
+          at: now,
+          remoteUpdateTime: remoteRecord.last_update_time.toString(),
+        },
+      });
+      continue;
+    }
+
+    const localChanged =
+      !!record.updatedAt &&
+      (!record.lastSync || record.updatedAt > record.lastSync.at);
+    const remoteChanged =
+      !record.lastSync ||
+      remoteRecord.last_update_time > BigInt(record.lastSync.remoteUpdateTime);
+
+    const localTime = record.updatedAt
+      ? isoToNanos(record.updatedAt)
+      : BigInt(0);
+    const pushLocal =
+      record.status === "RETIRED" ||
+      (localChanged &&
+        (!remoteChanged || localTime > remoteRecord.last_update_time));
+
+    if (pushLocal) {
+      const outgoing = toBackendEquipment(record);
+      result.toUpdate.push(outgoing);
+      result.merged.push({
+        ...record,
+        lastSync: {
+          at: now,
+          remoteUpdateTime: outgoing.last_update_time.toString(),
+        },
+      });
+    } else {
+      result.merged.push(applyRemote(record, remoteRecord, now));
+    }
+
+    result.divergences.push({
+      equipmentId: record.id,
+      local: mine,
+      remote: theirs,
+      resolution: pushLocal ? "pushed" : "pulled",
+      concurrent: localChanged && remoteChanged,
+    });
+  }
+
+  // Remote-only equipment - create it locally
+  for (const remoteRecord of remote) {
+    if (localIds.has(remoteRecord.id) || retiredIds.includes(remoteRecord.id)) {
+      continue;
+    }
+
+    const createdAt = nanosToIso(remoteRecord.last_update_time);
+    const created = applyRemote(
+      {
+        id: remoteRecord.id,
+        type: inferEquipmentType(normalizeEquipmentId(remoteRecord.id)),
+        label:
+          remoteRecord.name && remoteRecord.name !== remoteRecord.id
+            ? remoteRecord.name
+            : undefined,
+        // The backend does not know which station added the unit
+        stationCode: UNASSIGNED_STATION_CODE,
+        status: "AVAILABLE",
+        createdAt,
+        history: [
+          {
+            timestamp: createdAt,
+            action: "CREATED",
+            notes: "Imported from backend",
+          },
+        ],
+      },
+      remoteRecord,
+      now,
+    );
+    result.merged.push(created);
+    result.divergences.push({
+      equipmentId: remoteRecord.id,
+      remote: remoteSide(remoteRecord),
+      resolution: "created_local",
+      concurrent: false,
+    });
+  }
+
+  return result;
+}
+
+// Report listeners (same pattern as apiClient refresh state)
+const reportListeners: Set<(report: EquipmentSyncReport | null) => void> =
+  new Set();
+
+/**
+ * Load the last sync report from localStorage
+ */
+export function loadSyncReport(): EquipmentSyncReport | null {
+  try {
+    const data = localStorage.getItem(SYNC_REPORT_KEY);
+    return data ? (JSON.parse(data) as EquipmentSyncReport) : null;
+  } catch (e) {
+    console.error("Error loading sync report:", e);
+    return null;
+  }
+}
+
+/**
+ * Subscribe to sync report changes
+ * Returns unsubscribe function
+ */
+export function subscribeToSyncReport(
+  listener: (report: EquipmentSyncReport | null) => void,
+): () => void {
+  reportListeners.add(listener);
+  listener(loadSyncReport());
+
+  return () => {
+    reportListeners.delete(listener);
+  };
+}
+
+function saveSyncReport(report: EquipmentSyncReport): void {
+  try {
+    localStorage.setItem(SYNC_REPORT_KEY, JSON.stringify(report));
+  } catch (e) {
+    console.error("Error saving sync report:", e);
+  }
+  for (const listener of reportListeners) {
+    try {
+      listener(report);
+    } catch (error) {
+      console.error("[equipmentSync] Error in report listener:", error);
+    }
+  }
+}
+
+let syncInFlight: Promise<EquipmentSyncReport> | null = null;
+
+async function runSync(actor: backendInterface): Promise<EquipmentSyncReport> {
+  const startedAt = new Date().toISOString();
+
+  try {
+    const remote = await actor.getAllEquipment();
+
+    // Read local state after the await so writes made meanwhile are included
+    const result = reconcileEquipment(
+      getAllEquipment(),
+      remote,
+      undefined,
+      getRetiredIds(),
+    );
+    saveAllEquipment(result.merged);
+
+    // Pushes go through the outbox so they survive losing signal mid-sync
+    for (const equipment of result.toAdd) {
+      await enqueueMutation({ kind: "addEquipment", payload: equipment });
+    }
+    for (const equipment of result.toUpdate) {
+      await enqueueMutation({ kind: "updateEquipment", payload: equipment });
+    }
+    if (result.toAdd.length > 0 || result.toUpdate.length > 0) {
+      await replayOutbox(actor);
+    }
+
+    const report: EquipmentSyncReport = {
+      startedAt,
+      finishedAt: new Date().toISOString(),
+      pulled: result.divergences.filter(
+        (d) => d.resolution === "pulled" || d.resolution === "created_local",
+      ).length,
+      pushed: result.toAdd.length + result.toUpdate.length,
+      inSync: result.inSync,
+      divergences: result.divergences,
+    };
+    saveSyncReport(report);
+    return report;
+  } catch (error) {
+    console.error("[equipmentSync] Sync failed:", error);
+    const report: EquipmentSyncReport = {
+      ...(loadSyncReport() ?? {
+        pulled: 0,
+        pushed: 0,
+        inSync: 0,
+        divergences: [],
+      }),
+      startedAt,
+      finishedAt: new Date().toISOString(),
+      error: error instanceof Error ? error.message : String(error),
+    };
+    saveSyncReport(report);
+    return report;
+  }
+}
+
+/**
+ * Pull backend equipment, merge it into the registry and push local-only
+ * changes. Concurrent calls share one run.
+ */
+export function syncEquipment(
+  actor: backendInterface,
+): Promise<EquipmentSyncReport> {
+  if (!syncInFlight) {
+    syncInFlight = runSync(actor).finally(() => {
+      syncInFlight = null;
+    });
+  }
+  return syncInFlight;
+}
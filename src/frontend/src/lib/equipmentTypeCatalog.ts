@@ -0,0 +1,331 @@
+// Equipment Type Catalog - admin-managed equipment types with localStorage
+// persistence
+//
+// Each type carries its power source, the ID pattern its units use, the
+// pre-use checklist operators confirm at check-out, whether only certified
+// operators may take it (see certifications in lib/userStore.ts), and how long
+// a unit may stay checked out before it is overdue. The registry, ID normalization and the equipment screens all
+// read types from here.
+
+import { checkPermission } from "./permissions";
+
+export type PowerSource = "DIESEL" | "GASOLINE" | "ELECTRIC" | "NONE";
+
+export const POWER_SOURCE_LABELS: Record<PowerSource, string> = {
+  DIESEL: "Diesel",
+  GASOLINE: "Gasoline",
+  ELECTRIC: "Electric",
+  NONE: "Unpowered",
+};
+
+export interface EquipmentTypeDefinition {
+  // Stable code stored on equipment records, e.g. "BELT_LOADER"
+  code: string;
+  name: string;
+  powerSource: PowerSource;
+  // Regular expression (without anchors) that unit IDs of this type match
+  idPattern: string;
+  // Pre-use checks confirmed at check-out
+  checklist: string[];
+  requiresCertification: boolean;
+  // Longest a unit may stay checked out (absent = DEFAULT_MAX_CHECKOUT_MINUTES)
+  maxCheckoutMinutes?: number;
+  // Unit IDs known to be this type when the pattern is shared with another
+  // type (electric tugs use the same TV#### IDs as diesel tugs)
+  memberIds?: string[];
+  updatedAt?: string;
+}
+
+const STORAGE_KEY = "ramptrack_equipment_types";
+
+// Type assumed when an ID matches no pattern
+export const DEFAULT_EQUIPMENT_TYPE = "TUG";
+
+// One shift: units still out after this are overdue
+export const DEFAULT_MAX_CHECKOUT_MINUTES = 8 * 60;
+const MAX_CHECKOUT_LIMIT_MINUTES = 72 * 60;
+
+const TUG_CHECKLIST = [
+  "Brakes and parking brake hold",
+  "Lights and beacon working",
+  "Hitch and pins secure",
+  "No fluid leaks",
+];
+
+const DEFAULT_TYPES: EquipmentTypeDefinition[] = [
+  {
+    code: "ELECTRIC_TUG",
+    name: "Electric Tug",
+    powerSource: "ELECTRIC",
+    idPattern: "TV\\d{4}",
+    checklist: [...TUG_CHECKLIST, "Battery charge above 30%"],
+    requiresCertification: false,
+    memberIds: [
+      "TV1077",
+      "TV1078",
+      "TV1079",
+      "TV1080",
+      "TV1081",
+      "TV1082",
+      "TV1083",
+      "TV1084",
+      "TV1088",
+      "TV1089",
+      "TV1280",
+      "TV1341",
+      "TV1342",
+      "TV1343",
+      "TV1344",
+    ],
+  },
+  {
+    code: "TUG",
+    name: "Tug (Gas/Diesel)",
+    powerSource: "DIESEL",
+    idPattern: "TV\\d{4}",
+    checklist: TUG_CHECKLIST,
+    requiresCertification: false,
+  },
+  {
+    code: "STANDUP_PUSHBACK",
+    name: "Standup Pushback",
+    powerSource: "ELECTRIC",
+    idPattern: "SP\\d{2,4}",
+    checklist: ["Battery charge above 30%", "Tow bar adapter secure"],
+    requiresCertification: true,
+    maxCheckoutMinutes: 2 * 60,
+  },
+  {
+    code: "LAMBO_PUSHBACK",
+    name: "Lambo Pushback",
+    powerSource: "DIESEL",
+    idPattern: "LP\\d{2,4}",
+    checklist: ["Brakes hold", "Tow bar secure", "No fluid leaks"],
+    requiresCertification: true,
+    maxCheckoutMinutes: 2 * 60,
+  },
+  {
+    code: "BELT_LOADER",
+    name: "Belt Loader",
+    powerSource: "DIESEL",
+    idPattern: "BL\\d{3,4}",
+    checklist: ["Belt runs both directions", "Bumpers intact", "Brakes hold"],
+    requiresCertification: false,
+  },
+  {
+    code: "GPU",
+    name: "Ground Power Unit",
+    powerSource: "DIESEL",
+    idPattern: "GPU\\d{2,4}",
+    checklist: ["Cable and plug undamaged", "Output voltage normal"],
+    requiresCertification: false,
+  },
+  {
+    code: "AIR_START",
+    name: "Air Start Unit",
+    powerSource: "DIESEL",
+    idPattern: "AS\\d{2,4}",
+    checklist: ["Hose and coupling undamaged", "No fluid leaks"],
+    requiresCertification: true,
+  },
+  {
+    code: "LAV_CART",
+    name: "Lavatory Cart",
+    powerSource: "NONE",
+    idPattern: "LAV\\d{2,4}",
+    checklist: ["Tank empty", "Hoses capped", "Hitch secure"],
+    requiresCertification: false,
+  },
+  {
+    code: "WATER_CART",
+    name: "Potable Water Cart",
+    powerSource: "NONE",
+    idPattern: "PW\\d{2,4}",
+    checklist: ["Hoses capped and clean", "Hitch secure"],
+    requiresCertification: false,
+  },
+  {
+    code: "BAG_CART",
+    name: "Baggage Cart",
+    powerSource: "NONE",
+    idPattern: "BC\\d{3,4}",
+    checklist: ["Curtains and doors intact", "Hitch secure"],
+    requiresCertification: false,
+  },
+  {
+    code: "DEICER",
+    name: "Deicing Truck",
+    powerSource: "DIESEL",
+    idPattern: "DI\\d{2,4}",
+    checklist: ["Fluid levels checked", "Boom controls respond", "Lights work"],
+    requiresCertification: true,
+  },
+];
+
+/**
+ * Get all equipment types, seeding the defaults on first use. Order matters:
+ * the first matching type wins when inferring a type from an ID.
+ */
+export function getEquipmentTypes(): EquipmentTypeDefinition[] {
+  try {
+    const data = localStorage.getItem(STORAGE_KEY);
+    if (!data) {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(DEFAULT_TYPES));
+      return DEFAULT_TYPES.map((t) => ({ ...t }));
+    }
+    return JSON.parse(data) as EquipmentTypeDefinition[];
+  } catch (error) {
+    console.error("Error reading equipment types:", error);
+    return DEFAULT_TYPES.map((t) => ({ ...t }));
+  }
+}
+
+export function getEquipmentType(code: string): EquipmentTypeDefinition | null {
+  return getEquipmentTypes().find((t) => t.code === code) ?? null;
+}
+
+/**
+ * Display name for a type code (falls back to the code itself)
+ */
+export function formatEquipmentType(code: string): string {
+  return getEquipmentType(code)?.name ?? code.replace(/_/g, " ");
+}
+
+/**
+ * How long a unit of a type may stay checked out, in minutes
+ */
+export function getMaxCheckoutMinutes(code: string): number {
+  return (
+    getEquipmentType(code)?.maxCheckoutMinutes ?? DEFAULT_MAX_CHECKOUT_MINUTES
+  );
+}
+
+const compilePattern = (idPattern: string, anchored: boolean): RegExp =>
+  new RegExp(anchored ? `^(?:${idPattern})$` : idPattern);
+
+/**
+ * Find the first catalog ID pattern inside a raw scan value
+ */
+export function extractEquipmentId(value: string): string | null {
+  for (const type of getEquipmentTypes()) {
+    try {
+      const match = value.match(compilePattern(type.idPattern, false));
+      if (match) return match[0];
+    } catch {
+      // Invalid patterns are rejected on save; skip any legacy ones
+    }
+  }
+  return null;
+}
+
+/**
+ * Whether an ID fits a type's pattern
+ */
+export function matchesTypePattern(
+  type: EquipmentTypeDefinition,
+  id: string,
+): boolean {
+  try {
+    return compilePattern(type.idPattern, true).test(id);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Infer the type of a unit from its ID: explicit member lists first, then
+ * the first matching ID pattern, otherwise the default type
+ */
+export function inferEquipmentType(id: string): string {
+  const types = getEquipmentTypes();
+  return (
+    types.find((t) => t.memberIds?.includes(id))?.code ??
+    types.find((t) => !t.memberIds && matchesTypePattern(t, id))?.code ??
+    DEFAULT_EQUIPMENT_TYPE
+  );
+}
+
+/**
+ * Add a type or replace the type with the same code
+ */
+export function saveEquipmentType(type: EquipmentTypeDefinition): {
+  success: boolean;
+  error?: string;
+} {
+  const denied = checkPermission("equipmentType.manage", type.code);
+  if (denied) return { success: false, error: denied };
+
+  const code = type.code.trim().toUpperCase();
+  if (!/^[A-Z][A-Z0-9_]*$/.test(code)) {
+    return {
+      success: false,
+      error: "Type code must be letters, digits and underscores",
+    };
+  }
+  if (!type.name.trim()) {
+    return { success: false, error: "Type name is required" };
+  }
+  try {
+    compilePattern(type.idPattern, true);
+  } catch {
+    return { success: false, error: "ID pattern is not a valid expression" };
+  }
+  if (
+    type.maxCheckoutMinutes !== undefined &&
+    (!Number.isInteger(type.maxCheckoutMinutes) ||
+      type.maxCheckoutMinutes < 15 ||
+      type.maxCheckoutMinutes > MAX_CHECKOUT_LIMIT_MINUTES)
+  ) {
+    return {
+      success: false,
+      error: `Max checkout must be between 15 minutes and ${MAX_CHECKOUT_LIMIT_MINUTES / 60} hours`,
+    };
+  }
+
+  try {
+    const types = getEquipmentTypes();
+    const saved: EquipmentTypeDefinition = {
+      ...type,
+      code,
+      name: type.name.trim(),
+      checklist: type.checklist.map((item) => item.trim()).filter(Boolean),
+      updatedAt: new Date().toISOString(),
+    };
+    const index = types.findIndex((t) => t.code === code);
+    if (index === -1) types.push(saved);
+    else types[index] = saved;
+
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(types));
+    return { success: true };
+  } catch (error) {
+    console.error("Error saving equipment type:", error);
+    return { success: false, error: "Failed to save equipment type" };
+  }
+}
+
+/**
+ * Delete a type. Callers must make sure no equipment still uses it.
+ */
+export function deleteEquipmentType(code: string): {
+  success: boolean;
+  error?: string;
+} {
+  const denied = checkPermission("equipmentType.manage", code);
+  if (denied) return { success: false, error: denied };
+
+  try {
+    const types = getEquipmentTypes();
+    const remaining = types.filter((t) => t.code !== code);
+    if (remaining.length === types.length) {
+      return { success: false, error: "Equipment type not found" };
+    }
+    if (remaining.length === 0) {
+      return { success: false, error: "The catalog needs at least one type" };
+    }
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(remaining));
+    return { success: true };
+  } catch (error) {
+    console.error("Error deleting equipment type:", error);
+    return { success: false, error: "Failed to delete equipment type" };
+  }
+}
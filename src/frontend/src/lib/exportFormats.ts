@@ -0,0 +1,399 @@
+// Export Formats - CSV, Excel and printable report output for record tables
+//
+// Every export is a list of tables (one per record type). CSV writes one file
+// per table, Excel one worksheet per table, and the printable report renders
+// all tables into a print window the browser can save as PDF. The .xlsx file
+// is assembled here (uncompressed zip + SpreadsheetML) so no spreadsheet
+// library is needed.
+
+export type ExportCell = string | number | boolean | Date | null | undefined;
+
+export interface ExportTable {
+  title: string;
+  columns: string[];
+  rows: ExportCell[][];
+}
+
+export type ExportFormat = "csv" | "xlsx" | "pdf";
+
+/**
+ * File-name friendly timestamp, e.g. "2024-05-01_1430"
+ */
+export function fileStamp(date: Date = new Date()): string {
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}_${pad(date.getHours())}${pad(date.getMinutes())}`;
+}
+
+const slug = (title: string) =>
+  title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+
+function cellText(cell: ExportCell): string {
+  if (cell === null || cell === undefined) return "";
+  if (cell instanceof Date) return cell.toISOString();
+  if (typeof cell === "boolean") return cell ? "Yes" : "No";
+  return String(cell);
+}
+
+/**
+ * Trigger a browser download for a blob
+ */
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+// ---------------------------------------------------------------------------
+// CSV
+// ---------------------------------------------------------------------------
+
+function csvField(cell: ExportCell): string {
+  let text = cellText(cell);
+  // Spreadsheet apps run text starting with these as a formula
+  if (typeof cell === "string" && /^[=+\-@]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(table: ExportTable): string {
+  return [table.columns, ...table.rows]
+    .map((row) => row.map(csvField).join(","))
+    .join("\r\n");
+}
+
+// ---------------------------------------------------------------------------
+// XLSX
+// ---------------------------------------------------------------------------
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Build a zip archive with every entry stored (no compression)
+ */
+export function buildZip(
+  files: { name: string; content: string }[],
+): Uint8Array<ArrayBuffer> {
+  const encoder = new TextEncoder();
+  const now = new Date();
+  const dosTime =
+    (now.getHours() << 11) |
+    (now.getMinutes() << 5) |
+    Math.floor(now.getSeconds() / 2);
+  const dosDate =
+    ((now.getFullYear() - 1980) << 9) |
+    ((now.getMonth() + 1) << 5) |
+    now.getDate();
+
+  const localParts: Uint8Array[] = [];
+  const centralParts: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const name = encoder.encode(file.name);
+    const data = encoder.encode(file.content);
+    const crc = crc32(data);
+
+    const local = new Uint8Array(30 + name.length);
+    const lv = new DataView(local.buffer);
+    lv.setUint32(0, 0x04034b50, true);
+    lv.setUint16(4, 20, true);
+    lv.setUint16(6, 0x0800, true); // UTF-8 names
+    lv.setUint16(8, 0, true); // stored
+    lv.setUint16(10, dosTime, true);
+    lv.setUint16(12, dosDate, true);
+    lv.setUint32(14, crc, true);
+    lv.setUint32(18, data.length, true);
+    lv.setUint32(22, data.length, true);
+    lv.setUint16(26, name.length, true);
+    local.set(name, 30);
+
+    const central = new Uint8Array(46 + name.length);
+    const cv = new DataView(central.buffer);
+    cv.setUint32(0, 0x02014b50, true);
+    cv.setUint16(4, 20, true);
+    cv.setUint16(6, 20, true);
+    cv.setUint16(8, 0x0800, true);
+    cv.setUint16(10, 0, true);
+    cv.setUint16(12, dosTime, true);
+    cv.setUint16(14, dosDate, true);
+    cv.setUint32(16, crc, true);
+    cv.setUint32(20, data.length, true);
+    cv.setUint32(24, data.length, true);
+    cv.setUint16(28, name.length, true);
+    cv.setUint32(42, offset, true);
+    central.set(name, 46);
+
+    localParts.push(local, data);
+    centralParts.push(central);
+    offset += local.length + data.length;
+  }
+
+  const centralSize = centralParts.reduce((sum, p) => sum + p.length, 0);
+  const end = new Uint8Array(22);
+  const ev = new DataView(end.buffer);
+  ev.setUint32(0, 0x06054b50, true);
+  ev.setUint16(8, files.length, true);
+  ev.setUint16(10, files.length, true);
+  ev.setUint32(12, centralSize, true);
+  ev.setUint32(16, offset, true);
+
+  const parts = [...localParts, ...centralParts, end];
+  const zip = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let position = 0;
+  for (const part of parts) {
+    zip.set(part, position);
+    position += part.length;
+  }
+  return zip;
+}
+
+export const escapeXml = (text: string) =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    // Control characters are not allowed in XML 1.0
+    // biome-ignore lint/suspicious/noControlCharactersInRegex: stripping them is the point
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, "");
+
+function columnName(index: number): string {
+  let name = "";
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+function sheetXml(table: ExportTable): string {
+  const rows = [table.columns, ...table.rows].map((row, r) => {
+    const cells = row.map((cell, c) => {
+      const ref = `${columnName(c)}${r + 1}`;
+      // Header row uses the bold style
+      const style = r === 0 ? ' s="1"' : "";
+      if (typeof cell === "number" && Number.isFinite(cell)) {
+        return `<c r="${ref}"${style}><v>${cell}</v></c>`;
+      }
+      const text = cellText(cell);
+      if (!text) return "";
+      return `<c r="${ref}"${style} t="inlineStr"><is><t xml:space="preserve">${escapeXml(text)}</t></is></c>`;
+    });
+    return `<row r="${r + 1}">${cells.join("")}</row>`;
+  });
+
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews><sheetData>${rows.join("")}</sheetData></worksheet>`;
+}
+
+/**
+ * Excel worksheet names: at most 31 characters, no []:*?/\ and unique
+ */
+function sheetNames(tables: ExportTable[]): string[] {
+  const used = new Set<string>();
+  return tables.map((table, i) => {
+    const base =
+      table.title.replace(/[[\]:*?/\\]/g, " ").slice(0, 28) || `Sheet${i + 1}`;
+    let name = base;
+    for (let n = 2; used.has(name.toLowerCase()); n++) name = `${base} ${n}`;
+    used.add(name.toLowerCase());
+    return name;
+  });
+}
+
+export function toXlsx(tables: ExportTable[]): Blob {
+  const names = sheetNames(tables);
+  const sheets = tables.map((_, i) => `sheet${i + 1}.xml`);
+
+  const files = [
+    {
+      name: "[Content_Types].xml",
+      content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/><Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>${sheets
+        .map(
+          (sheet) =>
+            `<Override PartName="/xl/worksheets/${sheet}" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`,
+        )
+        .join("")}</Types>`,
+    },
+    {
+      name: "_rels/.rels",
+      content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/></Relationships>`,
+    },
+    {
+      name: "xl/workbook.xml",
+      content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets>${names
+        .map(
+          (name, i) =>
+            `<sheet name="${escapeXml(name)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`,
+        )
+        .join("")}</sheets></workbook>`,
+    },
+    {
+      name: "xl/_rels/workbook.xml.rels",
+      content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${sheets
+        .map(
+          (sheet, i) =>
+            `<Relationship Id="rId${i + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/${sheet}"/>`,
+        )
+        .join(
+          "",
+        )}<Relationship Id="rId${sheets.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/></Relationships>`,
+    },
+    {
+      name: "xl/styles.xml",
+      content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts><fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills><borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders><cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs><cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs></styleSheet>`,
+    },
+    ...tables.map((table, i) => ({
+      name: `xl/worksheets/${sheets[i]}`,
+      content: sheetXml(table),
+    })),
+  ];
+
+  return new Blob([buildZip(files)], {
+    type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Printable report (PDF via the browser's print dialog)
+// ---------------------------------------------------------------------------
+
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+function printCell(cell: ExportCell): string {
+  if (cell instanceof Date) return escapeHtml(cell.toLocaleString());
+  return escapeHtml(cellText(cell));
+}
+
+/**
+ * Open the tables as a printable report and start printing, so the user can
+ * save it as PDF. `details` are label/value lines printed under the title.
+ */
+export function printReport(
+  title: string,
+  details: [string, string][],
+  tables: ExportTable[],
+): { success: boolean; error?: string } {
+  const report = window.open("", "_blank");
+  if (!report) {
+    return {
+      success: false,
+      error: "The report window was blocked. Allow pop-ups and try again.",
+    };
+  }
+
+  const sections = tables
+    .map(
+      (table) =>
+        `<h2>${escapeHtml(table.title)} (${table.rows.length})</h2>${
+          table.rows.length === 0
+            ? "<p>No records.</p>"
+            : `<table><thead><tr>${table.columns
+                .map((column) => `<th>${escapeHtml(column)}</th>`)
+                .join("")}</tr></thead><tbody>${table.rows
+                .map(
+                  (row) =>
+                    `<tr>${row.map((cell) => `<td>${printCell(cell)}</td>`).join("")}</tr>`,
+                )
+                .join("")}</tbody></table>`
+        }`,
+    )
+    .join("");
+
+  report.document.write(`<!doctype html><html><head><meta charset="utf-8"><title>${escapeHtml(title)}</title><style>
+body{font-family:system-ui,sans-serif;font-size:10px;color:#000;margin:16px}
+h1{font-size:18px;margin:0 0 4px}h2{font-size:13px;margin:18px 0 6px}
+dl{display:grid;grid-template-columns:max-content auto;gap:2px 12px;margin:0}
+dt{font-weight:600}dd{margin:0}
+table{width:100%;border-collapse:collapse}
+th,td{border:1px solid #999;padding:3px 4px;text-align:left;vertical-align:top}
+th{background:#eee}tr{page-break-inside:avoid}thead{display:table-header-group}
+@page{size:landscape;margin:12mm}
+</style></head><body><h1>${escapeHtml(title)}</h1><dl>${details
+    .map(
+      ([label, value]) =>
+        `<dt>${escapeHtml(label)}</dt><dd>${escapeHtml(value)}</dd>`,
+    )
+    .join("")}</dl>${sections}</body></html>`);
+  report.document.close();
+  report.focus();
+  report.print();
+  return { success: true };
+}
+
+/**
+ * Export tables in a format. CSV downloads one file per table.
+ */
+export function exportTables(
+  format: ExportFormat,
+  baseName: string,
+  title: string,
+  details: [string, string][],
+  tables: ExportTable[],
+): { success: boolean; error?: string } {
+  if (tables.length === 0) {
+    return { success: false, error: "Choose at least one record type" };
+  }
+
+  try {
+    const stamp = fileStamp();
+    switch (format) {
+      case "csv":
+        for (const table of tables) {
+          // BOM so Excel opens UTF-8 CSV correctly
+          downloadBlob(
+            new Blob([`\uFEFF${toCsv(table)}`], {
+              type: "text/csv;charset=utf-8",
+            }),
+            `${baseName}_${slug(table.title)}_${stamp}.csv`,
+          );
+        }
+        return { success: true };
+      case "xlsx":
+        downloadBlob(toXlsx(tables), `${baseName}_${stamp}.xlsx`);
+        return { success: true };
+      case "pdf":
+        return printReport(title, details, tables);
+    }
+  } catch (error) {
+    console.error("Error exporting records:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Export failed",
+    };
+  }
+}
@@ -0,0 +1,343 @@
+// Fleet Analytics - utilization, downtime and demand over a date range
+//
+// Each unit's state over time (in use, idle or grounded) is rebuilt from its
+// registry history, the scan audit log and the backend Assignment/Issue
+// records. The sources overlap, so transitions are merged by time and repeats
+// of the same state are ignored. Days are local calendar days.
+
+import type { Assignment, Issue } from "../backend";
+import type { ScanEvent } from "./auditLog";
+import type { EquipmentRecord } from "./equipmentRegistry";
+
+// OUT_OF_SERVICE covers retired units too; that time is not tracked
+export type UnitState = "IN_USE" | "IDLE" | "GROUNDED" | "OUT_OF_SERVICE";
+
+export interface DateRange {
+  // Local dates, "YYYY-MM-DD", inclusive
+  from: string;
+  to: string;
+}
+
+export interface DailyUsage {
+  date: string;
+  inUseHours: number;
+  idleHours: number;
+  groundedHours: number;
+}
+
+export interface UnitUsage {
+  equipmentId: string;
+  type: string;
+  inUseHours: number;
+  idleHours: number;
+  groundedHours: number;
+  // Share of tracked time in use, 0–100
+  utilization: number;
+  // Issues reported in the range
+  issueCount: number;
+}
+
+export interface HourlyDemand {
+  hour: number;
+  // Check-outs that started in this hour of day
+  checkouts: number;
+  // Average units in use at the half hour
+  averageInUse: number;
+}
+
+export interface FleetAnalytics {
+  daily: DailyUsage[];
+  units: UnitUsage[];
+  hourly: HourlyDemand[];
+  totals: {
+    inUseHours: number;
+    idleHours: number;
+    groundedHours: number;
+    checkouts: number;
+    issues: number;
+  };
+}
+
+interface Transition {
+  at: number;
+  state: UnitState;
+}
+
+const HOUR_MS = 3600000;
+const DAY_MS = 24 * HOUR_MS;
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+// Backend timestamps are nanoseconds
+const fromNanos = (value: bigint) => Number(value) / 1000000;
+
+/**
+ * Local "YYYY-MM-DD" for a time
+ */
+export function toDateKey(time: number | Date): string {
+  const date = new Date(time);
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+const startOfDay = (dateKey: string) => new Date(`${dateKey}T00:00:00`);
+
+/**
+ * Last `days` days ending today
+ */
+export function lastDays(days: number, now: Date = new Date()): DateRange {
+  return {
+    from: toDateKey(now.getTime() - (days - 1) * DAY_MS),
+    to: toDateKey(now),
+  };
+}
+
+function stateForHistory(
+  action: EquipmentRecord["history"][number]["action"],
+): UnitState | null {
+  switch (action) {
+    case "CHECKOUT":
+      return "IN_USE";
+    case "MAINTENANCE":
+      return "GROUNDED";
+    case "OUT_OF_SERVICE":
+    case "RETIRED":
+      return "OUT_OF_SERVICE";
+    case "UPDATED":
+      // Detail edits do not change what the unit is doing
+      return null;
+    default:
+      return "IDLE";
+  }
+}
+
+function stateForAssignment(action: string): UnitState | null {
+  const normalized = action.toLowerCase().replace(/[\s_-]/g, "");
+  if (normalized === "checkout") return "IN_USE";
+  if (normalized === "checkin" || normalized === "return") return "IDLE";
+  return null;
+}
+
+/**
+ * Merge every source into one ordered list of state changes per unit
+ */
+function buildTimelines(
+  equipment: EquipmentRecord[],
+  auditEvents: ScanEvent[],
+  assignments: Assignment[],
+  issues: Issue[],
+): Map<string, Transition[]> {
+  const timelines = new Map<string, Transition[]>();
+  const add = (equipmentId: string, at: number, state: UnitState) => {
+    const timeline = timelines.get(equipmentId);
+    if (timeline && !Number.isNaN(at)) timeline.push({ at, state });
+  };
+
+  for (const unit of equipment) {
+    timelines.set(unit.id, [
+      { at: new Date(unit.createdAt).getTime(), state: "IDLE" },
+    ]);
+    for (const entry of unit.history) {
+      const state = stateForHistory(entry.action);
+      if (state) add(unit.id, new Date(entry.timestamp).getTime(), state);
+    }
+  }
+  for (const event of auditEvents) {
+    add(
+      event.equipmentId,
+      new Date(event.timestamp).getTime(),
+      event.action === "checkout" ? "IN_USE" : "IDLE",
+    );
+  }
+  for (const assignment of assignments) {
+    const state = stateForAssignment(assignment.action);
+    if (state)
+      add(assignment.equipment_id, fromNanos(assignment.timestamp), state);
+  }
+  for (const issue of issues) {
+    if (issue.grounded) {
+      add(issue.equipment_id, fromNanos(issue.timestamp), "GROUNDED");
+    }
+  }
+
+  for (const [id, timeline] of timelines) {
+    timeline.sort((a, b) => a.at - b.at);
+    // Several sources record the same change; keep only real changes
+    timelines.set(
+      id,
+      timeline.filter((t, i) => i === 0 || t.state !== timeline[i - 1].state),
+    );
+  }
+  return timelines;
+}
+
+/**
+ * Hours per state within [start, end) for one timeline
+ */
+function hoursBetween(
+  timeline: Transition[],
+  start: number,
+  end: number,
+): Record<UnitState, number> {
+  const hours: Record<UnitState, number> = {
+    IN_USE: 0,
+    IDLE: 0,
+    GROUNDED: 0,
+    OUT_OF_SERVICE: 0,
+  };
+  for (let i = 0; i < timeline.length; i++) {
+    const from = Math.max(timeline[i].at, start);
+    const to = Math.min(timeline[i + 1]?.at ?? end, end);
+    if (to > from) hours[timeline[i].state] += (to - from) / HOUR_MS;
+  }
+  return hours;
+}
+
+function stateAt(timeline: Transition[], time: number): UnitState | null {
+  let state: UnitState | null = null;
+  for (const transition of timeline) {
+    if (transition.at > time) break;
+    state = transition.state;
+  }
+  return state;
+}
+
+/**
+ * Compute utilization, downtime and demand for the units given (usually one
+ * station's fleet) over a date range. Time after `now` is not counted.
+ */
+export function computeFleetAnalytics(
+  equipment: EquipmentRecord[],
+  auditEvents: ScanEvent[],
+  assignments: Assignment[],
+  issues: Issue[],
+  range: DateRange,
+  now: number = Date.now(),
+): FleetAnalytics {
+  const unitIds = new Set(equipment.map((e) => e.id));
+  const rangeStart = startOfDay(range.from).getTime();
+  const rangeEnd = Math.min(startOfDay(range.to).getTime() + DAY_MS, now);
+  const inRange = (time: number) => time >= rangeStart && time < rangeEnd;
+
+  const timelines = buildTimelines(equipment, auditEvents, assignments, issues);
+
+  // Days in the range (DST-safe: step by calendar date, not 24h)
+  const days: string[] = [];
+  for (
+    let day = startOfDay(range.from);
+    day.getTime() < rangeEnd;
+    day.setDate(day.getDate() + 1)
+  ) {
+    days.push(toDateKey(day));
+  }
+
+  const daily: DailyUsage[] = days.map((date) => {
+    const start = startOfDay(date).getTime();
+    const next = startOfDay(date);
+    next.setDate(next.getDate() + 1);
+    const end = Math.min(next.getTime(), rangeEnd);
+
+    const usage = { date, inUseHours: 0, idleHours: 0, groundedHours: 0 };
+    for (const timeline of timelines.values()) {
+      const hours = hoursBetween(timeline, start, end);
+      usage.inUseHours += hours.IN_USE;
+      usage.idleHours += hours.IDLE;
+      usage.groundedHours += hours.GROUNDED;
+    }
+    return {
+      date,
+      inUseHours: round1(usage.inUseHours),
+      idleHours: round1(usage.idleHours),
+      groundedHours: round1(usage.groundedHours),
+    };
+  });
+
+  // Reported issues: backend issues plus maintenance entries the backend
+  // never heard of (offline reports), merged per unit and minute
+  const issueKeys = new Set<string>();
+  const addIssue = (equipmentId: string, at: number) => {
+    if (unitIds.has(equipmentId) && inRange(at)) {
+      issueKeys.add(`${equipmentId}@${Math.floor(at / 60000)}`);
+    }
+  };
+  for (const issue of issues) {
+    addIssue(issue.equipment_id, fromNanos(issue.timestamp));
+  }
+  for (const unit of equipment) {
+    for (const entry of unit.history) {
+      if (entry.action === "MAINTENANCE") {
+        addIssue(unit.id, new Date(entry.timestamp).getTime());
+      }
+    }
+  }
+  const issueCounts = new Map<string, number>();
+  for (const key of issueKeys) {
+    const id = key.split("@")[0];
+    issueCounts.set(id, (issueCounts.get(id) ?? 0) + 1);
+  }
+
+  const units: UnitUsage[] = [];
+  for (const unit of equipment) {
+    const hours = hoursBetween(
+      timelines.get(unit.id) ?? [],
+      rangeStart,
+      rangeEnd,
+    );
+    const tracked = hours.IN_USE + hours.IDLE + hours.GROUNDED;
+    // Units retired before the range have nothing to report
+    if (tracked === 0 && unit.status === "RETIRED") continue;
+    units.push({
+      equipmentId: unit.id,
+      type: unit.type,
+      inUseHours: round1(hours.IN_USE),
+      idleHours: round1(hours.IDLE),
+      groundedHours: round1(hours.GROUNDED),
+      utilization: tracked > 0 ? Math.round((hours.IN_USE / tracked) * 100) : 0,
+      issueCount: issueCounts.get(unit.id) ?? 0,
+    });
+  }
+
+  // Demand by hour of day
+  const hourly: HourlyDemand[] = Array.from({ length: 24 }, (_, hour) => ({
+    hour,
+    checkouts: 0,
+    averageInUse: 0,
+  }));
+  let checkouts = 0;
+  for (const timeline of timelines.values()) {
+    for (const transition of timeline) {
+      if (transition.state === "IN_USE" && inRange(transition.at)) {
+        hourly[new Date(transition.at).getHours()].checkouts++;
+        checkouts++;
+      }
+    }
+  }
+  for (const slot of hourly) {
+    let samples = 0;
+    let inUse = 0;
+    for (const date of days) {
+      const sample = startOfDay(date);
+      sample.setHours(slot.hour, 30);
+      if (!inRange(sample.getTime())) continue;
+      samples++;
+      for (const timeline of timelines.values()) {
+        if (stateAt(timeline, sample.getTime()) === "IN_USE") inUse++;
+      }
+    }
+    slot.averageInUse = samples > 0 ? round1(inUse / samples) : 0;
+  }
+
+  return {
+    daily,
+    units,
+    hourly,
+    totals: {
+      inUseHours: round1(daily.reduce((sum, d) => sum + d.inUseHours, 0)),
+      idleHours: round1(daily.reduce((sum, d) => sum + d.idleHours, 0)),
+      groundedHours: round1(daily.reduce((sum, d) => sum + d.groundedHours, 0)),
+      checkouts,
+      issues: issueKeys.size,
+    },
+  };
+}
@@ -0,0 +1,238 @@
+// Geofence Store - supervisor-defined location zones with localStorage persistence
+//
+// Single source of truth for the auto gate locator. Seeded from the static
+// gate list in data/gates.ts on first use; after that supervisors add, edit
+// and delete zones from the geofence editor.
+
+import { GATES } from "../data/gates";
+import { checkPermission } from "./permissions";
+import {
+  DEFAULT_STATION_CODE,
+  getActiveStationCode,
+  stationOf,
+} from "./stationStore";
+
+export type ZoneType =
+  | "GATE"
+  | "REMOTE_STAND"
+  | "GSE_LOT"
+  | "CHARGING_STATION"
+  | "MAINTENANCE_HANGAR"
+  | "SERVICE_ROAD";
+
+export const ZONE_TYPE_LABELS: Record<ZoneType, string> = {
+  GATE: "Gate",
+  REMOTE_STAND: "Remote Stand",
+  GSE_LOT: "GSE Lot",
+  CHARGING_STATION: "Charging Station",
+  MAINTENANCE_HANGAR: "Maintenance Hangar",
+  SERVICE_ROAD: "Service Road",
+};
+
+/**
+ * Default priority per zone type when zones overlap (higher wins). Small,
+ * purpose-built areas outrank the gate circles they sit inside, and service
+ * roads only label a fix that matches nothing else.
+ */
+export const ZONE_TYPE_PRIORITY: Record<ZoneType, number> = {
+  CHARGING_STATION: 50,
+  GSE_LOT: 40,
+  MAINTENANCE_HANGAR: 30,
+  REMOTE_STAND: 20,
+  GATE: 10,
+  SERVICE_ROAD: 0,
+};
+
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+export type ZoneShape =
+  | { kind: "circle"; center: LatLng; radiusMeters: number }
+  | { kind: "polygon"; points: LatLng[] };
+
+export interface Zone {
+  id: string;
+  label: string;
+  type: ZoneType;
+  shape: ZoneShape;
+  // Overrides ZONE_TYPE_PRIORITY for this zone
+  priority?: number;
+  // Station the zone belongs to (absent = default station)
+  stationCode?: string;
+  updatedAt?: string;
+}
+
+/**
+ * Effective overlap priority of a zone
+ */
+export function getZonePriority(zone: Zone): number {
+  return zone.priority ?? ZONE_TYPE_PRIORITY[zone.type] ?? 0;
+}
+
+const STORAGE_KEY = "ramptrack_geofences";
+const MAX_RADIUS_METERS = 2000;
+
+// Default zones built from the static gate list
+function defaultZones(): Zone[] {
+  return GATES.map((gate) => ({
+    id: `gate-${gate.gateId}`,
+    label: gate.gateId,
+    type: "GATE",
+    shape: {
+      kind: "circle",
+      center: { lat: gate.lat, lng: gate.lon },
+      radiusMeters: gate.radiusMeters,
+    },
+  }));
+}
+
+/**
+ * Get all zones across every station, seeding the defaults on first use
+ */
+export function getZones(): Zone[] {
+  try {
+    const data = localStorage.getItem(STORAGE_KEY);
+    if (!data) {
+      const zones = defaultZones();
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(zones));
+      return zones;
+    }
+    return JSON.parse(data) as Zone[];
+  } catch (error) {
+    console.error("Error reading geofences:", error);
+    return defaultZones();
+  }
+}
+
+/**
+ * Get the zones of one station (defaults to the active station)
+ */
+export function getStationZones(
+  stationCode: string = getActiveStationCode(),
+): Zone[] {
+  return getZones().filter((zone) => stationOf(zone) === stationCode);
+}
+
+const isValidPoint = (point: LatLng): boolean =>
+  Number.isFinite(point.lat) &&
+  Number.isFinite(point.lng) &&
+  Math.abs(point.lat) <= 90 &&
+  Math.abs(point.lng) <= 180;
+
+/**
+ * Validate a zone definition; returns an error message or null
+ */
+export function validateZone(zone: Zone, existing: Zone[]): string | null {
+  if (!zone.label.trim()) return "Zone label is required";
+
+  const duplicate = existing.some(
+    (other) =>
+      other.id !== zone.id &&
+      stationOf(other) === stationOf(zone) &&
+      other.label.trim().toUpperCase() === zone.label.trim().toUpperCase(),
+  );
+  if (duplicate) return `A zone named ${zone.label.trim()} already exists`;
+
+  if (zone.priority !== undefined && !Number.isInteger(zone.priority)) {
+    return "Priority must be a whole number";
+  }
+
+  if (zone.shape.kind === "circle") {
+    if (!isValidPoint(zone.shape.center))
+      return "Center coordinates are invalid";
+    if (
+      !(zone.shape.radiusMeters > 0) ||
+      zone.shape.radiusMeters > MAX_RADIUS_METERS
+    ) {
+      return `Radius must be between 1 and ${MAX_RADIUS_METERS} meters`;
+    }
+  } else {
+    if (zone.shape.points.length < 3) {
+      return "A polygon needs at least 3 points";
+    }
+    if (!zone.shape.points.every(isValidPoint)) {
+      return "One or more polygon points are invalid";
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Add a zone or replace the zone with the same ID
+ */
+export function saveZone(zone: Zone): { success: boolean; error?: string } {
+  const denied = checkPermission("geofence.manage", zone.label);
+  if (denied) return { success: false, error: denied };
+
+  try {
+    const zones = getZones();
+    const error = validateZone(
+      { ...zone, stationCode: zone.stationCode ?? getActiveStationCode() },
+      zones,
+    );
+    if (error) return { success: false, error };
+
+    const saved: Zone = {
+      ...zone,
+      stationCode: zone.stationCode ?? getActiveStationCode(),
+      label: zone.label.trim(),
+      updatedAt: new Date().toISOString(),
+    };
+    const index = zones.findIndex((z) => z.id === zone.id);
+    if (index === -1) zones.push(saved);
+    else zones[index] = saved;
+
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(zones));
+    return { success: true };
+  } catch (error) {
+    console.error("Error saving geofence:", error);
+    return { success: false, error: "Failed to save zone" };
+  }
+}
+
+/**
+ * Delete a zone by ID
+ */
+export function deleteZone(id: string): { success: boolean; error?: string } {
+  const denied = checkPermission("geofence.manage", id);
+  if (denied) return { success: false, error: denied };
+
+  try {
+    const zones = getZones();
+    const remaining = zones.filter((z) => z.id !== id);
+    if (remaining.length === zones.length) {
+      return { success: false, error: "Zone not found" };
+    }
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(remaining));
+    return { success: true };
+  } catch (error) {
+    console.error("Error deleting geofence:", error);
+    return { success: false, error: "Failed to delete zone" };
+  }
+}
+
+/**
+ * Reset a station's zones (defaults to the active station). The default
+ * station gets the gate list from data/gates.ts back; other stations start
+ * empty.
+ */
+export function resetZones(stationCode: string = getActiveStationCode()): {
+  success: boolean;
+  error?: string;
+} {
+  const denied = checkPermission("geofence.manage", stationCode);
+  if (denied) return { success: false, error: denied };
+
+  const otherStations = getZones().filter(
+    (zone) => stationOf(zone) !== stationCode,
+  );
+  const defaults = stationCode === DEFAULT_STATION_CODE ? defaultZones() : [];
+  localStorage.setItem(
+    STORAGE_KEY,
+    JSON.stringify([...otherStations, ...defaults]),
+  );
+  return { success: true };
+}
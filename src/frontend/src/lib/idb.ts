@@ -0,0 +1,78 @@
+// IndexedDB helpers - thin promise wrappers shared by the persistent stores
+
+type UpgradeHandler = (
+  db: IDBDatabase,
+  oldVersion: number,
+  transaction: IDBTransaction,
+) => void;
+
+const openDatabases = new Map<string, Promise<IDBDatabase>>();
+
+/**
+ * Open (and upgrade if needed) an IndexedDB database.
+ * Connections are cached per database name for the lifetime of the page.
+ */
+export function openDatabase(
+  name: string,
+  version: number,
+  upgrade: UpgradeHandler,
+): Promise<IDBDatabase> {
+  const cached = openDatabases.get(name);
+  if (cached) return cached;
+
+  const promise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === "undefined") {
+      reject(new Error("IndexedDB is not available on this device"));
+      return;
+    }
+
+    const request = indexedDB.open(name, version);
+
+    request.onupgradeneeded = (event) => {
+      const transaction = request.transaction;
+      if (transaction) {
+        upgrade(request.result, event.oldVersion, transaction);
+      }
+    };
+
+    request.onsuccess = () => {
+      const db = request.result;
+      // Another tab upgraded the schema - drop our stale connection
+      db.onversionchange = () => {
+        db.close();
+        openDatabases.delete(name);
+      };
+      resolve(db);
+    };
+
+    request.onerror = () => reject(request.error);
+    request.onblocked = () =>
+      console.warn(`[idb] Opening ${name} is blocked by another tab`);
+  });
+
+  openDatabases.set(name, promise);
+  promise.catch(() => openDatabases.delete(name));
+  return promise;
+}
+
+/**
+ * Resolve with the result of an IDBRequest
+ */
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Resolve once a transaction has committed
+ */
+export function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () =>
+      reject(transaction.error ?? new Error("Transaction aborted"));
+  });
+}
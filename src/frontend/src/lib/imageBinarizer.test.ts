@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { binarize, isDark, toLuminance } from "./imageBinarizer";
+
+// Grey frame from a function of the pixel position
+function greyFrame(
+  width: number,
+  height: number,
+  grey: (x: number, y: number) => number,
+): Uint8ClampedArray {
+  const rgba = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const p = (y * width + x) * 4;
+      rgba.fill(grey(x, y), p, p + 3);
+      rgba[p + 3] = 255;
+    }
+  }
+  return rgba;
+}
+
+describe("toLuminance", () => {
+  it("weights the channels like the eye", () => {
+    const rgba = new Uint8ClampedArray([
+      255, 255, 255, 255, 0, 0, 0, 255, 255, 0, 0, 255, 0, 255, 0, 255,
+    ]);
+
+    expect([...toLuminance(rgba, 4, 1)]).toEqual([255, 0, 76, 149]);
+  });
+});
+
+describe("binarize", () => {
+  it("separates ink from paper under a lighting gradient", () => {
+    // 4 px checks whose paper in the dark corner is darker than the ink
+    // in the bright one
+    const width = 128;
+    const height = 128;
+    const ink = (x: number, y: number) =>
+      (Math.floor(x / 4) + Math.floor(y / 4)) % 2 === 0;
+    const light = (x: number, y: number) => 0.3 + (0.7 * (x + y)) / 254;
+    const rgba = greyFrame(width, height, (x, y) =>
+      Math.round((ink(x, y) ? 70 : 230) * light(x, y)),
+    );
+    const image = binarize(toLuminance(rgba, width, height), width, height);
+
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        expect(isDark(image, x, y), `${x},${y}`).toBe(ink(x, y));
+      }
+    }
+  });
+
+  it("treats a flat frame as background", () => {
+    const rgba = greyFrame(32, 32, () => 180);
+    const image = binarize(toLuminance(rgba, 32, 32), 32, 32);
+
+    expect(image.data.every((pixel) => pixel === 0)).toBe(true);
+  });
+
+  it("returns a blank image for frames smaller than a block", () => {
+    const rgba = greyFrame(4, 4, () => 0);
+
+    expect(binarize(toLuminance(rgba, 4, 4), 4, 4)).toEqual({
+      width: 4,
+      height: 4,
+      data: new Uint8Array(16),
+    });
+  });
+});
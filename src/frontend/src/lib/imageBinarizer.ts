@@ -0,0 +1,113 @@
+// Image Binarizer - camera frames to black and white for the barcode decoders
+//
+// Uses a local threshold: the frame is split into 8x8 pixel blocks and every
+// pixel is compared with the mean of the 5x5 blocks around its own, so
+// labels under uneven ramp lighting or in a shadow still separate cleanly.
+
+export interface BinaryImage {
+  width: number;
+  height: number;
+  // One byte per pixel, row by row: 1 = dark
+  data: Uint8Array;
+}
+
+const BLOCK_SIZE = 8;
+// Blocks with less contrast than this are treated as flat background
+const MIN_DYNAMIC_RANGE = 24;
+
+/**
+ * Grey level of each pixel of an RGBA frame
+ */
+export function toLuminance(
+  rgba: Uint8ClampedArray,
+  width: number,
+  height: number,
+): Uint8Array {
+  const luminance = new Uint8Array(width * height);
+  for (let i = 0, p = 0; i < luminance.length; i++, p += 4) {
+    luminance[i] = (rgba[p] * 77 + rgba[p + 1] * 150 + rgba[p + 2] * 29) >> 8;
+  }
+  return luminance;
+}
+
+export const isDark = (image: BinaryImage, x: number, y: number): boolean =>
+  image.data[y * image.width + x] === 1;
+
+export function binarize(
+  luminance: Uint8Array,
+  width: number,
+  height: number,
+): BinaryImage {
+  const data = new Uint8Array(width * height);
+  if (width < BLOCK_SIZE || height < BLOCK_SIZE) {
+    return { width, height, data };
+  }
+
+  const blocksX = Math.ceil(width / BLOCK_SIZE);
+  const blocksY = Math.ceil(height / BLOCK_SIZE);
+  const blockOrigin = (block: number, size: number) =>
+    Math.min(block * BLOCK_SIZE, size - BLOCK_SIZE);
+
+  // Mean grey level of each block
+  const averages = new Float32Array(blocksX * blocksY);
+  for (let by = 0; by < blocksY; by++) {
+    const top = blockOrigin(by, height);
+    for (let bx = 0; bx < blocksX; bx++) {
+      const left = blockOrigin(bx, width);
+      let sum = 0;
+      let min = 255;
+      let max = 0;
+      for (let y = 0; y < BLOCK_SIZE; y++) {
+        const row = (top + y) * width + left;
+        for (let x = 0; x < BLOCK_SIZE; x++) {
+          const value = luminance[row + x];
+          sum += value;
+          if (value < min) min = value;
+          if (value > max) max = value;
+        }
+      }
+
+      let average = sum / (BLOCK_SIZE * BLOCK_SIZE);
+      if (max - min <= MIN_DYNAMIC_RANGE) {
+        // A flat block is background unless its neighbours say it is ink
+        average = min / 2;
+        if (by > 0 && bx > 0) {
+          const neighbours =
+            (averages[(by - 1) * blocksX + bx] +
+              2 * averages[by * blocksX + bx - 1] +
+              averages[(by - 1) * blocksX + bx - 1]) /
+            4;
+          if (min < neighbours) average = neighbours;
+        }
+      }
+      averages[by * blocksX + bx] = average;
+    }
+  }
+
+  // Threshold each block against the mean of its 5x5 neighbourhood
+  for (let by = 0; by < blocksY; by++) {
+    const top = blockOrigin(by, height);
+    const cy = Math.min(Math.max(by, 2), Math.max(2, blocksY - 3));
+    for (let bx = 0; bx < blocksX; bx++) {
+      const left = blockOrigin(bx, width);
+      const cx = Math.min(Math.max(bx, 2), Math.max(2, blocksX - 3));
+      let sum = 0;
+      for (let dy = -2; dy <= 2; dy++) {
+        const ny = Math.min(Math.max(cy + dy, 0), blocksY - 1);
+        for (let dx = -2; dx <= 2; dx++) {
+          const nx = Math.min(Math.max(cx + dx, 0), blocksX - 1);
+          sum += averages[ny * blocksX + nx];
+        }
+      }
+      const threshold = sum / 25;
+      for (let y = 0; y < BLOCK_SIZE; y++) {
+        const row = (top + y) * width + left;
+        for (let x = 0; x < BLOCK_SIZE; x++) {
+          data[row + x] = luminance[row + x] <= threshold ? 1 : 0;
+        }
+      }
+    }
+  }
+
+  return { width, height, data };
+}
@@ -0,0 +1,207 @@
+// Issue Workflow - lifecycle of reported equipment issues
+//
+//   open → acknowledged → in repair → resolved → released
+//
+// The backend Issue only carries a status string and free-text notes, so
+// mechanic assignment, resolution notes and the transition trail travel as a
+// JSON block appended to the notes after WORKFLOW_MARKER. Each transition is
+// one updateIssue write through the offline outbox, and every device reads
+// the workflow back from the issue. Records kept in localStorage before this
+// are still read until the issue's next transition moves them to the backend.
+
+import type { Issue } from "../backend";
+import { checkPermission } from "./permissions";
+
+export type IssueStatus =
+  | "open"
+  | "acknowledged"
+  | "in_repair"
+  | "resolved"
+  | "released";
+
+export const ISSUE_STATUSES: readonly IssueStatus[] = [
+  "open",
+  "acknowledged",
+  "in_repair",
+  "resolved",
+  "released",
+];
+
+export const ISSUE_STATUS_LABELS: Record<IssueStatus, string> = {
+  open: "Open",
+  acknowledged: "Acknowledged",
+  in_repair: "In Repair",
+  resolved: "Resolved",
+  released: "Released",
+};
+
+export interface IssueTransition {
+  status: IssueStatus;
+  at: string;
+  by: string;
+  notes?: string;
+}
+
+export interface IssueWorkflowRecord {
+  issueId: string;
+  mechanic?: string;
+  resolutionNotes?: string;
+  transitions: IssueTransition[];
+}
+
+// Legacy device-local workflow records, read only
+const STORAGE_KEY = "ramptrack_issue_workflow";
+
+// Separates the reporter's notes from the workflow block
+const WORKFLOW_MARKER = "\n\n[ramptrack-workflow] ";
+
+type StoredWorkflow = Omit<IssueWorkflowRecord, "issueId">;
+
+/**
+ * Map a backend issue status to a workflow status (unknown values → open)
+ */
+export function normalizeIssueStatus(status: string): IssueStatus {
+  const normalized = status.toLowerCase().replace(/[\s-]+/g, "_");
+  return ISSUE_STATUSES.includes(normalized as IssueStatus)
+    ? (normalized as IssueStatus)
+    : "open";
+}
+
+/**
+ * The status an issue moves to next, or null once released
+ */
+export function nextIssueStatus(status: IssueStatus): IssueStatus | null {
+  const index = ISSUE_STATUSES.indexOf(status);
+  return index < ISSUE_STATUSES.length - 1 ? ISSUE_STATUSES[index + 1] : null;
+}
+
+function loadLegacyWorkflow(issueId: string): IssueWorkflowRecord | null {
+  try {
+    const data = localStorage.getItem(STORAGE_KEY);
+    return data ? (JSON.parse(data)[issueId] ?? null) : null;
+  } catch (error) {
+    console.error("Error reading issue workflow:", error);
+    return null;
+  }
+}
+
+function splitNotes(notes: string): {
+  reportNotes: string;
+  workflow: StoredWorkflow | null;
+} {
+  const index = notes.lastIndexOf(WORKFLOW_MARKER);
+  if (index === -1) return { reportNotes: notes, workflow: null };
+  try {
+    return {
+      reportNotes: notes.slice(0, index),
+      workflow: JSON.parse(notes.slice(index + WORKFLOW_MARKER.length)),
+    };
+  } catch (error) {
+    console.error("Error reading issue workflow:", error);
+    return { reportNotes: notes, workflow: null };
+  }
+}
+
+/**
+ * The notes the reporter wrote, without the workflow block
+ */
+export function getReportNotes(issue: Issue): string {
+  return splitNotes(issue.notes).reportNotes;
+}
+
+/**
+ * Get the workflow record for an issue (empty if never touched)
+ */
+export function getIssueWorkflow(issue: Issue): IssueWorkflowRecord {
+  const { workflow } = splitNotes(issue.notes);
+  if (workflow) return { ...workflow, issueId: issue.id };
+  return loadLegacyWorkflow(issue.id) ?? { issueId: issue.id, transitions: [] };
+}
+
+/**
+ * Check the details a transition needs before it is sent to the backend
+ */
+export function validateIssueTransition(
+  issue: Issue,
+  to: IssueStatus,
+  details: { mechanic?: string; resolutionNotes?: string } = {},
+): { success: boolean; error?: string } {
+  const workflow = getIssueWorkflow(issue);
+  const mechanic = details.mechanic?.trim() || workflow.mechanic;
+  const resolutionNotes =
+    details.resolutionNotes?.trim() || workflow.resolutionNotes;
+
+  if (to === "in_repair" && !mechanic) {
+    return { success: false, error: "Assign a mechanic to start the repair" };
+  }
+  if (to === "resolved" && !resolutionNotes) {
+    return {
+      success: false,
+      error: "Resolution notes are required to resolve an issue",
+    };
+  }
+  return { success: true };
+}
+
+/**
+ * Apply a status change with its mechanic and resolution details. Returns
+ * the issue to send with updateIssue; nothing is stored locally.
+ */
+export function recordIssueTransition(
+  issue: Issue,
+  to: IssueStatus,
+  by: string,
+  details: { mechanic?: string; resolutionNotes?: string; notes?: string } = {},
+): { success: boolean; error?: string; issue?: Issue } {
+  const denied = checkPermission(
+    to === "released" ? "issue.resolve" : "issue.manage",
+    issue.id,
+  );
+  if (denied) return { success: false, error: denied };
+
+  const validation = validateIssueTransition(issue, to, details);
+  if (!validation.success) return validation;
+
+  const { issueId: _issueId, ...workflow } = getIssueWorkflow(issue);
+  if (details.mechanic?.trim()) workflow.mechanic = details.mechanic.trim();
+  if (details.resolutionNotes?.trim()) {
+    workflow.resolutionNotes = details.resolutionNotes.trim();
+  }
+  workflow.transitions = [
+    ...workflow.transitions,
+    {
+      status: to,
+      at: new Date().toISOString(),
+      by,
+      notes: details.notes?.trim() || undefined,
+    },
+  ];
+
+  const stored: StoredWorkflow = workflow;
+  return {
+    success: true,
+    issue: {
+      ...issue,
+      status: to,
+      notes: `${getReportNotes(issue)}${WORKFLOW_MARKER}${JSON.stringify(stored)}`,
+    },
+  };
+}
+
+/**
+ * Whether releasing this issue clears the last grounding issue on its
+ * equipment, so the equipment can return to service
+ */
+export function isLastGroundingIssue(
+  issue: Issue,
+  allIssues: Issue[],
+): boolean {
+  if (!issue.grounded) return false;
+  return !allIssues.some(
+    (other) =>
+      other.id !== issue.id &&
+      other.equipment_id === issue.equipment_id &&
+      other.grounded &&
+      normalizeIssueStatus(other.status) !== "released",
+  );
+}
@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+import {
+  SHEET_LAYOUTS,
+  type SheetLabel,
+  labelsPerSheet,
+  renderLabelSheets,
+} from "./labelSheets";
+
+const layout = (id: string) => {
+  const found = SHEET_LAYOUTS.find((l) => l.id === id);
+  if (!found) throw new Error(`No layout ${id}`);
+  return found;
+};
+
+const labels = (count: number): SheetLabel[] =>
+  Array.from({ length: count }, (_, i) => ({
+    payload: `TV${1000 + i}`,
+    title: `TV${1000 + i}`,
+    details: ["Tug", "Station DFW"],
+  }));
+
+// Each placed label is a translated group; barcodes inside it are also scaled
+const placedLabels = (sheet: string) =>
+  sheet.match(/<g transform="translate\([^)]*\)">/g)?.length ?? 0;
+
+describe("sheet layouts", () => {
+  it("holds the number of labels printed on the stock", () => {
+    expect(
+      Object.fromEntries(SHEET_LAYOUTS.map((l) => [l.id, labelsPerSheet(l)])),
+    ).toEqual({
+      "letter-30": 30,
+      "letter-10": 10,
+      "a4-21": 21,
+      "thermal-2x1": 1,
+      "cards-letter": 8,
+      "cards-a4": 8,
+      "card-printer": 1,
+    });
+  });
+
+  it("keeps every label on the page", () => {
+    for (const l of SHEET_LAYOUTS) {
+      const right = l.marginLeft + (l.columns - 1) * l.pitchX + l.labelWidth;
+      const bottom = l.marginTop + (l.rows - 1) * l.pitchY + l.labelHeight;
+      expect(right, l.id).toBeLessThanOrEqual(l.pageWidth + 0.01);
+      expect(bottom, l.id).toBeLessThanOrEqual(l.pageHeight + 0.01);
+    }
+  });
+});
+
+describe("renderLabelSheets", () => {
+  it("fills whole sheets before starting a new one", () => {
+    const result = renderLabelSheets(labels(45), layout("letter-30"), "qr");
+
+    expect(result.success).toBe(true);
+    expect(result.sheets.map(placedLabels)).toEqual([30, 15]);
+  });
+
+  it("leaves skipped positions of the first sheet empty", () => {
+    const result = renderLabelSheets(
+      labels(25),
+      layout("letter-30"),
+      "code128",
+      { skip: 10 },
+    );
+
+    expect(result.sheets.map(placedLabels)).toEqual([20, 5]);
+  });
+
+  it("never skips a whole sheet", () => {
+    const result = renderLabelSheets(labels(2), layout("letter-10"), "qr", {
+      skip: 50,
+    });
+
+    expect(result.sheets.map(placedLabels)).toEqual([1, 1]);
+  });
+
+  it("prints one card per sheet on a card printer", () => {
+    const result = renderLabelSheets(labels(3), layout("card-printer"), "qr");
+
+    expect(result.sheets.map(placedLabels)).toEqual([1, 1, 1]);
+  });
+
+  it("reports labels that cannot be encoded", () => {
+    expect(renderLabelSheets([], layout("letter-30"), "qr")).toEqual({
+      success: false,
+      error: "Select at least one label",
+      sheets: [],
+    });
+    expect(
+      renderLabelSheets(
+        [{ payload: "Café", title: "TV1000", details: [] }],
+        layout("letter-30"),
+        "code128",
+      ).error,
+    ).toBe("TV1000: Code 128 can only hold printable ASCII");
+  });
+});
@@ -0,0 +1,555 @@
+// Label Sheets - printable equipment labels and roster badge cards
+//
+// Labels are drawn as SVG in millimetres, one document per sheet, positioned
+// for common label stock and CR80 card sheets. Sheets download as SVG (zipped
+// when there are several) or open in a print window sized to the stock, where
+// the browser can print them or save them as PDF. Equipment QR codes carry the
+// #equipment/<id> deep link, which the scanner reduces back to the ID.
+
+import type { UserRosterEntry } from "../data/userRoster";
+import { CODE128_QUIET_ZONE, encodeCode128 } from "./code128";
+import type { EquipmentRecord } from "./equipmentRegistry";
+import { formatEquipmentType } from "./equipmentTypeCatalog";
+import { buildZip, downloadBlob, escapeXml, fileStamp } from "./exportFormats";
+import { QR_MAX_BYTES, encodeQr } from "./qrCode";
+import { stationOf } from "./stationStore";
+
+export type LabelSymbology = "qr" | "code128";
+
+export interface SheetLayout {
+  id: string;
+  name: string;
+  // Equipment labels or badge cards
+  kind: "label" | "card";
+  // All sizes in millimetres
+  pageWidth: number;
+  pageHeight: number;
+  labelWidth: number;
+  labelHeight: number;
+  columns: number;
+  rows: number;
+  // Top-left corner of the first label
+  marginLeft: number;
+  marginTop: number;
+  // Distance between the same edge of neighbouring labels
+  pitchX: number;
+  pitchY: number;
+}
+
+export interface SheetLabel {
+  // Encoded in the barcode
+  payload: string;
+  // Printed in large type
+  title: string;
+  // Smaller lines under the title (empty lines are skipped)
+  details: string[];
+}
+
+const INCH = 25.4;
+const LETTER = { pageWidth: 8.5 * INCH, pageHeight: 11 * INCH };
+const A4 = { pageWidth: 210, pageHeight: 297 };
+const CR80 = { labelWidth: 85.6, labelHeight: 53.98 };
+// CR80 corner radius
+const CARD_RADIUS = 3.18;
+
+export const SHEET_LAYOUTS: SheetLayout[] = [
+  {
+    id: "letter-30",
+    name: 'Letter, 30 per sheet (2⅝" × 1", Avery 5160)',
+    kind: "label",
+    ...LETTER,
+    labelWidth: 2.625 * INCH,
+    labelHeight: INCH,
+    columns: 3,
+    rows: 10,
+    marginLeft: 0.1875 * INCH,
+    marginTop: 0.5 * INCH,
+    pitchX: 2.75 * INCH,
+    pitchY: INCH,
+  },
+  {
+    id: "letter-10",
+    name: 'Letter, 10 per sheet (4" × 2", Avery 5163)',
+    kind: "label",
+    ...LETTER,
+    labelWidth: 4 * INCH,
+    labelHeight: 2 * INCH,
+    columns: 2,
+    rows: 5,
+    marginLeft: 0.15625 * INCH,
+    marginTop: 0.5 * INCH,
+    pitchX: 4.1875 * INCH,
+    pitchY: 2 * INCH,
+  },
+  {
+    id: "a4-21",
+    name: "A4, 21 per sheet (63.5 × 38.1 mm, L7160)",
+    kind: "label",
+    ...A4,
+    labelWidth: 63.5,
+    labelHeight: 38.1,
+    columns: 3,
+    rows: 7,
+    marginLeft: 7.25,
+    marginTop: 15.15,
+    pitchX: 66,
+    pitchY: 38.1,
+  },
+  {
+    id: "thermal-2x1",
+    name: 'Thermal roll, 2" × 1"',
+    kind: "label",
+    pageWidth: 2 * INCH,
+    pageHeight: INCH,
+    labelWidth: 2 * INCH,
+    labelHeight: INCH,
+    columns: 1,
+    rows: 1,
+    marginLeft: 0,
+    marginTop: 0,
+    pitchX: 2 * INCH,
+    pitchY: INCH,
+  },
+  {
+    id: "cards-letter",
+    name: "Letter, 8 CR80 cards per sheet",
+    kind: "card",
+    ...LETTER,
+    ...CR80,
+    columns: 2,
+    rows: 4,
+    marginLeft: (8.5 * INCH - 2 * CR80.labelWidth - 6) / 2,
+    marginTop: (11 * INCH - 4 * CR80.labelHeight - 18) / 2,
+    pitchX: CR80.labelWidth + 6,
+    pitchY: CR80.labelHeight + 6,
+  },
+  {
+    id: "cards-a4",
+    name: "A4, 8 CR80 cards per sheet",
+    kind: "card",
+    ...A4,
+    ...CR80,
+    columns: 2,
+    rows: 4,
+    marginLeft: (210 - 2 * CR80.labelWidth - 6) / 2,
+    marginTop: (297 - 4 * CR80.labelHeight - 18) / 2,
+    pitchX: CR80.labelWidth + 6,
+    pitchY: CR80.labelHeight + 6,
+  },
+  {
+    id: "card-printer",
+    name: "Card printer, single CR80 card",
+    kind: "card",
+    pageWidth: CR80.labelWidth,
+    pageHeight: CR80.labelHeight,
+    ...CR80,
+    columns: 1,
+    rows: 1,
+    marginLeft: 0,
+    marginTop: 0,
+    pitchX: CR80.labelWidth,
+    pitchY: CR80.labelHeight,
+  },
+];
+
+export const labelsPerSheet = (layout: SheetLayout): number =>
+  layout.columns * layout.rows;
+
+/**
+ * Deep link to a unit's detail view in this app
+ */
+export function equipmentDeepLink(id: string): string {
+  return `${window.location.origin}${window.location.pathname}#equipment/${encodeURIComponent(id)}`;
+}
+
+/**
+ * Label for a unit. QR labels encode the deep link; Code 128 encodes the
+ * bare ID, which is all a linear symbol of label width can hold.
+ */
+export function equipmentLabel(
+  record: EquipmentRecord,
+  symbology: LabelSymbology,
+): SheetLabel {
+  return {
+    payload: symbology === "qr" ? equipmentDeepLink(record.id) : record.id,
+    title: record.id,
+    details: [
+      record.label || formatEquipmentType(record.type),
+      `Station ${stationOf(record)}`,
+    ],
+  };
+}
+
+/**
+ * Badge card for a roster user. The barcode holds the badge number, which the
+ * sign-in badge scan reads directly.
+ */
+export function badgeCard(user: UserRosterEntry): SheetLabel {
+  return {
+    payload: user.badgeId,
+    title: user.displayName,
+    details: [
+      user.role.charAt(0).toUpperCase() + user.role.slice(1),
+      `Badge ${user.badgeId}`,
+    ],
+  };
+}
+
+// ---------------------------------------------------------------------------
+// SVG drawing
+// ---------------------------------------------------------------------------
+
+const FONT = "Helvetica, Arial, sans-serif";
+// Average glyph width of bold sans-serif text, as a fraction of font size
+const GLYPH_WIDTH = 0.62;
+
+const mm = (value: number) => Number(value.toFixed(3));
+
+/**
+ * Largest font size (up to `max`) at which text fits the width
+ */
+const fitFont = (text: string, width: number, max: number) =>
+  Math.min(max, width / Math.max(1, text.length * GLYPH_WIDTH));
+
+/**
+ * Shorten text with an ellipsis so it fits the width at a font size
+ */
+function clipText(text: string, width: number, size: number): string {
+  const maxChars = Math.floor(width / (size * GLYPH_WIDTH));
+  return text.length <= maxChars
+    ? text
+    : `${text.slice(0, Math.max(1, maxChars - 1))}…`;
+}
+
+function textSvg(
+  text: string,
+  x: number,
+  y: number,
+  size: number,
+  options: { bold?: boolean; anchor?: "start" | "middle"; fill?: string } = {},
+): string {
+  return `<text x="${mm(x)}" y="${mm(y)}" font-size="${mm(size)}"${
+    options.bold ? ' font-weight="700"' : ""
+  }${options.anchor === "middle" ? ' text-anchor="middle"' : ""} fill="${
+    options.fill ?? "#000"
+  }">${escapeXml(text)}</text>`;
+}
+
+/**
+ * QR symbol including its 4-module quiet zone, fitted to a square
+ */
+function qrSvg(payload: string, x: number, y: number, side: number) {
+  const qr = encodeQr(payload);
+  if (!qr) return null;
+  const module = side / (qr.size + 8);
+  let path = "";
+  qr.modules.forEach((row, my) => {
+    row.forEach((dark, mx) => {
+      if (dark) path += `M${mx + 4},${my + 4}h1v1h-1z`;
+    });
+  });
+  return `<g transform="translate(${mm(x)},${mm(y)}) scale(${module})"><path d="${path}" fill="#000" shape-rendering="crispEdges"/></g>`;
+}
+
+/**
+ * Code 128 symbol including its quiet zones, fitted to a box
+ */
+function code128Svg(
+  payload: string,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+) {
+  const widths = encodeCode128(payload);
+  if (!widths) return null;
+  const total = widths.reduce((sum, w) => sum + w, 0) + 2 * CODE128_QUIET_ZONE;
+  const module = width / total;
+  let position = CODE128_QUIET_ZONE;
+  let bars = "";
+  widths.forEach((w, i) => {
+    if (i % 2 === 0) bars += `M${position},0h${w}v1h-${w}z`;
+    position += w;
+  });
+  return `<g transform="translate(${mm(x)},${mm(y)}) scale(${module},${mm(height)})"><path d="${bars}" fill="#000" shape-rendering="crispEdges"/></g>`;
+}
+
+function symbolSvg(
+  label: SheetLabel,
+  symbology: LabelSymbology,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+) {
+  return symbology === "qr"
+    ? qrSvg(label.payload, x, y, Math.min(width, height))
+    : code128Svg(label.payload, x, y, width, height);
+}
+
+/**
+ * Equipment label: QR on the left with the text beside it, or the barcode
+ * across the top with the text below
+ */
+function equipmentLabelSvg(
+  label: SheetLabel,
+  symbology: LabelSymbology,
+  width: number,
+  height: number,
+) {
+  const pad = Math.min(width, height) * 0.06;
+  const details = label.details.filter(Boolean);
+
+  if (symbology === "qr") {
+    const side = Math.min(height - 2 * pad, width * 0.45);
+    const symbol = symbolSvg(
+      label,
+      symbology,
+      pad,
+      (height - side) / 2,
+      side,
+      side,
+    );
+    if (!symbol) return null;
+    const textX = pad + side + pad;
+    const textWidth = width - textX - pad;
+    const titleSize = fitFont(label.title, textWidth, height * 0.24);
+    const detailSize = Math.min(titleSize * 0.55, height * 0.12);
+    const blockHeight = titleSize + details.length * detailSize * 1.3;
+    let baseline = (height - blockHeight) / 2 + titleSize * 0.85;
+    let svg =
+      symbol + textSvg(label.title, textX, baseline, titleSize, { bold: true });
+    for (const line of details) {
+      baseline += detailSize * 1.3;
+      svg += textSvg(
+        clipText(line, textWidth, detailSize),
+        textX,
+        baseline,
+        detailSize,
+      );
+    }
+    return svg;
+  }
+
+  const barHeight = height * 0.5;
+  const symbol = symbolSvg(
+    label,
+    symbology,
+    pad,
+    pad,
+    width - 2 * pad,
+    barHeight,
+  );
+  if (!symbol) return null;
+  const textWidth = width - 2 * pad;
+  const titleSize = fitFont(label.title, textWidth, height * 0.2);
+  let baseline = pad + barHeight + titleSize * 1.05;
+  let svg =
+    symbol +
+    textSvg(label.title, width / 2, baseline, titleSize, {
+      bold: true,
+      anchor: "middle",
+    });
+  const detailSize = Math.min(titleSize * 0.6, height * 0.1);
+  const line = details.join(" · ");
+  if (line && baseline + detailSize * 1.2 <= height - pad / 2) {
+    baseline += detailSize * 1.2;
+    svg += textSvg(
+      clipText(line, textWidth, detailSize),
+      width / 2,
+      baseline,
+      detailSize,
+      {
+        anchor: "middle",
+      },
+    );
+  }
+  return svg;
+}
+
+/**
+ * Badge card: header band, name and role, with the QR in the lower right or
+ * the barcode along the bottom
+ */
+function badgeCardSvg(
+  label: SheetLabel,
+  symbology: LabelSymbology,
+  width: number,
+  height: number,
+) {
+  const pad = 4;
+  const band = height * 0.2;
+  let svg = `<rect width="${mm(width)}" height="${mm(band)}" fill="#0f172a"/>`;
+  svg += textSvg("RAMPTRACK", pad, band * 0.66, band * 0.45, {
+    bold: true,
+    fill: "#fff",
+  });
+
+  const qr = symbology === "qr";
+  const side = height - band - 2 * pad;
+  const symbol = qr
+    ? symbolSvg(label, symbology, width - pad - side, band + pad, side, side)
+    : symbolSvg(label, symbology, pad, height - pad - 12, width - 2 * pad, 12);
+  if (!symbol) return null;
+  svg += symbol;
+
+  const textWidth = (qr ? width - side - pad : width) - 2 * pad;
+  const titleSize = fitFont(label.title, textWidth, 6);
+  let baseline = band + pad + titleSize;
+  svg += textSvg(
+    clipText(label.title, textWidth, titleSize),
+    pad,
+    baseline,
+    titleSize,
+    {
+      bold: true,
+    },
+  );
+  for (const line of label.details.filter(Boolean)) {
+    baseline += 5.5;
+    svg += textSvg(clipText(line, textWidth, 3.8), pad, baseline, 3.8);
+  }
+  return svg;
+}
+
+/**
+ * Draw labels onto sheets, one SVG document per sheet. `skip` leaves the
+ * first positions of the first sheet empty so partly used stock can be
+ * reused; `outlines` draws each label's edge for test prints on plain paper.
+ */
+export function renderLabelSheets(
+  labels: SheetLabel[],
+  layout: SheetLayout,
+  symbology: LabelSymbology,
+  options: { skip?: number; outlines?: boolean } = {},
+): { success: boolean; error?: string; sheets: string[] } {
+  if (labels.length === 0) {
+    return { success: false, error: "Select at least one label", sheets: [] };
+  }
+
+  const perSheet = labelsPerSheet(layout);
+  const skip = Math.min(Math.max(0, options.skip ?? 0), perSheet - 1);
+  const drawLabel = layout.kind === "card" ? badgeCardSvg : equipmentLabelSvg;
+  const radius = layout.kind === "card" ? CARD_RADIUS : 1.5;
+
+  const cells: string[] = [];
+  for (const label of labels) {
+    const content = drawLabel(
+      label,
+      symbology,
+      layout.labelWidth,
+      layout.labelHeight,
+    );
+    if (!content) {
+      return {
+        success: false,
+        error:
+          symbology === "qr"
+            ? `${label.title}: the QR payload is longer than ${QR_MAX_BYTES} bytes`
+            : `${label.title}: Code 128 can only hold printable ASCII`,
+        sheets: [],
+      };
+    }
+    cells.push(content);
+  }
+
+  const sheets: string[] = [];
+  for (let start = 0; start < skip + cells.length; start += perSheet) {
+    let body = "";
+    for (let slot = 0; slot < perSheet; slot++) {
+      const content = cells[start + slot - skip];
+      if (content === undefined) continue;
+      const x = layout.marginLeft + (slot % layout.columns) * layout.pitchX;
+      const y =
+        layout.marginTop + Math.floor(slot / layout.columns) * layout.pitchY;
+      const outline = options.outlines
+        ? `<rect width="${mm(layout.labelWidth)}" height="${mm(layout.labelHeight)}" rx="${radius}" fill="none" stroke="#9ca3af" stroke-width="0.2"/>`
+        : "";
+      body += `<g transform="translate(${mm(x)},${mm(y)})">${outline}${content}</g>`;
+    }
+    sheets.push(
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${mm(layout.pageWidth)}mm" height="${mm(layout.pageHeight)}mm" viewBox="0 0 ${mm(layout.pageWidth)} ${mm(layout.pageHeight)}" font-family="${FONT}"><rect width="100%" height="100%" fill="#fff"/>${body}</svg>`,
+    );
+  }
+  return { success: true, sheets };
+}
+
+// ---------------------------------------------------------------------------
+// Output
+// ---------------------------------------------------------------------------
+
+const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8"?>\n';
+
+/**
+ * Download sheets as SVG: a single file, or a zip with one file per sheet
+ */
+export function downloadLabelSheets(
+  sheets: string[],
+  baseName: string,
+): { success: boolean; error?: string } {
+  if (sheets.length === 0) {
+    return { success: false, error: "Nothing to download" };
+  }
+  try {
+    const stamp = fileStamp();
+    if (sheets.length === 1) {
+      downloadBlob(
+        new Blob([XML_DECLARATION + sheets[0]], { type: "image/svg+xml" }),
+        `${baseName}_${stamp}.svg`,
+      );
+    } else {
+      const files = sheets.map((sheet, i) => ({
+        name: `${baseName}_sheet-${String(i + 1).padStart(2, "0")}.svg`,
+        content: XML_DECLARATION + sheet,
+      }));
+      downloadBlob(
+        new Blob([buildZip(files)], { type: "application/zip" }),
+        `${baseName}_${stamp}.zip`,
+      );
+    }
+    return { success: true };
+  } catch (error) {
+    console.error("Error downloading label sheets:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Download failed",
+    };
+  }
+}
+
+/**
+ * Open the sheets in a print window with the page set to the stock size, so
+ * they can be printed at actual size or saved as PDF
+ */
+export function printLabelSheets(
+  title: string,
+  sheets: string[],
+  layout: SheetLayout,
+): { success: boolean; error?: string } {
+  if (sheets.length === 0) {
+    return { success: false, error: "Nothing to print" };
+  }
+  const printWindow = window.open("", "_blank");
+  if (!printWindow) {
+    return {
+      success: false,
+      error: "The print window was blocked. Allow pop-ups and try again.",
+    };
+  }
+
+  const width = mm(layout.pageWidth);
+  const height = mm(layout.pageHeight);
+  printWindow.document.write(`<!doctype html><html><head><meta charset="utf-8"><title>${escapeXml(title)}</title><style>
+@page{size:${width}mm ${height}mm;margin:0}
+html,body{margin:0;padding:0}
+.sheet{width:${width}mm;height:${height}mm;overflow:hidden;page-break-after:always;break-after:page}
+.sheet:last-child{page-break-after:auto;break-after:auto}
+svg{display:block}
+</style></head><body>${sheets
+    .map((sheet) => `<div class="sheet">${sheet}</div>`)
+    .join("")}</body></html>`);
+  printWindow.document.close();
+  printWindow.focus();
+  printWindow.print();
+  return { success: true };
+}
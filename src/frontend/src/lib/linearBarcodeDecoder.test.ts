@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest";
+import { CODE128_PATTERNS, encodeCode128 } from "./code128";
+import type { BinaryImage } from "./imageBinarizer";
+import { decodeLinearBarcode } from "./linearBarcodeDecoder";
+
+const PIXELS_PER_MODULE = 2;
+const QUIET_ZONE = 10;
+const HEIGHT = 24;
+
+// Modules as a string, "1" for a dark one
+function barcodeImage(modules: string): BinaryImage {
+  const padded = "0".repeat(QUIET_ZONE) + modules + "0".repeat(QUIET_ZONE);
+  const width = padded.length * PIXELS_PER_MODULE;
+  const data = new Uint8Array(width * HEIGHT);
+  for (let y = 0; y < HEIGHT; y++) {
+    for (let x = 0; x < width; x++) {
+      data[y * width + x] =
+        padded[Math.floor(x / PIXELS_PER_MODULE)] === "1" ? 1 : 0;
+    }
+  }
+  return { width, height: HEIGHT, data };
+}
+
+// Bar and space widths to modules, bar first
+const toModules = (widths: number[]) =>
+  widths.map((w, i) => (i % 2 === 0 ? "1" : "0").repeat(w)).join("");
+
+// Start, data and check symbols followed by stop
+function code128(values: number[], checksum?: number): string {
+  const expected =
+    values.reduce((sum, value, i) => sum + value * Math.max(i, 1), 0) % 103;
+  return toModules(
+    [...values, checksum ?? expected, 106].flatMap((value) =>
+      [...CODE128_PATTERNS[value]].map(Number),
+    ),
+  );
+}
+
+const decode = (modules: string) => decodeLinearBarcode(barcodeImage(modules));
+
+describe("decodeLinearBarcode", () => {
+  it("reads the labels the app prints in code set B and C", () => {
+    for (const text of ["TV1077", "Wikipedia", "970251", "PJJ123C"]) {
+      expect(decode(toModules(encodeCode128(text) ?? []))).toEqual({
+        text,
+        format: "code_128",
+      });
+    }
+  });
+
+  it("reads code set A, including control characters", () => {
+    // T, V, SOH, 0, 1
+    expect(decode(code128([103, 52, 54, 65, 16, 17]))?.text).toBe("TV\u000101");
+  });
+
+  it("follows code set switches and shifts", () => {
+    // Start C, 12, 34, Code B, a, Shift, SOH, b
+    expect(decode(code128([105, 12, 34, 100, 65, 98, 65, 66]))?.text).toBe(
+      "1234a\u0001b",
+    );
+    // Start B, A, Code C, 07, 70, Code A, STX
+    expect(decode(code128([104, 33, 99, 7, 70, 101, 66]))?.text).toBe(
+      "A0770\u0002",
+    );
+  });
+
+  it("rejects a symbol whose check digit does not match", () => {
+    const values = [104, 52, 54, 17, 16, 23, 23];
+    expect(decode(code128(values))?.text).toBe("TV1077");
+
+    for (let checksum = 0; checksum < 103; checksum++) {
+      if (checksum === 14) continue; // the valid one
+      expect(decode(code128(values, checksum)), `${checksum}`).toBeNull();
+    }
+  });
+
+  it("rejects a misread data character", () => {
+    // TV1078 under the check digit of TV1077
+    expect(decode(code128([104, 52, 54, 17, 16, 23, 24], 14))).toBeNull();
+  });
+
+  it("reads a barcode upside down", () => {
+    const modules = toModules(encodeCode128("TV1077") ?? []);
+    const reversed = [...modules].reverse().join("");
+
+    expect(decode(reversed)?.text).toBe("TV1077");
+  });
+
+  it("needs a quiet zone before the start symbol", () => {
+    const modules = toModules(encodeCode128("TV1077") ?? []);
+
+    expect(decode(`1${"0".repeat(3)}${modules}`)).toBeNull();
+  });
+
+  it("reads Code 39", () => {
+    // *TV1077* from a reference encoder, wide elements three modules
+    const modules =
+      "10001011101110101010111011100010100011101010111011101000101011101010001110111010101000101110111010100010111011101000101110111010";
+
+    expect(decode(modules)).toEqual({ text: "TV1077", format: "code_39" });
+  });
+
+  it("finds nothing in a blank frame", () => {
+    expect(decode("")).toBeNull();
+  });
+});
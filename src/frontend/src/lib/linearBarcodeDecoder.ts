@@ -0,0 +1,254 @@
+// Linear Barcode Decoder - Code 128 and Code 39 from binarized frames
+//
+// Reads several rows across the frame as runs of light and dark pixels and
+// matches them against the symbol tables, in both directions so labels can
+// be scanned upside down. Code 128 is what the label printer produces;
+// Code 39 covers older asset tags and badge cards.
+
+import { CODE128_PATTERNS } from "./code128";
+import { type BinaryImage, isDark } from "./imageBinarizer";
+
+export type LinearFormat = "code_128" | "code_39";
+
+export interface LinearBarcode {
+  text: string;
+  format: LinearFormat;
+}
+
+// Number of rows scanned, spreading out from the middle of the frame
+const MAX_ROWS = 15;
+// Match tolerances, as a fraction of the module width
+const MAX_AVERAGE_VARIANCE = 0.25;
+const MAX_INDIVIDUAL_VARIANCE = 0.7;
+
+/**
+ * Run widths along a row. Even indexes are light runs and odd indexes dark
+ * ones; the first run is light (possibly empty).
+ */
+function rowRuns(image: BinaryImage, y: number): number[] {
+  const runs = [0];
+  let dark = false;
+  for (let x = 0; x < image.width; x++) {
+    const pixel = isDark(image, x, y);
+    if (pixel !== dark) {
+      runs.push(0);
+      dark = pixel;
+    }
+    runs[runs.length - 1]++;
+  }
+  return runs;
+}
+
+function reverseRuns(runs: number[]): number[] {
+  const reversed = runs.slice().reverse();
+  // Keep a light run first
+  return runs.length % 2 === 0 ? [0, ...reversed] : reversed;
+}
+
+/**
+ * How far measured runs are from a pattern of module widths, averaged over
+ * the symbol width. Infinity when any single run is too far off.
+ */
+function patternVariance(runs: number[], pattern: number[]): number {
+  let total = 0;
+  let modules = 0;
+  for (let i = 0; i < pattern.length; i++) {
+    total += runs[i];
+    modules += pattern[i];
+  }
+  if (total < modules) return Number.POSITIVE_INFINITY;
+  const unit = total / modules;
+  const maxIndividual = MAX_INDIVIDUAL_VARIANCE * unit;
+  let variance = 0;
+  for (let i = 0; i < pattern.length; i++) {
+    const difference = Math.abs(runs[i] - pattern[i] * unit);
+    if (difference > maxIndividual) return Number.POSITIVE_INFINITY;
+    variance += difference;
+  }
+  return variance / total;
+}
+
+const sum = (values: number[]) => values.reduce((a, b) => a + b, 0);
+
+// ---------------------------------------------------------------------------
+// Code 128
+// ---------------------------------------------------------------------------
+
+const CODE128_WIDTHS = CODE128_PATTERNS.map((p) => [...p].map(Number));
+const CODE_SHIFT = 98;
+const CODE_C = 99;
+const CODE_B = 100;
+const CODE_A = 101;
+const CODE_FNC1 = 102;
+const START_A = 103;
+const START_C = 105;
+const STOP = 106;
+
+/**
+ * Best matching symbol value for six runs, or -1
+ */
+function matchCode128(runs: number[], first: number, last: number): number {
+  let best = -1;
+  let bestVariance = MAX_AVERAGE_VARIANCE;
+  for (let value = first; value <= last; value++) {
+    const variance = patternVariance(runs, CODE128_WIDTHS[value]);
+    if (variance < bestVariance) {
+      bestVariance = variance;
+      best = value;
+    }
+  }
+  return best;
+}
+
+function symbolsToText(values: number[]): string | null {
+  let set = values[0] - START_A; // 0 = A, 1 = B, 2 = C
+  let text = "";
+  let shifted = false;
+  for (const value of values.slice(1)) {
+    const current = shifted ? 1 - set : set;
+    shifted = false;
+    if (current === 2) {
+      if (value < 100) text += String(value).padStart(2, "0");
+      else if (value === CODE_B) set = 1;
+      else if (value === CODE_A) set = 0;
+      else if (value !== CODE_FNC1) return null;
+      continue;
+    }
+    if (value < 96) {
+      // Set A maps 64-95 to control characters, set B to lower case
+      const code = current === 0 && value >= 64 ? value - 64 : value + 32;
+      text += String.fromCharCode(code);
+    } else if (value === CODE_SHIFT) {
+      shifted = true;
+    } else if (value === CODE_C) {
+      set = 2;
+    } else if (value === CODE_B && current === 0) {
+      set = 1;
+    } else if (value === CODE_A && current === 1) {
+      set = 0;
+    }
+    // FNC1-4 carry no text
+  }
+  return text;
+}
+
+function decodeCode128(runs: number[]): string | null {
+  for (let start = 1; start + 6 < runs.length; start += 2) {
+    const startValue = matchCode128(
+      runs.slice(start, start + 6),
+      START_A,
+      START_C,
+    );
+    if (startValue < 0) continue;
+    // Quiet zone of at least half a symbol before the start
+    if (runs[start - 1] < sum(runs.slice(start, start + 6)) / 2) continue;
+
+    const values = [startValue];
+    let i = start + 6;
+    let stopped = false;
+    while (i + 6 < runs.length) {
+      const window = runs.slice(i, i + 6);
+      // The stop symbol's first six runs, its final bar is checked below
+      if (patternVariance(window, [2, 3, 3, 1, 1, 1]) < MAX_AVERAGE_VARIANCE) {
+        const unit = sum(window) / 11;
+        stopped = Math.abs(runs[i + 6] - 2 * unit) < unit;
+        break;
+      }
+      const value = matchCode128(window, 0, STOP - 1);
+      if (value < 0 || value >= START_A) break;
+      values.push(value);
+      i += 6;
+    }
+    if (!stopped || values.length < 3) continue;
+
+    const checksum = values.pop() as number;
+    const expected =
+      values.reduce((total, value, n) => total + value * Math.max(n, 1), 0) %
+      103;
+    if (checksum !== expected) continue;
+    const text = symbolsToText(values);
+    if (text) return text;
+  }
+  return null;
+}
+
+// ---------------------------------------------------------------------------
+// Code 39
+// ---------------------------------------------------------------------------
+
+const CODE39_ALPHABET = "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ-. $/+%";
+// Nine elements per character (bar first), a set bit marks a wide one
+// biome-ignore format: one row per ten characters
+const CODE39_ENCODINGS = [
+  0x034, 0x121, 0x061, 0x160, 0x031, 0x130, 0x070, 0x025, 0x124, 0x064,
+  0x109, 0x049, 0x148, 0x019, 0x118, 0x058, 0x00d, 0x10c, 0x04c, 0x01c,
+  0x103, 0x043, 0x142, 0x013, 0x112, 0x052, 0x007, 0x106, 0x046, 0x016,
+  0x181, 0x0c1, 0x1c0, 0x091, 0x190, 0x0d0, 0x085, 0x184, 0x0c4, 0x0a8,
+  0x0a2, 0x08a, 0x02a,
+];
+const CODE39_ASTERISK = 0x094;
+
+/**
+ * Wide/narrow bits of nine runs, or -1 unless exactly three are wide
+ */
+function code39Pattern(runs: number[]): number {
+  const sorted = runs.slice().sort((a, b) => b - a);
+  // Wide elements are printed two to three times the narrow width
+  if (sorted[2] < 1.5 * sorted[3]) return -1;
+  const threshold = (sorted[2] + sorted[3]) / 2;
+  let pattern = 0;
+  for (const run of runs) pattern = (pattern << 1) | (run > threshold ? 1 : 0);
+  return pattern;
+}
+
+function decodeCode39(runs: number[]): string | null {
+  for (let start = 1; start + 9 < runs.length; start += 2) {
+    const startRuns = runs.slice(start, start + 9);
+    if (code39Pattern(startRuns) !== CODE39_ASTERISK) continue;
+    const width = sum(startRuns);
+    if (runs[start - 1] < width / 2) continue;
+
+    let text = "";
+    let i = start + 10;
+    let stopped = false;
+    while (i + 9 <= runs.length) {
+      const symbol = runs.slice(i, i + 9);
+      // Characters are the same width, allow for print gain and tilt
+      if (Math.abs(sum(symbol) - width) > width / 2) break;
+      const pattern = code39Pattern(symbol);
+      if (pattern === CODE39_ASTERISK) {
+        stopped = true;
+        break;
+      }
+      const index = CODE39_ENCODINGS.indexOf(pattern);
+      if (index < 0) break;
+      text += CODE39_ALPHABET[index];
+      i += 10;
+    }
+    if (stopped && text) return text;
+  }
+  return null;
+}
+
+/**
+ * Decode the first Code 128 or Code 39 barcode found across the rows of a
+ * binarized frame
+ */
+export function decodeLinearBarcode(image: BinaryImage): LinearBarcode | null {
+  const step = Math.max(1, Math.floor(image.height / (MAX_ROWS + 1)));
+  const middle = Math.floor(image.height / 2);
+  for (let n = 0; n < MAX_ROWS; n++) {
+    const offset = Math.ceil(n / 2) * step * (n % 2 === 0 ? 1 : -1);
+    const y = middle + offset;
+    if (y < 0 || y >= image.height) continue;
+
+    const forward = rowRuns(image, y);
+    for (const runs of [forward, reverseRuns(forward)]) {
+      const code128 = decodeCode128(runs);
+      if (code128) return { text: code128, format: "code_128" };
+      const code39 = decodeCode39(runs);
+      if (code39) return { text: code39, format: "code_39" };
+    }
+  }
+  return null;
+}
@@ -0,0 +1,174 @@
+// Location Service - multi-fix GPS acquisition with accuracy gating
+//
+// A single getCurrentPosition fix is often the coarse network fix, so check-out
+// and check-in watch the position for a few seconds instead, discard fixes
+// worse than the configured threshold and average the rest weighted by
+// accuracy (inverse variance). Successive fixes from one receiver share most
+// of their error, so the reported accuracy is the mean of the fixes used
+// rather than the tighter figure averaging independent fixes would give.
+
+export interface LocationFix {
+  lat: number;
+  lng: number;
+  // Estimated accuracy of the smoothed position in meters
+  accuracy: number;
+  // Number of fixes that passed the threshold and were averaged
+  samples: number;
+}
+
+export interface AcquisitionOptions {
+  // Fixes less accurate than this (meters) are discarded
+  thresholdMeters?: number;
+  // Stop once this many good fixes have been collected
+  targetSamples?: number;
+  timeoutMs?: number;
+  // Called with the smoothed fix as good fixes arrive
+  onProgress?: (fix: LocationFix) => void;
+}
+
+export interface AcquisitionResult {
+  success: boolean;
+  fix?: LocationFix;
+  // Most accurate raw fix seen, kept so a manual override still records
+  // where the device thought it was
+  bestRawFix?: LocationFix;
+  error?: string;
+}
+
+const THRESHOLD_KEY = "ramptrack_gps_accuracy_threshold";
+export const DEFAULT_ACCURACY_THRESHOLD_METERS = 30;
+const DEFAULT_TARGET_SAMPLES = 5;
+const DEFAULT_TIMEOUT_MS = 15000;
+
+/**
+ * Accuracy threshold in meters used to accept or discard fixes
+ */
+export function getAccuracyThreshold(): number {
+  const stored = Number(localStorage.getItem(THRESHOLD_KEY));
+  return stored > 0 ? stored : DEFAULT_ACCURACY_THRESHOLD_METERS;
+}
+
+/**
+ * Update the accuracy threshold (5–500 m)
+ */
+export function setAccuracyThreshold(meters: number): {
+  success: boolean;
+  error?: string;
+} {
+  if (!Number.isFinite(meters) || meters < 5 || meters > 500) {
+    return {
+      success: false,
+      error: "Accuracy threshold must be between 5 and 500 meters",
+    };
+  }
+  localStorage.setItem(THRESHOLD_KEY, String(Math.round(meters)));
+  return { success: true };
+}
+
+/**
+ * Inverse-variance weighted mean of the given fixes, with their mean accuracy
+ */
+function smoothFixes(fixes: GeolocationCoordinates[]): LocationFix {
+  let weightSum = 0;
+  let lat = 0;
+  let lng = 0;
+  let accuracySum = 0;
+  for (const fix of fixes) {
+    const weight = 1 / Math.max(fix.accuracy, 1) ** 2;
+    weightSum += weight;
+    lat += fix.latitude * weight;
+    lng += fix.longitude * weight;
+    accuracySum += fix.accuracy;
+  }
+  return {
+    lat: lat / weightSum,
+    lng: lng / weightSum,
+    accuracy: Math.round(accuracySum / fixes.length),
+    samples: fixes.length,
+  };
+}
+
+/**
+ * Watch the position until enough good fixes arrive or the timeout passes.
+ * Resolves with the smoothed fix, or with success false and the best raw fix
+ * when nothing met the threshold. Never rejects.
+ */
+export function acquireLocation(
+  options: AcquisitionOptions = {},
+  signal?: AbortSignal,
+): Promise<AcquisitionResult> {
+  const threshold = options.thresholdMeters ?? getAccuracyThreshold();
+  const targetSamples = options.targetSamples ?? DEFAULT_TARGET_SAMPLES;
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+
+  if (!("geolocation" in navigator)) {
+    return Promise.resolve({
+      success: false,
+      error: "GPS is not available on this device.",
+    });
+  }
+
+  return new Promise((resolve) => {
+    const accepted: GeolocationCoordinates[] = [];
+    let bestRaw: GeolocationCoordinates | null = null;
+    let settled = false;
+
+    const finish = (error?: string) => {
+      if (settled) return;
+      settled = true;
+      navigator.geolocation.clearWatch(watchId);
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort);
+
+      const bestRawFix = bestRaw
+        ? {
+            lat: bestRaw.latitude,
+            lng: bestRaw.longitude,
+            accuracy: Math.round(bestRaw.accuracy),
+            samples: 1,
+          }
+        : undefined;
+
+      if (accepted.length > 0) {
+        resolve({ success: true, fix: smoothFixes(accepted), bestRawFix });
+        return;
+      }
+      resolve({
+        success: false,
+        bestRawFix,
+        error:
+          error ??
+          (bestRawFix
+            ? `GPS accuracy is ${bestRawFix.accuracy}m; ${threshold}m or better is required.`
+            : "Failed to capture GPS location. Please ensure location services are enabled."),
+      });
+    };
+
+    const onAbort = () => finish("Location capture cancelled.");
+
+    const watchId = navigator.geolocation.watchPosition(
+      (position) => {
+        const { coords } = position;
+        if (!bestRaw || coords.accuracy < bestRaw.accuracy) bestRaw = coords;
+        if (coords.accuracy > threshold) return;
+
+        accepted.push(coords);
+        options.onProgress?.(smoothFixes(accepted));
+        if (accepted.length >= targetSamples) finish();
+      },
+      (error) => {
+        console.error("GPS error:", error);
+        // Keep watching on transient errors; permission denial is final
+        if (error.code === error.PERMISSION_DENIED) {
+          finish(
+            "Location permission denied. Please enable location services.",
+          );
+        }
+      },
+      { enableHighAccuracy: true, timeout: timeoutMs, maximumAge: 0 },
+    );
+
+    const timer = setTimeout(() => finish(), timeoutMs);
+    signal?.addEventListener("abort", onAbort);
+  });
+}
@@ -0,0 +1,130 @@
+// Notification Store - in-app notifications with localStorage persistence
+//
+// Each notification is addressed to one badge or to every role holding a
+// permission (e.g. supervisors), and tracks who has read it. Notifications
+// with a key are only ever created once, so periodic checks can re-raise the
+// same condition safely.
+
+import { type Permission, hasPermission } from "./permissions";
+
+export interface AppNotification {
+  id: string;
+  // Deduplication key: a second notification with the same key is dropped
+  key?: string;
+  createdAt: string;
+  title: string;
+  message: string;
+  equipmentId?: string;
+  stationCode?: string;
+  // Recipients: a single badge, or everyone whose role has the permission
+  badgeId?: string;
+  permission?: Permission;
+  // Badges that have read it
+  readBy: string[];
+}
+
+const STORAGE_KEY = "ramptrack_notifications";
+const MAX_NOTIFICATIONS = 200;
+
+// Notification listeners (same pattern as apiClient refresh state)
+const notificationListeners: Set<() => void> = new Set();
+
+/**
+ * Subscribe to notification changes
+ * Returns unsubscribe function
+ */
+export function subscribeToNotifications(listener: () => void): () => void {
+  notificationListeners.add(listener);
+
+  return () => {
+    notificationListeners.delete(listener);
+  };
+}
+
+function notifyListeners(): void {
+  for (const listener of notificationListeners) {
+    listener();
+  }
+}
+
+/**
+ * All notifications, newest first
+ */
+export function getNotifications(): AppNotification[] {
+  try {
+    const data = localStorage.getItem(STORAGE_KEY);
+    return data ? (JSON.parse(data) as AppNotification[]) : [];
+  } catch (error) {
+    console.error("Error reading notifications:", error);
+    return [];
+  }
+}
+
+function saveNotifications(notifications: AppNotification[]): void {
+  localStorage.setItem(
+    STORAGE_KEY,
+    JSON.stringify(notifications.slice(0, MAX_NOTIFICATIONS)),
+  );
+  notifyListeners();
+}
+
+/**
+ * Notifications addressed to a signed-in user, newest first
+ */
+export function getNotificationsFor(
+  badgeId: string,
+  role: string,
+): AppNotification[] {
+  return getNotifications().filter(
+    (n) =>
+      (n.badgeId !== undefined && n.badgeId === badgeId) ||
+      (n.permission !== undefined && hasPermission(role, n.permission)),
+  );
+}
+
+/**
+ * Add a notification. Returns false when one with the same key exists.
+ */
+export function addNotification(
+  notification: Omit<AppNotification, "id" | "createdAt" | "readBy">,
+): boolean {
+  try {
+    const notifications = getNotifications();
+    if (
+      notification.key &&
+      notifications.some((n) => n.key === notification.key)
+    ) {
+      return false;
+    }
+
+    notifications.unshift({
+      id: `notification-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`,
+      createdAt: new Date().toISOString(),
+      readBy: [],
+      ...notification,
+    });
+    saveNotifications(notifications);
+    return true;
+  } catch (error) {
+    console.error("Error adding notification:", error);
+    return false;
+  }
+}
+
+/**
+ * Mark notifications read for a badge (all of the given IDs)
+ */
+export function markNotificationsRead(ids: string[], badgeId: string): void {
+  const notifications = getNotifications();
+  let changed = false;
+  for (const notification of notifications) {
+    if (
+      ids.includes(notification.id) &&
+      !notification.readBy.includes(badgeId)
+    ) {
+      notification.readBy.push(badgeId);
+      changed = true;
+    }
+  }
+  if (changed) saveNotifications(notifications);
+}
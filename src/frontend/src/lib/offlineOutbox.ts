@@ -0,0 +1,446 @@
+// Offline Outbox - persistent IndexedDB queue for backend mutations
+//
+// Every backend write goes through the outbox so the local registry and the
+// backend never drift apart when the ramp has no signal. Entries are replayed
+// in the order they were queued, and replay pauses at the first entry the
+// backend cannot be reached for. An entry the backend rejects, or that was
+// overtaken by a newer remote change, is kept as a conflict for a supervisor
+// to retry or discard instead of being dropped; the entries after it are
+// still applied, so a conflict does not hold up the rest of the queue.
+
+import {
+  type ActivityLog,
+  type Assignment,
+  type Equipment,
+  ExternalBlob,
+  type Issue,
+  type backendInterface,
+} from "../backend";
+import { openDatabase, requestToPromise, transactionDone } from "./idb";
+
+export type OutboxMutation =
+  | { kind: "createAssignment"; payload: Assignment }
+  | { kind: "addEquipment"; payload: Equipment }
+  | { kind: "updateEquipment"; payload: Equipment }
+  | { kind: "logActivity"; payload: ActivityLog }
+  | { kind: "reportIssue"; payload: Issue }
+  | { kind: "updateIssue"; payload: Issue };
+
+export type OutboxMutationKind = OutboxMutation["kind"];
+
+// Issue photos are ExternalBlob instances, which IndexedDB cannot clone
+interface StoredIssue extends Omit<Issue, "photo"> {
+  photoBytes?: Uint8Array<ArrayBuffer>;
+  photoUrl?: string;
+}
+
+type StoredMutation =
+  | Exclude<OutboxMutation, { payload: Issue }>
+  | { kind: "reportIssue" | "updateIssue"; payload: StoredIssue };
+
+export interface OutboxEntry {
+  seq: number;
+  idempotencyKey: string;
+  kind: OutboxMutationKind;
+  payload: StoredMutation["payload"];
+  status: "pending" | "conflict";
+  enqueuedAt: string;
+  attempts: number;
+  lastError?: string;
+  // Set when a supervisor chose to re-apply a conflicting entry as-is
+  force?: boolean;
+}
+
+export interface OutboxSnapshot {
+  pending: number;
+  conflicts: OutboxEntry[];
+}
+
+export type OutboxSubmitResult = {
+  idempotencyKey: string;
+  status: "sent" | "queued" | "conflict";
+};
+
+const DB_NAME = "ramptrack_outbox";
+const DB_VERSION = 1;
+const STORE = "mutations";
+
+function openOutbox(): Promise<IDBDatabase> {
+  return openDatabase(DB_NAME, DB_VERSION, (db) => {
+    if (!db.objectStoreNames.contains(STORE)) {
+      const store = db.createObjectStore(STORE, {
+        keyPath: "seq",
+        autoIncrement: true,
+      });
+      store.createIndex("idempotencyKey", "idempotencyKey", { unique: true });
+    }
+  });
+}
+
+// Snapshot listeners (same pattern as apiClient refresh state)
+let lastSnapshot: OutboxSnapshot = { pending: 0, conflicts: [] };
+const outboxListeners: Set<(snapshot: OutboxSnapshot) => void> = new Set();
+
+/**
+ * Subscribe to outbox changes (pending count and conflicts)
+ * Returns unsubscribe function
+ */
+export function subscribeToOutbox(
+  listener: (snapshot: OutboxSnapshot) => void,
+): () => void {
+  outboxListeners.add(listener);
+  listener(lastSnapshot);
+  void notifyOutboxListeners();
+
+  return () => {
+    outboxListeners.delete(listener);
+  };
+}
+
+async function notifyOutboxListeners(): Promise<void> {
+  try {
+    const entries = await getOutboxEntries();
+    lastSnapshot = {
+      pending: entries.filter((e) => e.status === "pending").length,
+      conflicts: entries.filter((e) => e.status === "conflict"),
+    };
+  } catch (error) {
+    console.error("[offlineOutbox] Failed to read outbox:", error);
+    return;
+  }
+
+  for (const listener of outboxListeners) {
+    try {
+      listener(lastSnapshot);
+    } catch (error) {
+      console.error("[offlineOutbox] Error in outbox listener:", error);
+    }
+  }
+}
+
+// Unique suffix for writes that carry no version of their own
+function writeId(): string {
+  return crypto.randomUUID
+    ? crypto.randomUUID()
+    : `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/**
+ * Idempotency key for a mutation - one key per backend record write
+ */
+export function getIdempotencyKey(mutation: OutboxMutation): string {
+  if (mutation.kind === "updateEquipment") {
+    return `${mutation.kind}:${mutation.payload.id}:${mutation.payload.last_update_time}`;
+  }
+  if (mutation.kind === "updateIssue") {
+    // Issue updates have no version field, and reassigning a mechanic or
+    // editing notes keeps the status, so every update is its own write
+    return `${mutation.kind}:${mutation.payload.id}:${writeId()}`;
+  }
+  return `${mutation.kind}:${mutation.payload.id}`;
+}
+
+async function serializeIssue(issue: Issue): Promise<StoredIssue> {
+  const { photo, ...rest } = issue;
+  if (!photo) return rest;
+
+  const url = photo.getDirectURL();
+  if (url.startsWith("blob:")) {
+    return { ...rest, photoBytes: await photo.getBytes() };
+  }
+  return { ...rest, photoUrl: url };
+}
+
+function deserializeIssue(stored: StoredIssue): Issue {
+  const { photoBytes, photoUrl, ...rest } = stored;
+  if (photoBytes) return { ...rest, photo: ExternalBlob.fromBytes(photoBytes) };
+  if (photoUrl) return { ...rest, photo: ExternalBlob.fromURL(photoUrl) };
+  return rest;
+}
+
+/**
+ * Read all outbox entries in replay order
+ */
+export async function getOutboxEntries(): Promise<OutboxEntry[]> {
+  const db = await openOutbox();
+  const tx = db.transaction(STORE, "readonly");
+  return requestToPromise(
+    tx.objectStore(STORE).getAll() as IDBRequest<OutboxEntry[]>,
+  );
+}
+
+/**
+ * Queue a mutation. Queuing the same idempotency key twice is a no-op.
+ */
+export async function enqueueMutation(
+  mutation: OutboxMutation,
+): Promise<string> {
+  const idempotencyKey = getIdempotencyKey(mutation);
+  const payload =
+    mutation.kind === "reportIssue" || mutation.kind === "updateIssue"
+      ? await serializeIssue(mutation.payload)
+      : mutation.payload;
+
+  const db = await openOutbox();
+  const tx = db.transaction(STORE, "readwrite");
+  const store = tx.objectStore(STORE);
+
+  const existing = await requestToPromise(
+    store.index("idempotencyKey").getKey(idempotencyKey),
+  );
+  if (existing === undefined) {
+    const entry: Omit<OutboxEntry, "seq"> = {
+      idempotencyKey,
+      kind: mutation.kind,
+      payload,
+      status: "pending",
+      enqueuedAt: new Date().toISOString(),
+      attempts: 0,
+    };
+    store.add(entry);
+  } else {
+    console.log("[offlineOutbox] Mutation already queued:", idempotencyKey);
+  }
+
+  await transactionDone(tx);
+  void notifyOutboxListeners();
+  return idempotencyKey;
+}
+
+async function putEntry(entry: OutboxEntry): Promise<void> {
+  const db = await openOutbox();
+  const tx = db.transaction(STORE, "readwrite");
+  tx.objectStore(STORE).put(entry);
+  await transactionDone(tx);
+}
+
+async function deleteEntry(seq: number): Promise<void> {
+  const db = await openOutbox();
+  const tx = db.transaction(STORE, "readwrite");
+  tx.objectStore(STORE).delete(seq);
+  await transactionDone(tx);
+}
+
+/**
+ * Errors that mean "try again later" rather than "the backend said no"
+ */
+function isTransientError(error: unknown): boolean {
+  if (typeof navigator !== "undefined" && !navigator.onLine) return true;
+  const message = error instanceof Error ? error.message : String(error);
+  return /fetch|network|timeout|timed out|IC0508|stopped|offline/i.test(
+    message,
+  );
+}
+
+// Remote records fetched at most once per replay, for idempotency checks
+interface ReplayContext {
+  assignmentIds?: Set<string>;
+  issueIds?: Set<string>;
+  activityIds?: Set<string>;
+}
+
+async function alreadyApplied(
+  actor: backendInterface,
+  entry: OutboxEntry,
+  ctx: ReplayContext,
+): Promise<boolean> {
+  const id = entry.payload.id;
+  switch (entry.kind) {
+    case "createAssignment":
+      ctx.assignmentIds ??= new Set(
+        (await actor.getAllAssignments()).map((a) => a.id),
+      );
+      return ctx.assignmentIds.has(id);
+    case "reportIssue":
+      ctx.issueIds ??= new Set((await actor.getAllIssues()).map((i) => i.id));
+      return ctx.issueIds.has(id);
+    case "logActivity":
+      ctx.activityIds ??= new Set(
+        (await actor.getAllActivityLogs()).map((a) => a.id),
+      );
+      return ctx.activityIds.has(id);
+    case "addEquipment":
+      return (await actor.getEquipment(id)) !== null;
+    case "updateEquipment": {
+      // A newer remote write already holding the same state supersedes ours
+      const local = entry.payload as Equipment;
+      const remote = await actor.getEquipment(id);
+      return (
+        !!remote &&
+        remote.last_update_time >= local.last_update_time &&
+        remote.status === local.status &&
+        remote.assigned_operator === local.assigned_operator
+      );
+    }
+    default:
+      return false;
+  }
+}
+
+/**
+ * Returns a conflict description if the backend has since moved to a
+ * different state than this entry wants, otherwise null
+ */
+async function detectConflict(
+  actor: backendInterface,
+  entry: OutboxEntry,
+): Promise<string | null> {
+  if (entry.force || entry.kind !== "updateEquipment") return null;
+
+  const local = entry.payload as Equipment;
+  const remote = await actor.getEquipment(local.id);
+  if (
+    remote &&
+    remote.last_update_time > local.last_update_time &&
+    (remote.status !== local.status ||
+      remote.assigned_operator !== local.assigned_operator)
+  ) {
+    return `Equipment ${local.id} was changed on another device (now ${remote.status}${remote.assigned_operator ? ` by ${remote.assigned_operator}` : ""}) after this offline update was queued`;
+  }
+  return null;
+}
+
+async function applyEntry(
+  actor: backendInterface,
+  entry: OutboxEntry,
+): Promise<void> {
+  switch (entry.kind) {
+    case "createAssignment":
+      await actor.createAssignment(entry.payload as Assignment);
+      return;
+    case "addEquipment":
+      await actor.addEquipment(entry.payload as Equipment);
+      return;
+    case "updateEquipment":
+      await actor.updateEquipment(entry.payload as Equipment);
+      return;
+    case "logActivity":
+      await actor.logActivity(entry.payload as ActivityLog);
+      return;
+    case "reportIssue":
+      await actor.reportIssue(deserializeIssue(entry.payload as StoredIssue));
+      return;
+    case "updateIssue":
+      await actor.updateIssue(deserializeIssue(entry.payload as StoredIssue));
+      return;
+  }
+}
+
+let replayInFlight: Promise<void> | null = null;
+
+async function runReplay(actor: backendInterface): Promise<void> {
+  const entries = await getOutboxEntries();
+  const ctx: ReplayContext = {};
+
+  for (const entry of entries) {
+    if (entry.status !== "pending") continue;
+
+    try {
+      if (await alreadyApplied(actor, entry, ctx)) {
+        console.log(
+          "[offlineOutbox] Already applied, dropping:",
+          entry.idempotencyKey,
+        );
+        await deleteEntry(entry.seq);
+        continue;
+      }
+
+      const conflict = await detectConflict(actor, entry);
+      if (conflict) {
+        console.warn("[offlineOutbox] Conflict:", conflict);
+        await putEntry({ ...entry, status: "conflict", lastError: conflict });
+        continue;
+      }
+
+      await applyEntry(actor, entry);
+      await deleteEntry(entry.seq);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+
+      if (isTransientError(error)) {
+        // Keep order: stop at the first entry that cannot be delivered yet
+        console.warn(
+          "[offlineOutbox] Backend unreachable, pausing replay:",
+          message,
+        );
+        await putEntry({
+          ...entry,
+          attempts: entry.attempts + 1,
+          lastError: message,
+        });
+        break;
+      }
+
+      console.error("[offlineOutbox] Backend rejected mutation:", message);
+      await putEntry({
+        ...entry,
+        status: "conflict",
+        attempts: entry.attempts + 1,
+        lastError: message,
+      });
+    }
+  }
+}
+
+/**
+ * Replay all pending mutations in order. A call made while a replay is
+ * running waits for it to finish and then starts a new run, so entries
+ * queued in the meantime are sent too.
+ */
+export async function replayOutbox(actor: backendInterface): Promise<void> {
+  while (replayInFlight) {
+    await replayInFlight;
+  }
+
+  replayInFlight = runReplay(actor).finally(() => {
+    replayInFlight = null;
+    void notifyOutboxListeners();
+  });
+  return replayInFlight;
+}
+
+/**
+ * Queue a mutation and, when a backend actor is available, replay the
+ * outbox straight away. Resolves with where the mutation ended up.
+ */
+export async function submitMutation(
+  actor: backendInterface | null,
+  mutation: OutboxMutation,
+): Promise<OutboxSubmitResult> {
+  const idempotencyKey = await enqueueMutation(mutation);
+
+  if (actor && navigator.onLine) {
+    await replayOutbox(actor);
+  }
+
+  const remaining = (await getOutboxEntries()).find(
+    (e) => e.idempotencyKey === idempotencyKey,
+  );
+  return {
+    idempotencyKey,
+    status: !remaining
+      ? "sent"
+      : remaining.status === "conflict"
+        ? "conflict"
+        : "queued",
+  };
+}
+
+/**
+ * Resolve a conflict: "retry" re-applies the queued write as-is on the next
+ * replay, "discard" drops it
+ */
+export async function resolveConflict(
+  seq: number,
+  resolution: "retry" | "discard",
+): Promise<void> {
+  if (resolution === "discard") {
+    await deleteEntry(seq);
+  } else {
+    const entry = (await getOutboxEntries()).find((e) => e.seq === seq);
+    if (entry) {
+      await putEntry({ ...entry, status: "pending", force: true });
+    }
+  }
+  void notifyOutboxListeners();
+}
@@ -0,0 +1,90 @@
+// Overdue Checkouts - flags units kept out longer than their type allows
+//
+// The limit comes from the equipment type catalog. Overdue units notify the
+// operator who holds them and every supervisor, once per check-out.
+
+import { type EquipmentRecord, getAllEquipment } from "./equipmentRegistry";
+import {
+  formatEquipmentType,
+  getMaxCheckoutMinutes,
+} from "./equipmentTypeCatalog";
+import { addNotification } from "./notificationStore";
+import { stationOf } from "./stationStore";
+
+// How often the app re-checks while signed in
+export const OVERDUE_CHECK_INTERVAL_MS = 60000;
+
+/**
+ * Minutes past the type's limit, or null when the unit is not overdue
+ */
+export function getOverdueMinutes(
+  record: EquipmentRecord,
+  now: number = Date.now(),
+): number | null {
+  if (record.status !== "ASSIGNED" || !record.checkoutTime) return null;
+
+  const checkedOutAt = new Date(record.checkoutTime).getTime();
+  if (Number.isNaN(checkedOutAt)) return null;
+
+  const over =
+    Math.floor((now - checkedOutAt) / 60000) -
+    getMaxCheckoutMinutes(record.type);
+  return over > 0 ? over : null;
+}
+
+export const isOverdue = (
+  record: EquipmentRecord,
+  now: number = Date.now(),
+): boolean => getOverdueMinutes(record, now) !== null;
+
+/**
+ * Format a duration in minutes as "2h 5m"
+ */
+export function formatMinutes(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  return hours > 0 ? `${hours}h ${minutes % 60}m` : `${minutes}m`;
+}
+
+/**
+ * Notify the holder and supervisors about every newly overdue unit, across
+ * all stations. Returns how many units raised new notifications.
+ */
+export function checkOverdueCheckouts(now: number = Date.now()): number {
+  let raised = 0;
+
+  for (const record of getAllEquipment()) {
+    const overdue = getOverdueMinutes(record, now);
+    if (overdue === null) continue;
+
+    const limit = formatMinutes(getMaxCheckoutMinutes(record.type));
+    const base = {
+      title: `${record.id} overdue`,
+      equipmentId: record.id,
+      stationCode: stationOf(record),
+    };
+    // One notification per check-out and audience
+    const key = `overdue:${record.id}:${record.checkoutTime}`;
+
+    let created = false;
+    if (record.lastOperator) {
+      created =
+        addNotification({
+          ...base,
+          key: `${key}:operator`,
+          message: `You have had ${record.id} checked out for longer than the ${limit} allowed for a ${formatEquipmentType(record.type)}. Please return it.`,
+          badgeId: record.lastOperator,
+        }) || created;
+    }
+    created =
+      addNotification({
+        ...base,
+        key: `${key}:supervisors`,
+        message: `${formatEquipmentType(record.type)} ${record.id} has been out ${formatMinutes(overdue)} past its ${limit} limit${record.lastOperator ? ` (operator ${record.lastOperator})` : ""}${record.location ? ` at ${record.location}` : ""}.`,
+        permission: "equipment.override",
+      }) || created;
+
+    if (created) raised++;
+  }
+
+  return raised;
+}
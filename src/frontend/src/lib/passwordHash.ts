@@ -0,0 +1,71 @@
+// Password Hashing - salted PBKDF2-SHA256 via WebCrypto
+//
+// Hashes are stored as "pbkdf2-sha256$<iterations>$<salt>$<hash>" with the
+// salt and hash base64-encoded, so the iteration count can be raised later
+// without invalidating existing credentials.
+
+const ALGORITHM = "pbkdf2-sha256";
+const ITERATIONS = 210000;
+const SALT_BYTES = 16;
+const HASH_BYTES = 32;
+
+const toBase64 = (bytes: Uint8Array): string =>
+  btoa(String.fromCharCode(...bytes));
+
+const fromBase64 = (value: string): Uint8Array<ArrayBuffer> =>
+  Uint8Array.from(atob(value), (c) => c.charCodeAt(0));
+
+async function derive(
+  password: string,
+  salt: Uint8Array<ArrayBuffer>,
+  iterations: number,
+): Promise<Uint8Array> {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(password),
+    "PBKDF2",
+    false,
+    ["deriveBits"],
+  );
+  const bits = await crypto.subtle.deriveBits(
+    { name: "PBKDF2", hash: "SHA-256", salt, iterations },
+    key,
+    HASH_BYTES * 8,
+  );
+  return new Uint8Array(bits);
+}
+
+/**
+ * Hash a password with a fresh random salt
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const hash = await derive(password, salt, ITERATIONS);
+  return [ALGORITHM, ITERATIONS, toBase64(salt), toBase64(hash)].join("$");
+}
+
+/**
+ * Check a password against a stored hash. Malformed hashes never match.
+ */
+export async function verifyPassword(
+  password: string,
+  storedHash: string,
+): Promise<boolean> {
+  const [algorithm, iterations, salt, hash] = storedHash.split("$");
+  if (algorithm !== ALGORITHM || !salt || !hash) return false;
+
+  try {
+    const expected = fromBase64(hash);
+    const actual = await derive(password, fromBase64(salt), Number(iterations));
+
+    // Compare every byte so timing does not reveal the matching prefix
+    let diff = expected.length ^ actual.length;
+    for (let i = 0; i < expected.length; i++) {
+      diff |= expected[i] ^ (actual[i] ?? 0);
+    }
+    return diff === 0;
+  } catch (error) {
+    console.error("Error verifying password:", error);
+    return false;
+  }
+}
@@ -0,0 +1,69 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { checkPermission, getPermissionDenials } from "./permissions";
+import { writeSession } from "./sessionStore";
+import { getUsers } from "./userStore";
+
+const ROSTER_KEY = "ramptrack_user_roster";
+
+function signIn(badgeId: string, role: string) {
+  writeSession({ username: badgeId, role, badgeId, displayName: badgeId });
+}
+
+function setActive(badgeId: string, active: boolean) {
+  const users = getUsers().map((u) =>
+    u.badgeId === badgeId ? { ...u, active } : u,
+  );
+  localStorage.setItem(ROSTER_KEY, JSON.stringify(users));
+}
+
+beforeEach(() => {
+  localStorage.clear();
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+});
+
+describe("checkPermission", () => {
+  it("allows what the roster role holds", () => {
+    signIn("970251", "manager");
+
+    expect(checkPermission("dashboard.view")).toBeNull();
+    expect(checkPermission("user.manage")).toBe(
+      "Your role is not allowed to perform user.manage.",
+    );
+  });
+
+  it("uses the roster role over the one stored in the session", () => {
+    signIn("970251", "admin");
+
+    expect(checkPermission("user.manage")).not.toBeNull();
+  });
+
+  it("denies everything to a user deactivated after signing in", () => {
+    signIn("970251", "manager");
+    setActive("970251", false);
+
+    expect(checkPermission("equipment.checkout", "TV1077")).toBe(
+      "Your account has been deactivated.",
+    );
+    expect(getPermissionDenials()[0]).toMatchObject({
+      permission: "equipment.checkout",
+      role: "manager",
+      user: "970251",
+      target: "TV1077",
+    });
+
+    setActive("970251", true);
+    expect(checkPermission("equipment.checkout")).toBeNull();
+  });
+
+  it("keeps the session role of a user missing from the roster", () => {
+    signIn("TEMP01", "agent");
+
+    expect(checkPermission("equipment.checkout")).toBeNull();
+  });
+
+  it("denies a guest", () => {
+    expect(checkPermission("equipment.checkout")).toBe(
+      "Your role is not allowed to perform equipment.checkout.",
+    );
+  });
+});
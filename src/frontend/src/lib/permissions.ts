@@ -0,0 +1,164 @@
+// Permissions - declarative role → permission matrix
+//
+// The hash router, screen actions and registry/audit write functions all ask
+// this module whether the signed-in role may do something. Denied attempts
+// are kept in a capped local log so admins can see who tried what.
+
+import { readSession } from "./sessionStore";
+import { isSessionUserActive, resolveSessionRole } from "./userStore";
+
+export type Permission =
+  | "equipment.checkout"
+  | "equipment.checkin"
+  | "equipment.report"
+  | "equipment.create"
+  | "equipment.edit"
+  | "equipment.release"
+  | "equipment.override"
+  | "equipment.retire"
+  | "equipmentType.manage"
+  | "issue.manage"
+  | "issue.resolve"
+  | "dashboard.view"
+  | "audit.view"
+  | "audit.clear"
+  | "sync.view"
+  | "geofence.manage"
+  | "station.manage"
+  | "user.manage";
+
+export interface PermissionDenial {
+  id: string;
+  timestamp: string;
+  permission: Permission;
+  role: string;
+  user: string;
+  // What was attempted, e.g. a view name or an equipment ID
+  target?: string;
+}
+
+const FIELD_PERMISSIONS: readonly Permission[] = [
+  "equipment.checkout",
+  "equipment.checkin",
+  "equipment.report",
+];
+
+const SUPERVISOR_PERMISSIONS: readonly Permission[] = [
+  ...FIELD_PERMISSIONS,
+  "equipment.create",
+  "equipment.edit",
+  "equipment.release",
+  "equipment.override",
+  "equipment.retire",
+  "issue.manage",
+  "issue.resolve",
+  "dashboard.view",
+  "audit.view",
+  "sync.view",
+  "geofence.manage",
+];
+
+export const ROLE_PERMISSIONS: Record<string, readonly Permission[]> = {
+  operator: FIELD_PERMISSIONS,
+  agent: FIELD_PERMISSIONS,
+  manager: SUPERVISOR_PERMISSIONS,
+  admin: [
+    ...SUPERVISOR_PERMISSIONS,
+    "equipmentType.manage",
+    "audit.clear",
+    "station.manage",
+    "user.manage",
+  ],
+};
+
+const DENIALS_KEY = "ramptrack_permission_denials";
+const MAX_DENIALS = 100;
+
+/**
+ * Whether a role holds a permission. Unknown roles hold none.
+ */
+export function hasPermission(
+  role: string | undefined | null,
+  permission: Permission,
+): boolean {
+  return !!role && (ROLE_PERMISSIONS[role]?.includes(permission) ?? false);
+}
+
+/**
+ * Role and badge of the signed-in user, read from the persisted session so
+ * non-React modules can check permissions. The role and active flag come
+ * from the roster, as they do for the router and screens.
+ */
+function getSessionUser(): {
+  role: string;
+  user: string;
+  active: boolean;
+} | null {
+  const session = readSession();
+  return session
+    ? {
+        role: resolveSessionRole(session),
+        user: session.badgeId || session.username,
+        active: isSessionUserActive(session),
+      }
+    : null;
+}
+
+export function getPermissionDenials(): PermissionDenial[] {
+  try {
+    const data = localStorage.getItem(DENIALS_KEY);
+    return data ? (JSON.parse(data) as PermissionDenial[]) : [];
+  } catch (error) {
+    console.error("Error reading permission denials:", error);
+    return [];
+  }
+}
+
+/**
+ * Record a denied attempt (newest first, capped)
+ */
+export function recordPermissionDenial(
+  denial: Omit<PermissionDenial, "id" | "timestamp">,
+): void {
+  console.warn(
+    `[Permissions] Denied ${denial.permission} to ${denial.user} (${denial.role})${denial.target ? ` on ${denial.target}` : ""}`,
+  );
+  try {
+    const denials = getPermissionDenials();
+    denials.unshift({
+      id: `denial-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`,
+      timestamp: new Date().toISOString(),
+      ...denial,
+    });
+    localStorage.setItem(
+      DENIALS_KEY,
+      JSON.stringify(denials.slice(0, MAX_DENIALS)),
+    );
+  } catch (error) {
+    console.error("Error recording permission denial:", error);
+  }
+}
+
+/**
+ * Check the signed-in user for a permission. Returns null when allowed,
+ * otherwise an error message; denials are logged. Deactivated users hold
+ * no permissions, even before their session ends.
+ */
+export function checkPermission(
+  permission: Permission,
+  target?: string,
+): string | null {
+  const session = getSessionUser();
+  const active = session?.active ?? true;
+  if (active && hasPermission(session?.role, permission)) return null;
+
+  recordPermissionDenial({
+    permission,
+    role: session?.role ?? "guest",
+    user: session?.user ?? "unknown",
+    target,
+  });
+  return active
+    ? `Your role is not allowed to perform ${permission}.`
+    : "Your account has been deactivated.";
+}
@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import { QR_MAX_BYTES, encodeQr, formatBits, versionBits } from "./qrCode";
+
+// "TV1077" at level M: version 1, mask 2 (checked against the qrcode package)
+const TV1077 = [
+  "#######.....#.#######",
+  "#.....#.....#.#.....#",
+  "#.###.#.#.###.#.###.#",
+  "#.###.#.###.#.#.###.#",
+  "#.###.#.#####.#.###.#",
+  "#.....#.#...#.#.....#",
+  "#######.#.#.#.#######",
+  "........#..##........",
+  "#.#####...#.#.#####..",
+  "....#...###.#..#.###.",
+  ".#.#.###.#.#.#..#..#.",
+  "#.#.....##.....##.#..",
+  "###.#####..#.#..##.#.",
+  "........########..##.",
+  "#######.....#.##.###.",
+  "#.....#.#.#####.#.#.#",
+  "#.###.#.#.#.#....#.#.",
+  "#.###.#.#.#.#...#.#..",
+  "#.###.#.#..#.#.#..#..",
+  "#.....#..#......#.#..",
+  "#######.####.#...#.#.",
+];
+
+const toRows = (modules: boolean[][]) =>
+  modules.map((row) => row.map((dark) => (dark ? "#" : ".")).join(""));
+
+describe("encodeQr", () => {
+  it("matches the reference matrix for a unit id", () => {
+    const code = encodeQr("TV1077");
+
+    expect(code).toMatchObject({ version: 1, size: 21 });
+    expect(toRows(code?.modules ?? [])).toEqual(TV1077);
+  });
+
+  it("reproduces the reference matrix when the mask is forced", () => {
+    expect(toRows(encodeQr("TV1077", { mask: 2 })?.modules ?? [])).toEqual(
+      TV1077,
+    );
+  });
+
+  it("picks the smallest version that fits", () => {
+    // Version 1-M holds 14 bytes, version 2-M holds 26
+    expect(encodeQr("x".repeat(14))?.version).toBe(1);
+    expect(encodeQr("x".repeat(15))?.version).toBe(2);
+    expect(encodeQr("x".repeat(15), { level: "L" })?.version).toBe(1);
+    expect(encodeQr("x".repeat(QR_MAX_BYTES))?.version).toBe(10);
+    expect(encodeQr("x".repeat(QR_MAX_BYTES + 1))).toBeNull();
+  });
+
+  it("honours an explicit version and rejects one that is too small", () => {
+    expect(encodeQr("TV1077", { version: 40 })).toMatchObject({
+      version: 40,
+      size: 177,
+    });
+    expect(encodeQr("x".repeat(15), { version: 1 })).toBeNull();
+    expect(encodeQr("TV1077", { version: 41 })).toBeNull();
+  });
+});
+
+describe("formatBits", () => {
+  // Values from table C.1 of ISO/IEC 18004
+  it("returns the masked BCH format information", () => {
+    expect(formatBits("M", 0)).toBe(0x5412);
+    expect(formatBits("L", 0)).toBe(0x77c4);
+    expect(formatBits("H", 7)).toBe(0x083b);
+  });
+});
+
+describe("versionBits", () => {
+  // Values from table D.1 of ISO/IEC 18004
+  it("returns the version with its BCH check bits", () => {
+    expect(versionBits(7)).toBe(0x07c94);
+    expect(versionBits(40)).toBe(0x28c69);
+  });
+});
@@ -0,0 +1,547 @@
+// QR Code - symbol encoder for printed equipment labels and badge cards
+//
+// Encodes text in byte mode (UTF-8) at error correction level M, choosing the
+// smallest version from 1 to 10 that fits. That covers the deep links printed
+// on labels with room to spare and keeps the modules large enough for
+// handheld scanners. The steps follow ISO/IEC 18004: data and Reed-Solomon
+// blocks are interleaved, placed in the zigzag order, and the mask with the
+// lowest penalty score is kept. The block tables, function pattern layout
+// and masks cover every version and level, since the decoder shares them,
+// and encodeQr can be told to use any of them.
+
+export interface QrCode {
+  version: number;
+  // Modules per side, without the quiet zone
+  size: number;
+  // modules[y][x], true = dark
+  modules: boolean[][];
+}
+
+export type QrEccLevel = "L" | "M" | "Q" | "H";
+
+export interface QrEncodeOptions {
+  // Error correction level (default M)
+  level?: QrEccLevel;
+  // Exact version, 1 to 40, instead of the smallest of 1 to 10 that fits
+  version?: number;
+  // Mask pattern 0-7 instead of the one with the lowest penalty
+  mask?: number;
+}
+
+const MIN_VERSION = 1;
+const MAX_VERSION = 10;
+const ENCODE_LEVEL: QrEccLevel = "M";
+
+// Indexed by version (index 0 unused)
+// biome-ignore format: one row per level
+export const ECC_CODEWORDS_PER_BLOCK: Record<QrEccLevel, number[]> = {
+  L: [-1, 7, 10, 15, 20, 26, 18, 20, 24, 30, 18, 20, 24, 26, 30, 22, 24, 28, 30, 28, 28, 28, 28, 30, 30, 26, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  M: [-1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26, 26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28],
+  Q: [-1, 13, 22, 18, 26, 18, 24, 18, 22, 20, 24, 28, 26, 24, 20, 30, 24, 28, 28, 26, 30, 28, 30, 30, 30, 30, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  H: [-1, 17, 28, 22, 16, 22, 28, 26, 26, 24, 28, 24, 28, 22, 24, 24, 30, 28, 28, 26, 28, 30, 24, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+};
+
+// biome-ignore format: one row per level
+export const NUM_ERROR_CORRECTION_BLOCKS: Record<QrEccLevel, number[]> = {
+  L: [-1, 1, 1, 1, 1, 1, 2, 2, 2, 2, 4, 4, 4, 4, 4, 6, 6, 6, 6, 7, 8, 8, 9, 9, 10, 12, 12, 12, 13, 14, 15, 16, 17, 18, 19, 19, 20, 21, 22, 24, 25],
+  M: [-1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49],
+  Q: [-1, 1, 1, 2, 2, 4, 4, 6, 6, 8, 8, 8, 10, 12, 16, 12, 17, 16, 18, 21, 20, 23, 23, 25, 27, 29, 34, 34, 35, 38, 40, 43, 45, 48, 51, 53, 56, 59, 62, 65, 68],
+  H: [-1, 1, 1, 2, 4, 4, 4, 5, 6, 8, 8, 11, 11, 16, 16, 18, 16, 19, 21, 25, 25, 25, 34, 30, 32, 35, 37, 40, 42, 45, 48, 51, 54, 57, 60, 63, 66, 70, 74, 77, 81],
+};
+
+// Two-bit level field of the format information
+export const ECC_FORMAT_BITS: Record<QrEccLevel, number> = {
+  L: 1,
+  M: 0,
+  Q: 3,
+  H: 2,
+};
+
+// Penalty weights for mask selection
+const PENALTY_N1 = 3;
+const PENALTY_N2 = 3;
+const PENALTY_N3 = 40;
+const PENALTY_N4 = 10;
+
+const getBit = (value: number, index: number): boolean =>
+  ((value >>> index) & 1) !== 0;
+
+/**
+ * Modules available for data and error correction codewords in a version
+ */
+export function numRawDataModules(version: number): number {
+  let result = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const numAlign = Math.floor(version / 7) + 2;
+    result -= (25 * numAlign - 10) * numAlign - 55;
+    if (version >= 7) result -= 36;
+  }
+  return result;
+}
+
+export const numDataCodewords = (
+  version: number,
+  level: QrEccLevel = ENCODE_LEVEL,
+): number =>
+  Math.floor(numRawDataModules(version) / 8) -
+  ECC_CODEWORDS_PER_BLOCK[level][version] *
+    NUM_ERROR_CORRECTION_BLOCKS[level][version];
+
+// Byte mode header: 4-bit mode indicator and an 8- or 16-bit length
+const headerBits = (version: number): number => 4 + (version < 10 ? 8 : 16);
+
+/**
+ * Longest UTF-8 payload (in bytes) that fits in the largest supported symbol
+ */
+export const QR_MAX_BYTES = Math.floor(
+  (numDataCodewords(MAX_VERSION) * 8 - headerBits(MAX_VERSION)) / 8,
+);
+
+// ---------------------------------------------------------------------------
+// Reed-Solomon over GF(2^8) with the polynomial x^8 + x^4 + x^3 + x^2 + 1
+// ---------------------------------------------------------------------------
+
+function gfMultiply(x: number, y: number): number {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z;
+}
+
+function rsDivisor(degree: number): number[] {
+  const result = new Array<number>(degree).fill(0);
+  result[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < result.length; j++) {
+      result[j] = gfMultiply(result[j], root);
+      if (j + 1 < result.length) result[j] ^= result[j + 1];
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return result;
+}
+
+function rsRemainder(data: number[], divisor: number[]): number[] {
+  const result = divisor.map(() => 0);
+  for (const byte of data) {
+    const factor = byte ^ (result.shift() as number);
+    result.push(0);
+    for (let i = 0; i < divisor.length; i++) {
+      result[i] ^= gfMultiply(divisor[i], factor);
+    }
+  }
+  return result;
+}
+
+/**
+ * Split data codewords into blocks, append each block's error correction
+ * codewords and interleave the blocks
+ */
+function addEccAndInterleave(
+  data: number[],
+  version: number,
+  level: QrEccLevel,
+): number[] {
+  const numBlocks = NUM_ERROR_CORRECTION_BLOCKS[level][version];
+  const blockEccLength = ECC_CODEWORDS_PER_BLOCK[level][version];
+  const rawCodewords = Math.floor(numRawDataModules(version) / 8);
+  const numShortBlocks = numBlocks - (rawCodewords % numBlocks);
+  const shortBlockLength = Math.floor(rawCodewords / numBlocks);
+  const divisor = rsDivisor(blockEccLength);
+
+  const blocks: number[][] = [];
+  for (let i = 0, k = 0; i < numBlocks; i++) {
+    const block = data.slice(
+      k,
+      k + shortBlockLength - blockEccLength + (i < numShortBlocks ? 0 : 1),
+    );
+    k += block.length;
+    const ecc = rsRemainder(block, divisor);
+    // Padding so every block has the same length; skipped when interleaving
+    if (i < numShortBlocks) block.push(0);
+    blocks.push(block.concat(ecc));
+  }
+
+  const result: number[] = [];
+  for (let i = 0; i < blocks[0].length; i++) {
+    for (let j = 0; j < blocks.length; j++) {
+      if (i !== shortBlockLength - blockEccLength || j >= numShortBlocks) {
+        result.push(blocks[j][i]);
+      }
+    }
+  }
+  return result;
+}
+
+// ---------------------------------------------------------------------------
+// Module placement
+// ---------------------------------------------------------------------------
+
+/**
+ * Format information: level and mask with BCH check bits, XOR-masked
+ */
+export function formatBits(level: QrEccLevel, mask: number): number {
+  const data = (ECC_FORMAT_BITS[level] << 3) | mask;
+  let remainder = data;
+  for (let i = 0; i < 10; i++) {
+    remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+  }
+  return ((data << 10) | remainder) ^ 0x5412;
+}
+
+/**
+ * Version information (versions 7 and up) with BCH check bits
+ */
+export function versionBits(version: number): number {
+  let remainder = version;
+  for (let i = 0; i < 12; i++) {
+    remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25);
+  }
+  return (version << 12) | remainder;
+}
+
+/**
+ * Whether a mask pattern inverts the module at (x, y)
+ */
+export function maskInverts(mask: number, x: number, y: number): boolean {
+  switch (mask) {
+    case 0:
+      return (x + y) % 2 === 0;
+    case 1:
+      return y % 2 === 0;
+    case 2:
+      return x % 3 === 0;
+    case 3:
+      return (x + y) % 3 === 0;
+    case 4:
+      return (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0;
+    case 5:
+      return ((x * y) % 2) + ((x * y) % 3) === 0;
+    case 6:
+      return (((x * y) % 2) + ((x * y) % 3)) % 2 === 0;
+    default:
+      return (((x + y) % 2) + ((x * y) % 3)) % 2 === 0;
+  }
+}
+
+function alignmentPatternPositions(version: number): number[] {
+  if (version === 1) return [];
+  const numAlign = Math.floor(version / 7) + 2;
+  const step =
+    Math.floor((version * 8 + numAlign * 3 + 5) / (numAlign * 4 - 4)) * 2;
+  const result = [6];
+  for (
+    let position = version * 4 + 10;
+    result.length < numAlign;
+    position -= step
+  ) {
+    result.splice(1, 0, position);
+  }
+  return result;
+}
+
+class QrMatrix {
+  readonly size: number;
+  readonly modules: boolean[][];
+  readonly isFunction: boolean[][];
+
+  constructor(
+    readonly version: number,
+    readonly level: QrEccLevel = ENCODE_LEVEL,
+  ) {
+    this.size = version * 4 + 17;
+    this.modules = Array.from({ length: this.size }, () =>
+      new Array<boolean>(this.size).fill(false),
+    );
+    this.isFunction = Array.from({ length: this.size }, () =>
+      new Array<boolean>(this.size).fill(false),
+    );
+  }
+
+  private setFunction(x: number, y: number, dark: boolean) {
+    this.modules[y][x] = dark;
+    this.isFunction[y][x] = true;
+  }
+
+  drawFunctionPatterns() {
+    const { size } = this;
+    for (let i = 0; i < size; i++) {
+      this.setFunction(6, i, i % 2 === 0);
+      this.setFunction(i, 6, i % 2 === 0);
+    }
+
+    this.drawFinderPattern(3, 3);
+    this.drawFinderPattern(size - 4, 3);
+    this.drawFinderPattern(3, size - 4);
+
+    const positions = alignmentPatternPositions(this.version);
+    const last = positions.length - 1;
+    for (let i = 0; i <= last; i++) {
+      for (let j = 0; j <= last; j++) {
+        // The three corners hold finder patterns
+        if (
+          (i === 0 && j === 0) ||
+          (i === 0 && j === last) ||
+          (i === last && j === 0)
+        ) {
+          continue;
+        }
+        this.drawAlignmentPattern(positions[i], positions[j]);
+      }
+    }
+
+    // Reserve the format areas; the real bits are drawn once the mask is known
+    this.drawFormatBits(0);
+    this.drawVersion();
+  }
+
+  private drawFinderPattern(x: number, y: number) {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const distance = Math.max(Math.abs(dx), Math.abs(dy));
+        const xx = x + dx;
+        const yy = y + dy;
+        if (xx >= 0 && xx < this.size && yy >= 0 && yy < this.size) {
+          this.setFunction(xx, yy, distance !== 2 && distance !== 4);
+        }
+      }
+    }
+  }
+
+  private drawAlignmentPattern(x: number, y: number) {
+    for (let dy = -2; dy <= 2; dy++) {
+      for (let dx = -2; dx <= 2; dx++) {
+        this.setFunction(
+          x + dx,
+          y + dy,
+          Math.max(Math.abs(dx), Math.abs(dy)) !== 1,
+        );
+      }
+    }
+  }
+
+  drawFormatBits(mask: number) {
+    const bits = formatBits(this.level, mask);
+    const { size } = this;
+
+    // Around the top-left finder
+    for (let i = 0; i <= 5; i++) this.setFunction(8, i, getBit(bits, i));
+    this.setFunction(8, 7, getBit(bits, 6));
+    this.setFunction(8, 8, getBit(bits, 7));
+    this.setFunction(7, 8, getBit(bits, 8));
+    for (let i = 9; i < 15; i++) this.setFunction(14 - i, 8, getBit(bits, i));
+
+    // Copy split between the other two finders
+    for (let i = 0; i < 8; i++) {
+      this.setFunction(size - 1 - i, 8, getBit(bits, i));
+    }
+    for (let i = 8; i < 15; i++) {
+      this.setFunction(8, size - 15 + i, getBit(bits, i));
+    }
+    // Always dark
+    this.setFunction(8, size - 8, true);
+  }
+
+  private drawVersion() {
+    if (this.version < 7) return;
+    const bits = versionBits(this.version);
+    for (let i = 0; i < 18; i++) {
+      const dark = getBit(bits, i);
+      const a = this.size - 11 + (i % 3);
+      const b = Math.floor(i / 3);
+      this.setFunction(a, b, dark);
+      this.setFunction(b, a, dark);
+    }
+  }
+
+  drawCodewords(codewords: number[]) {
+    let i = 0;
+    forEachDataModule(this.version, this.isFunction, (x, y) => {
+      // Remainder bits stay light
+      if (i < codewords.length * 8) {
+        this.modules[y][x] = getBit(codewords[i >>> 3], 7 - (i & 7));
+        i++;
+      }
+    });
+  }
+
+  /**
+   * XOR a mask pattern over the data modules (applying it twice undoes it)
+   */
+  applyMask(mask: number) {
+    for (let y = 0; y < this.size; y++) {
+      for (let x = 0; x < this.size; x++) {
+        if (!this.isFunction[y][x] && maskInverts(mask, x, y)) {
+          this.modules[y][x] = !this.modules[y][x];
+        }
+      }
+    }
+  }
+
+  penaltyScore(): number {
+    const { size, modules } = this;
+    let result = 0;
+    const line = (index: number, vertical: boolean) =>
+      Array.from({ length: size }, (_, k) =>
+        vertical ? modules[k][index] : modules[index][k],
+      );
+
+    for (let index = 0; index < size; index++) {
+      for (const vertical of [false, true]) {
+        const cells = line(index, vertical);
+
+        // Runs of five or more modules of one colour
+        let runLength = 1;
+        for (let k = 1; k <= size; k++) {
+          if (k < size && cells[k] === cells[k - 1]) {
+            runLength++;
+          } else {
+            if (runLength >= 5) result += PENALTY_N1 + (runLength - 5);
+            runLength = 1;
+          }
+        }
+
+        // Finder-like 1:1:3:1:1 patterns with four light modules on one side
+        for (let k = 0; k + 11 <= size; k++) {
+          const slice = cells
+            .slice(k, k + 11)
+            .map((dark) => (dark ? "1" : "0"))
+            .join("");
+          if (slice === "10111010000" || slice === "00001011101") {
+            result += PENALTY_N3;
+          }
+        }
+      }
+    }
+
+    // 2x2 blocks of one colour
+    for (let y = 0; y < size - 1; y++) {
+      for (let x = 0; x < size - 1; x++) {
+        const color = modules[y][x];
+        if (
+          color === modules[y][x + 1] &&
+          color === modules[y + 1][x] &&
+          color === modules[y + 1][x + 1]
+        ) {
+          result += PENALTY_N2;
+        }
+      }
+    }
+
+    // Dark/light balance, in 5% steps away from 50%
+    const total = size * size;
+    const dark = modules.reduce(
+      (sum, row) => sum + row.filter(Boolean).length,
+      0,
+    );
+    const k = Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1;
+    result += Math.max(0, k) * PENALTY_N4;
+    return result;
+  }
+}
+
+/**
+ * Function pattern modules (finders, timing, alignment, format and version
+ * areas) of a version, as functionModules[y][x]
+ */
+export function functionModules(version: number): boolean[][] {
+  const matrix = new QrMatrix(version);
+  matrix.drawFunctionPatterns();
+  return matrix.isFunction;
+}
+
+/**
+ * Visit the data modules of a version in codeword bit order
+ */
+export function forEachDataModule(
+  version: number,
+  isFunction: boolean[][],
+  visit: (x: number, y: number) => void,
+): void {
+  const size = version * 4 + 17;
+  // Two-module wide columns from the right edge, skipping the timing column
+  for (let right = size - 1; right >= 1; right -= 2) {
+    if (right === 6) right = 5;
+    const upward = ((right + 1) & 2) === 0;
+    for (let vertical = 0; vertical < size; vertical++) {
+      for (let j = 0; j < 2; j++) {
+        const x = right - j;
+        const y = upward ? size - 1 - vertical : vertical;
+        if (!isFunction[y][x]) visit(x, y);
+      }
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Encoding
+// ---------------------------------------------------------------------------
+
+/**
+ * Encode text as a QR code. Returns null when the text is longer than
+ * QR_MAX_BYTES once UTF-8 encoded, or does not fit the requested version.
+ */
+export function encodeQr(
+  text: string,
+  options: QrEncodeOptions = {},
+): QrCode | null {
+  const bytes = new TextEncoder().encode(text);
+  const level = options.level ?? ENCODE_LEVEL;
+  const fits = (v: number) =>
+    headerBits(v) + bytes.length * 8 <= numDataCodewords(v, level) * 8;
+
+  let version = options.version ?? MIN_VERSION;
+  if (options.version === undefined) {
+    while (version <= MAX_VERSION && !fits(version)) version++;
+    if (version > MAX_VERSION) return null;
+  } else if (version < 1 || version > 40 || !fits(version)) {
+    return null;
+  }
+
+  const bits: number[] = [];
+  const append = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+  };
+  append(0b0100, 4);
+  append(bytes.length, headerBits(version) - 4);
+  for (const byte of bytes) append(byte, 8);
+
+  // Terminator, byte alignment, then alternating pad codewords
+  const capacityBits = numDataCodewords(version, level) * 8;
+  append(0, Math.min(4, capacityBits - bits.length));
+  append(0, (8 - (bits.length % 8)) % 8);
+  for (let pad = 0xec; bits.length < capacityBits; pad ^= 0xec ^ 0x11) {
+    append(pad, 8);
+  }
+
+  const dataCodewords: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) {
+    dataCodewords.push(
+      bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0),
+    );
+  }
+
+  const matrix = new QrMatrix(version, level);
+  matrix.drawFunctionPatterns();
+  matrix.drawCodewords(addEccAndInterleave(dataCodewords, version, level));
+
+  let bestMask = options.mask ?? 0;
+  let bestPenalty = Number.POSITIVE_INFINITY;
+  for (let mask = 0; mask < 8 && options.mask === undefined; mask++) {
+    matrix.applyMask(mask);
+    matrix.drawFormatBits(mask);
+    const penalty = matrix.penaltyScore();
+    if (penalty < bestPenalty) {
+      bestMask = mask;
+      bestPenalty = penalty;
+    }
+    matrix.applyMask(mask);
+  }
+  matrix.applyMask(bestMask);
+  matrix.drawFormatBits(bestMask);
+
+  return { version, size: matrix.size, modules: matrix.modules };
+}
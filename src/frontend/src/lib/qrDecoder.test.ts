@@ -0,0 +1,195 @@
+import { describe, expect, it } from "vitest";
+import type { BinaryImage } from "./imageBinarizer";
+import {
+  ECC_CODEWORDS_PER_BLOCK,
+  type QrCode,
+  type QrEccLevel,
+  encodeQr,
+  forEachDataModule,
+  functionModules,
+  maskInverts,
+  numDataCodewords,
+  numRawDataModules,
+} from "./qrCode";
+import { correctErrors, decodeQr } from "./qrDecoder";
+
+const LEVELS: QrEccLevel[] = ["L", "M", "Q", "H"];
+const PIXELS_PER_MODULE = 3;
+const QUIET_ZONE = 4;
+
+// Draw the modules as a clean binary image with a quiet zone
+function rasterize(modules: boolean[][]): BinaryImage {
+  const size = modules.length;
+  const width = (size + QUIET_ZONE * 2) * PIXELS_PER_MODULE;
+  const data = new Uint8Array(width * width);
+  for (let y = 0; y < width; y++) {
+    const my = Math.floor(y / PIXELS_PER_MODULE) - QUIET_ZONE;
+    for (let x = 0; x < width; x++) {
+      const mx = Math.floor(x / PIXELS_PER_MODULE) - QUIET_ZONE;
+      if (modules[my]?.[mx]) data[y * width + x] = 1;
+    }
+  }
+  return { width, height: width, data };
+}
+
+// The longest payload that fits the version and level exactly
+function fullPayload(version: number, level: QrEccLevel): string {
+  const headerBits = 4 + (version < 10 ? 8 : 16);
+  const length = Math.floor(
+    (numDataCodewords(version, level) * 8 - headerBits) / 8,
+  );
+  const alphabet = "ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789/:.-";
+  return Array.from(
+    { length },
+    (_, i) => alphabet[(i * 7 + version) % alphabet.length],
+  ).join("");
+}
+
+function encode(text: string, version: number, level: QrEccLevel, mask = 0) {
+  const code = encodeQr(text, { version, level, mask });
+  if (!code) throw new Error(`${text} does not fit ${version}-${level}`);
+  return code;
+}
+
+// Positions of the data modules of each interleaved codeword
+function codewordModules(version: number): [number, number][][] {
+  const modules: [number, number][] = [];
+  forEachDataModule(version, functionModules(version), (x, y) =>
+    modules.push([x, y]),
+  );
+  const codewords: [number, number][][] = [];
+  for (let i = 0; i + 8 <= numRawDataModules(version); i += 8) {
+    codewords.push(modules.slice(i, i + 8));
+  }
+  return codewords;
+}
+
+// Unmasked codewords of a single-block symbol
+function readBlock(code: QrCode, mask: number): number[] {
+  return codewordModules(code.version).map((bits) =>
+    bits.reduce(
+      (byte, [x, y]) =>
+        (byte << 1) | (code.modules[y][x] !== maskInverts(mask, x, y) ? 1 : 0),
+      0,
+    ),
+  );
+}
+
+// Copy of the modules with whole codewords inverted
+function corrupt(code: QrCode, indexes: number[]): boolean[][] {
+  const modules = code.modules.map((row) => row.slice());
+  const codewords = codewordModules(code.version);
+  for (const index of indexes) {
+    for (const [x, y] of codewords[index]) modules[y][x] = !modules[y][x];
+  }
+  return modules;
+}
+
+const range = (length: number, start = 0) =>
+  Array.from({ length }, (_, i) => start + i);
+
+describe("decodeQr", () => {
+  it("reads a full symbol of every version and level", () => {
+    for (let version = 1; version <= 40; version++) {
+      for (const level of LEVELS) {
+        const text = fullPayload(version, level);
+        const code = encode(text, version, level, version % 8);
+        expect(decodeQr(rasterize(code.modules)), `${version}-${level}`).toBe(
+          text,
+        );
+      }
+    }
+  });
+
+  it("reads every mask at every level", () => {
+    for (const version of [1, 7]) {
+      for (const level of LEVELS) {
+        for (let mask = 0; mask < 8; mask++) {
+          const code = encode("TV1077", version, level, mask);
+          expect(
+            decodeQr(rasterize(code.modules)),
+            `${version}-${level} mask ${mask}`,
+          ).toBe("TV1077");
+        }
+      }
+    }
+  });
+
+  it("reads a symbol that is upside down or mirrored", () => {
+    const code = encode("https://ramp.example/#equipment/TV1077", 3, "M");
+    const upsideDown = code.modules
+      .slice()
+      .reverse()
+      .map((row) => row.slice().reverse());
+    const mirrored = code.modules.map((row, y) =>
+      row.map((_, x) => code.modules[x][y]),
+    );
+
+    expect(decodeQr(rasterize(upsideDown))).toBe(
+      "https://ramp.example/#equipment/TV1077",
+    );
+    expect(decodeQr(rasterize(mirrored))).toBe(
+      "https://ramp.example/#equipment/TV1077",
+    );
+  });
+
+  it("decodes UTF-8 payloads", () => {
+    const code = encode("Bagagem 🧳 São Paulo", 2, "L");
+
+    expect(decodeQr(rasterize(code.modules))).toBe("Bagagem 🧳 São Paulo");
+  });
+
+  it("corrects damaged codewords up to the capacity of each block", () => {
+    // 1-H: one block with 17 error correction codewords, so 8 errors
+    const small = encode("TV1077", 1, "H");
+    expect(decodeQr(rasterize(corrupt(small, range(8, 3))))).toBe("TV1077");
+    expect(decodeQr(rasterize(corrupt(small, range(9, 3))))).toBeNull();
+
+    // 5-Q: four interleaved blocks with 18 each, so 9 errors per block
+    const text = fullPayload(5, "Q");
+    const interleaved = encode(text, 5, "Q");
+    expect(decodeQr(rasterize(corrupt(interleaved, range(36))))).toBe(text);
+    expect(decodeQr(rasterize(corrupt(interleaved, range(40))))).toBeNull();
+  });
+
+  it("finds nothing in a blank frame", () => {
+    expect(decodeQr(rasterize([[false]]))).toBeNull();
+  });
+});
+
+describe("correctErrors", () => {
+  // 1-H is a single block: 9 data and 17 error correction codewords
+  const eccLength = ECC_CODEWORDS_PER_BLOCK.H[1];
+  const block = readBlock(encode("TV1077", 1, "H"), 0);
+
+  it("leaves a clean block untouched", () => {
+    const copy = block.slice();
+
+    expect(correctErrors(copy, eccLength)).toBe(true);
+    expect(copy).toEqual(block);
+  });
+
+  it("restores up to half the error correction codewords", () => {
+    // Errors in the data, the error correction codewords and at both ends
+    for (const positions of [
+      range(8),
+      range(8, 18),
+      [0, 5, 9, 12, 17, 20, 24, 25],
+    ]) {
+      const damaged = block.slice();
+      for (const [i, position] of positions.entries()) {
+        damaged[position] ^= 0xff >>> (i % 8);
+      }
+
+      expect(correctErrors(damaged, eccLength), `${positions}`).toBe(true);
+      expect(damaged).toEqual(block);
+    }
+  });
+
+  it("reports a block with more errors than it can fix", () => {
+    const damaged = block.slice();
+    for (const position of range(9)) damaged[position] ^= 0x5a;
+
+    expect(correctErrors(damaged, eccLength)).toBe(false);
+  });
+});
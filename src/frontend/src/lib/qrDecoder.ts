@@ -0,0 +1,955 @@
+// QR Decoder - reads QR codes from binarized camera frames
+//
+// Finds the three finder patterns by their 1:1:3:1:1 run ratios, estimates
+// the symbol size, refines the bottom-right corner with the alignment
+// pattern, and samples the modules through a perspective transform. The
+// grid is then read back with the encoder's layout (lib/qrCode.ts): format
+// and version information, unmasking, de-interleaving, Reed-Solomon error
+// correction and the numeric, alphanumeric, byte and kanji segments.
+
+import { type BinaryImage, isDark } from "./imageBinarizer";
+import {
+  ECC_CODEWORDS_PER_BLOCK,
+  NUM_ERROR_CORRECTION_BLOCKS,
+  type QrEccLevel,
+  forEachDataModule,
+  formatBits,
+  functionModules,
+  maskInverts,
+  numRawDataModules,
+  versionBits,
+} from "./qrCode";
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+interface FinderCandidate extends Point {
+  moduleSize: number;
+  // Scan rows that confirmed this center
+  count: number;
+}
+
+const LEVELS: QrEccLevel[] = ["L", "M", "Q", "H"];
+const MAX_FORMAT_DISTANCE = 3;
+const MAX_VERSION_DISTANCE = 3;
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+const bitCount = (value: number) => {
+  let count = 0;
+  for (let v = value; v; v &= v - 1) count++;
+  return count;
+};
+
+// ---------------------------------------------------------------------------
+// Finder patterns
+// ---------------------------------------------------------------------------
+
+function isFinderRatio(counts: number[]): boolean {
+  const total = counts.reduce((sum, c) => sum + c, 0);
+  if (total < 7 || counts.some((c) => c === 0)) return false;
+  const moduleSize = total / 7;
+  const maxVariance = moduleSize / 2;
+  return (
+    Math.abs(moduleSize - counts[0]) < maxVariance &&
+    Math.abs(moduleSize - counts[1]) < maxVariance &&
+    Math.abs(3 * moduleSize - counts[2]) < 3 * maxVariance &&
+    Math.abs(moduleSize - counts[3]) < maxVariance &&
+    Math.abs(moduleSize - counts[4]) < maxVariance
+  );
+}
+
+const centerFromEnd = (counts: number[], end: number) =>
+  end - counts[4] - counts[3] - counts[2] / 2;
+
+/**
+ * Confirm a finder center along a column (or a row when `vertical` is false)
+ * through it. Returns the refined center coordinate and the run total, or
+ * null when the runs do not have finder proportions.
+ */
+function crossCheck(
+  image: BinaryImage,
+  fixed: number,
+  center: number,
+  maxCount: number,
+  originalTotal: number,
+  vertical: boolean,
+): { center: number; total: number } | null {
+  const limit = vertical ? image.height : image.width;
+  const dark = (i: number) =>
+    vertical ? isDark(image, fixed, i) : isDark(image, i, fixed);
+  const counts = [0, 0, 0, 0, 0];
+
+  let i = center;
+  while (i >= 0 && dark(i)) {
+    counts[2]++;
+    i--;
+  }
+  if (i < 0) return null;
+  while (i >= 0 && !dark(i) && counts[1] <= maxCount) {
+    counts[1]++;
+    i--;
+  }
+  if (i < 0 || counts[1] > maxCount) return null;
+  while (i >= 0 && dark(i) && counts[0] <= maxCount) {
+    counts[0]++;
+    i--;
+  }
+  if (counts[0] > maxCount) return null;
+
+  i = center + 1;
+  while (i < limit && dark(i)) {
+    counts[2]++;
+    i++;
+  }
+  if (i === limit) return null;
+  while (i < limit && !dark(i) && counts[3] < maxCount) {
+    counts[3]++;
+    i++;
+  }
+  if (i === limit || counts[3] >= maxCount) return null;
+  while (i < limit && dark(i) && counts[4] < maxCount) {
+    counts[4]++;
+    i++;
+  }
+  if (counts[4] >= maxCount) return null;
+
+  const total = counts.reduce((sum, c) => sum + c, 0);
+  // Reject when the cross run is far longer or shorter than the original
+  if (5 * Math.abs(total - originalTotal) >= 2 * originalTotal) return null;
+  return isFinderRatio(counts)
+    ? { center: centerFromEnd(counts, i), total }
+    : null;
+}
+
+function findFinderCandidates(image: BinaryImage): FinderCandidate[] {
+  const candidates: FinderCandidate[] = [];
+
+  const handleCenter = (counts: number[], y: number, endX: number) => {
+    const total = counts.reduce((sum, c) => sum + c, 0);
+    const centerX = Math.floor(centerFromEnd(counts, endX));
+    const vertical = crossCheck(image, centerX, y, counts[2], total, true);
+    if (!vertical) return false;
+    const centerY = Math.floor(vertical.center);
+    const horizontal = crossCheck(
+      image,
+      centerY,
+      centerX,
+      counts[2],
+      total,
+      false,
+    );
+    if (!horizontal) return false;
+
+    const point = {
+      x: horizontal.center,
+      y: vertical.center,
+      moduleSize: (horizontal.total + vertical.total) / 14,
+    };
+    const existing = candidates.find(
+      (c) =>
+        Math.abs(c.x - point.x) <= c.moduleSize &&
+        Math.abs(c.y - point.y) <= c.moduleSize &&
+        Math.abs(c.moduleSize - point.moduleSize) <=
+          Math.max(1, c.moduleSize / 2),
+    );
+    if (existing) {
+      const n = existing.count;
+      existing.x = (existing.x * n + point.x) / (n + 1);
+      existing.y = (existing.y * n + point.y) / (n + 1);
+      existing.moduleSize =
+        (existing.moduleSize * n + point.moduleSize) / (n + 1);
+      existing.count++;
+    } else {
+      candidates.push({ ...point, count: 1 });
+    }
+    return true;
+  };
+
+  for (let y = 1; y < image.height; y += 2) {
+    let counts = [0, 0, 0, 0, 0];
+    let state = 0;
+    for (let x = 0; x < image.width; x++) {
+      if (isDark(image, x, y)) {
+        if (state & 1) state++;
+        counts[state]++;
+      } else if ((state & 1) === 0) {
+        if (state === 4) {
+          if (isFinderRatio(counts) && handleCenter(counts, y, x)) {
+            counts = [0, 0, 0, 0, 0];
+            state = 0;
+          } else {
+            counts = [counts[2], counts[3], counts[4], 1, 0];
+            state = 3;
+          }
+        } else {
+          state++;
+          counts[state]++;
+        }
+      } else {
+        counts[state]++;
+      }
+    }
+    if (state === 4 && isFinderRatio(counts)) {
+      handleCenter(counts, y, image.width);
+    }
+  }
+  return candidates;
+}
+
+/**
+ * Pick the three candidates that best form the corners of a QR symbol and
+ * order them top-left, top-right, bottom-left
+ */
+function selectFinderPatterns(
+  candidates: FinderCandidate[],
+): [FinderCandidate, FinderCandidate, FinderCandidate] | null {
+  const confirmed = candidates.filter((c) => c.count >= 2);
+  const pool = (confirmed.length >= 3 ? confirmed : candidates)
+    .sort((a, b) => b.count - a.count)
+    .slice(0, 12);
+
+  let best: FinderCandidate[] | null = null;
+  let bestScore = Number.POSITIVE_INFINITY;
+  for (let i = 0; i < pool.length; i++) {
+    for (let j = i + 1; j < pool.length; j++) {
+      for (let k = j + 1; k < pool.length; k++) {
+        const trio = [pool[i], pool[j], pool[k]];
+        const sizes = trio.map((c) => c.moduleSize);
+        if (Math.max(...sizes) > 1.4 * Math.min(...sizes)) continue;
+        const moduleSize = (sizes[0] + sizes[1] + sizes[2]) / 3;
+        const [a, b, c] = [
+          distance(trio[0], trio[1]),
+          distance(trio[1], trio[2]),
+          distance(trio[0], trio[2]),
+        ].sort((x, y) => x - y);
+        // Version 1 has 14 modules between finder centers
+        if (a < 10 * moduleSize) continue;
+        // Two equal sides and a hypotenuse
+        const score = Math.abs(b - a) / b + Math.abs(c - Math.hypot(a, b)) / c;
+        if (score < bestScore) {
+          bestScore = score;
+          best = trio;
+        }
+      }
+    }
+  }
+  if (!best || bestScore > 0.4) return null;
+
+  // The top-left pattern is opposite the longest side
+  const [p0, p1, p2] = best;
+  const d01 = distance(p0, p1);
+  const d12 = distance(p1, p2);
+  const d02 = distance(p0, p2);
+  let topLeft: FinderCandidate;
+  let a: FinderCandidate;
+  let c: FinderCandidate;
+  if (d12 >= d01 && d12 >= d02) {
+    [topLeft, a, c] = [p0, p1, p2];
+  } else if (d02 >= d01 && d02 >= d12) {
+    [topLeft, a, c] = [p1, p0, p2];
+  } else {
+    [topLeft, a, c] = [p2, p0, p1];
+  }
+  // With y pointing down, top-right is clockwise from bottom-left
+  const cross =
+    (c.x - topLeft.x) * (a.y - topLeft.y) -
+    (c.y - topLeft.y) * (a.x - topLeft.x);
+  return cross < 0 ? [topLeft, a, c] : [topLeft, c, a];
+}
+
+/**
+ * Distance from a finder center to where the pattern ends, walking toward
+ * `toward`: through the dark center, the light ring and the dark ring
+ */
+function runToFinderEdge(
+  image: BinaryImage,
+  center: Point,
+  toward: Point,
+): number {
+  const length = distance(center, toward);
+  const dx = (toward.x - center.x) / length;
+  const dy = (toward.y - center.y) / length;
+  let transitions = 0;
+  let dark = true;
+  for (let t = 0; ; t++) {
+    const x = Math.floor(center.x + dx * t);
+    const y = Math.floor(center.y + dy * t);
+    if (x < 0 || y < 0 || x >= image.width || y >= image.height) return t;
+    if (isDark(image, x, y) !== dark) {
+      dark = !dark;
+      // The edge lies between this sample and the last one
+      if (++transitions === 3) return t - 0.5;
+    }
+  }
+}
+
+/**
+ * Module size measured across a finder pattern along the line to another
+ * finder, which stays accurate when the code is rotated
+ */
+function finderModuleSize(
+  image: BinaryImage,
+  finder: Point,
+  other: Point,
+): number {
+  const away = {
+    x: 2 * finder.x - other.x,
+    y: 2 * finder.y - other.y,
+  };
+  return (
+    (runToFinderEdge(image, finder, other) +
+      runToFinderEdge(image, finder, away)) /
+    7
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Alignment pattern
+// ---------------------------------------------------------------------------
+
+/**
+ * Search around an estimate for the alignment pattern's dark center module
+ * framed by its light ring
+ */
+function findAlignmentPattern(
+  image: BinaryImage,
+  estimate: Point,
+  moduleSize: number,
+  radius: number,
+): Point | null {
+  const left = Math.max(0, Math.floor(estimate.x - radius));
+  const right = Math.min(image.width - 1, Math.ceil(estimate.x + radius));
+  const top = Math.max(0, Math.floor(estimate.y - radius));
+  const bottom = Math.min(image.height - 1, Math.ceil(estimate.y + radius));
+  if (right - left < 3 * moduleSize || bottom - top < 3 * moduleSize) {
+    return null;
+  }
+  const near = (run: number) => Math.abs(run - moduleSize) < moduleSize / 2;
+
+  const height = bottom - top + 1;
+  for (let step = 0; step < height; step++) {
+    // Rows from the middle outward
+    const offset = step % 2 === 0 ? step / 2 : -(step + 1) / 2;
+    const y = Math.floor(estimate.y) + offset;
+    if (y < top || y > bottom) continue;
+
+    let x = left;
+    // Skip to the first light pixel
+    while (x <= right && isDark(image, x, y)) x++;
+    const runs: { dark: boolean; start: number; length: number }[] = [];
+    while (x <= right) {
+      const dark = isDark(image, x, y);
+      const start = x;
+      while (x <= right && isDark(image, x, y) === dark) x++;
+      runs.push({ dark, start, length: x - start });
+    }
+
+    for (let r = 1; r + 1 < runs.length; r++) {
+      const center = runs[r];
+      if (
+        !center.dark ||
+        !near(center.length) ||
+        !near(runs[r - 1].length) ||
+        !near(runs[r + 1].length)
+      ) {
+        continue;
+      }
+      const cx = Math.floor(center.start + center.length / 2);
+      // Same light-dark-light check down the column
+      let up = y;
+      while (up > top && isDark(image, cx, up - 1)) up--;
+      let down = y;
+      while (down < bottom && isDark(image, cx, down + 1)) down++;
+      const darkRun = down - up + 1;
+      let lightAbove = 0;
+      while (
+        up - 1 - lightAbove >= top &&
+        !isDark(image, cx, up - 1 - lightAbove)
+      ) {
+        lightAbove++;
+      }
+      let lightBelow = 0;
+      while (
+        down + 1 + lightBelow <= bottom &&
+        !isDark(image, cx, down + 1 + lightBelow)
+      ) {
+        lightBelow++;
+      }
+      if (near(darkRun) && near(lightAbove) && near(lightBelow)) {
+        return { x: center.start + center.length / 2, y: (up + down + 1) / 2 };
+      }
+    }
+  }
+  return null;
+}
+
+// ---------------------------------------------------------------------------
+// Perspective transform (module coordinates to image coordinates)
+// ---------------------------------------------------------------------------
+
+interface Transform {
+  a11: number;
+  a12: number;
+  a13: number;
+  a21: number;
+  a22: number;
+  a23: number;
+  a31: number;
+  a32: number;
+  a33: number;
+}
+
+function squareToQuadrilateral(q: Point[]): Transform {
+  const [p0, p1, p2, p3] = q;
+  const dx3 = p0.x - p1.x + p2.x - p3.x;
+  const dy3 = p0.y - p1.y + p2.y - p3.y;
+  if (dx3 === 0 && dy3 === 0) {
+    return {
+      a11: p1.x - p0.x,
+      a21: p2.x - p1.x,
+      a31: p0.x,
+      a12: p1.y - p0.y,
+      a22: p2.y - p1.y,
+      a32: p0.y,
+      a13: 0,
+      a23: 0,
+      a33: 1,
+    };
+  }
+  const dx1 = p1.x - p2.x;
+  const dx2 = p3.x - p2.x;
+  const dy1 = p1.y - p2.y;
+  const dy2 = p3.y - p2.y;
+  const denominator = dx1 * dy2 - dx2 * dy1;
+  const a13 = (dx3 * dy2 - dx2 * dy3) / denominator;
+  const a23 = (dx1 * dy3 - dx3 * dy1) / denominator;
+  return {
+    a11: p1.x - p0.x + a13 * p1.x,
+    a21: p3.x - p0.x + a23 * p3.x,
+    a31: p0.x,
+    a12: p1.y - p0.y + a13 * p1.y,
+    a22: p3.y - p0.y + a23 * p3.y,
+    a32: p0.y,
+    a13,
+    a23,
+    a33: 1,
+  };
+}
+
+function adjoint(t: Transform): Transform {
+  return {
+    a11: t.a22 * t.a33 - t.a23 * t.a32,
+    a21: t.a23 * t.a31 - t.a21 * t.a33,
+    a31: t.a21 * t.a32 - t.a22 * t.a31,
+    a12: t.a13 * t.a32 - t.a12 * t.a33,
+    a22: t.a11 * t.a33 - t.a13 * t.a31,
+    a32: t.a12 * t.a31 - t.a11 * t.a32,
+    a13: t.a12 * t.a23 - t.a13 * t.a22,
+    a23: t.a13 * t.a21 - t.a11 * t.a23,
+    a33: t.a11 * t.a22 - t.a12 * t.a21,
+  };
+}
+
+function multiply(t: Transform, o: Transform): Transform {
+  return {
+    a11: t.a11 * o.a11 + t.a21 * o.a12 + t.a31 * o.a13,
+    a21: t.a11 * o.a21 + t.a21 * o.a22 + t.a31 * o.a23,
+    a31: t.a11 * o.a31 + t.a21 * o.a32 + t.a31 * o.a33,
+    a12: t.a12 * o.a11 + t.a22 * o.a12 + t.a32 * o.a13,
+    a22: t.a12 * o.a21 + t.a22 * o.a22 + t.a32 * o.a23,
+    a32: t.a12 * o.a31 + t.a22 * o.a32 + t.a32 * o.a33,
+    a13: t.a13 * o.a11 + t.a23 * o.a12 + t.a33 * o.a13,
+    a23: t.a13 * o.a21 + t.a23 * o.a22 + t.a33 * o.a23,
+    a33: t.a13 * o.a31 + t.a23 * o.a32 + t.a33 * o.a33,
+  };
+}
+
+function applyTransform(t: Transform, x: number, y: number): Point {
+  const denominator = t.a13 * x + t.a23 * y + t.a33;
+  return {
+    x: (t.a11 * x + t.a21 * y + t.a31) / denominator,
+    y: (t.a12 * x + t.a22 * y + t.a32) / denominator,
+  };
+}
+
+/**
+ * Sample a dimension x dimension grid. `from` are the module coordinates of
+ * four reference points and `to` where they appear in the image.
+ */
+function sampleGrid(
+  image: BinaryImage,
+  dimension: number,
+  from: Point[],
+  to: Point[],
+): boolean[][] | null {
+  const transform = multiply(
+    squareToQuadrilateral(to),
+    adjoint(squareToQuadrilateral(from)),
+  );
+  const grid: boolean[][] = [];
+  for (let y = 0; y < dimension; y++) {
+    const row: boolean[] = [];
+    for (let x = 0; x < dimension; x++) {
+      const point = applyTransform(transform, x + 0.5, y + 0.5);
+      let px = Math.floor(point.x);
+      let py = Math.floor(point.y);
+      // Allow a pixel of slack at the image edges
+      if (px < -1 || py < -1 || px > image.width || py > image.height) {
+        return null;
+      }
+      px = Math.min(Math.max(px, 0), image.width - 1);
+      py = Math.min(Math.max(py, 0), image.height - 1);
+      row.push(isDark(image, px, py));
+    }
+    grid.push(row);
+  }
+  return grid;
+}
+
+// ---------------------------------------------------------------------------
+// Reed-Solomon error correction over GF(2^8)
+// ---------------------------------------------------------------------------
+
+const GF_EXP = new Uint8Array(512);
+const GF_LOG = new Uint8Array(256);
+{
+  let value = 1;
+  for (let i = 0; i < 255; i++) {
+    GF_EXP[i] = value;
+    GF_LOG[value] = i;
+    value <<= 1;
+    if (value & 0x100) value ^= 0x11d;
+  }
+  for (let i = 255; i < 512; i++) GF_EXP[i] = GF_EXP[i - 255];
+}
+
+const gfMul = (a: number, b: number) =>
+  a === 0 || b === 0 ? 0 : GF_EXP[GF_LOG[a] + GF_LOG[b]];
+const gfDiv = (a: number, b: number) =>
+  a === 0 ? 0 : GF_EXP[GF_LOG[a] + 255 - GF_LOG[b]];
+
+// Evaluate a polynomial stored lowest degree first
+function polyEval(poly: number[], x: number): number {
+  let result = 0;
+  for (let i = poly.length - 1; i >= 0; i--) {
+    result = gfMul(result, x) ^ poly[i];
+  }
+  return result;
+}
+
+/**
+ * Correct a block (data then error correction codewords) in place.
+ * Returns false when it has more errors than the code can fix.
+ */
+export function correctErrors(block: number[], eccLength: number): boolean {
+  const n = block.length;
+  const syndromes: number[] = [];
+  let clean = true;
+  for (let i = 0; i < eccLength; i++) {
+    let s = 0;
+    for (const codeword of block) s = gfMul(s, GF_EXP[i]) ^ codeword;
+    syndromes.push(s);
+    if (s !== 0) clean = false;
+  }
+  if (clean) return true;
+
+  // Berlekamp-Massey: error locator polynomial
+  let locator = [1];
+  let previous = [1];
+  let errors = 0;
+  let shift = 1;
+  let previousDiscrepancy = 1;
+  for (let r = 0; r < eccLength; r++) {
+    let discrepancy = syndromes[r];
+    for (let i = 1; i <= errors; i++) {
+      discrepancy ^= gfMul(locator[i] ?? 0, syndromes[r - i]);
+    }
+    if (discrepancy === 0) {
+      shift++;
+      continue;
+    }
+    const coefficient = gfDiv(discrepancy, previousDiscrepancy);
+    const next = locator.slice();
+    for (let i = 0; i < previous.length; i++) {
+      next[i + shift] =
+        (next[i + shift] ?? 0) ^ gfMul(coefficient, previous[i]);
+    }
+    if (2 * errors <= r) {
+      previous = locator;
+      errors = r + 1 - errors;
+      previousDiscrepancy = discrepancy;
+      shift = 1;
+    } else {
+      shift++;
+    }
+    locator = next;
+  }
+  if (2 * errors > eccLength) return false;
+
+  // Chien search: the codeword at index k has locator α^(n-1-k)
+  const positions: number[] = [];
+  for (let k = 0; k < n; k++) {
+    const power = n - 1 - k;
+    if (polyEval(locator, GF_EXP[(255 - power) % 255]) === 0) {
+      positions.push(k);
+    }
+  }
+  if (positions.length !== errors) return false;
+
+  // Forney: error values from the evaluator polynomial
+  const evaluator: number[] = [];
+  for (let i = 0; i < eccLength; i++) {
+    let value = 0;
+    for (let j = 0; j <= i && j < locator.length; j++) {
+      value ^= gfMul(locator[j], syndromes[i - j]);
+    }
+    evaluator.push(value);
+  }
+  for (const k of positions) {
+    const power = n - 1 - k;
+    const inverse = GF_EXP[(255 - power) % 255];
+    let derivative = 0;
+    for (let j = 1; j < locator.length; j += 2) {
+      derivative ^= gfMul(
+        locator[j],
+        GF_EXP[(GF_LOG[inverse] * (j - 1)) % 255],
+      );
+    }
+    if (derivative === 0) return false;
+    const magnitude = gfMul(
+      GF_EXP[power],
+      gfDiv(polyEval(evaluator, inverse), derivative),
+    );
+    block[k] ^= magnitude;
+  }
+
+  // Confirm the corrected block
+  for (let i = 0; i < eccLength; i++) {
+    let s = 0;
+    for (const codeword of block) s = gfMul(s, GF_EXP[i]) ^ codeword;
+    if (s !== 0) return false;
+  }
+  return true;
+}
+
+// ---------------------------------------------------------------------------
+// Grid to text
+// ---------------------------------------------------------------------------
+
+function readFormat(
+  grid: boolean[][],
+): { level: QrEccLevel; mask: number } | null {
+  const size = grid.length;
+  const bit = (x: number, y: number) => (grid[y][x] ? 1 : 0);
+
+  // Around the top-left finder, most significant bit first
+  let first = 0;
+  for (const x of [0, 1, 2, 3, 4, 5, 7, 8]) first = (first << 1) | bit(x, 8);
+  for (const y of [7, 5, 4, 3, 2, 1, 0]) first = (first << 1) | bit(8, y);
+  // Split copy beside the other two finders
+  let second = 0;
+  for (let y = size - 1; y >= size - 7; y--) second = (second << 1) | bit(8, y);
+  for (let x = size - 8; x < size; x++) second = (second << 1) | bit(x, 8);
+
+  let best: { level: QrEccLevel; mask: number } | null = null;
+  let bestDistance = MAX_FORMAT_DISTANCE + 1;
+  for (const level of LEVELS) {
+    for (let mask = 0; mask < 8; mask++) {
+      const expected = formatBits(level, mask);
+      const d = Math.min(
+        bitCount(first ^ expected),
+        bitCount(second ^ expected),
+      );
+      if (d < bestDistance) {
+        bestDistance = d;
+        best = { level, mask };
+      }
+    }
+  }
+  return best;
+}
+
+/**
+ * Version from the version information blocks (versions 7 and up)
+ */
+function readVersion(grid: boolean[][]): number | null {
+  const size = grid.length;
+  let topRight = 0;
+  let bottomLeft = 0;
+  for (let i = 17; i >= 0; i--) {
+    const a = size - 11 + (i % 3);
+    const b = Math.floor(i / 3);
+    topRight = (topRight << 1) | (grid[b][a] ? 1 : 0);
+    bottomLeft = (bottomLeft << 1) | (grid[a][b] ? 1 : 0);
+  }
+  let best: number | null = null;
+  let bestDistance = MAX_VERSION_DISTANCE + 1;
+  for (let version = 7; version <= 40; version++) {
+    const expected = versionBits(version);
+    const d = Math.min(
+      bitCount(topRight ^ expected),
+      bitCount(bottomLeft ^ expected),
+    );
+    if (d < bestDistance) {
+      bestDistance = d;
+      best = version;
+    }
+  }
+  return best;
+}
+
+const ALPHANUMERIC = "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ $%*+-./:";
+
+function characterCountBits(mode: number, version: number): number {
+  const range = version <= 9 ? 0 : version <= 26 ? 1 : 2;
+  switch (mode) {
+    case 1:
+      return [10, 12, 14][range];
+    case 2:
+      return [9, 11, 13][range];
+    case 4:
+      return [8, 16, 16][range];
+    default:
+      return [8, 10, 12][range];
+  }
+}
+
+function decodeBytes(bytes: number[], encoding: string): string {
+  const data = new Uint8Array(bytes);
+  try {
+    return new TextDecoder(encoding, { fatal: true }).decode(data);
+  } catch {
+    // ISO-8859-1 is the default when a payload is not valid UTF-8
+    return new TextDecoder("iso-8859-1").decode(data);
+  }
+}
+
+/**
+ * Read the segments of the corrected data codewords
+ */
+function parseSegments(data: number[], version: number): string | null {
+  let position = 0;
+  const available = () => data.length * 8 - position;
+  const read = (bits: number) => {
+    let value = 0;
+    for (let i = 0; i < bits; i++) {
+      const bit = (data[position >>> 3] >>> (7 - (position & 7))) & 1;
+      value = (value << 1) | bit;
+      position++;
+    }
+    return value;
+  };
+
+  let text = "";
+  while (available() >= 4) {
+    const mode = read(4);
+    if (mode === 0) break;
+
+    if (mode === 7) {
+      // ECI designator: the app reads every payload as UTF-8 anyway
+      const first = read(8);
+      if ((first & 0xc0) === 0x80) read(8);
+      else if ((first & 0xe0) === 0xc0) read(16);
+      continue;
+    }
+    if (mode === 3) {
+      // Structured append header
+      read(16);
+      continue;
+    }
+    if (mode === 5 || mode === 9) {
+      // FNC1 markers carry no text (the second one has an indicator byte)
+      if (mode === 9) read(8);
+      continue;
+    }
+    if (mode !== 1 && mode !== 2 && mode !== 4 && mode !== 8) return null;
+
+    const count = read(characterCountBits(mode, version));
+    if (mode === 1) {
+      let remaining = count;
+      while (remaining >= 3) {
+        if (available() < 10) return null;
+        text += String(read(10)).padStart(3, "0");
+        remaining -= 3;
+      }
+      if (remaining === 2) text += String(read(7)).padStart(2, "0");
+      else if (remaining === 1) text += String(read(4));
+    } else if (mode === 2) {
+      let remaining = count;
+      while (remaining >= 2) {
+        if (available() < 11) return null;
+        const value = read(11);
+        text += ALPHANUMERIC[Math.floor(value / 45)] + ALPHANUMERIC[value % 45];
+        remaining -= 2;
+      }
+      if (remaining === 1) text += ALPHANUMERIC[read(6)];
+    } else if (mode === 4) {
+      if (available() < count * 8) return null;
+      const bytes: number[] = [];
+      for (let i = 0; i < count; i++) bytes.push(read(8));
+      text += decodeBytes(bytes, "utf-8");
+    } else {
+      if (available() < count * 13) return null;
+      const bytes: number[] = [];
+      for (let i = 0; i < count; i++) {
+        const value = read(13);
+        let code = (Math.floor(value / 0xc0) << 8) | (value % 0xc0);
+        code += code < 0x1f00 ? 0x8140 : 0xc140;
+        bytes.push(code >> 8, code & 0xff);
+      }
+      text += decodeBytes(bytes, "shift_jis");
+    }
+  }
+  return text;
+}
+
+function decodeGrid(grid: boolean[][]): string | null {
+  const size = grid.length;
+  let version = (size - 17) / 4;
+  if (!Number.isInteger(version) || version < 1 || version > 40) return null;
+  if (version >= 7) {
+    const read = readVersion(grid);
+    if (read !== version) return null;
+  }
+  const format = readFormat(grid);
+  if (!format) return null;
+  const { level, mask } = format;
+  version = Math.round(version);
+
+  // Codewords in placement order, unmasked
+  const totalCodewords = Math.floor(numRawDataModules(version) / 8);
+  const codewords = new Array<number>(totalCodewords).fill(0);
+  let bit = 0;
+  forEachDataModule(version, functionModules(version), (x, y) => {
+    if (bit >= totalCodewords * 8) return;
+    if (grid[y][x] !== maskInverts(mask, x, y)) {
+      codewords[bit >>> 3] |= 0x80 >>> (bit & 7);
+    }
+    bit++;
+  });
+
+  // De-interleave: short blocks first, the long ones have one more codeword
+  const numBlocks = NUM_ERROR_CORRECTION_BLOCKS[level][version];
+  const eccLength = ECC_CODEWORDS_PER_BLOCK[level][version];
+  const numShortBlocks = numBlocks - (totalCodewords % numBlocks);
+  const shortDataLength = Math.floor(totalCodewords / numBlocks) - eccLength;
+  const dataLengths = Array.from(
+    { length: numBlocks },
+    (_, i) => shortDataLength + (i < numShortBlocks ? 0 : 1),
+  );
+  const blocks: number[][] = dataLengths.map(() => []);
+  let k = 0;
+  for (let i = 0; i <= shortDataLength; i++) {
+    for (let j = 0; j < numBlocks; j++) {
+      if (i < dataLengths[j]) blocks[j].push(codewords[k++]);
+    }
+  }
+  for (let i = 0; i < eccLength; i++) {
+    for (let j = 0; j < numBlocks; j++) blocks[j].push(codewords[k++]);
+  }
+
+  const data: number[] = [];
+  for (let j = 0; j < numBlocks; j++) {
+    if (!correctErrors(blocks[j], eccLength)) return null;
+    data.push(...blocks[j].slice(0, dataLengths[j]));
+  }
+  return parseSegments(data, version);
+}
+
+/**
+ * The estimated corner first, then half-module steps up to two modules away,
+ * nearest first
+ */
+function cornerCandidates(corner: Point, moduleSize: number): Point[] {
+  const offsets: Point[] = [];
+  for (let dy = -4; dy <= 4; dy++) {
+    for (let dx = -4; dx <= 4; dx++) offsets.push({ x: dx, y: dy });
+  }
+  offsets.sort((a, b) => a.x * a.x + a.y * a.y - (b.x * b.x + b.y * b.y));
+  const step = moduleSize / 2;
+  return offsets.map((o) => ({
+    x: corner.x + o.x * step,
+    y: corner.y + o.y * step,
+  }));
+}
+
+const transpose = (grid: boolean[][]) =>
+  grid.map((row, y) => row.map((_, x) => grid[x][y]));
+
+/**
+ * Decode the first QR code found in a binarized frame
+ */
+export function decodeQr(image: BinaryImage): string | null {
+  const finders = selectFinderPatterns(findFinderCandidates(image));
+  if (!finders) return null;
+  const [topLeft, topRight, bottomLeft] = finders;
+  const moduleSize =
+    (finderModuleSize(image, topLeft, topRight) +
+      finderModuleSize(image, topRight, topLeft) +
+      finderModuleSize(image, topLeft, bottomLeft) +
+      finderModuleSize(image, bottomLeft, topLeft)) /
+    4;
+  if (!Number.isFinite(moduleSize) || moduleSize < 1) return null;
+
+  const across = distance(topLeft, topRight) / moduleSize;
+  const down = distance(topLeft, bottomLeft) / moduleSize;
+  const estimated = Math.round(((across + down) / 2 + 7 - 17) / 4) * 4 + 17;
+
+  // The estimate can be a version off when the code is tilted
+  for (const dimension of [estimated, estimated + 4, estimated - 4]) {
+    if (dimension < 21 || dimension > 177) continue;
+    const corner = {
+      x: topRight.x - topLeft.x + bottomLeft.x,
+      y: topRight.y - topLeft.y + bottomLeft.y,
+    };
+
+    let alignment: Point | null = null;
+    if (dimension > 21) {
+      const correction = 1 - 3 / (dimension - 7);
+      const estimate = {
+        x: topLeft.x + correction * (corner.x - topLeft.x),
+        y: topLeft.y + correction * (corner.y - topLeft.y),
+      };
+      for (const allowance of [4, 8, 16]) {
+        alignment = findAlignmentPattern(
+          image,
+          estimate,
+          moduleSize,
+          allowance * moduleSize,
+        );
+        if (alignment) break;
+      }
+    }
+
+    const from = [
+      { x: 3.5, y: 3.5 },
+      { x: dimension - 3.5, y: 3.5 },
+      alignment
+        ? { x: dimension - 6.5, y: dimension - 6.5 }
+        : { x: dimension - 3.5, y: dimension - 3.5 },
+      { x: 3.5, y: dimension - 3.5 },
+    ];
+    // Without an alignment pattern the corner assumes no perspective, so
+    // try nearby positions as well when a tilted code does not read
+    const corners = alignment
+      ? [alignment]
+      : cornerCandidates(corner, moduleSize);
+    for (const fourth of corners) {
+      const grid = sampleGrid(image, dimension, from, [
+        topLeft,
+        topRight,
+        fourth,
+        bottomLeft,
+      ]);
+      if (!grid) continue;
+
+      // Mirrored symbols (printed on film or seen from behind) read transposed
+      const text = decodeGrid(grid) ?? decodeGrid(transpose(grid));
+      if (text !== null) return text;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,290 @@
+// Record Exports - turns scan, registry and backend records into export tables
+//
+// Audits and compliance checks ask for the raw records behind the dashboard.
+// The same filters the dashboard shows (time period, equipment ID, user) are
+// applied to every record type before it is handed to exportFormats.
+
+import type { ActivityLog, Assignment, Issue } from "../backend";
+import type { ScanEvent } from "./auditLog";
+import type { EquipmentRecord } from "./equipmentRegistry";
+import { formatEquipmentType } from "./equipmentTypeCatalog";
+import type { ExportTable } from "./exportFormats";
+import {
+  ISSUE_STATUS_LABELS,
+  getIssueWorkflow,
+  getReportNotes,
+  normalizeIssueStatus,
+} from "./issueWorkflow";
+
+export type RecordKind =
+  | "scans"
+  | "registry"
+  | "assignments"
+  | "issues"
+  | "activity";
+
+export const RECORD_KIND_LABELS: Record<RecordKind, string> = {
+  scans: "Scan History",
+  registry: "Registry History",
+  assignments: "Assignments",
+  issues: "Issues",
+  activity: "Activity Log",
+};
+
+export interface RecordFilters {
+  // Inclusive time bounds in ms (absent = unbounded)
+  from?: number;
+  to?: number;
+  // Case-insensitive substring matches (empty = no filter)
+  equipmentId?: string;
+  user?: string;
+}
+
+export interface RecordSources {
+  scans: ScanEvent[];
+  equipment: EquipmentRecord[];
+  assignments: Assignment[];
+  issues: Issue[];
+  activity: ActivityLog[];
+}
+
+// Backend timestamps are nanoseconds
+const fromNanos = (value: bigint) => new Date(Number(value) / 1000000);
+
+function matches(value: string | undefined, search: string | undefined) {
+  return !search || (value ?? "").toLowerCase().includes(search.toLowerCase());
+}
+
+function inPeriod(time: Date, filters: RecordFilters): boolean {
+  const at = time.getTime();
+  return (
+    (filters.from === undefined || at >= filters.from) &&
+    (filters.to === undefined || at <= filters.to)
+  );
+}
+
+const newestFirst = <T extends { time: Date }>(rows: T[]) =>
+  rows.sort((a, b) => b.time.getTime() - a.time.getTime());
+
+function scanTable(events: ScanEvent[], filters: RecordFilters): ExportTable {
+  const rows = events
+    .map((event) => ({ time: new Date(event.timestamp), event }))
+    .filter(
+      ({ time, event }) =>
+        inPeriod(time, filters) &&
+        matches(event.equipmentId, filters.equipmentId) &&
+        (matches(event.user.badge, filters.user) ||
+          matches(event.user.username, filters.user) ||
+          matches(event.user.displayName, filters.user)),
+    );
+
+  return {
+    title: RECORD_KIND_LABELS.scans,
+    columns: [
+      "Time",
+      "Action",
+      "Equipment",
+      "Location",
+      "Location Source",
+      "Latitude",
+      "Longitude",
+      "Accuracy (m)",
+      "Badge",
+      "User",
+      "Station",
+    ],
+    rows: newestFirst(rows).map(({ time, event }) => [
+      time,
+      event.action === "checkout" ? "Check-Out" : "Check-In",
+      event.equipmentId,
+      event.locationLabel,
+      event.locationSource === "manual" ? "Manual" : "GPS",
+      event.lat,
+      event.lng,
+      event.accuracyMeters !== undefined
+        ? Math.round(event.accuracyMeters)
+        : undefined,
+      event.user.badge,
+      event.user.displayName,
+      event.stationCode,
+    ]),
+  };
+}
+
+function registryTable(
+  equipment: EquipmentRecord[],
+  filters: RecordFilters,
+): ExportTable {
+  const rows = equipment
+    .filter((unit) => matches(unit.id, filters.equipmentId))
+    .flatMap((unit) =>
+      unit.history.map((entry) => ({
+        time: new Date(entry.timestamp),
+        unit,
+        entry,
+      })),
+    )
+    .filter(
+      ({ time, entry }) =>
+        inPeriod(time, filters) && matches(entry.operator, filters.user),
+    );
+
+  return {
+    title: RECORD_KIND_LABELS.registry,
+    columns: [
+      "Time",
+      "Equipment",
+      "Type",
+      "Action",
+      "Operator",
+      "Location",
+      "Notes",
+      "Override By",
+      "Override Reason",
+      "Station",
+    ],
+    rows: newestFirst(rows).map(({ time, unit, entry }) => [
+      time,
+      unit.id,
+      formatEquipmentType(unit.type),
+      entry.action,
+      entry.operator,
+      entry.location,
+      entry.notes,
+      entry.override?.by,
+      entry.override?.reason,
+      unit.stationCode,
+    ]),
+  };
+}
+
+function assignmentTable(
+  assignments: Assignment[],
+  filters: RecordFilters,
+): ExportTable {
+  const rows = assignments
+    .map((assignment) => ({
+      time: fromNanos(assignment.timestamp),
+      assignment,
+    }))
+    .filter(
+      ({ time, assignment }) =>
+        inPeriod(time, filters) &&
+        matches(assignment.equipment_id, filters.equipmentId) &&
+        matches(assignment.operator_id, filters.user),
+    );
+
+  return {
+    title: RECORD_KIND_LABELS.assignments,
+    columns: [
+      "Time",
+      "Assignment ID",
+      "Action",
+      "Equipment",
+      "Operator",
+      "Location",
+    ],
+    rows: newestFirst(rows).map(({ time, assignment }) => [
+      time,
+      assignment.id,
+      assignment.action,
+      assignment.equipment_id,
+      assignment.operator_id,
+      assignment.location,
+    ]),
+  };
+}
+
+function issueTable(issues: Issue[], filters: RecordFilters): ExportTable {
+  const rows = issues
+    .map((issue) => ({ time: fromNanos(issue.timestamp), issue }))
+    .filter(
+      ({ time, issue }) =>
+        inPeriod(time, filters) &&
+        matches(issue.equipment_id, filters.equipmentId) &&
+        matches(issue.operator_id, filters.user),
+    );
+
+  return {
+    title: RECORD_KIND_LABELS.issues,
+    columns: [
+      "Reported",
+      "Issue ID",
+      "Equipment",
+      "Category",
+      "Status",
+      "Grounded",
+      "Reported By",
+      "Location",
+      "Mechanic",
+      "Notes",
+      "Resolution Notes",
+    ],
+    rows: newestFirst(rows).map(({ time, issue }) => {
+      const workflow = getIssueWorkflow(issue);
+      return [
+        time,
+        issue.id,
+        issue.equipment_id,
+        issue.category,
+        ISSUE_STATUS_LABELS[normalizeIssueStatus(issue.status)],
+        issue.grounded,
+        issue.operator_id,
+        issue.location,
+        workflow.mechanic,
+        getReportNotes(issue),
+        workflow.resolutionNotes,
+      ];
+    }),
+  };
+}
+
+function activityTable(
+  logs: ActivityLog[],
+  filters: RecordFilters,
+): ExportTable {
+  const rows = logs
+    .map((log) => ({ time: fromNanos(log.timestamp), log }))
+    .filter(
+      ({ time, log }) =>
+        inPeriod(time, filters) &&
+        matches(log.details, filters.equipmentId) &&
+        matches(log.user_id, filters.user),
+    );
+
+  return {
+    title: RECORD_KIND_LABELS.activity,
+    columns: ["Time", "Log ID", "Action", "User", "Details"],
+    rows: newestFirst(rows).map(({ time, log }) => [
+      time,
+      log.id,
+      log.action,
+      log.user_id,
+      log.details,
+    ]),
+  };
+}
+
+/**
+ * Build the export tables for the chosen record kinds, with filters applied
+ */
+export function buildRecordTables(
+  kinds: RecordKind[],
+  sources: RecordSources,
+  filters: RecordFilters,
+): ExportTable[] {
+  return kinds.map((kind) => {
+    switch (kind) {
+      case "scans":
+        return scanTable(sources.scans, filters);
+      case "registry":
+        return registryTable(sources.equipment, filters);
+      case "assignments":
+        return assignmentTable(sources.assignments, filters);
+      case "issues":
+        return issueTable(sources.issues, filters);
+      case "activity":
+        return activityTable(sources.activity, filters);
+    }
+  });
+}
@@ -0,0 +1,111 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { UserRosterEntry } from "../data/userRoster";
+import {
+  hasSecondFactor,
+  hasTotpSecret,
+  storeTotpSecret,
+  verifySecondFactor,
+  verifyTotp,
+} from "./secondFactor";
+import { getUsers } from "./userStore";
+
+// RFC 6238 appendix B: the SHA-1 seed "12345678901234567890" in base32
+const SECRET = "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ";
+
+const manager: UserRosterEntry = {
+  badgeId: "970251",
+  role: "manager",
+  displayName: "Jayson James",
+  employeeId: "970251",
+};
+
+beforeEach(() => {
+  localStorage.clear();
+  vi.spyOn(console, "error").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("verifyTotp", () => {
+  it("returns the time step of the RFC 6238 test vectors", async () => {
+    expect(await verifyTotp(SECRET, "287082", 59000)).toBe(1);
+    expect(await verifyTotp(SECRET, "081804", 1111111109000)).toBe(37037036);
+    expect(await verifyTotp(SECRET, "005924", 1234567890000)).toBe(41152263);
+  });
+
+  it("accepts a code one step either side of the clock", async () => {
+    expect(await verifyTotp(SECRET, "287082", 89000)).toBe(1);
+    expect(await verifyTotp(SECRET, "287082", 119000)).toBeNull();
+  });
+
+  it("refuses codes from steps already used", async () => {
+    expect(await verifyTotp(SECRET, "287082", 59000, 0)).toBe(1);
+    expect(await verifyTotp(SECRET, "287082", 59000, 1)).toBeNull();
+  });
+});
+
+describe("verifySecondFactor", () => {
+  it("accepts each authenticator code once", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(59000);
+    storeTotpSecret(manager.badgeId, SECRET);
+
+    expect(await verifySecondFactor(manager, "287082")).toEqual({
+      success: true,
+    });
+    expect(await verifySecondFactor(manager, "287082")).toEqual({
+      success: false,
+      error: "That authenticator code was already used. Wait for the next one.",
+    });
+    // A later code still works
+    vi.setSystemTime(1111111109000);
+    expect(await verifySecondFactor(manager, "081804")).toEqual({
+      success: true,
+    });
+  });
+
+  it("forgets used codes when the authenticator is re-enrolled", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(59000);
+    storeTotpSecret(manager.badgeId, SECRET);
+    await verifySecondFactor(manager, "287082");
+
+    storeTotpSecret(manager.badgeId, SECRET);
+
+    expect((await verifySecondFactor(manager, "287082")).success).toBe(true);
+  });
+
+  it("counts a wrong code toward the lockout", async () => {
+    storeTotpSecret(manager.badgeId, SECRET);
+
+    expect(await verifySecondFactor(manager, "000000")).toEqual({
+      success: false,
+      error: "Incorrect code. 4 attempts left.",
+    });
+  });
+});
+
+describe("authenticator secrets", () => {
+  it("moves secrets out of a roster saved with them", () => {
+    localStorage.setItem(
+      "ramptrack_user_roster",
+      JSON.stringify([{ ...manager, totpSecret: SECRET }]),
+    );
+
+    const [user] = getUsers();
+
+    expect(user).not.toHaveProperty("totpSecret");
+    expect(localStorage.getItem("ramptrack_user_roster")).not.toContain(SECRET);
+    expect(hasTotpSecret(manager.badgeId)).toBe(true);
+    expect(hasSecondFactor(user)).toBe(true);
+  });
+
+  it("removes a secret", () => {
+    storeTotpSecret(manager.badgeId, SECRET);
+    storeTotpSecret(manager.badgeId, null);
+
+    expect(hasSecondFactor(manager)).toBe(false);
+  });
+});
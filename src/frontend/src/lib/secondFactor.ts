@@ -0,0 +1,353 @@
+// Second Factor - badge PIN or authenticator (TOTP) codes for privileged roles
+//
+// A badge alone is something anyone can photograph, so badge sign-in for the
+// roles listed here also needs a PIN or a TOTP code. Both verify offline:
+// PINs are PBKDF2-hashed like passwords and TOTP follows RFC 6238
+// (HMAC-SHA1, 30-second steps, 6 digits). Repeated failures lock the badge,
+// and each authenticator code is accepted only once.
+//
+// Authenticator secrets are kept in their own store keyed by badge, not on
+// the roster records the screens pass around. They are still readable on
+// the device: checking a code offline needs the raw secret, which cannot be
+// hashed like a PIN. That is a deliberate limit of the offline model, so
+// re-enroll the authenticators of a lost device's users.
+
+import type { UserRosterEntry } from "../data/userRoster";
+import { verifyPassword } from "./passwordHash";
+import { checkPermission } from "./permissions";
+
+const ROLES_KEY = "ramptrack_second_factor_roles";
+const ATTEMPTS_KEY = "ramptrack_second_factor_attempts";
+const TOTP_KEY = "ramptrack_totp_enrollments";
+
+export const DEFAULT_SECOND_FACTOR_ROLES = ["manager", "admin"];
+export const MAX_SECOND_FACTOR_FAILURES = 5;
+const LOCKOUT_MINUTES = 15;
+
+const TOTP_STEP_SECONDS = 30;
+const TOTP_DIGITS = 6;
+// Accept codes one step either side to allow for clock drift
+const TOTP_WINDOW = 1;
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+interface AttemptRecord {
+  failures: number;
+  lockedUntil?: string;
+}
+
+interface TotpEnrollment {
+  // Base32 authenticator secret
+  secret: string;
+  // Time step of the last accepted code
+  lastStep?: number;
+}
+
+/**
+ * Roles whose badge sign-in needs a second factor
+ */
+export function getSecondFactorRoles(): string[] {
+  try {
+    const data = localStorage.getItem(ROLES_KEY);
+    return data ? JSON.parse(data) : [...DEFAULT_SECOND_FACTOR_ROLES];
+  } catch (error) {
+    console.error("Error reading second factor roles:", error);
+    return [...DEFAULT_SECOND_FACTOR_ROLES];
+  }
+}
+
+export function setSecondFactorRoles(roles: string[]): {
+  success: boolean;
+  error?: string;
+} {
+  const denied = checkPermission("user.manage", "second factor roles");
+  if (denied) return { success: false, error: denied };
+
+  localStorage.setItem(ROLES_KEY, JSON.stringify([...new Set(roles)]));
+  return { success: true };
+}
+
+export function requiresSecondFactor(user: UserRosterEntry): boolean {
+  return getSecondFactorRoles().includes(user.role);
+}
+
+export function hasSecondFactor(user: UserRosterEntry): boolean {
+  return !!user.pinHash || hasTotpSecret(user.badgeId);
+}
+
+export function isValidPin(pin: string): boolean {
+  return /^\d{4,8}$/.test(pin);
+}
+
+function loadAttempts(): Record<string, AttemptRecord> {
+  try {
+    const data = localStorage.getItem(ATTEMPTS_KEY);
+    return data ? JSON.parse(data) : {};
+  } catch (error) {
+    console.error("Error reading second factor attempts:", error);
+    return {};
+  }
+}
+
+function saveAttempts(attempts: Record<string, AttemptRecord>): void {
+  localStorage.setItem(ATTEMPTS_KEY, JSON.stringify(attempts));
+}
+
+/**
+ * When a badge's second factor lockout ends, or null if it is not locked
+ */
+export function getLockoutEnd(badgeId: string): Date | null {
+  const lockedUntil = loadAttempts()[badgeId]?.lockedUntil;
+  if (!lockedUntil || new Date(lockedUntil).getTime() <= Date.now()) {
+    return null;
+  }
+  return new Date(lockedUntil);
+}
+
+/**
+ * Lift a lockout early (admin only)
+ */
+export function clearLockout(badgeId: string): {
+  success: boolean;
+  error?: string;
+} {
+  const denied = checkPermission("user.manage", badgeId);
+  if (denied) return { success: false, error: denied };
+
+  const attempts = loadAttempts();
+  delete attempts[badgeId];
+  saveAttempts(attempts);
+  return { success: true };
+}
+
+/**
+ * Count a failed attempt. An expired lockout starts a fresh count; locked is
+ * true only for the failure that sets a new lockout.
+ */
+function recordFailure(badgeId: string): {
+  failures: number;
+  locked: boolean;
+} {
+  const attempts = loadAttempts();
+  const previous = attempts[badgeId];
+  const expired =
+    !!previous?.lockedUntil &&
+    new Date(previous.lockedUntil).getTime() <= Date.now();
+  const record: AttemptRecord =
+    previous && !expired ? previous : { failures: 0 };
+  record.failures += 1;
+  const locked = record.failures >= MAX_SECOND_FACTOR_FAILURES;
+  if (locked) {
+    record.lockedUntil = new Date(
+      Date.now() + LOCKOUT_MINUTES * 60000,
+    ).toISOString();
+    record.failures = 0;
+  }
+  attempts[badgeId] = record;
+  saveAttempts(attempts);
+  return { failures: record.failures, locked };
+}
+
+function loadTotpEnrollments(): Record<string, TotpEnrollment> {
+  try {
+    const data = localStorage.getItem(TOTP_KEY);
+    return data ? JSON.parse(data) : {};
+  } catch (error) {
+    console.error("Error reading authenticator enrollments:", error);
+    return {};
+  }
+}
+
+function saveTotpEnrollments(
+  enrollments: Record<string, TotpEnrollment>,
+): void {
+  localStorage.setItem(TOTP_KEY, JSON.stringify(enrollments));
+}
+
+export function hasTotpSecret(badgeId: string): boolean {
+  return !!loadTotpEnrollments()[badgeId];
+}
+
+/**
+ * Enroll or remove a badge's authenticator secret. Permissions are checked
+ * by the callers in lib/userStore.ts.
+ */
+export function storeTotpSecret(badgeId: string, secret: string | null): void {
+  const enrollments = loadTotpEnrollments();
+  if (secret) {
+    enrollments[badgeId] = { secret };
+  } else {
+    delete enrollments[badgeId];
+  }
+  saveTotpEnrollments(enrollments);
+}
+
+/**
+ * Record an accepted code's time step. Fails when the step was already
+ * used, including by a sign-in that finished while this one was verifying.
+ */
+function claimTotpStep(badgeId: string, secret: string, step: number): boolean {
+  const enrollments = loadTotpEnrollments();
+  const enrollment = enrollments[badgeId];
+  if (enrollment?.secret !== secret || (enrollment.lastStep ?? -1) >= step) {
+    return false;
+  }
+  enrollment.lastStep = step;
+  saveTotpEnrollments(enrollments);
+  return true;
+}
+
+/**
+ * Generate a random base32 secret for an authenticator app
+ */
+export function generateTotpSecret(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(20));
+  let bits = "";
+  for (const byte of bytes) bits += byte.toString(2).padStart(8, "0");
+  let secret = "";
+  for (let i = 0; i + 5 <= bits.length; i += 5) {
+    secret += BASE32_ALPHABET[Number.parseInt(bits.slice(i, i + 5), 2)];
+  }
+  return secret;
+}
+
+/**
+ * otpauth:// URI authenticator apps accept for manual or QR enrollment
+ */
+export function getTotpUri(secret: string, account: string): string {
+  const label = encodeURIComponent(`Ramp Track:${account}`);
+  return `otpauth://totp/${label}?secret=${secret}&issuer=Ramp%20Track&digits=${TOTP_DIGITS}&period=${TOTP_STEP_SECONDS}`;
+}
+
+function decodeBase32(secret: string): Uint8Array<ArrayBuffer> {
+  let bits = "";
+  for (const char of secret.toUpperCase().replace(/[\s=]/g, "")) {
+    const value = BASE32_ALPHABET.indexOf(char);
+    if (value === -1) throw new Error("Invalid base32 secret");
+    bits += value.toString(2).padStart(5, "0");
+  }
+  const bytes = new Uint8Array(Math.floor(bits.length / 8));
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = Number.parseInt(bits.slice(i * 8, i * 8 + 8), 2);
+  }
+  return bytes;
+}
+
+async function totpCode(secret: string, counter: number): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    decodeBase32(secret),
+    { name: "HMAC", hash: "SHA-1" },
+    false,
+    ["sign"],
+  );
+  const message = new DataView(new ArrayBuffer(8));
+  message.setUint32(0, Math.floor(counter / 2 ** 32));
+  message.setUint32(4, counter % 2 ** 32);
+  const hmac = new Uint8Array(
+    await crypto.subtle.sign("HMAC", key, message.buffer),
+  );
+
+  // Dynamic truncation (RFC 4226 section 5.3)
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary =
+    ((hmac[offset] & 0x7f) << 24) |
+    (hmac[offset + 1] << 16) |
+    (hmac[offset + 2] << 8) |
+    hmac[offset + 3];
+  return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, "0");
+}
+
+/**
+ * Check a TOTP code against a secret at the given time. Returns the time
+ * step the code belongs to, or null. Codes from `usedStep` or earlier are
+ * refused so an accepted code cannot be replayed.
+ */
+export async function verifyTotp(
+  secret: string,
+  code: string,
+  now: number = Date.now(),
+  usedStep = -1,
+): Promise<number | null> {
+  if (!/^\d{6}$/.test(code)) return null;
+  const counter = Math.floor(now / 1000 / TOTP_STEP_SECONDS);
+  for (let drift = -TOTP_WINDOW; drift <= TOTP_WINDOW; drift++) {
+    const step = counter + drift;
+    if (step > usedStep && (await totpCode(secret, step)) === code) {
+      return step;
+    }
+  }
+  return null;
+}
+
+/**
+ * Verify a PIN or TOTP code for a badge sign-in, applying the lockout.
+ * Missing codes and unenrolled users are refused without counting a failure.
+ */
+export async function verifySecondFactor(
+  user: UserRosterEntry,
+  code: string | undefined,
+): Promise<{ success: boolean; error?: string }> {
+  if (!hasSecondFactor(user)) {
+    return {
+      success: false,
+      error: `Badge sign-in as ${user.role} needs a PIN or authenticator code. Sign in with your password or ask an admin to enroll one.`,
+    };
+  }
+
+  const lockoutEnd = getLockoutEnd(user.badgeId);
+  if (lockoutEnd) {
+    return {
+      success: false,
+      error: `Too many failed attempts. Badge ${user.badgeId} is locked until ${lockoutEnd.toLocaleTimeString()}.`,
+    };
+  }
+
+  const trimmed = code?.trim() ?? "";
+  if (!trimmed) {
+    return { success: false, error: "Enter your PIN or authenticator code" };
+  }
+
+  try {
+    const pinMatches =
+      !!user.pinHash && (await verifyPassword(trimmed, user.pinHash));
+    const totp = pinMatches ? undefined : loadTotpEnrollments()[user.badgeId];
+    const totpStep = totp
+      ? await verifyTotp(totp.secret, trimmed, Date.now(), totp.lastStep)
+      : null;
+    const totpMatches =
+      !!totp &&
+      totpStep !== null &&
+      claimTotpStep(user.badgeId, totp.secret, totpStep);
+
+    if (pinMatches || totpMatches) {
+      const attempts = loadAttempts();
+      delete attempts[user.badgeId];
+      saveAttempts(attempts);
+      return { success: true };
+    }
+
+    // A replayed code is not a guess, so it does not count toward the lockout
+    if (totp && (await verifyTotp(totp.secret, trimmed)) !== null) {
+      return {
+        success: false,
+        error:
+          "That authenticator code was already used. Wait for the next one.",
+      };
+    }
+  } catch (error) {
+    console.error("Error verifying second factor:", error);
+  }
+
+  const record = recordFailure(user.badgeId);
+  if (record.locked) {
+    return {
+      success: false,
+      error: `Too many failed attempts. Badge ${user.badgeId} is locked for ${LOCKOUT_MINUTES} minutes.`,
+    };
+  }
+  return {
+    success: false,
+    error: `Incorrect code. ${MAX_SECOND_FACTOR_FAILURES - record.failures} attempt${MAX_SECOND_FACTOR_FAILURES - record.failures === 1 ? "" : "s"} left.`,
+  };
+}
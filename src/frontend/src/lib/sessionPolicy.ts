@@ -0,0 +1,209 @@
+// Session Policy - how long a sign-in lasts on a shared ramp device
+//
+// Sessions end after an absolute lifetime or when a shift change passes,
+// whichever comes first, and lock to a badge re-scan after a period of
+// inactivity. Shift changes are wall-clock times at the active station.
+
+import { checkPermission } from "./permissions";
+import { getActiveStationCode, getStation } from "./stationStore";
+
+export interface SessionPolicy {
+  // Absolute session lifetime
+  maxSessionHours: number;
+  // Inactivity before the device locks to the badge re-scan screen
+  idleLockMinutes: number;
+  // "HH:MM" station-local times at which every session is signed out
+  shiftChanges: string[];
+}
+
+const STORAGE_KEY = "ramptrack_session_policy";
+
+export const DEFAULT_SESSION_POLICY: SessionPolicy = {
+  maxSessionHours: 12,
+  idleLockMinutes: 5,
+  shiftChanges: ["05:00", "13:00", "21:00"],
+};
+
+const SHIFT_TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export function getSessionPolicy(): SessionPolicy {
+  try {
+    const data = localStorage.getItem(STORAGE_KEY);
+    return data
+      ? { ...DEFAULT_SESSION_POLICY, ...JSON.parse(data) }
+      : { ...DEFAULT_SESSION_POLICY };
+  } catch (error) {
+    console.error("Error reading session policy:", error);
+    return { ...DEFAULT_SESSION_POLICY };
+  }
+}
+
+export function setSessionPolicy(policy: SessionPolicy): {
+  success: boolean;
+  error?: string;
+} {
+  const denied = checkPermission("user.manage", "session policy");
+  if (denied) return { success: false, error: denied };
+
+  if (
+    !Number.isFinite(policy.maxSessionHours) ||
+    policy.maxSessionHours < 1 ||
+    policy.maxSessionHours > 24
+  ) {
+    return {
+      success: false,
+      error: "Session lifetime must be between 1 and 24 hours",
+    };
+  }
+  if (
+    !Number.isFinite(policy.idleLockMinutes) ||
+    policy.idleLockMinutes < 1 ||
+    policy.idleLockMinutes > 120
+  ) {
+    return {
+      success: false,
+      error: "Idle lock must be between 1 and 120 minutes",
+    };
+  }
+  const invalidTime = policy.shiftChanges.find(
+    (time) => !SHIFT_TIME_PATTERN.test(time),
+  );
+  if (invalidTime !== undefined) {
+    return {
+      success: false,
+      error: `Shift change "${invalidTime}" must be HH:MM (24-hour)`,
+    };
+  }
+
+  try {
+    localStorage.setItem(
+      STORAGE_KEY,
+      JSON.stringify({
+        ...policy,
+        shiftChanges: [...new Set(policy.shiftChanges)].sort(),
+      }),
+    );
+    return { success: true };
+  } catch (error) {
+    console.error("Error saving session policy:", error);
+    return { success: false, error: "Failed to save session policy" };
+  }
+}
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+};
+
+/**
+ * Calendar date and minute of day of an instant in a timezone
+ */
+function wallClock(
+  date: Date,
+  timeZone: string,
+): { day: string; minutes: number } {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat("en-CA", {
+      timeZone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      hourCycle: "h23",
+    })
+      .formatToParts(date)
+      .map((part) => [part.type, part.value]),
+  );
+  return {
+    day: `${parts.year}-${parts.month}-${parts.day}`,
+    minutes: Number(parts.hour) * 60 + Number(parts.minute),
+  };
+}
+
+/**
+ * Identifies the shift an instant falls in. Two instants in different shifts
+ * have a shift change between them.
+ */
+function shiftKey(date: Date, shiftChanges: string[], timeZone: string) {
+  const { day, minutes } = wallClock(date, timeZone);
+  const started = shiftChanges
+    .map(toMinutes)
+    .filter((m) => m <= minutes)
+    .sort((a, b) => a - b)
+    .pop();
+  if (started !== undefined) return `${day}@${started}`;
+
+  // Before the first change of the day: still in yesterday's last shift
+  const previousDay = wallClock(
+    new Date(date.getTime() - 24 * 60 * 60 * 1000),
+    timeZone,
+  ).day;
+  return `${previousDay}@${Math.max(...shiftChanges.map(toMinutes))}`;
+}
+
+/**
+ * Why a session that started at `startedAt` must end, or null while it is
+ * still valid
+ */
+export function getSessionEndReason(
+  startedAt: string | undefined,
+  now: Date = new Date(),
+  policy: SessionPolicy = getSessionPolicy(),
+): string | null {
+  // Sessions persisted before expiry existed end at once
+  const start = startedAt ? new Date(startedAt) : null;
+  if (!start || Number.isNaN(start.getTime())) {
+    return "Your session has expired. Please sign in again.";
+  }
+
+  if (now.getTime() - start.getTime() > policy.maxSessionHours * 3600000) {
+    return `Sessions last ${policy.maxSessionHours} hours. Please sign in again.`;
+  }
+
+  if (policy.shiftChanges.length > 0) {
+    const timeZone =
+      getStation(getActiveStationCode())?.timezone ??
+      Intl.DateTimeFormat().resolvedOptions().timeZone;
+    if (
+      shiftKey(start, policy.shiftChanges, timeZone) !==
+      shiftKey(now, policy.shiftChanges, timeZone)
+    ) {
+      return "Shift change: everyone is signed out. Please sign in again.";
+    }
+  }
+
+  return null;
+}
+
+/**
+ * When the shift running at `now` started, or null when no shift changes are
+ * configured
+ */
+export function getShiftStart(
+  now: Date = new Date(),
+  policy: SessionPolicy = getSessionPolicy(),
+): Date | null {
+  if (policy.shiftChanges.length === 0) return null;
+
+  const timeZone =
+    getStation(getActiveStationCode())?.timezone ??
+    Intl.DateTimeFormat().resolvedOptions().timeZone;
+  const current = shiftKey(now, policy.shiftChanges, timeZone);
+
+  // A shift never lasts longer than a day: search the last 24 hours for the
+  // earliest minute still in the current shift
+  let inShift = now.getTime();
+  let before = inShift - 24 * 60 * 60 * 1000;
+  while (inShift - before > 60000) {
+    const middle = Math.floor((inShift + before) / 2);
+    if (shiftKey(new Date(middle), policy.shiftChanges, timeZone) === current) {
+      inShift = middle;
+    } else {
+      before = middle;
+    }
+  }
+  const start = new Date(inShift);
+  start.setSeconds(0, 0);
+  return start;
+}
@@ -0,0 +1,70 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const SESSION_KEY = "ramptrack_v2_session";
+
+// The session schema migrates on import, so each test loads a fresh copy
+async function loadStores() {
+  vi.resetModules();
+  const sessionStore = await import("./sessionStore");
+  const { getSessionEndReason } = await import("./sessionPolicy");
+  return { ...sessionStore, getSessionEndReason };
+}
+
+beforeEach(() => {
+  localStorage.clear();
+  vi.spyOn(console, "log").mockImplementation(() => {});
+});
+
+describe("session migration", () => {
+  it("ends an unversioned session that has no start time", async () => {
+    localStorage.setItem(
+      SESSION_KEY,
+      JSON.stringify({
+        username: "manager@demo.com",
+        roles: ["manager"],
+        displayName: "Demo Manager",
+        badgeId: "970251",
+      }),
+    );
+
+    const { readSession, getSessionEndReason } = await loadStores();
+    const session = readSession();
+
+    expect(session).toMatchObject({ version: 1, role: "manager" });
+    expect(session?.startedAt).toBeUndefined();
+    expect(getSessionEndReason(session?.startedAt)).toBe(
+      "Your session has expired. Please sign in again.",
+    );
+  });
+
+  it("keeps the start time of an unversioned session that has one", async () => {
+    const startedAt = new Date(Date.now() - 60000).toISOString();
+    localStorage.setItem(
+      SESSION_KEY,
+      JSON.stringify({
+        username: "agent@demo.com",
+        roles: ["agent"],
+        startedAt,
+      }),
+    );
+
+    const { readSession } = await loadStores();
+
+    expect(readSession()?.startedAt).toBe(startedAt);
+  });
+
+  it("ends a session converted from a legacy key", async () => {
+    localStorage.setItem(
+      "ramptrack_auth_state",
+      JSON.stringify({ user: "970251", role: "manager", badgeId: "970251" }),
+    );
+
+    const { migrateLegacySession, getSessionEndReason } = await loadStores();
+    const session = migrateLegacySession();
+
+    expect(session).toMatchObject({ username: "970251", role: "manager" });
+    expect(session?.startedAt).toBeUndefined();
+    expect(getSessionEndReason(session?.startedAt)).not.toBeNull();
+    expect(localStorage.getItem("ramptrack_auth_state")).toBeNull();
+  });
+});
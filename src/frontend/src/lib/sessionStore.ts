@@ -0,0 +1,229 @@
+// Session Store - the signed-in user, persisted under a single key
+//
+// AuthContext writes the session; permission checks, the audit log, API
+// requests and write guards read it from here. Sessions written under the
+// older keys are migrated once on boot, and sign-ins or sign-outs in other
+// tabs reach subscribers through the storage event.
+
+import { type StoreSchema, migrateStore } from "./storageSchema";
+
+export interface StoredSession {
+  version: 1;
+  // Email or badge the user signed in with
+  username: string;
+  badgeId: string | null;
+  displayName: string;
+  role: string;
+  // ISO time the session began, used for expiry and shift changes. Absent
+  // on sessions persisted before expiry existed, which end at once.
+  startedAt?: string;
+  // Bearer token for API requests (absent for local-only sign-ins)
+  token?: string;
+}
+
+export type SessionInput = Omit<StoredSession, "version">;
+
+const SESSION_KEY = "ramptrack_v2_session";
+const SESSION_VERSION = 1;
+
+// Keys earlier builds stored the user under
+const LEGACY_AUTH_STATE_KEY = "ramptrack_auth_state";
+const LEGACY_CURRENT_USER_KEY = "currentUser";
+const LEGACY_BADGE_KEY = "currentUser_badge";
+const LEGACY_AUTH_USER_KEY = "ramptrack_current_user";
+const LEGACY_TOKEN_KEY = "ramptrack_auth_token";
+const LEGACY_KEYS = [
+  LEGACY_AUTH_STATE_KEY,
+  LEGACY_CURRENT_USER_KEY,
+  LEGACY_BADGE_KEY,
+  LEGACY_AUTH_USER_KEY,
+  LEGACY_TOKEN_KEY,
+];
+
+function readJson(key: string): any {
+  const data = localStorage.getItem(key);
+  if (!data || data === "undefined") return null;
+  try {
+    return JSON.parse(data);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Validate a stored payload. Sessions from before the version field
+ * ({ username, roles, displayName, badgeId, startedAt }) are accepted.
+ */
+function parseSession(data: any): StoredSession | null {
+  if (!data || typeof data.username !== "string" || !data.username) {
+    return null;
+  }
+  const role =
+    typeof data.role === "string"
+      ? data.role
+      : Array.isArray(data.roles) && typeof data.roles[0] === "string"
+        ? data.roles[0]
+        : "guest";
+  return {
+    version: SESSION_VERSION,
+    username: data.username,
+    badgeId: data.badgeId || null,
+    displayName: data.displayName || data.badgeId || data.username,
+    role,
+    // Never default to now: that would give old sessions a fresh lifetime
+    startedAt: typeof data.startedAt === "string" ? data.startedAt : undefined,
+    token: typeof data.token === "string" ? data.token : undefined,
+  };
+}
+
+// Session payload versions (keys from before the single session key are
+// handled by migrateLegacySession)
+export const SESSION_SCHEMA: StoreSchema = {
+  key: SESSION_KEY,
+  label: "Session",
+  migrations: [
+    {
+      to: 1,
+      description: "Store a single role and the session version",
+      migrate: (data) => parseSession(data),
+    },
+  ],
+};
+
+migrateStore(SESSION_SCHEMA);
+
+// Session change listeners (same pattern as stationStore)
+const sessionListeners: Set<(session: StoredSession | null) => void> =
+  new Set();
+
+function notifySessionListeners() {
+  const session = readSession();
+  for (const listener of sessionListeners) {
+    try {
+      listener(session);
+    } catch (error) {
+      console.error("[sessionStore] Error in session listener:", error);
+    }
+  }
+}
+
+/**
+ * Subscribe to sign-ins and sign-outs in this tab and in other tabs
+ * Returns unsubscribe function
+ */
+export function subscribeToSession(
+  listener: (session: StoredSession | null) => void,
+): () => void {
+  sessionListeners.add(listener);
+
+  return () => {
+    sessionListeners.delete(listener);
+  };
+}
+
+if (typeof window !== "undefined") {
+  window.addEventListener("storage", (event) => {
+    // A null key means another tab cleared all of localStorage
+    if (event.key === SESSION_KEY || event.key === null) {
+      notifySessionListeners();
+    }
+  });
+}
+
+/**
+ * The signed-in user's session, or null when signed out. A corrupted
+ * payload is removed.
+ */
+export function readSession(): StoredSession | null {
+  const data = readJson(SESSION_KEY);
+  const session = parseSession(data);
+  if (!session && localStorage.getItem(SESSION_KEY) !== null) {
+    console.warn("[sessionStore] Removing invalid stored session");
+    localStorage.removeItem(SESSION_KEY);
+  }
+  return session;
+}
+
+/**
+ * Persist the session and notify listeners. `startedAt` defaults to now.
+ */
+export function writeSession(input: SessionInput): StoredSession {
+  const session: StoredSession = {
+    ...input,
+    version: SESSION_VERSION,
+    startedAt: input.startedAt ?? new Date().toISOString(),
+  };
+  localStorage.setItem(SESSION_KEY, JSON.stringify(session));
+  notifySessionListeners();
+  return session;
+}
+
+/**
+ * Sign out: remove the session (and any legacy keys) and notify listeners
+ */
+export function clearSession(): void {
+  localStorage.removeItem(SESSION_KEY);
+  for (const key of LEGACY_KEYS) localStorage.removeItem(key);
+  notifySessionListeners();
+}
+
+/**
+ * Bearer token for API requests, when the session has one
+ */
+export function getSessionToken(): string | null {
+  return readSession()?.token ?? null;
+}
+
+/**
+ * Convert a session stored under a legacy key, then remove the legacy keys.
+ * A current session always wins over legacy data. Run once on boot.
+ */
+export function migrateLegacySession(): StoredSession | null {
+  const present = LEGACY_KEYS.filter((key) => localStorage.getItem(key));
+  if (present.length === 0) return readSession();
+
+  let session = readSession();
+  if (!session) {
+    // { user, role, badgeId?, name? }
+    const authState = readJson(LEGACY_AUTH_STATE_KEY);
+    // { username, roles, displayName?, badge? }
+    const authUser = readJson(LEGACY_AUTH_USER_KEY);
+    // { username, roles, displayName? } with the badge stored separately
+    const currentUser = readJson(LEGACY_CURRENT_USER_KEY);
+    const badge = localStorage.getItem(LEGACY_BADGE_KEY);
+
+    const migrated =
+      (authState?.user &&
+        parseSession({
+          username: authState.user,
+          role: authState.role,
+          badgeId: authState.badgeId,
+          displayName: authState.name,
+        })) ||
+      (authUser?.username &&
+        parseSession({ ...authUser, badgeId: authUser.badge })) ||
+      (currentUser?.username &&
+        parseSession({ ...currentUser, badgeId: badge })) ||
+      null;
+
+    if (migrated) {
+      const token = localStorage.getItem(LEGACY_TOKEN_KEY);
+      if (token && token !== "undefined") migrated.token = token;
+      localStorage.setItem(SESSION_KEY, JSON.stringify(migrated));
+      console.log(
+        "[sessionStore] Migrated legacy session for",
+        migrated.badgeId || migrated.username,
+      );
+      session = migrated;
+    }
+  } else if (!session.token) {
+    const token = localStorage.getItem(LEGACY_TOKEN_KEY);
+    if (token && token !== "undefined") {
+      session = { ...session, token };
+      localStorage.setItem(SESSION_KEY, JSON.stringify(session));
+    }
+  }
+
+  for (const key of present) localStorage.removeItem(key);
+  return session;
+}
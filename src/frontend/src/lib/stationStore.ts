@@ -0,0 +1,217 @@
+// Station Store - airports/stations the app serves, the active station, and
+// which stations each roster user works at
+//
+// Equipment, zones, audit events and equipment events carry a stationCode;
+// records written before stations existed have none and belong to the
+// default station. Equipment pulled from the backend, which has no station
+// field, is marked unassigned until a supervisor assigns it.
+
+import { checkPermission } from "./permissions";
+
+export interface Station {
+  // IATA-style code, e.g. "PHX"
+  code: string;
+  name: string;
+  // IANA timezone, e.g. "America/Phoenix"
+  timezone: string;
+  createdAt: string;
+}
+
+const STATIONS_KEY = "ramptrack_stations";
+const ACTIVE_STATION_KEY = "ramptrack_active_station";
+const ASSIGNMENTS_KEY = "ramptrack_station_assignments";
+
+// The station the original gate list and tug fleet belong to
+export const DEFAULT_STATION_CODE = "PHX";
+
+// Station code of backend-only units nobody has assigned yet. Longer than
+// any real station code, so it can never name one.
+export const UNASSIGNED_STATION_CODE = "UNASSIGNED";
+
+const DEFAULT_STATIONS: Station[] = [
+  {
+    code: DEFAULT_STATION_CODE,
+    name: "Phoenix Sky Harbor",
+    timezone: "America/Phoenix",
+    createdAt: new Date(0).toISOString(),
+  },
+];
+
+/**
+ * Get all stations, seeding the default station on first use
+ */
+export function getStations(): Station[] {
+  try {
+    const data = localStorage.getItem(STATIONS_KEY);
+    if (!data) {
+      localStorage.setItem(STATIONS_KEY, JSON.stringify(DEFAULT_STATIONS));
+      return [...DEFAULT_STATIONS];
+    }
+    return JSON.parse(data) as Station[];
+  } catch (error) {
+    console.error("Error reading stations:", error);
+    return [...DEFAULT_STATIONS];
+  }
+}
+
+export function getStation(code: string): Station | null {
+  return getStations().find((s) => s.code === code) ?? null;
+}
+
+const isValidTimezone = (timezone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Add a station or update the name/timezone of an existing one
+ */
+export function saveStation(station: Omit<Station, "createdAt">): {
+  success: boolean;
+  error?: string;
+} {
+  const denied = checkPermission("station.manage", station.code);
+  if (denied) return { success: false, error: denied };
+
+  const code = station.code.trim().toUpperCase();
+  // IATA (3) or ICAO (4) airport codes are letters only
+  if (!/^[A-Z]{3,4}$/.test(code)) {
+    return { success: false, error: "Station code must be 3–4 letters" };
+  }
+  if (!station.name.trim()) {
+    return { success: false, error: "Station name is required" };
+  }
+  if (!isValidTimezone(station.timezone)) {
+    return { success: false, error: `Unknown timezone: ${station.timezone}` };
+  }
+
+  try {
+    const stations = getStations();
+    const existing = stations.find((s) => s.code === code);
+    if (existing) {
+      existing.name = station.name.trim();
+      existing.timezone = station.timezone;
+    } else {
+      stations.push({
+        code,
+        name: station.name.trim(),
+        timezone: station.timezone,
+        createdAt: new Date().toISOString(),
+      });
+    }
+    localStorage.setItem(STATIONS_KEY, JSON.stringify(stations));
+    return { success: true };
+  } catch (error) {
+    console.error("Error saving station:", error);
+    return { success: false, error: "Failed to save station" };
+  }
+}
+
+// Station change listeners (same pattern as apiClient refresh state)
+const stationListeners: Set<(code: string) => void> = new Set();
+
+/**
+ * Subscribe to active station changes
+ * Returns unsubscribe function
+ */
+export function subscribeToStationChange(
+  listener: (code: string) => void,
+): () => void {
+  stationListeners.add(listener);
+
+  return () => {
+    stationListeners.delete(listener);
+  };
+}
+
+/**
+ * Code of the station the app is currently scoped to
+ */
+export function getActiveStationCode(): string {
+  const stored = localStorage.getItem(ACTIVE_STATION_KEY);
+  return stored && getStation(stored) ? stored : DEFAULT_STATION_CODE;
+}
+
+/**
+ * Switch the active station and notify listeners
+ */
+export function setActiveStation(code: string): {
+  success: boolean;
+  error?: string;
+} {
+  if (!getStation(code)) {
+    return { success: false, error: `Unknown station: ${code}` };
+  }
+  localStorage.setItem(ACTIVE_STATION_KEY, code);
+
+  for (const listener of stationListeners) {
+    try {
+      listener(code);
+    } catch (error) {
+      console.error("[stationStore] Error in station listener:", error);
+    }
+  }
+  return { success: true };
+}
+
+/**
+ * Station a record belongs to (records without one predate stations)
+ */
+export function stationOf(record: { stationCode?: string }): string {
+  return record.stationCode ?? DEFAULT_STATION_CODE;
+}
+
+function loadAssignments(): Record<string, string[]> {
+  try {
+    const data = localStorage.getItem(ASSIGNMENTS_KEY);
+    return data ? JSON.parse(data) : {};
+  } catch (error) {
+    console.error("Error reading station assignments:", error);
+    return {};
+  }
+}
+
+/**
+ * Stations a user may work at. Admins reach every station; users never
+ * assigned belong to the default station.
+ */
+export function getUserStations(badgeId: string, role?: string): string[] {
+  if (role === "admin") return getStations().map((s) => s.code);
+  const assigned = loadAssignments()[badgeId]?.filter((code) =>
+    getStation(code),
+  );
+  return assigned && assigned.length > 0 ? assigned : [DEFAULT_STATION_CODE];
+}
+
+/**
+ * Whether a user has been explicitly assigned to stations
+ */
+export function hasStationAssignment(badgeId: string): boolean {
+  return (loadAssignments()[badgeId]?.length ?? 0) > 0;
+}
+
+/**
+ * Replace a user's station assignments
+ */
+export function setUserStations(
+  badgeId: string,
+  codes: string[],
+): { success: boolean; error?: string } {
+  const denied = checkPermission("station.manage", badgeId);
+  if (denied) return { success: false, error: denied };
+
+  try {
+    const assignments = loadAssignments();
+    if (codes.length === 0) delete assignments[badgeId];
+    else assignments[badgeId] = [...new Set(codes)];
+    localStorage.setItem(ASSIGNMENTS_KEY, JSON.stringify(assignments));
+    return { success: true };
+  } catch (error) {
+    console.error("Error saving station assignments:", error);
+    return { success: false, error: "Failed to save station assignments" };
+  }
+}
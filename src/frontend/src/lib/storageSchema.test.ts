@@ -0,0 +1,152 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { type EquipmentRecord, REGISTRY_SCHEMA } from "./equipmentRegistry";
+import {
+  type StoreSchema,
+  getSchemaStatus,
+  migrateStore,
+} from "./storageSchema";
+
+const VERSIONS_KEY = "ramptrack_schema_versions";
+const BACKUP_PREFIX = "ramptrack_schema_backup_";
+
+function setVersion(key: string, version: number) {
+  localStorage.setItem(VERSIONS_KEY, JSON.stringify({ [key]: version }));
+}
+
+function readVersion(key: string): number | undefined {
+  return JSON.parse(localStorage.getItem(VERSIONS_KEY) ?? "{}")[key];
+}
+
+// Two steps: wrap the list, then count it
+function testSchema(
+  secondStep: (data: unknown) => unknown = (data) => ({
+    ...(data as object),
+    count: (data as { items: unknown[] }).items.length,
+  }),
+): StoreSchema {
+  return {
+    key: "test_store",
+    label: "Test store",
+    migrations: [
+      {
+        to: 1,
+        description: "Wrap the list",
+        migrate: vi.fn((data) => ({ items: data })),
+      },
+      { to: 2, description: "Count the items", migrate: vi.fn(secondStep) },
+    ],
+  };
+}
+
+beforeEach(() => {
+  localStorage.clear();
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  vi.spyOn(console, "error").mockImplementation(() => {});
+});
+
+describe("migrateStore", () => {
+  it("adds the missing fleet when migrating a v1 registry to v2", () => {
+    const unit: EquipmentRecord = {
+      id: "TV1000",
+      type: "TUG",
+      status: "ASSIGNED",
+      lastOperator: "970251",
+      createdAt: "2024-01-01T00:00:00.000Z",
+      history: [],
+    };
+    const raw = JSON.stringify([unit]);
+    localStorage.setItem(REGISTRY_SCHEMA.key, raw);
+    setVersion(REGISTRY_SCHEMA.key, 1);
+
+    expect(migrateStore(REGISTRY_SCHEMA)).toEqual({
+      success: true,
+      from: 1,
+      to: 2,
+    });
+
+    const units = JSON.parse(
+      localStorage.getItem(REGISTRY_SCHEMA.key) ?? "[]",
+    ) as EquipmentRecord[];
+    const ids = units.map((u) => u.id);
+    // TV0989-TV1344 plus the required TV0637, TV0883 and TV0884
+    expect(new Set(ids).size).toBe(ids.length);
+    expect(ids).toHaveLength(356 + 3);
+    expect(ids).toEqual(expect.arrayContaining(["TV0637", "TV0989", "TV1344"]));
+    expect(units.find((u) => u.id === "TV1000")).toEqual(unit);
+    expect(readVersion(REGISTRY_SCHEMA.key)).toBe(2);
+
+    const backup = JSON.parse(
+      localStorage.getItem(BACKUP_PREFIX + REGISTRY_SCHEMA.key) ?? "null",
+    );
+    expect(backup).toMatchObject({ version: 1, payload: raw });
+  });
+
+  it("runs every step for a payload with no version", () => {
+    const schema = testSchema();
+    localStorage.setItem(schema.key, JSON.stringify(["a", "b"]));
+
+    expect(migrateStore(schema)).toEqual({ success: true, from: 0, to: 2 });
+    expect(JSON.parse(localStorage.getItem(schema.key) ?? "null")).toEqual({
+      items: ["a", "b"],
+      count: 2,
+    });
+    expect(readVersion(schema.key)).toBe(2);
+  });
+
+  it("stamps a store with no payload with the current version", () => {
+    const schema = testSchema();
+
+    expect(migrateStore(schema)).toEqual({ success: true, from: 2, to: 2 });
+    expect(localStorage.getItem(schema.key)).toBeNull();
+    expect(readVersion(schema.key)).toBe(2);
+  });
+
+  it("leaves a payload from a future version untouched", () => {
+    const schema = testSchema();
+    const raw = JSON.stringify({ written: "by a newer build" });
+    localStorage.setItem(schema.key, raw);
+    setVersion(schema.key, 5);
+
+    expect(migrateStore(schema)).toEqual({ success: true, from: 5, to: 5 });
+    expect(localStorage.getItem(schema.key)).toBe(raw);
+    expect(readVersion(schema.key)).toBe(5);
+    for (const step of schema.migrations) {
+      expect(step.migrate).not.toHaveBeenCalled();
+    }
+  });
+
+  it("restores the backed-up payload when a step throws", () => {
+    const schema = testSchema(() => {
+      throw new Error("bad data");
+    });
+    const raw = JSON.stringify(["a"]);
+    localStorage.setItem(schema.key, raw);
+
+    expect(migrateStore(schema)).toEqual({
+      success: false,
+      error: "Test store migration to v2 failed",
+      from: 0,
+      to: 0,
+    });
+    expect(localStorage.getItem(schema.key)).toBe(raw);
+    expect(readVersion(schema.key)).toBeUndefined();
+    expect(
+      JSON.parse(localStorage.getItem(BACKUP_PREFIX + schema.key) ?? "null"),
+    ).toMatchObject({ version: 0, payload: raw });
+    expect(getSchemaStatus().find((s) => s.key === schema.key)).toMatchObject({
+      version: 0,
+      latest: 2,
+      error: "Test store migration to v2 failed",
+    });
+
+    // A fixed build migrates the untouched payload and clears the error
+    expect(migrateStore(testSchema())).toEqual({
+      success: true,
+      from: 0,
+      to: 2,
+    });
+    expect(
+      getSchemaStatus().find((s) => s.key === schema.key)?.error,
+    ).toBeUndefined();
+  });
+});
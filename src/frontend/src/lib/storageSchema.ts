@@ -0,0 +1,160 @@
+// Storage Schema - versioned localStorage payloads with ordered migrations
+//
+// Each persisted store declares its current schema version and the steps that
+// bring an older payload up to it. Before the first step runs the previous
+// payload is copied to a backup key, and a failed migration restores it, so
+// a format change never throws away checkout history. Versions are kept in a
+// single map so the diagnostics panel can show every store's state.
+
+export interface StoreMigration {
+  // Version the payload has after this step
+  to: number;
+  description: string;
+  // Receives the parsed payload at version `to - 1`
+  migrate: (data: unknown) => unknown;
+}
+
+export interface StoreSchema {
+  // localStorage key of the payload
+  key: string;
+  label: string;
+  // Ordered by `to`; the last step's version is the current version
+  migrations: StoreMigration[];
+}
+
+export interface SchemaStatus {
+  key: string;
+  label: string;
+  version: number;
+  latest: number;
+  // When the payload was last backed up before a migration
+  backupAt?: string;
+  // Last migration failure, cleared by the next successful run
+  error?: string;
+}
+
+interface SchemaBackup {
+  key: string;
+  version: number;
+  savedAt: string;
+  payload: string;
+}
+
+const VERSIONS_KEY = "ramptrack_schema_versions";
+const BACKUP_PREFIX = "ramptrack_schema_backup_";
+
+// Schemas opened this session, for diagnostics
+const openedSchemas = new Map<string, StoreSchema>();
+const migrationErrors = new Map<string, string>();
+
+/**
+ * Current version of a schema (0 when it has no migrations)
+ */
+export const latestVersion = (schema: StoreSchema): number =>
+  schema.migrations.at(-1)?.to ?? 0;
+
+function readVersions(): Record<string, number> {
+  try {
+    const data = localStorage.getItem(VERSIONS_KEY);
+    return data ? (JSON.parse(data) as Record<string, number>) : {};
+  } catch (error) {
+    console.error("Error reading schema versions:", error);
+    return {};
+  }
+}
+
+function writeVersion(key: string, version: number) {
+  localStorage.setItem(
+    VERSIONS_KEY,
+    JSON.stringify({ ...readVersions(), [key]: version }),
+  );
+}
+
+function readBackup(key: string): SchemaBackup | null {
+  try {
+    const data = localStorage.getItem(BACKUP_PREFIX + key);
+    return data ? (JSON.parse(data) as SchemaBackup) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Bring a store's payload up to its current schema version. Stores call this
+ * before their first read. A store with no payload yet is stamped with the
+ * current version, since new data is written in the current format.
+ */
+export function migrateStore(schema: StoreSchema): {
+  success: boolean;
+  error?: string;
+  from: number;
+  to: number;
+} {
+  openedSchemas.set(schema.key, schema);
+  const latest = latestVersion(schema);
+  const stored = readVersions()[schema.key];
+  const raw = localStorage.getItem(schema.key);
+
+  if (raw === null) {
+    if (stored !== latest) writeVersion(schema.key, latest);
+    return { success: true, from: latest, to: latest };
+  }
+
+  // Payloads written before versioning existed count as version 0
+  const from = stored ?? 0;
+  if (from >= latest) return { success: true, from, to: from };
+
+  try {
+    const backup: SchemaBackup = {
+      key: schema.key,
+      version: from,
+      savedAt: new Date().toISOString(),
+      payload: raw,
+    };
+    localStorage.setItem(BACKUP_PREFIX + schema.key, JSON.stringify(backup));
+  } catch (error) {
+    // Never migrate without a copy to fall back on
+    const message = `Could not back up ${schema.label} before migrating`;
+    console.error(`[storageSchema] ${message}:`, error);
+    migrationErrors.set(schema.key, message);
+    return { success: false, error: message, from, to: from };
+  }
+
+  let version = from;
+  try {
+    let data: unknown = JSON.parse(raw);
+    for (const step of schema.migrations) {
+      if (step.to <= version) continue;
+      console.log(
+        `[storageSchema] ${schema.label} v${version} → v${step.to}: ${step.description}`,
+      );
+      data = step.migrate(data);
+      version = step.to;
+    }
+    localStorage.setItem(schema.key, JSON.stringify(data));
+    writeVersion(schema.key, version);
+    migrationErrors.delete(schema.key);
+    return { success: true, from, to: version };
+  } catch (error) {
+    const message = `${schema.label} migration to v${version + 1} failed`;
+    console.error(`[storageSchema] ${message}:`, error);
+    localStorage.setItem(schema.key, raw);
+    migrationErrors.set(schema.key, message);
+    return { success: false, error: message, from, to: from };
+  }
+}
+
+/**
+ * Schema versions of every store opened this session, for diagnostics
+ */
+export function getSchemaStatus(): SchemaStatus[] {
+  const versions = readVersions();
+  return [...openedSchemas.values()].map((schema) => ({
+    key: schema.key,
+    label: schema.label,
+    version: versions[schema.key] ?? 0,
+    latest: latestVersion(schema),
+    backupAt: readBackup(schema.key)?.savedAt,
+    error: migrationErrors.get(schema.key),
+  }));
+}
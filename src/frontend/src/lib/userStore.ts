@@ -0,0 +1,386 @@
+// User Store - the runtime user roster with localStorage persistence
+//
+// Seeded from data/userRoster.ts on first use, then maintained by admins from
+// the user management screen. Passwords are only ever stored as hashes.
+
+import { USER_ROSTER, type UserRosterEntry } from "../data/userRoster";
+import { hashPassword, verifyPassword } from "./passwordHash";
+import { checkPermission } from "./permissions";
+import { hasTotpSecret, isValidPin, storeTotpSecret } from "./secondFactor";
+import type { StoredSession } from "./sessionStore";
+
+export type UserRole = UserRosterEntry["role"];
+
+export const USER_ROLES: UserRole[] = ["admin", "manager", "agent", "operator"];
+
+const STORAGE_KEY = "ramptrack_user_roster";
+
+const MIN_PASSWORD_LENGTH = 6;
+
+/**
+ * Get every user, active or not, seeding the roster on first use
+ */
+export function getUsers(): UserRosterEntry[] {
+  try {
+    const data = localStorage.getItem(STORAGE_KEY);
+    if (!data) {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(USER_ROSTER));
+      return USER_ROSTER.map((u) => ({ ...u }));
+    }
+    return moveTotpSecrets(JSON.parse(data));
+  } catch (error) {
+    console.error("Error reading user roster:", error);
+    return USER_ROSTER.map((u) => ({ ...u }));
+  }
+}
+
+function saveUsers(users: UserRosterEntry[]): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(users));
+}
+
+/**
+ * Rosters saved before authenticator secrets had their own store kept them
+ * on the user records. Move them there and drop them from the roster.
+ */
+function moveTotpSecrets(
+  users: (UserRosterEntry & { totpSecret?: string })[],
+): UserRosterEntry[] {
+  if (!users.some((user) => "totpSecret" in user)) return users;
+
+  const moved = users.map(({ totpSecret, ...user }) => {
+    if (totpSecret && !hasTotpSecret(user.badgeId)) {
+      storeTotpSecret(user.badgeId, totpSecret);
+    }
+    return user;
+  });
+  saveUsers(moved);
+  return moved;
+}
+
+export const isUserActive = (user: UserRosterEntry): boolean =>
+  user.active !== false;
+
+/**
+ * Normalize string for comparison - trim whitespace and convert to string.
+ * Ensures consistent string handling across all authentication methods.
+ */
+function normalizeString(input: string | undefined | null): string {
+  return String(input || "").trim();
+}
+
+/**
+ * Lookup user by badge ID with string normalization.
+ * Returns user data if badge exists in roster, null otherwise.
+ */
+export function lookupUserByBadge(badgeId: string): UserRosterEntry | null {
+  const normalizedInput = normalizeString(badgeId);
+  return (
+    getUsers().find(
+      (user) => normalizeString(user.badgeId) === normalizedInput,
+    ) || null
+  );
+}
+
+/**
+ * Role a persisted session acts with. The roster role wins so role changes
+ * apply to routing, screens and store writes without signing in again.
+ */
+export function resolveSessionRole(session: StoredSession): string {
+  const rosterUser = session.badgeId
+    ? lookupUserByBadge(session.badgeId)
+    : null;
+  return rosterUser?.role ?? session.role;
+}
+
+/**
+ * Whether a persisted session's user may still act. Users deactivated after
+ * signing in are refused; sessions without a roster entry keep their role.
+ */
+export function isSessionUserActive(session: StoredSession): boolean {
+  const rosterUser = session.badgeId
+    ? lookupUserByBadge(session.badgeId)
+    : null;
+  return !rosterUser || isUserActive(rosterUser);
+}
+
+/**
+ * Lookup user by email or username with string normalization.
+ * Returns user data if email/username exists in roster, null otherwise.
+ */
+export function lookupUserByEmail(email: string): UserRosterEntry | null {
+  const normalizedInput = normalizeString(email).toLowerCase();
+  return (
+    getUsers().find((user) => {
+      const normalizedEmail = normalizeString(user.email).toLowerCase();
+      const normalizedBadge = normalizeString(user.badgeId).toLowerCase();
+      return (
+        normalizedEmail === normalizedInput ||
+        normalizedBadge === normalizedInput
+      );
+    }) || null
+  );
+}
+
+/**
+ * Validate user credentials (email/username + password) against the stored
+ * hash. Returns user data if credentials are valid and the user is active.
+ */
+export async function validateCredentials(
+  email: string,
+  password: string,
+): Promise<UserRosterEntry | null> {
+  const user = lookupUserByEmail(email);
+  if (!user || !user.passwordHash || !isUserActive(user)) {
+    return null;
+  }
+  return (await verifyPassword(password, user.passwordHash)) ? user : null;
+}
+
+/**
+ * Validate badge scan with string normalization.
+ * Returns user data if badge exists in roster and is active, null otherwise.
+ */
+export function validateBadgeScan(badgeId: string): UserRosterEntry | null {
+  const user = lookupUserByBadge(badgeId);
+  return user && isUserActive(user) ? user : null;
+}
+
+/**
+ * Whether a change would leave the roster without an active admin
+ */
+function removesLastAdmin(
+  users: UserRosterEntry[],
+  badgeId: string,
+  next: Partial<UserRosterEntry>,
+): boolean {
+  const remainingAdmins = users.filter((u) => {
+    const merged = u.badgeId === badgeId ? { ...u, ...next } : u;
+    return merged.role === "admin" && isUserActive(merged);
+  });
+  return remainingAdmins.length === 0;
+}
+
+/**
+ * Add a user. Password is optional: operators sign in by badge only.
+ */
+export async function addUser(user: {
+  badgeId: string;
+  displayName: string;
+  role: UserRole;
+  email?: string;
+  password?: string;
+}): Promise<{ success: boolean; error?: string }> {
+  const denied = checkPermission("user.manage", user.badgeId);
+  if (denied) return { success: false, error: denied };
+
+  const badgeId = normalizeString(user.badgeId);
+  const email = normalizeString(user.email);
+  if (!/^[A-Za-z0-9]{4,12}$/.test(badgeId)) {
+    return { success: false, error: "Badge ID must be 4–12 letters or digits" };
+  }
+  if (!user.displayName.trim()) {
+    return { success: false, error: "Display name is required" };
+  }
+  if (user.password && user.password.length < MIN_PASSWORD_LENGTH) {
+    return {
+      success: false,
+      error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters`,
+    };
+  }
+  if (lookupUserByBadge(badgeId) || (email && lookupUserByEmail(email))) {
+    return { success: false, error: "Badge ID or email is already in use" };
+  }
+
+  try {
+    const entry: UserRosterEntry = {
+      badgeId,
+      email: email || undefined,
+      role: user.role,
+      displayName: user.displayName.trim(),
+      employeeId: badgeId,
+      active: true,
+    };
+    if (user.password) {
+      entry.passwordHash = await hashPassword(user.password);
+    }
+
+    // Re-read after hashing so a concurrent edit is not overwritten
+    saveUsers([...getUsers(), entry]);
+    return { success: true };
+  } catch (error) {
+    console.error("Error adding user:", error);
+    return { success: false, error: "Failed to add user" };
+  }
+}
+
+/**
+ * Change a user's role, name, email or active flag
+ */
+export function updateUser(
+  badgeId: string,
+  changes: Partial<
+    Pick<UserRosterEntry, "role" | "displayName" | "email" | "active">
+  >,
+): { success: boolean; error?: string } {
+  const denied = checkPermission("user.manage", badgeId);
+  if (denied) return { success: false, error: denied };
+
+  try {
+    const users = getUsers();
+    const user = users.find((u) => u.badgeId === badgeId);
+    if (!user) {
+      return { success: false, error: `User not found: ${badgeId}` };
+    }
+    if (changes.displayName !== undefined && !changes.displayName.trim()) {
+      return { success: false, error: "Display name is required" };
+    }
+    if (removesLastAdmin(users, badgeId, changes)) {
+      return {
+        success: false,
+        error: "At least one active admin must remain",
+      };
+    }
+
+    Object.assign(user, changes);
+    saveUsers(users);
+    return { success: true };
+  } catch (error) {
+    console.error("Error updating user:", error);
+    return { success: false, error: "Failed to update user" };
+  }
+}
+
+/**
+ * Set a new password for a user
+ */
+export async function resetPassword(
+  badgeId: string,
+  password: string,
+): Promise<{ success: boolean; error?: string }> {
+  const denied = checkPermission("user.manage", badgeId);
+  if (denied) return { success: false, error: denied };
+
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    return {
+      success: false,
+      error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters`,
+    };
+  }
+
+  try {
+    const passwordHash = await hashPassword(password);
+    const users = getUsers();
+    const user = users.find((u) => u.badgeId === badgeId);
+    if (!user) {
+      return { success: false, error: `User not found: ${badgeId}` };
+    }
+    user.passwordHash = passwordHash;
+    saveUsers(users);
+    return { success: true };
+  } catch (error) {
+    console.error("Error resetting password:", error);
+    return { success: false, error: "Failed to reset password" };
+  }
+}
+
+/**
+ * Set a user's badge PIN (4–8 digits)
+ */
+export async function setUserPin(
+  badgeId: string,
+  pin: string,
+): Promise<{ success: boolean; error?: string }> {
+  const denied = checkPermission("user.manage", badgeId);
+  if (denied) return { success: false, error: denied };
+
+  if (!isValidPin(pin)) {
+    return { success: false, error: "PIN must be 4–8 digits" };
+  }
+
+  try {
+    const pinHash = await hashPassword(pin);
+    const users = getUsers();
+    const user = users.find((u) => u.badgeId === badgeId);
+    if (!user) {
+      return { success: false, error: `User not found: ${badgeId}` };
+    }
+    user.pinHash = pinHash;
+    saveUsers(users);
+    return { success: true };
+  } catch (error) {
+    console.error("Error setting PIN:", error);
+    return { success: false, error: "Failed to set PIN" };
+  }
+}
+
+/**
+ * Enroll a user's authenticator app with a base32 secret
+ */
+export function setUserTotpSecret(
+  badgeId: string,
+  secret: string,
+): { success: boolean; error?: string } {
+  const denied = checkPermission("user.manage", badgeId);
+  if (denied) return { success: false, error: denied };
+
+  if (!/^[A-Z2-7]{16,}$/.test(secret)) {
+    return { success: false, error: "Authenticator secret is not valid" };
+  }
+
+  const users = getUsers();
+  const user = users.find((u) => u.badgeId === badgeId);
+  if (!user) {
+    return { success: false, error: `User not found: ${badgeId}` };
+  }
+  storeTotpSecret(badgeId, secret);
+  return { success: true };
+}
+
+/**
+ * Replace the equipment types a user is certified to operate
+ */
+export function setUserCertifications(
+  badgeId: string,
+  typeCodes: string[],
+): { success: boolean; error?: string } {
+  const denied = checkPermission("user.manage", badgeId);
+  if (denied) return { success: false, error: denied };
+
+  const users = getUsers();
+  const user = users.find((u) => u.badgeId === badgeId);
+  if (!user) {
+    return { success: false, error: `User not found: ${badgeId}` };
+  }
+  user.certifications = [...new Set(typeCodes)].sort();
+  saveUsers(users);
+  return { success: true };
+}
+
+/**
+ * Check whether an operator (badge ID) is certified on an equipment type
+ */
+export function isCertifiedFor(badgeId: string, typeCode: string): boolean {
+  const user = lookupUserByBadge(badgeId);
+  return !!user?.certifications?.includes(typeCode);
+}
+
+/**
+ * Remove a user's PIN and authenticator enrollment
+ */
+export function clearSecondFactor(badgeId: string): {
+  success: boolean;
+  error?: string;
+} {
+  const denied = checkPermission("user.manage", badgeId);
+  if (denied) return { success: false, error: denied };
+
+  const users = getUsers();
+  const user = users.find((u) => u.badgeId === badgeId);
+  if (!user) {
+    return { success: false, error: `User not found: ${badgeId}` };
+  }
+  user.pinHash = undefined;
+  saveUsers(users);
+  storeTotpSecret(badgeId, null);
+  return { success: true };
+}
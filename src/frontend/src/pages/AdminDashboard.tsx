@@ -1,6 +1,22 @@
-import { AlertCircle, Loader2, Search, Settings } from "lucide-react";
+import {
+  AlertCircle,
+  BarChart3,
+  Building2,
+  Clock,
+  Download,
+  Loader2,
+  MapPin,
+  Monitor,
+  QrCode,
+  RefreshCw,
+  Search,
+  Settings,
+  Users,
+  Wrench,
+} from "lucide-react";
 import { useEffect, useState } from "react";
 import { toast } from "sonner";
+import ExportRecordsDialog from "../components/ExportRecordsDialog";
 import { Alert, AlertDescription } from "../components/ui/alert";
 import { Badge } from "../components/ui/badge";
 import { Button } from "../components/ui/button";
@@ -36,43 +52,110 @@ import {
   TableRow,
 } from "../components/ui/table";
 import { useAuth } from "../contexts/AuthContext";
+import { useActiveStation } from "../hooks/useActiveStation";
+import { useEventHistory } from "../hooks/useEventHistory";
 import {
   useGetAllActivityLogs,
   useGetAllAssignments,
   useGetAllEquipment,
   useUpdateEquipment,
 } from "../hooks/useQueries";
-import {
-  type ScanEvent,
-  getEventsByEquipment,
-  getEventsByUser,
-  loadAuditEvents,
-} from "../lib/auditLog";
+import { type ScanEvent, getEventsByStation } from "../lib/auditLog";
 import { ensureUserContext } from "../lib/ensureUserContext";
+import type { EquipmentEvent } from "../lib/equipmentHistory";
 import {
   type EquipmentRecord,
+  type EquipmentStatus,
   getEquipmentCounts,
-  getAllEquipment as getLocalEquipment,
-  updateEquipment as updateLocalEquipment,
+  getStationEquipment as getLocalEquipment,
+  isInService,
+  updateEquipmentStatus,
 } from "../lib/equipmentRegistry";
+import { formatEquipmentType } from "../lib/equipmentTypeCatalog";
+import {
+  formatMinutes,
+  getOverdueMinutes,
+  isOverdue,
+} from "../lib/overdueCheckouts";
+import { getPermissionDenials, hasPermission } from "../lib/permissions";
+import { getStation, getUserStations } from "../lib/stationStore";
 
 interface AdminDashboardProps {
   onBack: () => void;
   onManageEquipment: () => void;
+  onReconciliation: () => void;
+  onIssueBoard: () => void;
+  onGeofences: () => void;
+  onStations: () => void;
+  onLabels: () => void;
+  onUsers: () => void;
+  onRampControl: () => void;
+  onAnalytics: () => void;
+  // Open the full detail view of a unit
+  onOpenEquipment: (id: string) => void;
 }
 
-// Helper to format equipment type for display
-const formatEquipmentType = (type: string): string => {
-  if (type === "ELECTRIC_TUG") return "ELECTRIC TUG";
-  if (type === "TUG") return "TUG";
-  return type.replace("_", " ");
+// Helper to render an event store event type as a badge
+const renderEventTypeBadge = (eventType: EquipmentEvent["eventType"]) => {
+  switch (eventType) {
+    case "CHECK_OUT":
+      return <Badge variant="secondary">Check-Out</Badge>;
+    case "CHECK_IN":
+      return <Badge variant="default">Check-In</Badge>;
+    case "REPORT_ISSUE":
+      return <Badge variant="destructive">Issue</Badge>;
+    case "RELEASE":
+      return <Badge variant="outline">Release</Badge>;
+  }
+};
+
+// Helper to format an event's GPS fix
+const renderEventGps = (
+  event: Pick<
+    EquipmentEvent,
+    "lat" | "lng" | "accuracyMeters" | "locationSource"
+  >,
+) => {
+  const manual = event.locationSource === "manual" && (
+    <Badge variant="outline" className="mr-1">
+      Manual
+    </Badge>
+  );
+  if (event.lat === undefined || event.lng === undefined) {
+    return manual || "—";
+  }
+  return (
+    <>
+      {manual}
+      {event.lat.toFixed(6)}, {event.lng.toFixed(6)}
+      {event.accuracyMeters !== undefined && (
+        <>
+          <br />
+          <span className="text-xs">±{event.accuracyMeters.toFixed(0)}m</span>
+        </>
+      )}
+    </>
+  );
 };
 
 export default function AdminDashboard({
   onBack,
   onManageEquipment,
+  onReconciliation,
+  onIssueBoard,
+  onGeofences,
+  onStations,
+  onLabels,
+  onUsers,
+  onRampControl,
+  onAnalytics,
+  onOpenEquipment,
 }: AdminDashboardProps) {
-  const { isRefreshing } = useAuth();
+  const { auth, isRefreshing } = useAuth();
+  const { stationCode, station, switchStation } = useActiveStation();
+  const userStations = auth
+    ? getUserStations(auth.badgeId || auth.user, auth.role)
+    : [stationCode];
   const {
     data: _equipment = [],
     isLoading: equipmentLoading,
@@ -87,20 +170,32 @@ export default function AdminDashboard({
   const [filterOperator, setFilterOperator] = useState<string>("all");
   const [filterEquipmentId, setFilterEquipmentId] = useState<string>("");
   const [filterStatus, setFilterStatus] = useState<string>("all");
-  const [selectedEquipment, setSelectedEquipment] =
-    useState<EquipmentRecord | null>(null);
   const [isUpdating, setIsUpdating] = useState(false);
 
   // Audit log state
   const [auditEvents, setAuditEvents] = useState<ScanEvent[]>([]);
   const [auditSearchEquipment, setAuditSearchEquipment] = useState("");
   const [auditSearchUser, setAuditSearchUser] = useState("");
+  const [showExport, setShowExport] = useState(false);
   const [selectedAuditEquipment, setSelectedAuditEquipment] = useState<
     string | null
   >(null);
   const [selectedAuditUser, setSelectedAuditUser] = useState<string | null>(
     null,
   );
+  const [permissionDenials] = useState(() => getPermissionDenials());
+
+  // Drill-down history from the persistent event store
+  const equipmentHistory = useEventHistory(
+    selectedAuditEquipment
+      ? { stationCode, equipmentId: selectedAuditEquipment }
+      : null,
+    50,
+  );
+  const userHistory = useEventHistory(
+    selectedAuditUser ? { stationCode, operator: selectedAuditUser } : null,
+    50,
+  );
 
   // Local equipment registry counts
   const [localCounts, setLocalCounts] = useState({
@@ -114,28 +209,29 @@ export default function AdminDashboard({
   >([]);
 
   useEffect(() => {
-    // Update local equipment counts and list
-    setLocalCounts(getEquipmentCounts());
-    setLocalEquipmentList(getLocalEquipment());
+    // Update local equipment counts and list for the active station
+    setLocalCounts(getEquipmentCounts(stationCode));
+    setLocalEquipmentList(getLocalEquipment(stationCode));
 
     // Load audit events
-    setAuditEvents(loadAuditEvents());
-  }, []);
+    setAuditEvents(getEventsByStation(stationCode));
+  }, [stationCode]);
 
   // Refresh local counts and audit events periodically
   useEffect(() => {
     const interval = setInterval(() => {
-      setLocalCounts(getEquipmentCounts());
-      setLocalEquipmentList(getLocalEquipment());
-      setAuditEvents(loadAuditEvents());
+      setLocalCounts(getEquipmentCounts(stationCode));
+      setLocalEquipmentList(getLocalEquipment(stationCode));
+      setAuditEvents(getEventsByStation(stationCode));
     }, 2000);
     return () => clearInterval(interval);
-  }, []);
+  }, [stationCode]);
 
   const totalEquipment = localCounts.total;
   const availableCount = localCounts.available;
   const assignedCount = localCounts.assigned;
   const maintenanceCount = localCounts.maintenance;
+  const overdueCount = localEquipmentList.filter((e) => isOverdue(e)).length;
 
   const recentActivity = activityLogs
     .sort((a, b) => Number(b.timestamp - a.timestamp))
@@ -157,35 +253,36 @@ export default function AdminDashboard({
       !item.id.toLowerCase().includes(filterEquipmentId.toLowerCase())
     )
       return false;
-    if (filterStatus !== "all" && item.status !== filterStatus.toUpperCase())
-      return false;
+    if (filterStatus === "overdue") return isOverdue(item);
+    // Out-of-service and retired units only show when asked for
+    if (filterStatus === "all") return isInService(item);
+    if (item.status !== filterStatus.toUpperCase()) return false;
     return true;
   });
 
   // Filter audit events
-  const filteredAuditEvents = auditEvents
-    .filter((event) => {
+  const matchingAuditEvents = auditEvents.filter((event) => {
+    if (
+      auditSearchEquipment &&
+      !event.equipmentId
+        .toLowerCase()
+        .includes(auditSearchEquipment.toLowerCase())
+    ) {
+      return false;
+    }
+    if (auditSearchUser) {
+      const searchLower = auditSearchUser.toLowerCase();
       if (
-        auditSearchEquipment &&
-        !event.equipmentId
-          .toLowerCase()
-          .includes(auditSearchEquipment.toLowerCase())
+        !event.user.badge.toLowerCase().includes(searchLower) &&
+        !event.user.username.toLowerCase().includes(searchLower) &&
+        !event.user.displayName.toLowerCase().includes(searchLower)
       ) {
         return false;
       }
-      if (auditSearchUser) {
-        const searchLower = auditSearchUser.toLowerCase();
-        if (
-          !event.user.badge.toLowerCase().includes(searchLower) &&
-          !event.user.username.toLowerCase().includes(searchLower) &&
-          !event.user.displayName.toLowerCase().includes(searchLower)
-        ) {
-          return false;
-        }
-      }
-      return true;
-    })
-    .slice(0, 25);
+    }
+    return true;
+  });
+  const filteredAuditEvents = matchingAuditEvents.slice(0, 25);
 
   // Handle tile click to filter by status
   const handleTileClick = async (status: string) => {
@@ -221,10 +318,12 @@ export default function AdminDashboard({
 
     setIsUpdating(true);
     try {
-      // Update local registry
-      const result = updateLocalEquipment(equipmentId, {
-        status: newStatus as any,
-      });
+      // Update local registry through the equipment state machine
+      const result = updateEquipmentStatus(
+        equipmentId,
+        newStatus as EquipmentStatus,
+        auth?.badgeId || auth?.user,
+      );
 
       if (!result.success) {
         throw new Error(result.error || "Failed to update equipment");
@@ -237,7 +336,9 @@ export default function AdminDashboard({
       toast.success("Equipment updated successfully");
     } catch (error) {
       console.error("Failed to update equipment:", error);
-      toast.error("Failed to update equipment");
+      toast.error(
+        error instanceof Error ? error.message : "Failed to update equipment",
+      );
     } finally {
       setIsUpdating(false);
     }
@@ -266,7 +367,8 @@ export default function AdminDashboard({
                     Ramp Track Admin
                   </h1>
                   <p className="text-sm text-muted-foreground">
-                    Equipment Management Dashboard
+                    Equipment Management Dashboard ·{" "}
+                    {station?.name ?? stationCode}
                   </p>
                 </div>
               </div>
@@ -283,6 +385,58 @@ export default function AdminDashboard({
                   </p>
                   <p className="text-xs text-muted-foreground">Administrator</p>
                 </div>
+                {userStations.length > 1 && (
+                  <Select value={stationCode} onValueChange={switchStation}>
+                    <SelectTrigger className="w-44">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {userStations.map((code) => (
+                        <SelectItem key={code} value={code}>
+                          {code} · {getStation(code)?.name ?? code}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+                {hasPermission(auth?.role, "user.manage") && (
+                  <Button variant="outline" onClick={onUsers}>
+                    <Users className="mr-2 h-4 w-4" />
+                    Users
+                  </Button>
+                )}
+                {hasPermission(auth?.role, "station.manage") && (
+                  <Button variant="outline" onClick={onStations}>
+                    <Building2 className="mr-2 h-4 w-4" />
+                    Stations
+                  </Button>
+                )}
+                {hasPermission(auth?.role, "equipment.edit") && (
+                  <Button variant="outline" onClick={onLabels}>
+                    <QrCode className="mr-2 h-4 w-4" />
+                    Labels
+                  </Button>
+                )}
+                <Button variant="outline" onClick={onRampControl}>
+                  <Monitor className="mr-2 h-4 w-4" />
+                  Ramp Control
+                </Button>
+                <Button variant="outline" onClick={onAnalytics}>
+                  <BarChart3 className="mr-2 h-4 w-4" />
+                  Analytics
+                </Button>
+                <Button variant="outline" onClick={onGeofences}>
+                  <MapPin className="mr-2 h-4 w-4" />
+                  Geofences
+                </Button>
+                <Button variant="outline" onClick={onIssueBoard}>
+                  <Wrench className="mr-2 h-4 w-4" />
+                  Issue Board
+                </Button>
+                <Button variant="outline" onClick={onReconciliation}>
+                  <RefreshCw className="mr-2 h-4 w-4" />
+                  Sync Status
+                </Button>
                 <Button variant="outline" onClick={onBack}>
                   <span className="mr-2">←</span>
                   Back to Sign On
@@ -310,7 +464,7 @@ export default function AdminDashboard({
             </Alert>
           )}
 
-          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-6 gap-4">
             <Card
               className="border shadow-2xl cursor-pointer hover:scale-105 transition-transform"
               style={{
@@ -435,6 +589,38 @@ export default function AdminDashboard({
               </CardContent>
             </Card>
 
+            <Card
+              className="border shadow-2xl cursor-pointer hover:scale-105 transition-transform"
+              style={{
+                background: "rgba(15, 23, 42, 0.92)",
+                borderColor:
+                  overdueCount > 0 ? "#fbbf24" : "rgba(255,255,255,0.18)",
+                borderRadius: "16px",
+                boxShadow: "0 16px 40px rgba(0,0,0,0.45)",
+              }}
+              onClick={() => handleTileClick("overdue")}
+            >
+              <CardHeader className="pb-2">
+                <CardTitle
+                  className="text-sm font-medium"
+                  style={{ color: "#cbd5f5" }}
+                >
+                  Overdue
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="flex items-center gap-2">
+                  <Clock className="h-6 w-6" style={{ color: "#fbbf24" }} />
+                  <p
+                    className="text-3xl font-bold"
+                    style={{ color: "#ffffff" }}
+                  >
+                    {overdueCount}
+                  </p>
+                </div>
+              </CardContent>
+            </Card>
+
             <Card
               className="border shadow-2xl cursor-pointer hover:scale-105 transition-transform"
               style={{
@@ -480,10 +666,22 @@ export default function AdminDashboard({
             }}
           >
             <CardHeader>
-              <CardTitle style={{ color: "#ffffff" }}>Scan History</CardTitle>
-              <CardDescription style={{ color: "#cbd5f5" }}>
-                Recent equipment check-in/check-out activity
-              </CardDescription>
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <CardTitle style={{ color: "#ffffff" }}>
+                    Scan History
+                  </CardTitle>
+                  <CardDescription style={{ color: "#cbd5f5" }}>
+                    Recent equipment check-in/check-out activity
+                  </CardDescription>
+                </div>
+                {hasPermission(auth?.role, "audit.view") && (
+                  <Button variant="outline" onClick={() => setShowExport(true)}>
+                    <Download className="mr-2 h-4 w-4" />
+                    Export
+                  </Button>
+                )}
+              </div>
             </CardHeader>
             <CardContent className="space-y-4">
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -594,11 +792,7 @@ export default function AdminDashboard({
                           <TableCell
                             style={{ color: "#cbd5f5", fontSize: "0.75rem" }}
                           >
-                            {event.lat.toFixed(6)}, {event.lng.toFixed(6)}
-                            <br />
-                            <span className="text-xs">
-                              ±{event.accuracyMeters.toFixed(0)}m
-                            </span>
+                            {renderEventGps(event)}
                           </TableCell>
                         </TableRow>
                       ))}
@@ -606,9 +800,24 @@ export default function AdminDashboard({
                   </Table>
                 </div>
               )}
+              {matchingAuditEvents.length > filteredAuditEvents.length && (
+                <p className="text-xs" style={{ color: "#cbd5f5" }}>
+                  Showing {filteredAuditEvents.length} of{" "}
+                  {matchingAuditEvents.length} matching scans. Export for the
+                  full list.
+                </p>
+              )}
             </CardContent>
           </Card>
 
+          {showExport && (
+            <ExportRecordsDialog
+              onClose={() => setShowExport(false)}
+              equipmentId={auditSearchEquipment}
+              user={auditSearchUser}
+            />
+          )}
+
           <Card
             className="border shadow-2xl"
             style={{
@@ -671,6 +880,11 @@ export default function AdminDashboard({
                       <SelectItem value="available">Available</SelectItem>
                       <SelectItem value="assigned">Assigned</SelectItem>
                       <SelectItem value="maintenance">Maintenance</SelectItem>
+                      <SelectItem value="overdue">Overdue</SelectItem>
+                      <SelectItem value="out_of_service">
+                        Out of Service
+                      </SelectItem>
+                      <SelectItem value="retired">Retired</SelectItem>
                     </SelectContent>
                   </Select>
                 </div>
@@ -685,57 +899,77 @@ export default function AdminDashboard({
                 </div>
               ) : (
                 <div className="space-y-3">
-                  {filteredEquipment.map((item) => (
-                    <button
-                      key={item.id}
-                      type="button"
-                      className="w-full text-left flex items-center justify-between p-4 rounded-lg border cursor-pointer hover:bg-white/5 transition-colors"
-                      style={{
-                        background: "rgba(30, 41, 59, 0.5)",
-                        borderColor: "rgba(255,255,255,0.1)",
-                      }}
-                      onClick={() => setSelectedEquipment(item)}
-                    >
-                      <div className="flex-1">
-                        <p
-                          className="font-semibold"
-                          style={{ color: "#ffffff" }}
-                        >
-                          {item.id}
-                        </p>
-                        <p className="text-sm" style={{ color: "#cbd5f5" }}>
-                          ID: {item.id}
-                        </p>
-                        <p className="text-sm" style={{ color: "#cbd5f5" }}>
-                          Type: {formatEquipmentType(item.type)}
-                        </p>
-                        {item.lastOperator && (
-                          <p className="text-sm" style={{ color: "#cbd5f5" }}>
-                            Operator: {item.lastOperator}
-                          </p>
-                        )}
-                        {item.location && (
+                  {filteredEquipment.map((item) => {
+                    const overdueMinutes = getOverdueMinutes(item);
+                    return (
+                      <button
+                        key={item.id}
+                        type="button"
+                        className="w-full text-left flex items-center justify-between p-4 rounded-lg border cursor-pointer hover:bg-white/5 transition-colors"
+                        style={{
+                          background:
+                            overdueMinutes !== null
+                              ? "rgba(251, 191, 36, 0.12)"
+                              : "rgba(30, 41, 59, 0.5)",
+                          borderColor:
+                            overdueMinutes !== null
+                              ? "#fbbf24"
+                              : "rgba(255,255,255,0.1)",
+                        }}
+                        onClick={() => onOpenEquipment(item.id)}
+                      >
+                        <div className="flex-1">
                           <p
-                            className="text-xs mt-1"
-                            style={{ color: "#cbd5f5" }}
+                            className="font-semibold"
+                            style={{ color: "#ffffff" }}
                           >
-                            Location: {item.location}
+                            {item.id}
                           </p>
-                        )}
-                      </div>
-                      <Badge
-                        variant={
-                          item.status === "AVAILABLE"
-                            ? "default"
-                            : item.status === "ASSIGNED"
-                              ? "secondary"
-                              : "destructive"
-                        }
-                      >
-                        {item.status}
-                      </Badge>
-                    </button>
-                  ))}
+                          <p className="text-sm" style={{ color: "#cbd5f5" }}>
+                            ID: {item.id}
+                          </p>
+                          <p className="text-sm" style={{ color: "#cbd5f5" }}>
+                            Type: {formatEquipmentType(item.type)}
+                          </p>
+                          {item.lastOperator && (
+                            <p className="text-sm" style={{ color: "#cbd5f5" }}>
+                              Operator: {item.lastOperator}
+                            </p>
+                          )}
+                          {item.location && (
+                            <p
+                              className="text-xs mt-1"
+                              style={{ color: "#cbd5f5" }}
+                            >
+                              Location: {item.location}
+                            </p>
+                          )}
+                          {overdueMinutes !== null && (
+                            <p
+                              className="text-sm font-medium mt-1 flex items-center gap-1"
+                              style={{ color: "#fbbf24" }}
+                            >
+                              <Clock className="h-4 w-4" />
+                              Overdue by {formatMinutes(overdueMinutes)}
+                            </p>
+                          )}
+                        </div>
+                        <Badge
+                          variant={
+                            item.status === "AVAILABLE"
+                              ? "default"
+                              : item.status === "ASSIGNED"
+                                ? "secondary"
+                                : isInService(item)
+                                  ? "destructive"
+                                  : "outline"
+                          }
+                        >
+                          {item.status}
+                        </Badge>
+                      </button>
+                    );
+                  })}
                 </div>
               )}
             </CardContent>
@@ -820,6 +1054,70 @@ export default function AdminDashboard({
               )}
             </CardContent>
           </Card>
+
+          {hasPermission(auth?.role, "audit.view") &&
+            permissionDenials.length > 0 && (
+              <Card
+                className="border shadow-2xl"
+                style={{
+                  background: "rgba(15, 23, 42, 0.92)",
+                  borderColor: "rgba(255,255,255,0.18)",
+                  borderRadius: "16px",
+                  boxShadow: "0 16px 40px rgba(0,0,0,0.45)",
+                }}
+              >
+                <CardHeader>
+                  <CardTitle style={{ color: "#ffffff" }}>
+                    Denied Access Attempts
+                  </CardTitle>
+                  <CardDescription style={{ color: "#cbd5f5" }}>
+                    Screens and actions refused by the permission matrix
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <Table>
+                    <TableHeader>
+                      <TableRow
+                        style={{ borderColor: "rgba(255,255,255,0.1)" }}
+                      >
+                        <TableHead style={{ color: "#cbd5f5" }}>Time</TableHead>
+                        <TableHead style={{ color: "#cbd5f5" }}>User</TableHead>
+                        <TableHead style={{ color: "#cbd5f5" }}>
+                          Permission
+                        </TableHead>
+                        <TableHead style={{ color: "#cbd5f5" }}>
+                          Target
+                        </TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {permissionDenials.slice(0, 20).map((denial) => (
+                        <TableRow
+                          key={denial.id}
+                          style={{ borderColor: "rgba(255,255,255,0.1)" }}
+                        >
+                          <TableCell style={{ color: "#ffffff" }}>
+                            {new Date(denial.timestamp).toLocaleString()}
+                          </TableCell>
+                          <TableCell style={{ color: "#ffffff" }}>
+                            {denial.user}{" "}
+                            <span style={{ color: "#cbd5f5" }}>
+                              ({denial.role})
+                            </span>
+                          </TableCell>
+                          <TableCell style={{ color: "#fbbf24" }}>
+                            {denial.permission}
+                          </TableCell>
+                          <TableCell style={{ color: "#cbd5f5" }}>
+                            {denial.target || "—"}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </Card>
+            )}
         </main>
 
         <footer className="py-6 text-center text-sm text-white/90 drop-shadow-lg">
@@ -827,158 +1125,6 @@ export default function AdminDashboard({
         </footer>
       </div>
 
-      {/* Equipment Detail Dialog */}
-      {selectedEquipment && (
-        <Dialog
-          open={!!selectedEquipment}
-          onOpenChange={() => setSelectedEquipment(null)}
-        >
-          <DialogContent
-            className="max-w-2xl max-h-[80vh] overflow-y-auto"
-            style={{
-              background: "rgba(15, 23, 42, 0.98)",
-              borderColor: "rgba(255,255,255,0.18)",
-            }}
-          >
-            <DialogHeader>
-              <DialogTitle style={{ color: "#ffffff" }}>
-                Equipment Details
-              </DialogTitle>
-              <DialogDescription style={{ color: "#cbd5f5" }}>
-                Detailed information for {selectedEquipment.id}
-              </DialogDescription>
-            </DialogHeader>
-            <div className="space-y-4">
-              <div>
-                <Label style={{ color: "#cbd5f5" }}>Name</Label>
-                <p
-                  className="text-lg font-semibold"
-                  style={{ color: "#ffffff" }}
-                >
-                  {selectedEquipment.id}
-                </p>
-              </div>
-              <div>
-                <Label style={{ color: "#cbd5f5" }}>ID</Label>
-                <p style={{ color: "#ffffff" }}>{selectedEquipment.id}</p>
-              </div>
-              <div>
-                <Label style={{ color: "#cbd5f5" }}>Type</Label>
-                <p style={{ color: "#ffffff" }}>
-                  {formatEquipmentType(selectedEquipment.type)}
-                </p>
-              </div>
-              <div>
-                <Label style={{ color: "#cbd5f5" }}>Status</Label>
-                <div className="mt-1">
-                  <Badge
-                    variant={
-                      selectedEquipment.status === "AVAILABLE"
-                        ? "default"
-                        : selectedEquipment.status === "ASSIGNED"
-                          ? "secondary"
-                          : "destructive"
-                    }
-                  >
-                    {selectedEquipment.status}
-                  </Badge>
-                </div>
-              </div>
-              {selectedEquipment.lastOperator && (
-                <div>
-                  <Label style={{ color: "#cbd5f5" }}>Last Operator</Label>
-                  <p style={{ color: "#ffffff" }}>
-                    {selectedEquipment.lastOperator}
-                  </p>
-                </div>
-              )}
-              {selectedEquipment.checkoutTime && (
-                <div>
-                  <Label style={{ color: "#cbd5f5" }}>Checkout Time</Label>
-                  <p style={{ color: "#ffffff" }}>
-                    {new Date(selectedEquipment.checkoutTime).toLocaleString()}
-                  </p>
-                </div>
-              )}
-              {selectedEquipment.returnTime && (
-                <div>
-                  <Label style={{ color: "#cbd5f5" }}>Return Time</Label>
-                  <p style={{ color: "#ffffff" }}>
-                    {new Date(selectedEquipment.returnTime).toLocaleString()}
-                  </p>
-                </div>
-              )}
-              {selectedEquipment.location && (
-                <div>
-                  <Label style={{ color: "#cbd5f5" }}>Location</Label>
-                  <p style={{ color: "#ffffff" }}>
-                    {selectedEquipment.location}
-                  </p>
-                </div>
-              )}
-              {selectedEquipment.maintenanceNotes && (
-                <div>
-                  <Label style={{ color: "#cbd5f5" }}>Maintenance Notes</Label>
-                  <p style={{ color: "#ffffff" }}>
-                    {selectedEquipment.maintenanceNotes}
-                  </p>
-                </div>
-              )}
-              <div>
-                <Label style={{ color: "#cbd5f5" }}>History</Label>
-                {selectedEquipment.history &&
-                selectedEquipment.history.length > 0 ? (
-                  <div className="mt-2 space-y-2 max-h-64 overflow-y-auto">
-                    {selectedEquipment.history
-                      .slice()
-                      .reverse()
-                      .map((entry, idx) => (
-                        <div
-                          key={`${entry.action}-${entry.timestamp ?? idx}`}
-                          className="p-2 rounded border"
-                          style={{
-                            background: "rgba(30, 41, 59, 0.5)",
-                            borderColor: "rgba(255,255,255,0.1)",
-                          }}
-                        >
-                          <p
-                            className="text-sm font-medium"
-                            style={{ color: "#ffffff" }}
-                          >
-                            {entry.action}
-                          </p>
-                          {entry.operator && (
-                            <p className="text-xs" style={{ color: "#cbd5f5" }}>
-                              Operator: {entry.operator}
-                            </p>
-                          )}
-                          {entry.location && (
-                            <p className="text-xs" style={{ color: "#cbd5f5" }}>
-                              Location: {entry.location}
-                            </p>
-                          )}
-                          {entry.notes && (
-                            <p className="text-xs" style={{ color: "#cbd5f5" }}>
-                              Notes: {entry.notes}
-                            </p>
-                          )}
-                          <p className="text-xs" style={{ color: "#cbd5f5" }}>
-                            {new Date(entry.timestamp).toLocaleString()}
-                          </p>
-                        </div>
-                      ))}
-                  </div>
-                ) : (
-                  <p className="text-sm mt-2" style={{ color: "#cbd5f5" }}>
-                    No history available
-                  </p>
-                )}
-              </div>
-            </div>
-          </DialogContent>
-        </Dialog>
-      )}
-
       {/* Equipment History Drill-Down Dialog */}
       {selectedAuditEquipment && (
         <Dialog
@@ -997,7 +1143,7 @@ export default function AdminDashboard({
                 Equipment History
               </DialogTitle>
               <DialogDescription style={{ color: "#cbd5f5" }}>
-                All scan events for {selectedAuditEquipment}
+                All recorded events for {selectedAuditEquipment}
               </DialogDescription>
             </DialogHeader>
             <div
@@ -1015,7 +1161,7 @@ export default function AdminDashboard({
                   </TableRow>
                 </TableHeader>
                 <TableBody>
-                  {getEventsByEquipment(selectedAuditEquipment).map((event) => (
+                  {equipmentHistory.events.map((event) => (
                     <TableRow
                       key={event.id}
                       style={{ borderColor: "rgba(255,255,255,0.1)" }}
@@ -1024,38 +1170,35 @@ export default function AdminDashboard({
                         {new Date(event.timestamp).toLocaleString()}
                       </TableCell>
                       <TableCell style={{ color: "#ffffff" }}>
-                        {event.user.displayName}
+                        {event.operatorName || event.operator}
                       </TableCell>
                       <TableCell>
-                        <Badge
-                          variant={
-                            event.action === "checkout"
-                              ? "secondary"
-                              : "default"
-                          }
-                        >
-                          {event.action === "checkout"
-                            ? "Check-Out"
-                            : "Check-In"}
-                        </Badge>
+                        {renderEventTypeBadge(event.eventType)}
                       </TableCell>
                       <TableCell style={{ color: "#ffffff" }}>
-                        {event.locationLabel}
+                        {event.location || "—"}
                       </TableCell>
                       <TableCell
                         style={{ color: "#cbd5f5", fontSize: "0.75rem" }}
                       >
-                        {event.lat.toFixed(6)}, {event.lng.toFixed(6)}
-                        <br />
-                        <span className="text-xs">
-                          ±{event.accuracyMeters.toFixed(0)}m
-                        </span>
+                        {renderEventGps(event)}
                       </TableCell>
                     </TableRow>
                   ))}
                 </TableBody>
               </Table>
             </div>
+            {equipmentHistory.hasMore && (
+              <Button
+                variant="outline"
+                onClick={equipmentHistory.loadMore}
+                disabled={equipmentHistory.isLoading}
+              >
+                {equipmentHistory.isLoading
+                  ? "Loading..."
+                  : "Load older events"}
+              </Button>
+            )}
           </DialogContent>
         </Dialog>
       )}
@@ -1078,7 +1221,7 @@ export default function AdminDashboard({
                 User History
               </DialogTitle>
               <DialogDescription style={{ color: "#cbd5f5" }}>
-                All scan events for user {selectedAuditUser}
+                All recorded events for user {selectedAuditUser}
               </DialogDescription>
             </DialogHeader>
             <div
@@ -1098,7 +1241,7 @@ export default function AdminDashboard({
                   </TableRow>
                 </TableHeader>
                 <TableBody>
-                  {getEventsByUser(selectedAuditUser).map((event) => (
+                  {userHistory.events.map((event) => (
                     <TableRow
                       key={event.id}
                       style={{ borderColor: "rgba(255,255,255,0.1)" }}
@@ -1107,38 +1250,33 @@ export default function AdminDashboard({
                         {new Date(event.timestamp).toLocaleString()}
                       </TableCell>
                       <TableCell>
-                        <Badge
-                          variant={
-                            event.action === "checkout"
-                              ? "secondary"
-                              : "default"
-                          }
-                        >
-                          {event.action === "checkout"
-                            ? "Check-Out"
-                            : "Check-In"}
-                        </Badge>
+                        {renderEventTypeBadge(event.eventType)}
                       </TableCell>
                       <TableCell style={{ color: "#ffffff" }}>
                         {event.equipmentId}
                       </TableCell>
                       <TableCell style={{ color: "#ffffff" }}>
-                        {event.locationLabel}
+                        {event.location || "—"}
                       </TableCell>
                       <TableCell
                         style={{ color: "#cbd5f5", fontSize: "0.75rem" }}
                       >
-                        {event.lat.toFixed(6)}, {event.lng.toFixed(6)}
-                        <br />
-                        <span className="text-xs">
-                          ±{event.accuracyMeters.toFixed(0)}m
-                        </span>
+                        {renderEventGps(event)}
                       </TableCell>
                     </TableRow>
                   ))}
                 </TableBody>
               </Table>
             </div>
+            {userHistory.hasMore && (
+              <Button
+                variant="outline"
+                onClick={userHistory.loadMore}
+                disabled={userHistory.isLoading}
+              >
+                {userHistory.isLoading ? "Loading..." : "Load older events"}
+              </Button>
+            )}
           </DialogContent>
         </Dialog>
       )}
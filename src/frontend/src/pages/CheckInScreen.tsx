@@ -10,8 +10,17 @@ import {
   CardHeader,
   CardTitle,
 } from "../components/ui/card";
+import { Input } from "../components/ui/input";
 import { Label } from "../components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "../components/ui/select";
 import { useAuth } from "../contexts/AuthContext";
+import { useLocationAcquisition } from "../hooks/useLocationAcquisition";
 import {
   useCreateAssignment,
   useGetCallerUserProfile,
@@ -20,7 +29,6 @@ import {
   useUpdateEquipment,
 } from "../hooks/useQueries";
 import { appendAuditEvent } from "../lib/auditLog";
-import { getAutoLocation } from "../lib/autoGateLocator";
 import { ensureUserContext } from "../lib/ensureUserContext";
 import { logEvent } from "../lib/equipmentHistory";
 import {
@@ -28,37 +36,47 @@ import {
   normalizeEquipmentId,
   updateEquipmentStatus,
 } from "../lib/equipmentRegistry";
+import {
+  type SupervisorOverride,
+  type TransitionError,
+  checkTransition,
+} from "../lib/equipmentStateMachine";
+import { formatEquipmentType } from "../lib/equipmentTypeCatalog";
+import { ZONE_TYPE_LABELS, getStationZones } from "../lib/geofenceStore";
+import { hasPermission } from "../lib/permissions";
+import { getActiveStationCode, stationOf } from "../lib/stationStore";
 
 interface CheckInScreenProps {
   onBack: () => void;
 }
 
-// Helper to format equipment type for display
-const formatEquipmentType = (type: string): string => {
-  if (type === "ELECTRIC_TUG") return "ELECTRIC TUG";
-  if (type === "TUG") return "TUG";
-  return type.replace("_", " ");
-};
-
 export default function CheckInScreen({ onBack }: CheckInScreenProps) {
   const [showScanner, setShowScanner] = useState(false);
   const [step, setStep] = useState<"input" | "confirm" | "success">("input");
   const [equipmentId, setEquipmentId] = useState("");
   const [_rawScanValue, setRawScanValue] = useState("");
-  const [locationLabel, setLocationLabel] = useState<string>("");
-  const [gpsData, setGpsData] = useState<{
-    lat: number;
-    lng: number;
-    accuracy: number;
-  } | null>(null);
-  const [gpsLoading, setGpsLoading] = useState(false);
+  const [manualZoneId, setManualZoneId] = useState("");
   const [error, setError] = useState<string>("");
   const [isValidatingSession, setIsValidatingSession] = useState(false);
+  const [transitionError, setTransitionError] =
+    useState<TransitionError | null>(null);
+  const [overrideReason, setOverrideReason] = useState("");
+  const [override, setOverride] = useState<SupervisorOverride | null>(null);
 
   // PARENT ISOLATION: Prevent scanner re-mount by freezing visibility with ref
   const scannerMountedRef = useRef(false);
 
   const { auth } = useAuth();
+  const {
+    location,
+    progress: locationProgress,
+    isAcquiring: gpsLoading,
+    error: locationError,
+    start: captureGPS,
+    selectManual: selectManualLocation,
+    reset: resetLocation,
+  } = useLocationAcquisition();
+  const locationLabel = location?.label ?? "";
   useGetCallerUserProfile();
   const { data: equipment } = useGetEquipment(equipmentId);
   const createAssignment = useCreateAssignment();
@@ -66,35 +84,65 @@ export default function CheckInScreen({ onBack }: CheckInScreenProps) {
   const logActivity = useLogActivity();
 
   // PARENT ISOLATION: Memoized callbacks with stable references
-  const handleScan = useCallback((scannedId: string) => {
-    scannerMountedRef.current = false;
-    setShowScanner(false);
+  const handleScan = useCallback(
+    (scannedId: string) => {
+      scannerMountedRef.current = false;
+      setShowScanner(false);
 
-    // Store raw scan value for error display
-    setRawScanValue(scannedId);
+      // Store raw scan value for error display
+      setRawScanValue(scannedId);
 
-    // Normalize the scanned ID
-    const normalizedId = normalizeEquipmentId(scannedId);
+      // Normalize the scanned ID
+      const normalizedId = normalizeEquipmentId(scannedId);
 
-    // Validate against local registry
-    const localEquipment = findById(normalizedId);
-    if (!localEquipment) {
-      setError(`Equipment not found: ${scannedId} → ${normalizedId}`);
-      return;
-    }
+      // Validate against local registry
+      const localEquipment = findById(normalizedId);
+      if (!localEquipment) {
+        setError(`Equipment not found: ${scannedId} → ${normalizedId}`);
+        return;
+      }
+      if (stationOf(localEquipment) !== getActiveStationCode()) {
+        setError(
+          `${normalizedId} belongs to station ${stationOf(localEquipment)}, not ${getActiveStationCode()}.`,
+        );
+        return;
+      }
 
-    // Validate status
-    if (localEquipment.status !== "ASSIGNED") {
-      setError(
-        `Equipment is currently ${localEquipment.status}. Only ASSIGNED equipment can be checked in.`,
+      // Validate the transition against the equipment state machine - only
+      // the operator who checked it out may return it
+      const rejected = checkTransition(
+        localEquipment,
+        "AVAILABLE",
+        auth?.badgeId || auth?.user,
       );
-      return;
-    }
+      if (rejected) {
+        setEquipmentId(normalizedId);
+        setTransitionError(rejected);
+        setError(rejected.message);
+        return;
+      }
 
-    setEquipmentId(normalizedId);
+      setEquipmentId(normalizedId);
+      setStep("confirm");
+      captureGPS();
+    },
+    [auth, captureGPS],
+  );
+
+  // Supervisor forces a return (or release) the state machine rejected
+  const handleOverride = () => {
+    if (!auth || !overrideReason.trim()) return;
+
+    setOverride({
+      supervisor: auth.badgeId || auth.user,
+      role: auth.role,
+      reason: overrideReason.trim(),
+    });
+    setTransitionError(null);
+    setError("");
     setStep("confirm");
     captureGPS();
-  }, []);
+  };
 
   const handleCloseScanner = useCallback(() => {
     scannerMountedRef.current = false;
@@ -108,41 +156,6 @@ export default function CheckInScreen({ onBack }: CheckInScreenProps) {
     }
   }, []);
 
-  const captureGPS = () => {
-    if ("geolocation" in navigator) {
-      setGpsLoading(true);
-      navigator.geolocation.getCurrentPosition(
-        (position) => {
-          const lat = position.coords.latitude;
-          const lng = position.coords.longitude;
-          const accuracy = position.coords.accuracy;
-
-          // Store GPS data for backend
-          setGpsData({ lat, lng, accuracy });
-
-          // Get automatic location label
-          const autoLabel = getAutoLocation(lat, lng);
-          setLocationLabel(autoLabel);
-          setGpsLoading(false);
-        },
-        (error) => {
-          console.error("GPS error:", error);
-          setError(
-            "Failed to capture GPS location. Please ensure location services are enabled.",
-          );
-          setGpsLoading(false);
-        },
-        {
-          enableHighAccuracy: true,
-          timeout: 10000,
-          maximumAge: 0,
-        },
-      );
-    } else {
-      setError("GPS is not available on this device.");
-    }
-  };
-
   const handleCheckIn = async () => {
     // DEFENSIVE GUARD: Check auth state at the top
     if (auth === null || !auth.badgeId) {
@@ -178,7 +191,7 @@ export default function CheckInScreen({ onBack }: CheckInScreenProps) {
         return;
       }
 
-      if (!gpsData || !locationLabel) {
+      if (!location) {
         toast.error("Location Required", {
           description: "Please wait for GPS location to be captured.",
         });
@@ -203,24 +216,42 @@ export default function CheckInScreen({ onBack }: CheckInScreenProps) {
       const timestamp = BigInt(Date.now() * 1000000);
       const assignmentId = `${equipmentId}-${Date.now()}`;
 
-      // Update local registry status with history
-      updateEquipmentStatus(
+      // Update local registry status with history. This runs before any
+      // backend write so a rejected transition leaves nothing behind.
+      const statusResult = updateEquipmentStatus(
         equipmentId,
         "AVAILABLE",
         operatorId,
         locationLabel,
         "Equipment returned",
+        override ?? undefined,
       );
 
-      // Log event to in-memory history
-      logEvent({
+      if (!statusResult.success) {
+        const message = statusResult.error || "Equipment cannot be returned.";
+        setTransitionError(statusResult.transitionError ?? null);
+        setError(message);
+        setStep("input");
+        toast.error("Check-In Blocked", { description: message });
+        return;
+      }
+
+      // Record the event in the persistent event store
+      void logEvent({
         id: `event-${Date.now()}`,
         equipmentId,
         eventType: "CHECK_IN",
         operator: operatorId,
+        operatorName: auth.name,
         timestamp: new Date().toISOString(),
         location: locationLabel,
-        notes: "Equipment returned",
+        lat: location.fix?.lat,
+        lng: location.fix?.lng,
+        accuracyMeters: location.fix?.accuracy,
+        locationSource: location.source,
+        notes: override
+          ? `Equipment returned (override by ${override.supervisor}: ${override.reason})`
+          : "Equipment returned",
       });
 
       // Append to audit log with GPS data - using auth for user info
@@ -228,9 +259,10 @@ export default function CheckInScreen({ onBack }: CheckInScreenProps) {
         action: "checkin",
         equipmentId,
         locationLabel,
-        lat: gpsData.lat,
-        lng: gpsData.lng,
-        accuracyMeters: gpsData.accuracy,
+        locationSource: location.source,
+        lat: location.fix?.lat,
+        lng: location.fix?.lng,
+        accuracyMeters: location.fix?.accuracy,
         user: {
           badge: auth.badgeId || auth.user,
           username: auth.user,
@@ -240,7 +272,7 @@ export default function CheckInScreen({ onBack }: CheckInScreenProps) {
       });
 
       // Create assignment record
-      await createAssignment.mutateAsync({
+      const assignmentResult = await createAssignment.mutateAsync({
         id: assignmentId,
         equipment_id: equipmentId,
         operator_id: operatorId,
@@ -250,7 +282,7 @@ export default function CheckInScreen({ onBack }: CheckInScreenProps) {
       });
 
       // Update equipment status in backend
-      await updateEquipment.mutateAsync({
+      const equipmentResult = await updateEquipment.mutateAsync({
         id: equipmentId,
         name: equipment?.name || equipmentId,
         status: "available",
@@ -260,7 +292,7 @@ export default function CheckInScreen({ onBack }: CheckInScreenProps) {
       });
 
       // Log activity
-      await logActivity.mutateAsync({
+      const activityResult = await logActivity.mutateAsync({
         id: `activity-${Date.now()}`,
         action: "check_in",
         user_id: operatorId,
@@ -268,10 +300,26 @@ export default function CheckInScreen({ onBack }: CheckInScreenProps) {
         details: `Checked in equipment ${equipmentId} at ${locationLabel}`,
       });
 
-      // Show success toast
-      toast.success("Check-In Successful", {
-        description: `Equipment ${equipmentId} checked in at ${locationLabel}`,
-      });
+      // Backend writes that could not be delivered stay in the offline outbox;
+      // rejected or outdated ones wait there as conflicts for a supervisor
+      const results = [assignmentResult, equipmentResult, activityResult];
+      const conflicted = results.some((result) => result.status === "conflict");
+      const queuedOffline = results.some((result) => result.status !== "sent");
+
+      // Show the outcome
+      if (conflicted) {
+        toast.error("Check-In Not Synced", {
+          description: `Equipment ${equipmentId} was checked in locally, but the backend did not accept it. A supervisor must resolve it under Sync Conflicts.`,
+        });
+      } else if (queuedOffline) {
+        toast.warning("Check-In Saved Offline", {
+          description: `Equipment ${equipmentId} checked in locally. It will sync when the connection returns.`,
+        });
+      } else {
+        toast.success("Check-In Successful", {
+          description: `Equipment ${equipmentId} checked in at ${locationLabel}`,
+        });
+      }
 
       setStep("success");
     } catch (err: any) {
@@ -291,15 +339,19 @@ export default function CheckInScreen({ onBack }: CheckInScreenProps) {
     setStep("input");
     setEquipmentId("");
     setRawScanValue("");
-    setLocationLabel("");
-    setGpsData(null);
-    setGpsLoading(false);
+    resetLocation();
+    setManualZoneId("");
     setError("");
     setIsValidatingSession(false);
+    setTransitionError(null);
+    setOverrideReason("");
+    setOverride(null);
   };
 
   const handleRetry = () => {
     setError("");
+    setTransitionError(null);
+    setOverrideReason("");
     setRawScanValue("");
     handleOpenScanner();
   };
@@ -361,6 +413,36 @@ export default function CheckInScreen({ onBack }: CheckInScreenProps) {
                       <AlertCircle className="h-4 w-4" />
                       <AlertDescription style={{ color: "#cbd5f5" }}>
                         {error}
+                        {transitionError?.overridable &&
+                          hasPermission(auth?.role, "equipment.override") && (
+                            <div className="mt-3 space-y-2">
+                              <Label
+                                htmlFor="override-reason"
+                                style={{ color: "#cbd5f5" }}
+                              >
+                                Supervisor override reason
+                              </Label>
+                              <Input
+                                id="override-reason"
+                                value={overrideReason}
+                                onChange={(e) =>
+                                  setOverrideReason(e.target.value)
+                                }
+                                placeholder="Why is this return allowed?"
+                              />
+                              <Button
+                                onClick={handleOverride}
+                                disabled={!overrideReason.trim()}
+                                size="sm"
+                                className="w-full"
+                              >
+                                {transitionError.code ===
+                                "RELEASE_REQUIRES_SUPERVISOR"
+                                  ? "Release to Service"
+                                  : "Override and Check In"}
+                              </Button>
+                            </div>
+                          )}
                         <Button
                           onClick={handleRetry}
                           variant="outline"
@@ -445,15 +527,82 @@ export default function CheckInScreen({ onBack }: CheckInScreenProps) {
                         />
                         <p className="text-sm" style={{ color: "#cbd5f5" }}>
                           Detecting location...
+                          {locationProgress &&
+                            ` ${locationProgress.samples} fix${locationProgress.samples === 1 ? "" : "es"}, ±${locationProgress.accuracy}m`}
                         </p>
                       </div>
-                    ) : locationLabel ? (
-                      <p
-                        className="text-lg font-semibold mt-1"
-                        style={{ color: "#ffffff" }}
-                      >
-                        {locationLabel}
-                      </p>
+                    ) : location ? (
+                      <>
+                        <p
+                          className="text-lg font-semibold mt-1"
+                          style={{ color: "#ffffff" }}
+                        >
+                          {location.label}
+                        </p>
+                        {location.source === "manual" ? (
+                          <p className="text-xs" style={{ color: "#fbbf24" }}>
+                            Selected manually (recorded as a manual override)
+                          </p>
+                        ) : (
+                          location.match?.zoneType && (
+                            <p className="text-xs" style={{ color: "#cbd5f5" }}>
+                              {ZONE_TYPE_LABELS[location.match.zoneType]} ·{" "}
+                              {location.match.distanceMeters}m from center · ±
+                              {location.fix?.accuracy}m ·{" "}
+                              {location.match.confidence} confidence
+                            </p>
+                          )
+                        )}
+                      </>
+                    ) : locationError ? (
+                      <div className="space-y-2 mt-2">
+                        <p className="text-sm" style={{ color: "#fbbf24" }}>
+                          {locationError}
+                        </p>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="w-full"
+                          onClick={captureGPS}
+                        >
+                          Retry GPS
+                        </Button>
+                        <div className="flex gap-2">
+                          <Select
+                            value={manualZoneId}
+                            onValueChange={setManualZoneId}
+                          >
+                            <SelectTrigger className="flex-1">
+                              <SelectValue placeholder="Select gate manually" />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {getStationZones()
+                                .sort((a, b) =>
+                                  a.label.localeCompare(b.label, undefined, {
+                                    numeric: true,
+                                  }),
+                                )
+                                .map((zone) => (
+                                  <SelectItem key={zone.id} value={zone.id}>
+                                    {zone.label}
+                                  </SelectItem>
+                                ))}
+                            </SelectContent>
+                          </Select>
+                          <Button
+                            size="sm"
+                            disabled={!manualZoneId}
+                            onClick={() => {
+                              const zone = getStationZones().find(
+                                (z) => z.id === manualZoneId,
+                              );
+                              if (zone) selectManualLocation(zone);
+                            }}
+                          >
+                            Use
+                          </Button>
+                        </div>
+                      </div>
                     ) : (
                       <p className="text-sm mt-1" style={{ color: "#cbd5f5" }}>
                         Waiting for GPS...
@@ -461,6 +610,16 @@ export default function CheckInScreen({ onBack }: CheckInScreenProps) {
                     )}
                   </div>
 
+                  {override && (
+                    <Alert className="bg-amber-500/10 border-amber-500/30">
+                      <AlertCircle className="h-4 w-4 text-amber-400" />
+                      <AlertDescription className="text-amber-200 text-sm">
+                        Supervisor override by {override.supervisor}:{" "}
+                        {override.reason}
+                      </AlertDescription>
+                    </Alert>
+                  )}
+
                   {error && (
                     <Alert variant="destructive">
                       <AlertCircle className="h-4 w-4" />
@@ -1,3 +1,7 @@
+import { AlertCircle, Loader2 } from "lucide-react";
+import { useState } from "react";
+import { toast } from "sonner";
+import { Alert, AlertDescription } from "../components/ui/alert";
 import { Badge } from "../components/ui/badge";
 import { Button } from "../components/ui/button";
 import {
@@ -6,36 +10,87 @@ import {
   CardHeader,
   CardTitle,
 } from "../components/ui/card";
+import { Input } from "../components/ui/input";
 import { Label } from "../components/ui/label";
+import { useAuth } from "../contexts/AuthContext";
+import { useEventHistory } from "../hooks/useEventHistory";
+import { useGetAllAssignments, useGetAllIssues } from "../hooks/useQueries";
+import { getEventsByEquipment } from "../lib/auditLog";
+import { ensureUserContext } from "../lib/ensureUserContext";
+import { logEvent } from "../lib/equipmentHistory";
 import {
-  type EquipmentEvent,
-  getHistoryForEquipment,
-} from "../lib/equipmentHistory";
-import { type EquipmentRecord, findById } from "../lib/equipmentRegistry";
+  findById,
+  normalizeEquipmentId,
+  updateEquipmentStatus,
+} from "../lib/equipmentRegistry";
+import { formatEquipmentType } from "../lib/equipmentTypeCatalog";
+import {
+  ISSUE_STATUS_LABELS,
+  getReportNotes,
+  normalizeIssueStatus,
+} from "../lib/issueWorkflow";
+import { hasPermission } from "../lib/permissions";
+import { isUserActive, lookupUserByBadge } from "../lib/userStore";
 
 interface EquipmentDetailScreenProps {
   equipmentId: string;
   onBack: () => void;
 }
 
-// Helper to format equipment type for display
-const formatEquipmentType = (type: string): string => {
-  if (type === "ELECTRIC_TUG") return "ELECTRIC TUG";
-  if (type === "TUG") return "TUG";
-  return type.replace("_", " ");
+type EquipmentAction = "ground" | "release" | "reassign";
+
+const ACTION_LABELS: Record<EquipmentAction, string> = {
+  ground: "Ground for Maintenance",
+  release: "Release to Service",
+  reassign: "Reassign Operator",
 };
 
+// Scan locations shown before the list is cut off
+const MAX_SCAN_LOCATIONS = 20;
+
 // Helper to format event type for display
 const formatEventType = (eventType: string): string => {
   return eventType.replace("_", " ");
 };
 
+// Helper to format a backend nanosecond timestamp
+const formatBackendTime = (timestamp: bigint): string =>
+  new Date(Number(timestamp / 1000000n)).toLocaleString();
+
+const cardStyle = {
+  background: "rgba(15, 23, 42, 0.92)",
+  borderColor: "rgba(255,255,255,0.18)",
+  borderRadius: "16px",
+  boxShadow: "0 16px 40px rgba(0,0,0,0.45)",
+};
+
+const rowStyle = {
+  background: "rgba(30, 41, 59, 0.5)",
+  borderColor: "rgba(255,255,255,0.1)",
+};
+
 export default function EquipmentDetailScreen({
-  equipmentId,
+  equipmentId: rawEquipmentId,
   onBack,
 }: EquipmentDetailScreenProps) {
-  const equipment = findById(equipmentId);
-  const history = getHistoryForEquipment(equipmentId);
+  const equipmentId = normalizeEquipmentId(rawEquipmentId);
+  const { auth } = useAuth();
+  // Read again after each action
+  const [equipment, setEquipment] = useState(() => findById(equipmentId));
+  const {
+    events: history,
+    hasMore,
+    isLoading: historyLoading,
+    loadMore,
+  } = useEventHistory({ equipmentId });
+  const { data: issues = [] } = useGetAllIssues();
+  const { data: assignments = [] } = useGetAllAssignments();
+
+  const [action, setAction] = useState<EquipmentAction | null>(null);
+  const [reason, setReason] = useState("");
+  const [targetBadge, setTargetBadge] = useState("");
+  const [actionError, setActionError] = useState("");
+  const [isProcessing, setIsProcessing] = useState(false);
 
   if (!equipment) {
     return (
@@ -96,11 +151,153 @@ export default function EquipmentDetailScreen({
         return "secondary";
       case "MAINTENANCE":
         return "destructive";
+      case "OUT_OF_SERVICE":
+      case "RETIRED":
+        return "outline";
       default:
         return "default";
     }
   };
 
+  const role = auth?.role;
+  const actor = auth?.badgeId || auth?.user || "unknown";
+  const availableActions: EquipmentAction[] = [
+    ...(hasPermission(role, "equipment.report") &&
+    (equipment.status === "AVAILABLE" || equipment.status === "ASSIGNED")
+      ? (["ground"] as const)
+      : []),
+    ...(hasPermission(role, "equipment.release") &&
+    equipment.status === "MAINTENANCE"
+      ? (["release"] as const)
+      : []),
+    ...(hasPermission(role, "equipment.override") &&
+    equipment.status === "ASSIGNED"
+      ? (["reassign"] as const)
+      : []),
+  ];
+
+  const registryHistory = equipment.history.slice().reverse();
+  const scanLocations = getEventsByEquipment(equipment.id).filter(
+    (event) => event.lat !== undefined && event.lng !== undefined,
+  );
+  const openIssues = issues
+    .filter(
+      (issue) =>
+        issue.equipment_id === equipment.id &&
+        normalizeIssueStatus(issue.status) !== "released",
+    )
+    .sort((a, b) => Number(b.timestamp - a.timestamp));
+  const equipmentAssignments = assignments
+    .filter((assignment) => assignment.equipment_id === equipment.id)
+    .sort((a, b) => Number(b.timestamp - a.timestamp));
+
+  const handleStartAction = (next: EquipmentAction) => {
+    setAction(next);
+    setReason("");
+    setTargetBadge("");
+    setActionError("");
+  };
+
+  const handleConfirmAction = async () => {
+    if (!action || !auth) return;
+
+    if (!reason.trim()) {
+      setActionError("A reason is required.");
+      return;
+    }
+
+    // Validate session before write operation
+    const isValid = await ensureUserContext();
+    if (!isValid) {
+      toast.error("Session expired. Please log in again.");
+      return;
+    }
+
+    setActionError("");
+    setIsProcessing(true);
+    try {
+      const notes = reason.trim();
+      const override = { supervisor: actor, role: auth.role, reason: notes };
+      let result: { success: boolean; error?: string };
+
+      if (action === "ground") {
+        result = updateEquipmentStatus(
+          equipment.id,
+          "MAINTENANCE",
+          actor,
+          undefined,
+          notes,
+        );
+      } else if (action === "release") {
+        result = updateEquipmentStatus(
+          equipment.id,
+          "AVAILABLE",
+          actor,
+          undefined,
+          notes,
+          override,
+        );
+        if (result.success) {
+          void logEvent({
+            id: `event-${Date.now()}`,
+            equipmentId: equipment.id,
+            eventType: "RELEASE",
+            operator: actor,
+            operatorName: auth.name,
+            timestamp: new Date().toISOString(),
+            location: equipment.location,
+            notes,
+          });
+        }
+      } else {
+        const target = lookupUserByBadge(targetBadge.trim());
+        if (!target || !isUserActive(target)) {
+          setActionError(`Badge ${targetBadge.trim()} is not an active user.`);
+          return;
+        }
+        if (target.badgeId === equipment.lastOperator) {
+          setActionError(
+            `${equipment.id} is already checked out to ${target.badgeId}.`,
+          );
+          return;
+        }
+        // Moving a checked-out unit to another holder is an override of the
+        // ALREADY_ASSIGNED rule, recorded with the supervisor's reason
+        result = updateEquipmentStatus(
+          equipment.id,
+          "ASSIGNED",
+          target.badgeId,
+          equipment.location,
+          `Reassigned from ${equipment.lastOperator ?? "unknown"}: ${notes}`,
+          override,
+        );
+        if (result.success) {
+          void logEvent({
+            id: `event-${Date.now()}`,
+            equipmentId: equipment.id,
+            eventType: "CHECK_OUT",
+            operator: target.badgeId,
+            operatorName: target.displayName,
+            timestamp: new Date().toISOString(),
+            location: equipment.location,
+            notes: `Reassigned by ${actor}: ${notes}`,
+          });
+        }
+      }
+
+      if (!result.success) {
+        setActionError(result.error || "Failed to update equipment");
+        return;
+      }
+
+      toast.success(`${ACTION_LABELS[action]}: ${equipment.id}`);
+      setAction(null);
+      setEquipment(findById(equipmentId));
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
   return (
     <div
       className="min-h-screen relative"
@@ -180,6 +377,23 @@ export default function EquipmentDetailScreen({
                 </div>
               )}
 
+              {equipment.retirement && (
+                <div>
+                  <Label style={{ color: "#cbd5f5" }}>
+                    {equipment.retirement.status === "RETIRED"
+                      ? "Retired"
+                      : "Out of Service"}
+                  </Label>
+                  <p className="mt-1" style={{ color: "#fbbf24" }}>
+                    {equipment.retirement.reason}
+                  </p>
+                  <p className="text-xs" style={{ color: "#cbd5f5" }}>
+                    Effective {equipment.retirement.effectiveDate} · approved by{" "}
+                    {equipment.retirement.approvedBy}
+                  </p>
+                </div>
+              )}
+
               {equipment.lastOperator && (
                 <div>
                   <Label style={{ color: "#cbd5f5" }}>Last Operator</Label>
@@ -227,6 +441,321 @@ export default function EquipmentDetailScreen({
             </CardContent>
           </Card>
 
+          {/* Actions */}
+          {availableActions.length > 0 && (
+            <Card className="border shadow-2xl" style={cardStyle}>
+              <CardHeader>
+                <CardTitle style={{ color: "#ffffff" }}>Actions</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="flex flex-wrap gap-2">
+                  {availableActions.map((next) => (
+                    <Button
+                      key={next}
+                      variant={
+                        next === "ground"
+                          ? "destructive"
+                          : action === next
+                            ? "default"
+                            : "outline"
+                      }
+                      onClick={() => handleStartAction(next)}
+                      disabled={isProcessing}
+                    >
+                      {ACTION_LABELS[next]}
+                    </Button>
+                  ))}
+                </div>
+
+                {action && (
+                  <div className="space-y-3">
+                    {action === "reassign" && (
+                      <div>
+                        <Label
+                          htmlFor="reassign-badge"
+                          style={{ color: "#cbd5f5" }}
+                        >
+                          New operator badge
+                        </Label>
+                        <Input
+                          id="reassign-badge"
+                          value={targetBadge}
+                          onChange={(e) => setTargetBadge(e.target.value)}
+                          placeholder={`Currently ${equipment.lastOperator ?? "unknown"}`}
+                          disabled={isProcessing}
+                        />
+                      </div>
+                    )}
+                    <div>
+                      <Label
+                        htmlFor="action-reason"
+                        style={{ color: "#cbd5f5" }}
+                      >
+                        Reason
+                      </Label>
+                      <Input
+                        id="action-reason"
+                        value={reason}
+                        onChange={(e) => setReason(e.target.value)}
+                        placeholder={
+                          action === "release"
+                            ? "Release notes (repair completed, inspected by...)"
+                            : "Required"
+                        }
+                        disabled={isProcessing}
+                      />
+                    </div>
+
+                    {actionError && (
+                      <Alert variant="destructive">
+                        <AlertCircle className="h-4 w-4" />
+                        <AlertDescription>{actionError}</AlertDescription>
+                      </Alert>
+                    )}
+
+                    <div className="flex gap-2">
+                      <Button
+                        variant="outline"
+                        className="flex-1"
+                        onClick={() => setAction(null)}
+                        disabled={isProcessing}
+                      >
+                        Cancel
+                      </Button>
+                      <Button
+                        className="flex-1"
+                        onClick={handleConfirmAction}
+                        disabled={isProcessing}
+                      >
+                        {isProcessing ? (
+                          <>
+                            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                            Saving...
+                          </>
+                        ) : (
+                          `Confirm ${ACTION_LABELS[action]}`
+                        )}
+                      </Button>
+                    </div>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Open Issues */}
+          <Card className="border shadow-2xl" style={cardStyle}>
+            <CardHeader>
+              <CardTitle style={{ color: "#ffffff" }}>Open Issues</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {openIssues.length === 0 ? (
+                <p className="text-sm" style={{ color: "#cbd5f5" }}>
+                  No open issues for {equipment.id}.
+                </p>
+              ) : (
+                <div className="space-y-3">
+                  {openIssues.map((issue) => (
+                    <div
+                      key={issue.id}
+                      className="p-4 rounded-lg border space-y-2"
+                      style={rowStyle}
+                    >
+                      <div className="flex items-start justify-between gap-2">
+                        <div className="flex items-center gap-2">
+                          <Badge variant="secondary">
+                            {
+                              ISSUE_STATUS_LABELS[
+                                normalizeIssueStatus(issue.status)
+                              ]
+                            }
+                          </Badge>
+                          {issue.grounded && (
+                            <Badge variant="destructive">Grounded</Badge>
+                          )}
+                        </div>
+                        <p className="text-xs" style={{ color: "#cbd5f5" }}>
+                          {formatBackendTime(issue.timestamp)}
+                        </p>
+                      </div>
+                      <p
+                        className="text-sm font-medium"
+                        style={{ color: "#ffffff" }}
+                      >
+                        {issue.category}
+                      </p>
+                      {getReportNotes(issue) && (
+                        <p className="text-sm" style={{ color: "#cbd5f5" }}>
+                          {getReportNotes(issue)}
+                        </p>
+                      )}
+                      <p className="text-xs" style={{ color: "#cbd5f5" }}>
+                        Reported by {issue.operator_id} at {issue.location}
+                      </p>
+                      {issue.photo && (
+                        <a
+                          href={issue.photo.getDirectURL()}
+                          target="_blank"
+                          rel="noreferrer"
+                        >
+                          <img
+                            src={issue.photo.getDirectURL()}
+                            alt={`Issue on ${issue.equipment_id}`}
+                            className="rounded-lg max-h-48 object-cover"
+                          />
+                        </a>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Backend Assignments */}
+          <Card className="border shadow-2xl" style={cardStyle}>
+            <CardHeader>
+              <CardTitle style={{ color: "#ffffff" }}>Assignments</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {equipmentAssignments.length === 0 ? (
+                <p className="text-sm" style={{ color: "#cbd5f5" }}>
+                  No assignments recorded on the server.
+                </p>
+              ) : (
+                <div className="space-y-2 max-h-[400px] overflow-y-auto">
+                  {equipmentAssignments.map((assignment) => (
+                    <div
+                      key={assignment.id}
+                      className="flex items-center justify-between p-3 rounded-lg border"
+                      style={rowStyle}
+                    >
+                      <div>
+                        <p className="text-sm" style={{ color: "#ffffff" }}>
+                          {assignment.action === "check_out"
+                            ? "Check-Out"
+                            : "Check-In"}{" "}
+                          · {assignment.operator_id}
+                        </p>
+                        {assignment.location && (
+                          <p className="text-xs" style={{ color: "#cbd5f5" }}>
+                            {assignment.location}
+                          </p>
+                        )}
+                      </div>
+                      <p className="text-xs" style={{ color: "#cbd5f5" }}>
+                        {formatBackendTime(assignment.timestamp)}
+                      </p>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Registry History */}
+          <Card className="border shadow-2xl" style={cardStyle}>
+            <CardHeader>
+              <CardTitle style={{ color: "#ffffff" }}>
+                Registry History
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {registryHistory.length === 0 ? (
+                <p className="text-sm" style={{ color: "#cbd5f5" }}>
+                  No history available
+                </p>
+              ) : (
+                <div className="space-y-2 max-h-[400px] overflow-y-auto">
+                  {registryHistory.map((entry, idx) => (
+                    <div
+                      key={`${entry.action}-${entry.timestamp ?? idx}`}
+                      className="p-3 rounded-lg border"
+                      style={rowStyle}
+                    >
+                      <div className="flex items-start justify-between gap-2">
+                        <p
+                          className="text-sm font-medium"
+                          style={{ color: "#ffffff" }}
+                        >
+                          {entry.action}
+                          {entry.operator && ` · ${entry.operator}`}
+                        </p>
+                        <p className="text-xs" style={{ color: "#cbd5f5" }}>
+                          {new Date(entry.timestamp).toLocaleString()}
+                        </p>
+                      </div>
+                      {entry.location && (
+                        <p className="text-xs" style={{ color: "#cbd5f5" }}>
+                          Location: {entry.location}
+                        </p>
+                      )}
+                      {entry.notes && (
+                        <p className="text-xs" style={{ color: "#cbd5f5" }}>
+                          Notes: {entry.notes}
+                        </p>
+                      )}
+                      {entry.override && (
+                        <p className="text-xs" style={{ color: "#fbbf24" }}>
+                          Override by {entry.override.by}:{" "}
+                          {entry.override.reason}
+                        </p>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Scan Locations */}
+          <Card className="border shadow-2xl" style={cardStyle}>
+            <CardHeader>
+              <CardTitle style={{ color: "#ffffff" }}>Scan Locations</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {scanLocations.length === 0 ? (
+                <p className="text-sm" style={{ color: "#cbd5f5" }}>
+                  No GPS fixes recorded for {equipment.id}.
+                </p>
+              ) : (
+                <div className="space-y-2">
+                  {scanLocations.slice(0, MAX_SCAN_LOCATIONS).map((event) => (
+                    <div
+                      key={event.id}
+                      className="flex items-start justify-between gap-2 p-3 rounded-lg border"
+                      style={rowStyle}
+                    >
+                      <div>
+                        <p className="text-sm" style={{ color: "#ffffff" }}>
+                          {event.action === "checkout"
+                            ? "Check-Out"
+                            : "Check-In"}{" "}
+                          · {event.locationLabel}
+                        </p>
+                        <p className="text-xs" style={{ color: "#cbd5f5" }}>
+                          {event.lat?.toFixed(6)}, {event.lng?.toFixed(6)}
+                          {event.accuracyMeters !== undefined &&
+                            ` ±${event.accuracyMeters.toFixed(0)}m`}{" "}
+                          · {event.user.displayName}
+                        </p>
+                      </div>
+                      <p className="text-xs" style={{ color: "#cbd5f5" }}>
+                        {new Date(event.timestamp).toLocaleString()}
+                      </p>
+                    </div>
+                  ))}
+                  {scanLocations.length > MAX_SCAN_LOCATIONS && (
+                    <p className="text-xs" style={{ color: "#cbd5f5" }}>
+                      Showing the latest {MAX_SCAN_LOCATIONS} of{" "}
+                      {scanLocations.length} fixes.
+                    </p>
+                  )}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
           {/* Event History */}
           <Card
             className="border shadow-2xl"
@@ -241,7 +770,14 @@ export default function EquipmentDetailScreen({
               <CardTitle style={{ color: "#ffffff" }}>Event History</CardTitle>
             </CardHeader>
             <CardContent>
-              {history.length === 0 ? (
+              {historyLoading && history.length === 0 ? (
+                <div className="flex justify-center py-12">
+                  <Loader2
+                    className="h-6 w-6 animate-spin"
+                    style={{ color: "#cbd5f5" }}
+                  />
+                </div>
+              ) : history.length === 0 ? (
                 <div className="text-center py-12" style={{ color: "#cbd5f5" }}>
                   <p className="text-lg font-medium mb-2">No events recorded</p>
                   <p className="text-sm">
@@ -279,13 +815,25 @@ export default function EquipmentDetailScreen({
                       <div className="space-y-1">
                         <p className="text-sm" style={{ color: "#cbd5f5" }}>
                           <span className="font-medium">Operator:</span>{" "}
-                          {event.operator}
+                          {event.operatorName
+                            ? `${event.operatorName} (${event.operator})`
+                            : event.operator}
                         </p>
 
                         {event.location && (
                           <p className="text-sm" style={{ color: "#cbd5f5" }}>
                             <span className="font-medium">Location:</span>{" "}
                             {event.location}
+                            {event.locationSource === "manual" &&
+                              " (selected manually)"}
+                          </p>
+                        )}
+
+                        {event.lat !== undefined && event.lng !== undefined && (
+                          <p className="text-xs" style={{ color: "#cbd5f5" }}>
+                            {event.lat.toFixed(6)}, {event.lng.toFixed(6)}
+                            {event.accuracyMeters !== undefined &&
+                              ` ±${event.accuracyMeters.toFixed(0)}m`}
                           </p>
                         )}
 
@@ -298,6 +846,16 @@ export default function EquipmentDetailScreen({
                       </div>
                     </div>
                   ))}
+                  {hasMore && (
+                    <Button
+                      variant="outline"
+                      className="w-full"
+                      onClick={loadMore}
+                      disabled={historyLoading}
+                    >
+                      {historyLoading ? "Loading..." : "Load older events"}
+                    </Button>
+                  )}
                 </div>
               )}
             </CardContent>
@@ -0,0 +1,534 @@
+import { AlertCircle, Plus, Trash2 } from "lucide-react";
+import { useState } from "react";
+import { toast } from "sonner";
+import { Alert, AlertDescription } from "../components/ui/alert";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "../components/ui/alert-dialog";
+import { Badge } from "../components/ui/badge";
+import { Button } from "../components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "../components/ui/card";
+import { Checkbox } from "../components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "../components/ui/dialog";
+import { Input } from "../components/ui/input";
+import { Label } from "../components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "../components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "../components/ui/table";
+import { Textarea } from "../components/ui/textarea";
+import { ensureUserContext } from "../lib/ensureUserContext";
+import { getAllEquipment } from "../lib/equipmentRegistry";
+import {
+  DEFAULT_MAX_CHECKOUT_MINUTES,
+  type EquipmentTypeDefinition,
+  POWER_SOURCE_LABELS,
+  type PowerSource,
+  deleteEquipmentType,
+  getEquipmentTypes,
+  saveEquipmentType,
+} from "../lib/equipmentTypeCatalog";
+
+interface EquipmentTypeCatalogScreenProps {
+  onBack: () => void;
+}
+
+interface TypeForm {
+  isNew: boolean;
+  code: string;
+  name: string;
+  powerSource: PowerSource;
+  idPattern: string;
+  // One checklist item per line
+  checklist: string;
+  requiresCertification: boolean;
+  // Hours, empty for the default
+  maxCheckoutHours: string;
+  memberIds?: string[];
+}
+
+const EMPTY_FORM: TypeForm = {
+  isNew: true,
+  code: "",
+  name: "",
+  powerSource: "DIESEL",
+  idPattern: "",
+  checklist: "",
+  requiresCertification: false,
+  maxCheckoutHours: "",
+};
+
+const toForm = (type: EquipmentTypeDefinition): TypeForm => ({
+  isNew: false,
+  code: type.code,
+  name: type.name,
+  powerSource: type.powerSource,
+  idPattern: type.idPattern,
+  checklist: type.checklist.join("\n"),
+  requiresCertification: type.requiresCertification,
+  maxCheckoutHours:
+    type.maxCheckoutMinutes === undefined
+      ? ""
+      : String(type.maxCheckoutMinutes / 60),
+  memberIds: type.memberIds,
+});
+
+const formatHours = (minutes: number): string =>
+  `${Number((minutes / 60).toFixed(2))}h`;
+
+export default function EquipmentTypeCatalogScreen({
+  onBack,
+}: EquipmentTypeCatalogScreenProps) {
+  const [types, setTypes] = useState<EquipmentTypeDefinition[]>(() =>
+    getEquipmentTypes(),
+  );
+  const [form, setForm] = useState<TypeForm | null>(null);
+  const [formError, setFormError] = useState("");
+  const [typeToDelete, setTypeToDelete] =
+    useState<EquipmentTypeDefinition | null>(null);
+
+  // Units per type across every station
+  const unitCounts = getAllEquipment().reduce<Record<string, number>>(
+    (counts, e) => {
+      counts[e.type] = (counts[e.type] ?? 0) + 1;
+      return counts;
+    },
+    {},
+  );
+
+  const handleSave = async () => {
+    if (!form) return;
+
+    const isValid = await ensureUserContext();
+    if (!isValid) {
+      toast.error("Session expired. Please log in again.");
+      return;
+    }
+
+    const code = form.code.trim().toUpperCase();
+    if (form.isNew && types.some((t) => t.code === code)) {
+      setFormError(`Type ${code} already exists`);
+      return;
+    }
+
+    const result = saveEquipmentType({
+      code,
+      name: form.name,
+      powerSource: form.powerSource,
+      idPattern: form.idPattern.trim(),
+      checklist: form.checklist.split("\n"),
+      requiresCertification: form.requiresCertification,
+      maxCheckoutMinutes: form.maxCheckoutHours.trim()
+        ? Math.round(Number(form.maxCheckoutHours) * 60)
+        : undefined,
+      memberIds: form.memberIds,
+    });
+    if (!result.success) {
+      setFormError(result.error || "Failed to save equipment type");
+      return;
+    }
+
+    toast.success(form.isNew ? "Equipment type added" : "Equipment type saved");
+    setForm(null);
+    setTypes(getEquipmentTypes());
+  };
+
+  const handleDelete = async () => {
+    if (!typeToDelete) return;
+
+    const isValid = await ensureUserContext();
+    if (!isValid) {
+      toast.error("Session expired. Please log in again.");
+      return;
+    }
+
+    const result = deleteEquipmentType(typeToDelete.code);
+    if (result.success) {
+      toast.success(`${typeToDelete.name} removed from the catalog`);
+    } else {
+      toast.error(result.error || "Failed to delete equipment type");
+    }
+    setTypeToDelete(null);
+    setTypes(getEquipmentTypes());
+  };
+
+  return (
+    <div
+      className="min-h-screen relative"
+      style={{
+        backgroundImage: "url(/assets/HomescreenBackground.jpg)",
+        backgroundSize: "cover",
+        backgroundPosition: "center",
+        backgroundRepeat: "no-repeat",
+        backgroundAttachment: "fixed",
+      }}
+    >
+      <div className="absolute inset-0 bg-gradient-to-br from-black/30 via-black/40 to-black/30 backdrop-blur-[1px]" />
+
+      <div className="relative z-10">
+        <header className="bg-card/95 backdrop-blur-sm border-b shadow-lg">
+          <div className="container mx-auto px-4 py-4">
+            <div className="flex items-center justify-between">
+              <div>
+                <h1 className="text-2xl font-bold text-foreground">
+                  Equipment Types
+                </h1>
+                <p className="text-sm text-muted-foreground">
+                  Type catalog used for IDs, checklists and certification
+                </p>
+              </div>
+              <div className="flex items-center gap-4">
+                <Button
+                  onClick={() => {
+                    setForm(EMPTY_FORM);
+                    setFormError("");
+                  }}
+                >
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add Type
+                </Button>
+                <Button variant="outline" onClick={onBack}>
+                  <span className="mr-2">←</span>
+                  Back to Manage Equipment
+                </Button>
+              </div>
+            </div>
+          </div>
+        </header>
+
+        <main className="container mx-auto px-4 py-6 space-y-6">
+          <Card
+            className="border shadow-2xl"
+            style={{
+              background: "rgba(15, 23, 42, 0.92)",
+              borderColor: "rgba(255,255,255,0.18)",
+              borderRadius: "16px",
+              boxShadow: "0 16px 40px rgba(0,0,0,0.45)",
+            }}
+          >
+            <CardHeader>
+              <CardTitle style={{ color: "#ffffff" }}>Catalog</CardTitle>
+              <CardDescription style={{ color: "#cbd5f5" }}>
+                Scanned IDs are matched against these patterns in order
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div
+                className="rounded-lg border overflow-hidden"
+                style={{ borderColor: "rgba(255,255,255,0.1)" }}
+              >
+                <Table>
+                  <TableHeader>
+                    <TableRow style={{ borderColor: "rgba(255,255,255,0.1)" }}>
+                      <TableHead style={{ color: "#cbd5f5" }}>Type</TableHead>
+                      <TableHead style={{ color: "#cbd5f5" }}>Power</TableHead>
+                      <TableHead style={{ color: "#cbd5f5" }}>
+                        ID Pattern
+                      </TableHead>
+                      <TableHead style={{ color: "#cbd5f5" }}>
+                        Checklist
+                      </TableHead>
+                      <TableHead style={{ color: "#cbd5f5" }}>
+                        Max Out
+                      </TableHead>
+                      <TableHead style={{ color: "#cbd5f5" }}>Units</TableHead>
+                      <TableHead style={{ color: "#cbd5f5" }}>
+                        Actions
+                      </TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {types.map((type) => (
+                      <TableRow
+                        key={type.code}
+                        style={{ borderColor: "rgba(255,255,255,0.1)" }}
+                      >
+                        <TableCell style={{ color: "#ffffff" }}>
+                          <span className="font-medium">{type.name}</span>
+                          <span
+                            className="block text-xs"
+                            style={{ color: "#cbd5f5" }}
+                          >
+                            {type.code}
+                          </span>
+                          {type.requiresCertification && (
+                            <Badge variant="outline" className="mt-1">
+                              Certified operators
+                            </Badge>
+                          )}
+                        </TableCell>
+                        <TableCell style={{ color: "#ffffff" }}>
+                          {POWER_SOURCE_LABELS[type.powerSource]}
+                        </TableCell>
+                        <TableCell
+                          className="font-mono text-xs"
+                          style={{ color: "#cbd5f5" }}
+                        >
+                          {type.idPattern}
+                          {type.memberIds &&
+                            ` (${type.memberIds.length} listed IDs)`}
+                        </TableCell>
+                        <TableCell style={{ color: "#cbd5f5" }}>
+                          {type.checklist.length} item
+                          {type.checklist.length === 1 ? "" : "s"}
+                        </TableCell>
+                        <TableCell style={{ color: "#ffffff" }}>
+                          {formatHours(
+                            type.maxCheckoutMinutes ??
+                              DEFAULT_MAX_CHECKOUT_MINUTES,
+                          )}
+                        </TableCell>
+                        <TableCell style={{ color: "#ffffff" }}>
+                          {unitCounts[type.code] ?? 0}
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex gap-2">
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => {
+                                setForm(toForm(type));
+                                setFormError("");
+                              }}
+                            >
+                              Edit
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              disabled={(unitCounts[type.code] ?? 0) > 0}
+                              title={
+                                unitCounts[type.code]
+                                  ? "Types with registered units cannot be deleted"
+                                  : undefined
+                              }
+                              onClick={() => setTypeToDelete(type)}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </CardContent>
+          </Card>
+        </main>
+
+        <footer className="py-6 text-center text-sm text-white/90 drop-shadow-lg">
+          Built by Jayson James and Ramp Track Systems.
+        </footer>
+      </div>
+
+      {/* Add/Edit Type Dialog */}
+      {form && (
+        <Dialog open={!!form} onOpenChange={() => setForm(null)}>
+          <DialogContent
+            className="max-w-md"
+            style={{
+              background: "rgba(15, 23, 42, 0.98)",
+              borderColor: "rgba(255,255,255,0.18)",
+            }}
+          >
+            <DialogHeader>
+              <DialogTitle style={{ color: "#ffffff" }}>
+                {form.isNew ? "Add Equipment Type" : `Edit ${form.name}`}
+              </DialogTitle>
+              <DialogDescription style={{ color: "#cbd5f5" }}>
+                IDs are upper-cased before they are matched.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <Label htmlFor="type-code" style={{ color: "#cbd5f5" }}>
+                    Code
+                  </Label>
+                  <Input
+                    id="type-code"
+                    value={form.code}
+                    disabled={!form.isNew}
+                    onChange={(e) => setForm({ ...form, code: e.target.value })}
+                    placeholder="e.g. BELT_LOADER"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="type-name" style={{ color: "#cbd5f5" }}>
+                    Name
+                  </Label>
+                  <Input
+                    id="type-name"
+                    value={form.name}
+                    onChange={(e) => setForm({ ...form, name: e.target.value })}
+                    placeholder="e.g. Belt Loader"
+                  />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <Label style={{ color: "#cbd5f5" }}>Power Source</Label>
+                  <Select
+                    value={form.powerSource}
+                    onValueChange={(value) =>
+                      setForm({ ...form, powerSource: value as PowerSource })
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(POWER_SOURCE_LABELS).map(
+                        ([value, label]) => (
+                          <SelectItem key={value} value={value}>
+                            {label}
+                          </SelectItem>
+                        ),
+                      )}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor="type-pattern" style={{ color: "#cbd5f5" }}>
+                    ID Pattern
+                  </Label>
+                  <Input
+                    id="type-pattern"
+                    className="font-mono"
+                    value={form.idPattern}
+                    onChange={(e) =>
+                      setForm({ ...form, idPattern: e.target.value })
+                    }
+                    placeholder="e.g. BL\d{4}"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <Label htmlFor="type-checklist" style={{ color: "#cbd5f5" }}>
+                  Pre-Use Checklist (one item per line)
+                </Label>
+                <Textarea
+                  id="type-checklist"
+                  rows={5}
+                  value={form.checklist}
+                  onChange={(e) =>
+                    setForm({ ...form, checklist: e.target.value })
+                  }
+                />
+              </div>
+
+              <div>
+                <Label htmlFor="type-max-checkout" style={{ color: "#cbd5f5" }}>
+                  Max Checkout (hours)
+                </Label>
+                <Input
+                  id="type-max-checkout"
+                  type="number"
+                  min={0.25}
+                  step={0.25}
+                  value={form.maxCheckoutHours}
+                  onChange={(e) =>
+                    setForm({ ...form, maxCheckoutHours: e.target.value })
+                  }
+                  placeholder={`Default ${DEFAULT_MAX_CHECKOUT_MINUTES / 60}`}
+                />
+              </div>
+
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="type-certification"
+                  checked={form.requiresCertification}
+                  onCheckedChange={(checked) =>
+                    setForm({
+                      ...form,
+                      requiresCertification: checked === true,
+                    })
+                  }
+                />
+                <Label
+                  htmlFor="type-certification"
+                  style={{ color: "#cbd5f5" }}
+                >
+                  Requires a certified operator
+                </Label>
+              </div>
+
+              {formError && (
+                <Alert variant="destructive">
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertDescription>{formError}</AlertDescription>
+                </Alert>
+              )}
+
+              <div className="flex gap-2 pt-2">
+                <Button
+                  variant="outline"
+                  className="flex-1"
+                  onClick={() => setForm(null)}
+                >
+                  Cancel
+                </Button>
+                <Button className="flex-1" onClick={handleSave}>
+                  Save Type
+                </Button>
+              </div>
+            </div>
+          </DialogContent>
+        </Dialog>
+      )}
+
+      {/* Delete Confirmation */}
+      <AlertDialog
+        open={!!typeToDelete}
+        onOpenChange={(open) => !open && setTypeToDelete(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {typeToDelete?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              IDs matching {typeToDelete?.idPattern} will no longer be
+              recognised as this type.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
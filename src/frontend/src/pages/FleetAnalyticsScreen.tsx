@@ -0,0 +1,464 @@
+import { Loader2 } from "lucide-react";
+import { useState } from "react";
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  ComposedChart,
+  Line,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { Button } from "../components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "../components/ui/card";
+import {
+  type ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "../components/ui/chart";
+import { Input } from "../components/ui/input";
+import { Label } from "../components/ui/label";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "../components/ui/table";
+import { useActiveStation } from "../hooks/useActiveStation";
+import { useGetAllAssignments, useGetAllIssues } from "../hooks/useQueries";
+import { getEventsByStation } from "../lib/auditLog";
+import { getStationEquipment } from "../lib/equipmentRegistry";
+import { formatEquipmentType } from "../lib/equipmentTypeCatalog";
+import {
+  type DateRange,
+  computeFleetAnalytics,
+  lastDays,
+} from "../lib/fleetAnalytics";
+
+interface FleetAnalyticsScreenProps {
+  onBack: () => void;
+}
+
+const RANGE_PRESETS = [7, 14, 30];
+// Units listed in the breakdown and utilization tables
+const TOP_UNITS = 10;
+
+const usageChartConfig = {
+  inUseHours: { label: "In Use", color: "#3b82f6" },
+  idleHours: { label: "Idle", color: "#64748b" },
+  groundedHours: { label: "Grounded", color: "#f59e0b" },
+} satisfies ChartConfig;
+
+const demandChartConfig = {
+  checkouts: { label: "Check-outs", color: "#3b82f6" },
+  averageInUse: { label: "Avg. in use", color: "#fbbf24" },
+} satisfies ChartConfig;
+
+const cardStyle = {
+  background: "rgba(15, 23, 42, 0.92)",
+  borderColor: "rgba(255,255,255,0.18)",
+  borderRadius: "16px",
+  boxShadow: "0 16px 40px rgba(0,0,0,0.45)",
+};
+
+export default function FleetAnalyticsScreen({
+  onBack,
+}: FleetAnalyticsScreenProps) {
+  const { stationCode, station } = useActiveStation();
+  const [range, setRange] = useState<DateRange>(() => lastDays(7));
+  const { data: assignments = [], isLoading: assignmentsLoading } =
+    useGetAllAssignments();
+  const { data: issues = [], isLoading: issuesLoading } = useGetAllIssues();
+
+  const rangeValid = range.from <= range.to;
+  const analytics = rangeValid
+    ? computeFleetAnalytics(
+        getStationEquipment(stationCode),
+        getEventsByStation(stationCode),
+        assignments,
+        issues,
+        range,
+      )
+    : null;
+
+  const trackedHours = analytics
+    ? analytics.totals.inUseHours +
+      analytics.totals.idleHours +
+      analytics.totals.groundedHours
+    : 0;
+  const fleetUtilization =
+    analytics && trackedHours > 0
+      ? Math.round((analytics.totals.inUseHours / trackedHours) * 100)
+      : 0;
+
+  const mostIssues = analytics
+    ? analytics.units
+        .filter((u) => u.issueCount > 0 || u.groundedHours > 0)
+        .sort(
+          (a, b) =>
+            b.issueCount - a.issueCount || b.groundedHours - a.groundedHours,
+        )
+        .slice(0, TOP_UNITS)
+    : [];
+  const byUtilization = analytics
+    ? [...analytics.units]
+        .sort((a, b) => b.utilization - a.utilization)
+        .slice(0, TOP_UNITS)
+    : [];
+
+  const summaryTiles = analytics
+    ? [
+        { label: "Fleet Utilization", value: `${fleetUtilization}%` },
+        { label: "Hours In Use", value: analytics.totals.inUseHours },
+        { label: "Hours Grounded", value: analytics.totals.groundedHours },
+        { label: "Check-outs", value: analytics.totals.checkouts },
+        { label: "Issues Reported", value: analytics.totals.issues },
+      ]
+    : [];
+
+  return (
+    <div
+      className="min-h-screen relative"
+      style={{
+        backgroundImage: "url(/assets/HomescreenBackground.jpg)",
+        backgroundSize: "cover",
+        backgroundPosition: "center",
+        backgroundRepeat: "no-repeat",
+        backgroundAttachment: "fixed",
+      }}
+    >
+      <div className="absolute inset-0 bg-gradient-to-br from-black/30 via-black/40 to-black/30 backdrop-blur-[1px]" />
+
+      <div className="relative z-10">
+        <header className="bg-card/95 backdrop-blur-sm border-b shadow-lg">
+          <div className="container mx-auto px-4 py-4">
+            <div className="flex items-center justify-between">
+              <div>
+                <h1 className="text-2xl font-bold text-foreground">
+                  Fleet Analytics
+                </h1>
+                <p className="text-sm text-muted-foreground">
+                  Utilization, downtime and demand ·{" "}
+                  {station?.name ?? stationCode}
+                </p>
+              </div>
+              <Button variant="outline" onClick={onBack}>
+                <span className="mr-2">←</span>
+                Back to Admin Menu
+              </Button>
+            </div>
+          </div>
+        </header>
+
+        <main className="container mx-auto px-4 py-6 space-y-6">
+          <Card className="border shadow-2xl" style={cardStyle}>
+            <CardContent className="pt-6">
+              <div className="flex flex-wrap items-end gap-4">
+                <div>
+                  <Label htmlFor="range-from" style={{ color: "#cbd5f5" }}>
+                    From
+                  </Label>
+                  <Input
+                    id="range-from"
+                    type="date"
+                    value={range.from}
+                    max={range.to}
+                    onChange={(e) =>
+                      e.target.value &&
+                      setRange({ ...range, from: e.target.value })
+                    }
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="range-to" style={{ color: "#cbd5f5" }}>
+                    To
+                  </Label>
+                  <Input
+                    id="range-to"
+                    type="date"
+                    value={range.to}
+                    min={range.from}
+                    onChange={(e) =>
+                      e.target.value &&
+                      setRange({ ...range, to: e.target.value })
+                    }
+                  />
+                </div>
+                {RANGE_PRESETS.map((days) => (
+                  <Button
+                    key={days}
+                    variant="outline"
+                    onClick={() => setRange(lastDays(days))}
+                  >
+                    Last {days} days
+                  </Button>
+                ))}
+                {(assignmentsLoading || issuesLoading) && (
+                  <div
+                    className="flex items-center gap-2 text-sm"
+                    style={{ color: "#cbd5f5" }}
+                  >
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                    Loading backend assignments and issues…
+                  </div>
+                )}
+              </div>
+              {!rangeValid && (
+                <p className="text-sm mt-3" style={{ color: "#fbbf24" }}>
+                  The start date must be on or before the end date.
+                </p>
+              )}
+            </CardContent>
+          </Card>
+
+          {analytics && (
+            <>
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+                {summaryTiles.map((tile) => (
+                  <Card
+                    key={tile.label}
+                    className="border shadow-2xl"
+                    style={cardStyle}
+                  >
+                    <CardHeader className="pb-2">
+                      <CardTitle
+                        className="text-sm font-medium"
+                        style={{ color: "#cbd5f5" }}
+                      >
+                        {tile.label}
+                      </CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                      <p
+                        className="text-3xl font-bold"
+                        style={{ color: "#ffffff" }}
+                      >
+                        {tile.value}
+                      </p>
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+
+              <Card className="border shadow-2xl" style={cardStyle}>
+                <CardHeader>
+                  <CardTitle style={{ color: "#ffffff" }}>
+                    Fleet Hours per Day
+                  </CardTitle>
+                  <CardDescription style={{ color: "#cbd5f5" }}>
+                    Unit-hours in use, idle and grounded
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <ChartContainer
+                    config={usageChartConfig}
+                    className="h-72 w-full aspect-auto"
+                  >
+                    <BarChart data={analytics.daily}>
+                      <CartesianGrid vertical={false} />
+                      <XAxis dataKey="date" tickLine={false} />
+                      <YAxis tickLine={false} />
+                      <ChartTooltip content={<ChartTooltipContent />} />
+                      <ChartLegend content={<ChartLegendContent />} />
+                      <Bar
+                        dataKey="inUseHours"
+                        stackId="hours"
+                        fill="var(--color-inUseHours)"
+                      />
+                      <Bar
+                        dataKey="idleHours"
+                        stackId="hours"
+                        fill="var(--color-idleHours)"
+                      />
+                      <Bar
+                        dataKey="groundedHours"
+                        stackId="hours"
+                        fill="var(--color-groundedHours)"
+                      />
+                    </BarChart>
+                  </ChartContainer>
+                </CardContent>
+              </Card>
+
+              <Card className="border shadow-2xl" style={cardStyle}>
+                <CardHeader>
+                  <CardTitle style={{ color: "#ffffff" }}>
+                    Demand by Hour
+                  </CardTitle>
+                  <CardDescription style={{ color: "#cbd5f5" }}>
+                    Check-outs started in each hour and average units in use
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <ChartContainer
+                    config={demandChartConfig}
+                    className="h-72 w-full aspect-auto"
+                  >
+                    <ComposedChart data={analytics.hourly}>
+                      <CartesianGrid vertical={false} />
+                      <XAxis
+                        dataKey="hour"
+                        tickLine={false}
+                        tickFormatter={(hour: number) =>
+                          `${String(hour).padStart(2, "0")}:00`
+                        }
+                      />
+                      <YAxis tickLine={false} />
+                      <ChartTooltip content={<ChartTooltipContent />} />
+                      <ChartLegend content={<ChartLegendContent />} />
+                      <Bar dataKey="checkouts" fill="var(--color-checkouts)" />
+                      <Line
+                        dataKey="averageInUse"
+                        type="monotone"
+                        stroke="var(--color-averageInUse)"
+                        strokeWidth={2}
+                        dot={false}
+                      />
+                    </ComposedChart>
+                  </ChartContainer>
+                </CardContent>
+              </Card>
+
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                <Card className="border shadow-2xl" style={cardStyle}>
+                  <CardHeader>
+                    <CardTitle style={{ color: "#ffffff" }}>
+                      Most Breakdowns
+                    </CardTitle>
+                    <CardDescription style={{ color: "#cbd5f5" }}>
+                      Units with the most reported issues in the range
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    {mostIssues.length === 0 ? (
+                      <p className="text-sm" style={{ color: "#cbd5f5" }}>
+                        No issues reported in this range.
+                      </p>
+                    ) : (
+                      <Table>
+                        <TableHeader>
+                          <TableRow
+                            style={{ borderColor: "rgba(255,255,255,0.1)" }}
+                          >
+                            <TableHead style={{ color: "#cbd5f5" }}>
+                              Unit
+                            </TableHead>
+                            <TableHead style={{ color: "#cbd5f5" }}>
+                              Issues
+                            </TableHead>
+                            <TableHead style={{ color: "#cbd5f5" }}>
+                              Hours Grounded
+                            </TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {mostIssues.map((unit) => (
+                            <TableRow
+                              key={unit.equipmentId}
+                              style={{ borderColor: "rgba(255,255,255,0.1)" }}
+                            >
+                              <TableCell style={{ color: "#ffffff" }}>
+                                {unit.equipmentId}
+                                <span
+                                  className="block text-xs"
+                                  style={{ color: "#cbd5f5" }}
+                                >
+                                  {formatEquipmentType(unit.type)}
+                                </span>
+                              </TableCell>
+                              <TableCell style={{ color: "#ffffff" }}>
+                                {unit.issueCount}
+                              </TableCell>
+                              <TableCell style={{ color: "#ffffff" }}>
+                                {unit.groundedHours}
+                              </TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    )}
+                  </CardContent>
+                </Card>
+
+                <Card className="border shadow-2xl" style={cardStyle}>
+                  <CardHeader>
+                    <CardTitle style={{ color: "#ffffff" }}>
+                      Utilization by Unit
+                    </CardTitle>
+                    <CardDescription style={{ color: "#cbd5f5" }}>
+                      Busiest units: share of time in use
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <Table>
+                      <TableHeader>
+                        <TableRow
+                          style={{ borderColor: "rgba(255,255,255,0.1)" }}
+                        >
+                          <TableHead style={{ color: "#cbd5f5" }}>
+                            Unit
+                          </TableHead>
+                          <TableHead style={{ color: "#cbd5f5" }}>
+                            In Use
+                          </TableHead>
+                          <TableHead style={{ color: "#cbd5f5" }}>
+                            Idle
+                          </TableHead>
+                          <TableHead style={{ color: "#cbd5f5" }}>
+                            Grounded
+                          </TableHead>
+                          <TableHead style={{ color: "#cbd5f5" }}>
+                            Utilization
+                          </TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {byUtilization.map((unit) => (
+                          <TableRow
+                            key={unit.equipmentId}
+                            style={{ borderColor: "rgba(255,255,255,0.1)" }}
+                          >
+                            <TableCell style={{ color: "#ffffff" }}>
+                              {unit.equipmentId}
+                            </TableCell>
+                            <TableCell style={{ color: "#ffffff" }}>
+                              {unit.inUseHours}h
+                            </TableCell>
+                            <TableCell style={{ color: "#cbd5f5" }}>
+                              {unit.idleHours}h
+                            </TableCell>
+                            <TableCell style={{ color: "#cbd5f5" }}>
+                              {unit.groundedHours}h
+                            </TableCell>
+                            <TableCell style={{ color: "#ffffff" }}>
+                              {unit.utilization}%
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </CardContent>
+                </Card>
+              </div>
+            </>
+          )}
+        </main>
+
+        <footer className="py-6 text-center text-sm text-white/90 drop-shadow-lg">
+          Built by Jayson James and Ramp Track Systems.
+        </footer>
+      </div>
+    </div>
+  );
+}
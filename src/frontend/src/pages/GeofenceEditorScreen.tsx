@@ -0,0 +1,728 @@
+import { AlertCircle, Crosshair, Loader2, Plus, Trash2 } from "lucide-react";
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Alert, AlertDescription } from "../components/ui/alert";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "../components/ui/alert-dialog";
+import { Badge } from "../components/ui/badge";
+import { Button } from "../components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "../components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "../components/ui/dialog";
+import { Input } from "../components/ui/input";
+import { Label } from "../components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "../components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "../components/ui/table";
+import { Textarea } from "../components/ui/textarea";
+import { useActiveStation } from "../hooks/useActiveStation";
+import { ensureUserContext } from "../lib/ensureUserContext";
+import {
+  type LatLng,
+  ZONE_TYPE_LABELS,
+  ZONE_TYPE_PRIORITY,
+  type Zone,
+  type ZoneType,
+  deleteZone,
+  getStationZones,
+  getZonePriority,
+  resetZones,
+  saveZone,
+} from "../lib/geofenceStore";
+import {
+  getAccuracyThreshold,
+  setAccuracyThreshold,
+} from "../lib/locationService";
+import { DEFAULT_STATION_CODE } from "../lib/stationStore";
+
+interface GeofenceEditorScreenProps {
+  onBack: () => void;
+}
+
+interface ZoneForm {
+  id: string | null;
+  label: string;
+  type: ZoneType;
+  shapeKind: "circle" | "polygon";
+  lat: string;
+  lng: string;
+  radiusMeters: string;
+  // One "lat, lng" pair per line
+  points: string;
+  // Blank uses the zone type's default priority
+  priority: string;
+}
+
+const EMPTY_FORM: ZoneForm = {
+  id: null,
+  label: "",
+  type: "GATE",
+  shapeKind: "circle",
+  lat: "",
+  lng: "",
+  radiusMeters: "60",
+  points: "",
+  priority: "",
+};
+
+// Helper to describe a zone's shape for the table
+const describeShape = (zone: Zone): string => {
+  if (zone.shape.kind === "circle") {
+    const { center, radiusMeters } = zone.shape;
+    return `${center.lat.toFixed(6)}, ${center.lng.toFixed(6)} · ${radiusMeters}m`;
+  }
+  return `Polygon · ${zone.shape.points.length} points`;
+};
+
+const formatPoint = (point: LatLng): string =>
+  `${point.lat.toFixed(7)}, ${point.lng.toFixed(7)}`;
+
+// Parse "lat, lng" lines into points (NaN for malformed lines)
+const parsePoints = (text: string): LatLng[] =>
+  text
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((line) => {
+      const [lat, lng] = line.split(/[,\s]+/).map(Number);
+      return { lat, lng };
+    });
+
+const toForm = (zone: Zone): ZoneForm => ({
+  id: zone.id,
+  label: zone.label,
+  type: zone.type,
+  shapeKind: zone.shape.kind,
+  lat: zone.shape.kind === "circle" ? String(zone.shape.center.lat) : "",
+  lng: zone.shape.kind === "circle" ? String(zone.shape.center.lng) : "",
+  radiusMeters:
+    zone.shape.kind === "circle" ? String(zone.shape.radiusMeters) : "60",
+  points:
+    zone.shape.kind === "polygon"
+      ? zone.shape.points.map(formatPoint).join("\n")
+      : "",
+  priority: zone.priority !== undefined ? String(zone.priority) : "",
+});
+
+const fromForm = (form: ZoneForm): Zone => ({
+  id: form.id ?? `zone-${Date.now()}`,
+  label: form.label,
+  type: form.type,
+  shape:
+    form.shapeKind === "circle"
+      ? {
+          kind: "circle",
+          center: { lat: Number(form.lat), lng: Number(form.lng) },
+          radiusMeters: Number(form.radiusMeters),
+        }
+      : { kind: "polygon", points: parsePoints(form.points) },
+  priority: form.priority.trim() ? Number(form.priority) : undefined,
+});
+
+export default function GeofenceEditorScreen({
+  onBack,
+}: GeofenceEditorScreenProps) {
+  const { stationCode, station } = useActiveStation();
+  const [zones, setZones] = useState<Zone[]>(() => getStationZones());
+  const [filterType, setFilterType] = useState<ZoneType | "all">("all");
+  const [form, setForm] = useState<ZoneForm | null>(null);
+  const [formError, setFormError] = useState("");
+  const [locating, setLocating] = useState(false);
+  const [zoneToDelete, setZoneToDelete] = useState<Zone | null>(null);
+  const [confirmReset, setConfirmReset] = useState(false);
+  const [accuracyThreshold, setAccuracyThresholdInput] = useState(() =>
+    String(getAccuracyThreshold()),
+  );
+
+  const visibleZones = zones
+    .filter((zone) => filterType === "all" || zone.type === filterType)
+    .sort((a, b) =>
+      a.label.localeCompare(b.label, undefined, { numeric: true }),
+    );
+
+  const reloadZones = () => setZones(getStationZones());
+
+  // Show the new station's zones after a station switch
+  useEffect(() => {
+    setZones(getStationZones(stationCode));
+  }, [stationCode]);
+
+  const updateForm = (updates: Partial<ZoneForm>) => {
+    setForm((current) => (current ? { ...current, ...updates } : current));
+  };
+
+  const handleOpenForm = (zone?: Zone) => {
+    setForm(zone ? toForm(zone) : EMPTY_FORM);
+    setFormError("");
+  };
+
+  // Fill the center (circle) or append a vertex (polygon) from the device GPS
+  const handleUseMyLocation = () => {
+    if (!("geolocation" in navigator)) {
+      setFormError("GPS is not available on this device.");
+      return;
+    }
+
+    setLocating(true);
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        const point = {
+          lat: position.coords.latitude,
+          lng: position.coords.longitude,
+        };
+        setForm((current) => {
+          if (!current) return current;
+          if (current.shapeKind === "circle") {
+            return {
+              ...current,
+              lat: String(point.lat),
+              lng: String(point.lng),
+            };
+          }
+          return {
+            ...current,
+            points: [current.points.trim(), formatPoint(point)]
+              .filter(Boolean)
+              .join("\n"),
+          };
+        });
+        setLocating(false);
+      },
+      (error) => {
+        console.error("GPS error:", error);
+        setFormError("Failed to capture GPS location.");
+        setLocating(false);
+      },
+      { enableHighAccuracy: true, timeout: 10000, maximumAge: 0 },
+    );
+  };
+
+  const handleSave = async () => {
+    if (!form) return;
+
+    // Validate session before write operation
+    const isValid = await ensureUserContext();
+    if (!isValid) {
+      toast.error("Session expired. Please log in again.");
+      return;
+    }
+
+    const result = saveZone(fromForm(form));
+    if (!result.success) {
+      setFormError(result.error || "Failed to save zone");
+      return;
+    }
+
+    toast.success(form.id ? "Zone updated" : "Zone added");
+    setForm(null);
+    reloadZones();
+  };
+
+  const handleDelete = async () => {
+    if (!zoneToDelete) return;
+
+    const isValid = await ensureUserContext();
+    if (!isValid) {
+      toast.error("Session expired. Please log in again.");
+      return;
+    }
+
+    const result = deleteZone(zoneToDelete.id);
+    if (result.success) {
+      toast.success(`Zone ${zoneToDelete.label} deleted`);
+    } else {
+      toast.error(result.error || "Failed to delete zone");
+    }
+    setZoneToDelete(null);
+    reloadZones();
+  };
+
+  const handleSaveThreshold = () => {
+    const result = setAccuracyThreshold(Number(accuracyThreshold));
+    if (result.success) {
+      toast.success(`GPS accuracy threshold set to ${accuracyThreshold}m`);
+    } else {
+      toast.error(result.error || "Failed to save threshold");
+    }
+  };
+
+  const handleReset = () => {
+    const result = resetZones();
+    setConfirmReset(false);
+    reloadZones();
+    if (result.success) {
+      toast.success(`Zones reset for ${stationCode}`);
+    } else {
+      toast.error(result.error || "Failed to reset zones");
+    }
+  };
+
+  return (
+    <div
+      className="min-h-screen relative"
+      style={{
+        backgroundImage: "url(/assets/HomescreenBackground.jpg)",
+        backgroundSize: "cover",
+        backgroundPosition: "center",
+        backgroundRepeat: "no-repeat",
+        backgroundAttachment: "fixed",
+      }}
+    >
+      <div className="absolute inset-0 bg-gradient-to-br from-black/30 via-black/40 to-black/30 backdrop-blur-[1px]" />
+
+      <div className="relative z-10">
+        <header className="bg-card/95 backdrop-blur-sm border-b shadow-lg">
+          <div className="container mx-auto px-4 py-4">
+            <div className="flex items-center justify-between">
+              <div>
+                <h1 className="text-2xl font-bold text-foreground">
+                  Geofences
+                </h1>
+                <p className="text-sm text-muted-foreground">
+                  {station?.name ?? stationCode} zones used to label check-out
+                  and return locations
+                </p>
+              </div>
+              <div className="flex items-center gap-4">
+                <Button onClick={() => handleOpenForm()}>
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add Zone
+                </Button>
+                <Button variant="outline" onClick={onBack}>
+                  <span className="mr-2">←</span>
+                  Back to Admin Menu
+                </Button>
+              </div>
+            </div>
+          </div>
+        </header>
+
+        <main className="container mx-auto px-4 py-6 space-y-6">
+          <Card
+            className="border shadow-2xl"
+            style={{
+              background: "rgba(15, 23, 42, 0.92)",
+              borderColor: "rgba(255,255,255,0.18)",
+              borderRadius: "16px",
+              boxShadow: "0 16px 40px rgba(0,0,0,0.45)",
+            }}
+          >
+            <CardHeader>
+              <div className="flex items-center justify-between gap-4">
+                <div>
+                  <CardTitle style={{ color: "#ffffff" }}>Zones</CardTitle>
+                  <CardDescription style={{ color: "#cbd5f5" }}>
+                    {zones.length} zone{zones.length === 1 ? "" : "s"} defined
+                  </CardDescription>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Select
+                    value={filterType}
+                    onValueChange={(value) =>
+                      setFilterType(value as ZoneType | "all")
+                    }
+                  >
+                    <SelectTrigger className="w-48">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All types</SelectItem>
+                      {Object.entries(ZONE_TYPE_LABELS).map(([type, label]) => (
+                        <SelectItem key={type} value={type}>
+                          {label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setConfirmReset(true)}
+                  >
+                    Reset to Defaults
+                  </Button>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {visibleZones.length === 0 ? (
+                <div className="text-center py-12" style={{ color: "#cbd5f5" }}>
+                  <p className="text-lg font-medium mb-2">No zones</p>
+                  <p className="text-sm">
+                    Add a zone so locations can be labelled automatically.
+                  </p>
+                </div>
+              ) : (
+                <div
+                  className="rounded-lg border overflow-hidden"
+                  style={{ borderColor: "rgba(255,255,255,0.1)" }}
+                >
+                  <Table>
+                    <TableHeader>
+                      <TableRow
+                        style={{ borderColor: "rgba(255,255,255,0.1)" }}
+                      >
+                        <TableHead style={{ color: "#cbd5f5" }}>
+                          Label
+                        </TableHead>
+                        <TableHead style={{ color: "#cbd5f5" }}>Type</TableHead>
+                        <TableHead style={{ color: "#cbd5f5" }}>
+                          Shape
+                        </TableHead>
+                        <TableHead style={{ color: "#cbd5f5" }}>
+                          Priority
+                        </TableHead>
+                        <TableHead style={{ color: "#cbd5f5" }}>
+                          Actions
+                        </TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {visibleZones.map((zone) => (
+                        <TableRow
+                          key={zone.id}
+                          style={{ borderColor: "rgba(255,255,255,0.1)" }}
+                        >
+                          <TableCell
+                            className="font-medium"
+                            style={{ color: "#ffffff" }}
+                          >
+                            {zone.label}
+                          </TableCell>
+                          <TableCell>
+                            <Badge variant="secondary">
+                              {ZONE_TYPE_LABELS[zone.type]}
+                            </Badge>
+                          </TableCell>
+                          <TableCell
+                            style={{ color: "#cbd5f5", fontSize: "0.75rem" }}
+                          >
+                            {describeShape(zone)}
+                          </TableCell>
+                          <TableCell style={{ color: "#ffffff" }}>
+                            {getZonePriority(zone)}
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex gap-2">
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => handleOpenForm(zone)}
+                              >
+                                Edit
+                              </Button>
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => setZoneToDelete(zone)}
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card
+            className="border shadow-2xl"
+            style={{
+              background: "rgba(15, 23, 42, 0.92)",
+              borderColor: "rgba(255,255,255,0.18)",
+              borderRadius: "16px",
+              boxShadow: "0 16px 40px rgba(0,0,0,0.45)",
+            }}
+          >
+            <CardHeader>
+              <CardTitle style={{ color: "#ffffff" }}>GPS Accuracy</CardTitle>
+              <CardDescription style={{ color: "#cbd5f5" }}>
+                Check-out and check-in discard fixes less accurate than this. If
+                no fix qualifies, the operator picks the gate manually.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="flex items-end gap-2 max-w-sm">
+                <div className="flex-1">
+                  <Label
+                    htmlFor="accuracy-threshold"
+                    style={{ color: "#cbd5f5" }}
+                  >
+                    Threshold (m)
+                  </Label>
+                  <Input
+                    id="accuracy-threshold"
+                    inputMode="numeric"
+                    value={accuracyThreshold}
+                    onChange={(e) => setAccuracyThresholdInput(e.target.value)}
+                  />
+                </div>
+                <Button onClick={handleSaveThreshold}>Save</Button>
+              </div>
+            </CardContent>
+          </Card>
+        </main>
+
+        <footer className="py-6 text-center text-sm text-white/90 drop-shadow-lg">
+          Built by Jayson James and Ramp Track Systems.
+        </footer>
+      </div>
+
+      {/* Add/Edit Zone Dialog */}
+      {form && (
+        <Dialog open={!!form} onOpenChange={() => setForm(null)}>
+          <DialogContent
+            className="max-w-md"
+            style={{
+              background: "rgba(15, 23, 42, 0.98)",
+              borderColor: "rgba(255,255,255,0.18)",
+            }}
+          >
+            <DialogHeader>
+              <DialogTitle style={{ color: "#ffffff" }}>
+                {form.id ? "Edit Zone" : "Add Zone"}
+              </DialogTitle>
+              <DialogDescription style={{ color: "#cbd5f5" }}>
+                Circles match within their radius; polygons match inside their
+                outline.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-4">
+              <div>
+                <Label htmlFor="zone-label" style={{ color: "#cbd5f5" }}>
+                  Label
+                </Label>
+                <Input
+                  id="zone-label"
+                  value={form.label}
+                  onChange={(e) => updateForm({ label: e.target.value })}
+                  placeholder="e.g. B12, Remote Stand 4, eGSE Charger 2"
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <Label style={{ color: "#cbd5f5" }}>Type</Label>
+                  <Select
+                    value={form.type}
+                    onValueChange={(value) =>
+                      updateForm({ type: value as ZoneType })
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(ZONE_TYPE_LABELS).map(([type, label]) => (
+                        <SelectItem key={type} value={type}>
+                          {label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label style={{ color: "#cbd5f5" }}>Shape</Label>
+                  <Select
+                    value={form.shapeKind}
+                    onValueChange={(value) =>
+                      updateForm({ shapeKind: value as ZoneForm["shapeKind"] })
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="circle">Radius</SelectItem>
+                      <SelectItem value="polygon">Polygon</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div>
+                <Label htmlFor="zone-priority" style={{ color: "#cbd5f5" }}>
+                  Overlap Priority
+                </Label>
+                <Input
+                  id="zone-priority"
+                  inputMode="numeric"
+                  value={form.priority}
+                  onChange={(e) => updateForm({ priority: e.target.value })}
+                  placeholder={`Default for ${ZONE_TYPE_LABELS[form.type]}: ${ZONE_TYPE_PRIORITY[form.type]}`}
+                />
+                <p className="text-xs mt-1" style={{ color: "#cbd5f5" }}>
+                  Where zones overlap, the highest priority wins.
+                </p>
+              </div>
+
+              {form.shapeKind === "circle" ? (
+                <div className="grid grid-cols-3 gap-2">
+                  <div>
+                    <Label htmlFor="zone-lat" style={{ color: "#cbd5f5" }}>
+                      Latitude
+                    </Label>
+                    <Input
+                      id="zone-lat"
+                      inputMode="decimal"
+                      value={form.lat}
+                      onChange={(e) => updateForm({ lat: e.target.value })}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="zone-lng" style={{ color: "#cbd5f5" }}>
+                      Longitude
+                    </Label>
+                    <Input
+                      id="zone-lng"
+                      inputMode="decimal"
+                      value={form.lng}
+                      onChange={(e) => updateForm({ lng: e.target.value })}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="zone-radius" style={{ color: "#cbd5f5" }}>
+                      Radius (m)
+                    </Label>
+                    <Input
+                      id="zone-radius"
+                      inputMode="numeric"
+                      value={form.radiusMeters}
+                      onChange={(e) =>
+                        updateForm({ radiusMeters: e.target.value })
+                      }
+                    />
+                  </div>
+                </div>
+              ) : (
+                <div>
+                  <Label htmlFor="zone-points" style={{ color: "#cbd5f5" }}>
+                    Points (one "lat, lng" per line)
+                  </Label>
+                  <Textarea
+                    id="zone-points"
+                    rows={6}
+                    value={form.points}
+                    onChange={(e) => updateForm({ points: e.target.value })}
+                    placeholder={"33.4365, -111.9965\n33.4367, -111.9970\n..."}
+                  />
+                </div>
+              )}
+
+              <Button
+                variant="outline"
+                className="w-full"
+                onClick={handleUseMyLocation}
+                disabled={locating}
+              >
+                {locating ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <Crosshair className="mr-2 h-4 w-4" />
+                )}
+                {form.shapeKind === "circle"
+                  ? "Use My Location as Center"
+                  : "Add My Location as Point"}
+              </Button>
+
+              {formError && (
+                <Alert variant="destructive">
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertDescription>{formError}</AlertDescription>
+                </Alert>
+              )}
+
+              <div className="flex gap-2 pt-2">
+                <Button
+                  variant="outline"
+                  className="flex-1"
+                  onClick={() => setForm(null)}
+                >
+                  Cancel
+                </Button>
+                <Button className="flex-1" onClick={handleSave}>
+                  Save Zone
+                </Button>
+              </div>
+            </div>
+          </DialogContent>
+        </Dialog>
+      )}
+
+      {/* Delete Confirmation */}
+      <AlertDialog
+        open={!!zoneToDelete}
+        onOpenChange={(open) => !open && setZoneToDelete(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              Delete zone {zoneToDelete?.label}?
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              Locations inside this zone will no longer be labelled with it.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {/* Reset Confirmation */}
+      <AlertDialog open={confirmReset} onOpenChange={setConfirmReset}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Reset all zones?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Every zone at {stationCode} is removed
+              {stationCode === DEFAULT_STATION_CODE &&
+                " and the default gate list is restored"}
+              .
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleReset}>Reset</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
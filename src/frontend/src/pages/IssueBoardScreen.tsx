@@ -0,0 +1,523 @@
+import { AlertCircle, Loader2, Wrench } from "lucide-react";
+import { useState } from "react";
+import { toast } from "sonner";
+import type { Issue } from "../backend";
+import { Alert, AlertDescription } from "../components/ui/alert";
+import { Badge } from "../components/ui/badge";
+import { Button } from "../components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+} from "../components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "../components/ui/dialog";
+import { Input } from "../components/ui/input";
+import { Label } from "../components/ui/label";
+import { Textarea } from "../components/ui/textarea";
+import { useAuth } from "../contexts/AuthContext";
+import {
+  useGetAllIssues,
+  useLogActivity,
+  useUpdateEquipment,
+  useUpdateIssue,
+} from "../hooks/useQueries";
+import { logEvent } from "../lib/equipmentHistory";
+import { findById, updateEquipmentStatus } from "../lib/equipmentRegistry";
+import {
+  ISSUE_STATUSES,
+  ISSUE_STATUS_LABELS,
+  type IssueStatus,
+  getIssueWorkflow,
+  getReportNotes,
+  isLastGroundingIssue,
+  nextIssueStatus,
+  normalizeIssueStatus,
+  recordIssueTransition,
+  validateIssueTransition,
+} from "../lib/issueWorkflow";
+import { checkPermission } from "../lib/permissions";
+
+interface IssueBoardScreenProps {
+  onBack: () => void;
+}
+
+// Released issues only keep the most recent ones on the board
+const MAX_RELEASED_SHOWN = 20;
+
+const ADVANCE_LABELS: Record<IssueStatus, string> = {
+  open: "Open",
+  acknowledged: "Acknowledge",
+  in_repair: "Start Repair",
+  resolved: "Resolve",
+  released: "Release to Service",
+};
+
+// Helper to format a backend nanosecond timestamp
+const formatIssueTime = (timestamp: bigint): string =>
+  new Date(Number(timestamp / 1000000n)).toLocaleString();
+
+export default function IssueBoardScreen({ onBack }: IssueBoardScreenProps) {
+  const { auth } = useAuth();
+  const { data: issues = [], isLoading } = useGetAllIssues();
+  const updateIssue = useUpdateIssue();
+  const updateEquipment = useUpdateEquipment();
+  const logActivity = useLogActivity();
+
+  const [selectedIssue, setSelectedIssue] = useState<Issue | null>(null);
+  const [mechanic, setMechanic] = useState("");
+  const [resolutionNotes, setResolutionNotes] = useState("");
+  const [transitionNotes, setTransitionNotes] = useState("");
+  const [dialogError, setDialogError] = useState("");
+  const [isProcessing, setIsProcessing] = useState(false);
+
+  const columns = ISSUE_STATUSES.map((status) => {
+    const columnIssues = issues
+      .filter((issue) => normalizeIssueStatus(issue.status) === status)
+      .sort((a, b) => Number(b.timestamp - a.timestamp));
+    return {
+      status,
+      issues:
+        status === "released"
+          ? columnIssues.slice(0, MAX_RELEASED_SHOWN)
+          : columnIssues,
+    };
+  });
+
+  const selectedStatus = selectedIssue
+    ? normalizeIssueStatus(selectedIssue.status)
+    : null;
+  const nextStatus = selectedStatus ? nextIssueStatus(selectedStatus) : null;
+
+  const handleOpenIssue = (issue: Issue) => {
+    const workflow = getIssueWorkflow(issue);
+    setSelectedIssue(issue);
+    setMechanic(workflow.mechanic ?? "");
+    setResolutionNotes(workflow.resolutionNotes ?? "");
+    setTransitionNotes("");
+    setDialogError("");
+  };
+
+  // Return grounded equipment to service once its last grounding issue is released
+  const releaseEquipment = async (issue: Issue, releasedBy: string) => {
+    const equipment = findById(issue.equipment_id);
+    if (!equipment || equipment.status !== "MAINTENANCE" || !auth) return;
+
+    const reason = `Grounding issue ${issue.id} released`;
+    const statusResult = updateEquipmentStatus(
+      equipment.id,
+      "AVAILABLE",
+      releasedBy,
+      undefined,
+      reason,
+      { supervisor: releasedBy, role: auth.role, reason },
+    );
+
+    if (!statusResult.success) {
+      toast.error("Equipment Not Released", {
+        description: statusResult.error,
+      });
+      return;
+    }
+
+    void logEvent({
+      id: `event-${Date.now()}`,
+      equipmentId: equipment.id,
+      eventType: "RELEASE",
+      operator: releasedBy,
+      operatorName: auth.name,
+      timestamp: new Date().toISOString(),
+      location: equipment.location,
+      notes: reason,
+    });
+
+    const timestamp = BigInt(Date.now() * 1000000);
+    await updateEquipment.mutateAsync({
+      id: equipment.id,
+      name: equipment.label || equipment.id,
+      status: "available",
+      assigned_operator: undefined,
+      last_location: equipment.location || "",
+      last_update_time: timestamp,
+    });
+    await logActivity.mutateAsync({
+      id: `activity-${Date.now()}`,
+      action: "release_equipment",
+      user_id: releasedBy,
+      timestamp,
+      details: `Released equipment ${equipment.id} to service after issue ${issue.id}`,
+    });
+
+    toast.success("Equipment Back in Service", {
+      description: `${equipment.id} is AVAILABLE again.`,
+    });
+  };
+
+  const handleAdvance = async () => {
+    if (!selectedIssue || !nextStatus || !auth) return;
+
+    const details = { mechanic, resolutionNotes, notes: transitionNotes };
+    const validation = validateIssueTransition(
+      selectedIssue,
+      nextStatus,
+      details,
+    );
+    if (!validation.success) {
+      setDialogError(validation.error || "Cannot advance this issue");
+      return;
+    }
+    const denied = checkPermission(
+      nextStatus === "released" ? "issue.resolve" : "issue.manage",
+      selectedIssue.id,
+    );
+    if (denied) {
+      setDialogError(denied);
+      return;
+    }
+
+    setDialogError("");
+    setIsProcessing(true);
+
+    try {
+      const actedBy = auth.badgeId || auth.user;
+
+      // The workflow travels in the issue's notes, so one outbox write
+      // carries the status, mechanic, resolution notes and trail
+      const transition = recordIssueTransition(
+        selectedIssue,
+        nextStatus,
+        actedBy,
+        details,
+      );
+      if (!transition.issue) {
+        throw new Error(transition.error || "Cannot advance this issue");
+      }
+      await updateIssue.mutateAsync(transition.issue);
+
+      if (
+        nextStatus === "released" &&
+        isLastGroundingIssue(selectedIssue, issues)
+      ) {
+        await releaseEquipment(selectedIssue, actedBy);
+      }
+
+      toast.success(`Issue ${ISSUE_STATUS_LABELS[nextStatus]}`, {
+        description: `${selectedIssue.equipment_id} · ${selectedIssue.category}`,
+      });
+      setSelectedIssue(null);
+    } catch (error) {
+      console.error("Failed to update issue:", error);
+      const message =
+        error instanceof Error ? error.message : "Failed to update issue";
+      setDialogError(message);
+      toast.error("Failed to update issue", { description: message });
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const selectedWorkflow = selectedIssue
+    ? getIssueWorkflow(selectedIssue)
+    : null;
+
+  return (
+    <div
+      className="min-h-screen relative"
+      style={{
+        backgroundImage: "url(/assets/HomescreenBackground.jpg)",
+        backgroundSize: "cover",
+        backgroundPosition: "center",
+        backgroundRepeat: "no-repeat",
+        backgroundAttachment: "fixed",
+      }}
+    >
+      <div className="absolute inset-0 bg-gradient-to-br from-black/30 via-black/40 to-black/30 backdrop-blur-[1px]" />
+
+      <div className="relative z-10">
+        <header className="bg-card/95 backdrop-blur-sm border-b shadow-lg">
+          <div className="container mx-auto px-4 py-4">
+            <div className="flex items-center justify-between">
+              <div>
+                <h1 className="text-2xl font-bold text-foreground">
+                  Issue Board
+                </h1>
+                <p className="text-sm text-muted-foreground">
+                  Track reported issues from report to release
+                </p>
+              </div>
+              <Button variant="outline" onClick={onBack}>
+                <span className="mr-2">←</span>
+                Back to Admin Menu
+              </Button>
+            </div>
+          </div>
+        </header>
+
+        <main className="container mx-auto px-4 py-6">
+          {isLoading ? (
+            <div className="flex justify-center py-12">
+              <Loader2 className="h-8 w-8 animate-spin text-white" />
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+              {columns.map((column) => (
+                <Card
+                  key={column.status}
+                  className="border shadow-2xl"
+                  style={{
+                    background: "rgba(15, 23, 42, 0.92)",
+                    borderColor: "rgba(255,255,255,0.18)",
+                    borderRadius: "16px",
+                    boxShadow: "0 16px 40px rgba(0,0,0,0.45)",
+                  }}
+                >
+                  <CardHeader className="pb-2">
+                    <CardTitle
+                      className="text-sm font-medium flex items-center justify-between"
+                      style={{ color: "#cbd5f5" }}
+                    >
+                      {ISSUE_STATUS_LABELS[column.status]}
+                      <Badge variant="secondary">{column.issues.length}</Badge>
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-3">
+                    {column.issues.length === 0 && (
+                      <p
+                        className="text-sm text-center py-4"
+                        style={{ color: "#cbd5f5" }}
+                      >
+                        No issues
+                      </p>
+                    )}
+                    {column.issues.map((issue) => {
+                      const workflow = getIssueWorkflow(issue);
+                      return (
+                        <button
+                          key={issue.id}
+                          type="button"
+                          onClick={() => handleOpenIssue(issue)}
+                          className="w-full text-left p-3 rounded-lg border transition-colors hover:bg-white/5"
+                          style={{
+                            background: "rgba(30, 41, 59, 0.5)",
+                            borderColor: "rgba(255,255,255,0.1)",
+                          }}
+                        >
+                          <div className="flex items-center justify-between gap-2">
+                            <span
+                              className="font-semibold"
+                              style={{ color: "#ffffff" }}
+                            >
+                              {issue.equipment_id}
+                            </span>
+                            {issue.grounded && (
+                              <Badge variant="destructive">Grounded</Badge>
+                            )}
+                          </div>
+                          <p className="text-sm" style={{ color: "#cbd5f5" }}>
+                            {issue.category}
+                          </p>
+                          {workflow.mechanic && (
+                            <p
+                              className="text-xs mt-1 flex items-center gap-1"
+                              style={{ color: "#cbd5f5" }}
+                            >
+                              <Wrench className="h-3 w-3" />
+                              {workflow.mechanic}
+                            </p>
+                          )}
+                          <p
+                            className="text-xs mt-1"
+                            style={{ color: "#cbd5f5" }}
+                          >
+                            {formatIssueTime(issue.timestamp)}
+                          </p>
+                        </button>
+                      );
+                    })}
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          )}
+        </main>
+
+        <footer className="py-6 text-center text-sm text-white/90 drop-shadow-lg">
+          Built by Jayson James and Ramp Track Systems.
+        </footer>
+      </div>
+
+      {/* Issue Detail Dialog */}
+      {selectedIssue && selectedStatus && (
+        <Dialog
+          open={!!selectedIssue}
+          onOpenChange={() => setSelectedIssue(null)}
+        >
+          <DialogContent
+            className="max-w-lg max-h-[85vh] overflow-y-auto"
+            style={{
+              background: "rgba(15, 23, 42, 0.98)",
+              borderColor: "rgba(255,255,255,0.18)",
+            }}
+          >
+            <DialogHeader>
+              <DialogTitle style={{ color: "#ffffff" }}>
+                {selectedIssue.equipment_id} · {selectedIssue.category}
+              </DialogTitle>
+              <DialogDescription style={{ color: "#cbd5f5" }}>
+                {ISSUE_STATUS_LABELS[selectedStatus]} · Reported by{" "}
+                {selectedIssue.operator_id} at {selectedIssue.location}
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="space-y-4">
+              <p className="text-sm" style={{ color: "#ffffff" }}>
+                {getReportNotes(selectedIssue)}
+              </p>
+
+              {selectedIssue.photo && (
+                <a
+                  href={selectedIssue.photo.getDirectURL()}
+                  target="_blank"
+                  rel="noreferrer"
+                >
+                  <img
+                    src={selectedIssue.photo.getDirectURL()}
+                    alt={`Issue on ${selectedIssue.equipment_id}`}
+                    className="rounded-lg max-h-48 object-cover"
+                  />
+                </a>
+              )}
+
+              {selectedWorkflow && selectedWorkflow.transitions.length > 0 && (
+                <div className="space-y-1">
+                  <Label style={{ color: "#cbd5f5" }}>History</Label>
+                  {selectedWorkflow.transitions.map((transition) => (
+                    <p
+                      key={`${transition.status}-${transition.at}`}
+                      className="text-xs"
+                      style={{ color: "#cbd5f5" }}
+                    >
+                      {new Date(transition.at).toLocaleString()} ·{" "}
+                      {ISSUE_STATUS_LABELS[transition.status]} by{" "}
+                      {transition.by}
+                      {transition.notes && ` — ${transition.notes}`}
+                    </p>
+                  ))}
+                </div>
+              )}
+
+              {nextStatus && (
+                <>
+                  <div>
+                    <Label
+                      htmlFor="issue-mechanic"
+                      style={{ color: "#cbd5f5" }}
+                    >
+                      Mechanic
+                    </Label>
+                    <Input
+                      id="issue-mechanic"
+                      value={mechanic}
+                      onChange={(e) => setMechanic(e.target.value)}
+                      placeholder="Name or badge of assigned mechanic"
+                      disabled={isProcessing}
+                    />
+                  </div>
+
+                  {(nextStatus === "resolved" || nextStatus === "released") && (
+                    <div>
+                      <Label
+                        htmlFor="issue-resolution"
+                        style={{ color: "#cbd5f5" }}
+                      >
+                        Resolution Notes
+                      </Label>
+                      <Textarea
+                        id="issue-resolution"
+                        value={resolutionNotes}
+                        onChange={(e) => setResolutionNotes(e.target.value)}
+                        placeholder="What was repaired or replaced"
+                        disabled={isProcessing}
+                      />
+                    </div>
+                  )}
+
+                  <div>
+                    <Label htmlFor="issue-notes" style={{ color: "#cbd5f5" }}>
+                      Note (optional)
+                    </Label>
+                    <Input
+                      id="issue-notes"
+                      value={transitionNotes}
+                      onChange={(e) => setTransitionNotes(e.target.value)}
+                      disabled={isProcessing}
+                    />
+                  </div>
+                </>
+              )}
+
+              {!nextStatus && selectedWorkflow?.resolutionNotes && (
+                <div>
+                  <Label style={{ color: "#cbd5f5" }}>Resolution Notes</Label>
+                  <p className="text-sm mt-1" style={{ color: "#ffffff" }}>
+                    {selectedWorkflow.resolutionNotes}
+                  </p>
+                </div>
+              )}
+
+              {nextStatus === "released" &&
+                selectedIssue.grounded &&
+                isLastGroundingIssue(selectedIssue, issues) && (
+                  <p className="text-sm" style={{ color: "#cbd5f5" }}>
+                    This is the last grounding issue on{" "}
+                    {selectedIssue.equipment_id}. Releasing it returns the
+                    equipment to AVAILABLE.
+                  </p>
+                )}
+
+              {dialogError && (
+                <Alert variant="destructive">
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertDescription>{dialogError}</AlertDescription>
+                </Alert>
+              )}
+
+              <div className="flex gap-2 pt-2">
+                <Button
+                  variant="outline"
+                  className="flex-1"
+                  onClick={() => setSelectedIssue(null)}
+                  disabled={isProcessing}
+                >
+                  Close
+                </Button>
+                {nextStatus && (
+                  <Button
+                    className="flex-1"
+                    onClick={handleAdvance}
+                    disabled={isProcessing}
+                  >
+                    {isProcessing ? (
+                      <>
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        Saving...
+                      </>
+                    ) : (
+                      ADVANCE_LABELS[nextStatus]
+                    )}
+                  </Button>
+                )}
+              </div>
+            </div>
+          </DialogContent>
+        </Dialog>
+      )}
+    </div>
+  );
+}
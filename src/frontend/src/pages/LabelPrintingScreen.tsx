@@ -0,0 +1,528 @@
+import { Download, Printer } from "lucide-react";
+import { useMemo, useState } from "react";
+import { toast } from "sonner";
+import { Button } from "../components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "../components/ui/card";
+import { Checkbox } from "../components/ui/checkbox";
+import { Input } from "../components/ui/input";
+import { Label } from "../components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "../components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "../components/ui/table";
+import { useAuth } from "../contexts/AuthContext";
+import { getAllEquipment } from "../lib/equipmentRegistry";
+import { formatEquipmentType } from "../lib/equipmentTypeCatalog";
+import {
+  type LabelSymbology,
+  SHEET_LAYOUTS,
+  type SheetLabel,
+  badgeCard,
+  downloadLabelSheets,
+  equipmentLabel,
+  labelsPerSheet,
+  printLabelSheets,
+  renderLabelSheets,
+} from "../lib/labelSheets";
+import { hasPermission } from "../lib/permissions";
+import { getStations, stationOf } from "../lib/stationStore";
+import { getUsers, isUserActive } from "../lib/userStore";
+
+interface LabelPrintingScreenProps {
+  onBack: () => void;
+}
+
+type LabelMode = "equipment" | "badges";
+
+const ALL_STATIONS = "all";
+
+const cardStyle = {
+  background: "rgba(15, 23, 42, 0.92)",
+  borderColor: "rgba(255,255,255,0.18)",
+  borderRadius: "16px",
+  boxShadow: "0 16px 40px rgba(0,0,0,0.45)",
+};
+
+export default function LabelPrintingScreen({
+  onBack,
+}: LabelPrintingScreenProps) {
+  const { auth } = useAuth();
+  const canPrintBadges = hasPermission(auth?.role, "user.manage");
+
+  const [mode, setMode] = useState<LabelMode>("equipment");
+  const [symbology, setSymbology] = useState<LabelSymbology>("qr");
+  const [layoutId, setLayoutId] = useState("letter-30");
+  const [startPosition, setStartPosition] = useState("1");
+  const [outlines, setOutlines] = useState(false);
+  const [search, setSearch] = useState("");
+  const [stationFilter, setStationFilter] = useState(ALL_STATIONS);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+
+  const equipment = useMemo(
+    () => getAllEquipment().filter((e) => e.status !== "RETIRED"),
+    [],
+  );
+  const users = useMemo(() => getUsers().filter(isUserActive), []);
+
+  const kind = mode === "equipment" ? "label" : "card";
+  const layouts = SHEET_LAYOUTS.filter((l) => l.kind === kind);
+  const layout = layouts.find((l) => l.id === layoutId) ?? layouts[0];
+  const perSheet = labelsPerSheet(layout);
+  const skip = Math.min(
+    Math.max(0, (Number.parseInt(startPosition, 10) || 1) - 1),
+    perSheet - 1,
+  );
+
+  const query = search.trim().toLowerCase();
+  const equipmentRows = equipment.filter(
+    (e) =>
+      (stationFilter === ALL_STATIONS || stationOf(e) === stationFilter) &&
+      (!query ||
+        e.id.toLowerCase().includes(query) ||
+        (e.label ?? "").toLowerCase().includes(query)),
+  );
+  const userRows = users.filter(
+    (u) =>
+      !query ||
+      u.displayName.toLowerCase().includes(query) ||
+      u.badgeId.includes(query),
+  );
+  const visibleIds =
+    mode === "equipment"
+      ? equipmentRows.map((e) => e.id)
+      : userRows.map((u) => u.badgeId);
+  const allVisibleSelected =
+    visibleIds.length > 0 && visibleIds.every((id) => selected.has(id));
+
+  // Selected records in list order
+  const labels: SheetLabel[] = useMemo(
+    () =>
+      mode === "equipment"
+        ? equipment
+            .filter((e) => selected.has(e.id))
+            .map((e) => equipmentLabel(e, symbology))
+        : users.filter((u) => selected.has(u.badgeId)).map(badgeCard),
+    [mode, equipment, users, selected, symbology],
+  );
+  const sheetCount = Math.ceil((skip + labels.length) / perSheet);
+
+  // Only the first sheet is drawn for the preview
+  const preview = useMemo(
+    () =>
+      labels.length > 0
+        ? renderLabelSheets(
+            labels.slice(0, perSheet - skip),
+            layout,
+            symbology,
+            { skip, outlines: true },
+          )
+        : null,
+    [labels, layout, symbology, skip, perSheet],
+  );
+
+  const switchMode = (next: LabelMode) => {
+    setMode(next);
+    setSelected(new Set());
+    setSearch("");
+    const first = SHEET_LAYOUTS.find(
+      (l) => l.kind === (next === "equipment" ? "label" : "card"),
+    );
+    if (first) setLayoutId(first.id);
+    setStartPosition("1");
+  };
+
+  const toggle = (id: string, checked: boolean) => {
+    setSelected((current) => {
+      const next = new Set(current);
+      if (checked) next.add(id);
+      else next.delete(id);
+      return next;
+    });
+  };
+
+  const toggleAllVisible = (checked: boolean) => {
+    setSelected((current) => {
+      const next = new Set(current);
+      for (const id of visibleIds) {
+        if (checked) next.add(id);
+        else next.delete(id);
+      }
+      return next;
+    });
+  };
+
+  const renderAll = () => {
+    const result = renderLabelSheets(labels, layout, symbology, {
+      skip,
+      outlines,
+    });
+    if (!result.success) {
+      toast.error(result.error || "Failed to draw labels");
+      return null;
+    }
+    return result.sheets;
+  };
+
+  const handlePrint = () => {
+    const sheets = renderAll();
+    if (!sheets) return;
+    const title =
+      mode === "equipment" ? "Equipment Labels" : "Roster Badge Cards";
+    const result = printLabelSheets(title, sheets, layout);
+    if (!result.success) {
+      toast.error(result.error || "Failed to open print window");
+    }
+  };
+
+  const handleDownload = () => {
+    const sheets = renderAll();
+    if (!sheets) return;
+    const result = downloadLabelSheets(
+      sheets,
+      mode === "equipment" ? "equipment_labels" : "badge_cards",
+    );
+    if (result.success) {
+      toast.success(
+        `Downloaded ${sheets.length} sheet${sheets.length === 1 ? "" : "s"}`,
+      );
+    } else {
+      toast.error(result.error || "Download failed");
+    }
+  };
+
+  return (
+    <div
+      className="min-h-screen relative"
+      style={{
+        backgroundImage: "url(/assets/HomescreenBackground.jpg)",
+        backgroundSize: "cover",
+        backgroundPosition: "center",
+        backgroundRepeat: "no-repeat",
+        backgroundAttachment: "fixed",
+      }}
+    >
+      <div className="absolute inset-0 bg-gradient-to-br from-black/30 via-black/40 to-black/30 backdrop-blur-[1px]" />
+
+      <div className="relative z-10">
+        <header className="bg-card/95 backdrop-blur-sm border-b shadow-lg">
+          <div className="container mx-auto px-4 py-4">
+            <div className="flex items-center justify-between">
+              <div>
+                <h1 className="text-2xl font-bold text-foreground">
+                  Labels &amp; Badge Cards
+                </h1>
+                <p className="text-sm text-muted-foreground">
+                  Printable QR and Code 128 labels for equipment and the roster
+                </p>
+              </div>
+              <div className="flex items-center gap-4">
+                <Button
+                  variant={mode === "equipment" ? "default" : "outline"}
+                  onClick={() => switchMode("equipment")}
+                >
+                  Equipment Labels
+                </Button>
+                {canPrintBadges && (
+                  <Button
+                    variant={mode === "badges" ? "default" : "outline"}
+                    onClick={() => switchMode("badges")}
+                  >
+                    Badge Cards
+                  </Button>
+                )}
+                <Button variant="outline" onClick={onBack}>
+                  <span className="mr-2">←</span>
+                  Back to Admin Menu
+                </Button>
+              </div>
+            </div>
+          </div>
+        </header>
+
+        <main className="container mx-auto px-4 py-6 space-y-6">
+          <Card className="border shadow-2xl" style={cardStyle}>
+            <CardHeader>
+              <CardTitle style={{ color: "#ffffff" }}>Layout</CardTitle>
+              <CardDescription style={{ color: "#cbd5f5" }}>
+                {mode === "equipment"
+                  ? "QR labels open the unit's detail view when scanned; Code 128 labels carry the ID only"
+                  : "Badge cards carry the badge number used at sign-in"}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="grid gap-4 md:grid-cols-4">
+                <div className="space-y-2">
+                  <Label style={{ color: "#cbd5f5" }}>Symbol</Label>
+                  <Select
+                    value={symbology}
+                    onValueChange={(value) =>
+                      setSymbology(value as LabelSymbology)
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="qr">QR code</SelectItem>
+                      <SelectItem value="code128">Code 128</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2 md:col-span-2">
+                  <Label style={{ color: "#cbd5f5" }}>Stock</Label>
+                  <Select value={layout.id} onValueChange={setLayoutId}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {layouts.map((l) => (
+                        <SelectItem key={l.id} value={l.id}>
+                          {l.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="start-position" style={{ color: "#cbd5f5" }}>
+                    Start at position (1–{perSheet})
+                  </Label>
+                  <Input
+                    id="start-position"
+                    type="number"
+                    min={1}
+                    max={perSheet}
+                    value={startPosition}
+                    onChange={(e) => setStartPosition(e.target.value)}
+                    disabled={perSheet === 1}
+                  />
+                </div>
+              </div>
+              <div className="flex items-center gap-2 mt-4">
+                <Checkbox
+                  id="label-outlines"
+                  checked={outlines}
+                  onCheckedChange={(checked) => setOutlines(checked === true)}
+                />
+                <Label htmlFor="label-outlines" style={{ color: "#cbd5f5" }}>
+                  Print outlines (for test prints on plain paper)
+                </Label>
+              </div>
+            </CardContent>
+          </Card>
+
+          <div className="grid gap-6 lg:grid-cols-2">
+            <Card className="border shadow-2xl" style={cardStyle}>
+              <CardHeader>
+                <CardTitle style={{ color: "#ffffff" }}>
+                  {mode === "equipment" ? "Equipment" : "Roster"}
+                </CardTitle>
+                <CardDescription style={{ color: "#cbd5f5" }}>
+                  {selected.size} selected
+                  {mode === "equipment" && " · retired units are not listed"}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="flex gap-2">
+                  <Input
+                    placeholder={
+                      mode === "equipment"
+                        ? "Search ID or label"
+                        : "Search name or badge"
+                    }
+                    value={search}
+                    onChange={(e) => setSearch(e.target.value)}
+                  />
+                  {mode === "equipment" && (
+                    <Select
+                      value={stationFilter}
+                      onValueChange={setStationFilter}
+                    >
+                      <SelectTrigger className="w-48">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={ALL_STATIONS}>
+                          Whole fleet
+                        </SelectItem>
+                        {getStations().map((station) => (
+                          <SelectItem key={station.code} value={station.code}>
+                            {station.code} · {station.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                </div>
+                <div className="max-h-[480px] overflow-y-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow
+                        style={{ borderColor: "rgba(255,255,255,0.1)" }}
+                      >
+                        <TableHead className="w-10">
+                          <Checkbox
+                            checked={allVisibleSelected}
+                            onCheckedChange={(checked) =>
+                              toggleAllVisible(checked === true)
+                            }
+                            aria-label="Select all listed"
+                          />
+                        </TableHead>
+                        {mode === "equipment" ? (
+                          <>
+                            <TableHead style={{ color: "#cbd5f5" }}>
+                              ID
+                            </TableHead>
+                            <TableHead style={{ color: "#cbd5f5" }}>
+                              Type
+                            </TableHead>
+                            <TableHead style={{ color: "#cbd5f5" }}>
+                              Station
+                            </TableHead>
+                          </>
+                        ) : (
+                          <>
+                            <TableHead style={{ color: "#cbd5f5" }}>
+                              Name
+                            </TableHead>
+                            <TableHead style={{ color: "#cbd5f5" }}>
+                              Badge
+                            </TableHead>
+                            <TableHead style={{ color: "#cbd5f5" }}>
+                              Role
+                            </TableHead>
+                          </>
+                        )}
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {mode === "equipment"
+                        ? equipmentRows.map((e) => (
+                            <TableRow
+                              key={e.id}
+                              style={{ borderColor: "rgba(255,255,255,0.1)" }}
+                            >
+                              <TableCell>
+                                <Checkbox
+                                  checked={selected.has(e.id)}
+                                  onCheckedChange={(checked) =>
+                                    toggle(e.id, checked === true)
+                                  }
+                                  aria-label={`Select ${e.id}`}
+                                />
+                              </TableCell>
+                              <TableCell
+                                className="font-medium"
+                                style={{ color: "#ffffff" }}
+                              >
+                                {e.id}
+                              </TableCell>
+                              <TableCell style={{ color: "#cbd5f5" }}>
+                                {e.label || formatEquipmentType(e.type)}
+                              </TableCell>
+                              <TableCell style={{ color: "#cbd5f5" }}>
+                                {stationOf(e)}
+                              </TableCell>
+                            </TableRow>
+                          ))
+                        : userRows.map((u) => (
+                            <TableRow
+                              key={u.badgeId}
+                              style={{ borderColor: "rgba(255,255,255,0.1)" }}
+                            >
+                              <TableCell>
+                                <Checkbox
+                                  checked={selected.has(u.badgeId)}
+                                  onCheckedChange={(checked) =>
+                                    toggle(u.badgeId, checked === true)
+                                  }
+                                  aria-label={`Select ${u.displayName}`}
+                                />
+                              </TableCell>
+                              <TableCell
+                                className="font-medium"
+                                style={{ color: "#ffffff" }}
+                              >
+                                {u.displayName}
+                              </TableCell>
+                              <TableCell style={{ color: "#cbd5f5" }}>
+                                {u.badgeId}
+                              </TableCell>
+                              <TableCell style={{ color: "#cbd5f5" }}>
+                                {u.role}
+                              </TableCell>
+                            </TableRow>
+                          ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card className="border shadow-2xl" style={cardStyle}>
+              <CardHeader>
+                <CardTitle style={{ color: "#ffffff" }}>Preview</CardTitle>
+                <CardDescription style={{ color: "#cbd5f5" }}>
+                  {labels.length === 0
+                    ? "Select records to preview the first sheet"
+                    : `${labels.length} ${mode === "equipment" ? "label" : "card"}${labels.length === 1 ? "" : "s"} on ${sheetCount} sheet${sheetCount === 1 ? "" : "s"}`}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {preview && !preview.success && (
+                  <p className="text-sm" style={{ color: "#fbbf24" }}>
+                    {preview.error}
+                  </p>
+                )}
+                {preview?.success && (
+                  <img
+                    src={`data:image/svg+xml;charset=utf-8,${encodeURIComponent(preview.sheets[0])}`}
+                    alt="First sheet preview"
+                    className="w-full rounded"
+                    style={{ background: "#ffffff" }}
+                  />
+                )}
+                <p className="text-xs" style={{ color: "#cbd5f5" }}>
+                  Print at 100% scale ("Actual size") with margins set to none.
+                  Choose "Save as PDF" in the print dialog for a PDF.
+                </p>
+                <div className="flex gap-2">
+                  <Button onClick={handlePrint} disabled={labels.length === 0}>
+                    <Printer className="mr-2 h-4 w-4" />
+                    Print / Save PDF
+                  </Button>
+                  <Button
+                    variant="outline"
+                    onClick={handleDownload}
+                    disabled={labels.length === 0}
+                  >
+                    <Download className="mr-2 h-4 w-4" />
+                    Download SVG
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+        </main>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,15 @@
-import { AlertCircle, CheckCircle2, Loader2, Search } from "lucide-react";
+import {
+  AlertCircle,
+  CheckCircle2,
+  Clock,
+  ListChecks,
+  Loader2,
+  Search,
+  Upload,
+} from "lucide-react";
 import { useEffect, useState } from "react";
 import { toast } from "sonner";
+import EquipmentImportDialog from "../components/EquipmentImportDialog";
 import { Alert, AlertDescription } from "../components/ui/alert";
 import { Badge } from "../components/ui/badge";
 import { Button } from "../components/ui/button";
@@ -11,6 +20,7 @@ import {
   CardHeader,
   CardTitle,
 } from "../components/ui/card";
+import { Checkbox } from "../components/ui/checkbox";
 import {
   Dialog,
   DialogContent,
@@ -28,42 +38,61 @@ import {
   SelectValue,
 } from "../components/ui/select";
 import { useAuth } from "../contexts/AuthContext";
+import { useActiveStation } from "../hooks/useActiveStation";
 import { ensureUserContext } from "../lib/ensureUserContext";
+import { logEvent } from "../lib/equipmentHistory";
 import {
   type EquipmentRecord,
   type EquipmentStatus,
   type EquipmentType,
+  type RemovedStatus,
   addEquipment,
   findById,
-  getAllEquipment,
+  getStationEquipment,
+  getUnassignedEquipment,
+  retireEquipment,
   updateEquipment,
+  updateEquipmentStatus,
 } from "../lib/equipmentRegistry";
+import { checkTransition } from "../lib/equipmentStateMachine";
+import {
+  DEFAULT_EQUIPMENT_TYPE,
+  POWER_SOURCE_LABELS,
+  formatEquipmentType,
+  getEquipmentType,
+  getEquipmentTypes,
+} from "../lib/equipmentTypeCatalog";
+import { toDateKey } from "../lib/fleetAnalytics";
+import { formatMinutes, getOverdueMinutes } from "../lib/overdueCheckouts";
+import { hasPermission } from "../lib/permissions";
 
 interface ManageEquipmentScreenProps {
   onBack: () => void;
+  onEquipmentTypes: () => void;
+  // Open the full detail view of a unit
+  onOpenEquipment: (id: string) => void;
 }
 
-// Helper to format equipment type for display
-const formatEquipmentType = (type: string): string => {
-  if (type === "ELECTRIC_TUG") return "ELECTRIC TUG";
-  if (type === "TUG") return "TUG";
-  return type.replace("_", " ");
-};
-
 export default function ManageEquipmentScreen({
   onBack,
+  onEquipmentTypes,
+  onOpenEquipment,
 }: ManageEquipmentScreenProps) {
-  const { isRefreshing } = useAuth();
+  const { auth, isRefreshing } = useAuth();
   const [equipmentList, setEquipmentList] = useState<EquipmentRecord[]>([]);
+  // Backend-only units waiting for a station
+  const [unassigned, setUnassigned] = useState<EquipmentRecord[]>([]);
   const [searchQuery, setSearchQuery] = useState("");
   const [selectedEquipment, setSelectedEquipment] =
     useState<EquipmentRecord | null>(null);
   const [showEditDialog, setShowEditDialog] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
+  const [showImport, setShowImport] = useState(false);
 
   // Add form state
-  const [newEquipmentType, setNewEquipmentType] =
-    useState<EquipmentType>("TUG");
+  const [newEquipmentType, setNewEquipmentType] = useState<EquipmentType>(
+    DEFAULT_EQUIPMENT_TYPE,
+  );
   const [newEquipmentId, setNewEquipmentId] = useState("");
   const [newEquipmentLabel, setNewEquipmentLabel] = useState("");
   const [addError, setAddError] = useState("");
@@ -72,28 +101,45 @@ export default function ManageEquipmentScreen({
   // Edit form state
   const [editStatus, setEditStatus] = useState<EquipmentStatus>("AVAILABLE");
   const [editLabel, setEditLabel] = useState("");
+  const [editReason, setEditReason] = useState("");
   const [editError, setEditError] = useState("");
+  // Set while the remove-from-service form is open in the edit dialog
+  const [retireForm, setRetireForm] = useState<{
+    status: RemovedStatus;
+    reason: string;
+    effectiveDate: string;
+    approvedBy: string;
+  } | null>(null);
+  const [showRetired, setShowRetired] = useState(false);
 
   console.log(
     "[ManageEquipmentScreen] No component reads currentUser - using auth only",
   );
 
+  const { stationCode } = useActiveStation();
+
   // Load equipment on mount and after changes
   const loadEquipment = () => {
-    setEquipmentList(getAllEquipment());
+    setEquipmentList(getStationEquipment());
+    setUnassigned(getUnassignedEquipment());
   };
 
   useEffect(() => {
-    setEquipmentList(getAllEquipment());
-  }, []);
+    setEquipmentList(getStationEquipment(stationCode));
+    setUnassigned(getUnassignedEquipment());
+  }, [stationCode]);
 
-  // Filter equipment by search query
+  // Filter equipment by search query; retired units only when asked for
   const filteredEquipment = equipmentList.filter(
     (eq) =>
-      eq.id.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      eq.type.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      eq.label?.toLowerCase().includes(searchQuery.toLowerCase()),
+      (showRetired || eq.status !== "RETIRED") &&
+      (eq.id.toLowerCase().includes(searchQuery.toLowerCase()) ||
+        eq.type.toLowerCase().includes(searchQuery.toLowerCase()) ||
+        eq.label?.toLowerCase().includes(searchQuery.toLowerCase())),
   );
+  const retiredCount = equipmentList.filter(
+    (eq) => eq.status === "RETIRED",
+  ).length;
 
   const handleAddEquipment = async () => {
     // Validate session before write operation
@@ -123,7 +169,7 @@ export default function ManageEquipmentScreen({
         setAddSuccess(true);
         setNewEquipmentId("");
         setNewEquipmentLabel("");
-        setNewEquipmentType("TUG");
+        setNewEquipmentType(DEFAULT_EQUIPMENT_TYPE);
         loadEquipment();
         toast.success("Equipment added successfully");
 
@@ -142,14 +188,87 @@ export default function ManageEquipmentScreen({
     }
   };
 
+  const handleAssignStation = async (equipment: EquipmentRecord) => {
+    // Validate session before write operation
+    const isValid = await ensureUserContext();
+    if (!isValid) {
+      toast.error("Session expired. Please log in again.");
+      return;
+    }
+
+    const result = updateEquipment(equipment.id, { stationCode });
+    if (result.success) {
+      loadEquipment();
+      toast.success(`${equipment.id} assigned to ${stationCode}`);
+    } else {
+      toast.error(result.error || "Failed to assign station");
+    }
+  };
+
   const handleOpenEdit = (equipment: EquipmentRecord) => {
     setSelectedEquipment(equipment);
     setEditStatus(equipment.status);
     setEditLabel(equipment.label || "");
+    setEditReason("");
     setEditError("");
+    setRetireForm(null);
     setShowEditDialog(true);
   };
 
+  const isRetired = selectedEquipment?.status === "RETIRED";
+  const canRemoveFromService =
+    hasPermission(auth?.role, "equipment.retire") &&
+    selectedEquipment !== null &&
+    selectedEquipment.status !== "ASSIGNED" &&
+    !isRetired;
+
+  const handleOpenRetire = (status: RemovedStatus) => {
+    setEditError("");
+    setRetireForm({
+      status,
+      reason: "",
+      effectiveDate: toDateKey(Date.now()),
+      approvedBy: auth?.badgeId || "",
+    });
+  };
+
+  const handleRetire = async () => {
+    if (!selectedEquipment || !retireForm) return;
+
+    // Validate session before write operation
+    const isValid = await ensureUserContext();
+    if (!isValid) {
+      toast.error("Session expired. Please log in again.");
+      setShowEditDialog(false);
+      return;
+    }
+
+    setEditError("");
+    setIsProcessing(true);
+    try {
+      const result = retireEquipment(
+        selectedEquipment.id,
+        retireForm,
+        auth?.badgeId || auth?.user || "unknown",
+      );
+      if (result.success) {
+        setShowEditDialog(false);
+        setSelectedEquipment(null);
+        setRetireForm(null);
+        loadEquipment();
+        toast.success(
+          retireForm.status === "RETIRED"
+            ? `${selectedEquipment.id} retired`
+            : `${selectedEquipment.id} taken out of service`,
+        );
+      } else {
+        setEditError(result.error || "Failed to update equipment");
+      }
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
   const handleSaveEdit = async () => {
     if (!selectedEquipment) return;
 
@@ -161,15 +280,61 @@ export default function ManageEquipmentScreen({
       return;
     }
 
+    const statusChanged = editStatus !== selectedEquipment.status;
+    if (statusChanged && !editReason.trim()) {
+      setEditError("A reason is required to change equipment status.");
+      return;
+    }
+
     setEditError("");
     setIsProcessing(true);
 
     try {
-      const result = updateEquipment(selectedEquipment.id, {
-        status: editStatus,
+      let result = updateEquipment(selectedEquipment.id, {
         label: editLabel.trim() || undefined,
       });
 
+      // Status edits go through the state machine; transitions it rejects
+      // (including maintenance release) are recorded as supervisor overrides
+      if (result.success && statusChanged) {
+        const supervisor = auth?.badgeId || auth?.user || "unknown";
+        const rejected = checkTransition(
+          selectedEquipment,
+          editStatus,
+          supervisor,
+        );
+        result = updateEquipmentStatus(
+          selectedEquipment.id,
+          editStatus,
+          supervisor,
+          undefined,
+          editReason.trim(),
+          rejected
+            ? {
+                supervisor,
+                role: auth?.role ?? "",
+                reason: editReason.trim(),
+              }
+            : undefined,
+        );
+
+        if (
+          result.success &&
+          selectedEquipment.status === "MAINTENANCE" &&
+          editStatus === "AVAILABLE"
+        ) {
+          void logEvent({
+            id: `event-${Date.now()}`,
+            equipmentId: selectedEquipment.id,
+            eventType: "RELEASE",
+            operator: supervisor,
+            operatorName: auth?.name,
+            timestamp: new Date().toISOString(),
+            notes: editReason.trim(),
+          });
+        }
+      }
+
       if (result.success) {
         setShowEditDialog(false);
         setSelectedEquipment(null);
@@ -196,6 +361,9 @@ export default function ManageEquipmentScreen({
         return "secondary";
       case "MAINTENANCE":
         return "destructive";
+      case "OUT_OF_SERVICE":
+      case "RETIRED":
+        return "outline";
       default:
         return "default";
     }
@@ -223,7 +391,7 @@ export default function ManageEquipmentScreen({
                   Manage Equipment
                 </h1>
                 <p className="text-sm text-muted-foreground">
-                  Add and manage equipment registry
+                  Add and manage the {stationCode} equipment registry
                 </p>
               </div>
               <div className="flex items-center gap-4">
@@ -233,6 +401,18 @@ export default function ManageEquipmentScreen({
                     <span>Reconnecting…</span>
                   </div>
                 )}
+                {hasPermission(auth?.role, "equipment.create") && (
+                  <Button variant="outline" onClick={() => setShowImport(true)}>
+                    <Upload className="mr-2 h-4 w-4" />
+                    Import CSV
+                  </Button>
+                )}
+                {hasPermission(auth?.role, "equipmentType.manage") && (
+                  <Button variant="outline" onClick={onEquipmentTypes}>
+                    <ListChecks className="mr-2 h-4 w-4" />
+                    Equipment Types
+                  </Button>
+                )}
                 <Button variant="outline" onClick={onBack}>
                   <span className="mr-2">←</span>
                   Back to Admin Menu
@@ -251,108 +431,181 @@ export default function ManageEquipmentScreen({
           )}
 
           {/* Add Equipment Form */}
-          <Card
-            className="border shadow-2xl"
-            style={{
-              background: "rgba(15, 23, 42, 0.92)",
-              borderColor: "rgba(255,255,255,0.18)",
-              borderRadius: "16px",
-              boxShadow: "0 16px 40px rgba(0,0,0,0.45)",
-            }}
-          >
-            <CardHeader>
-              <CardTitle style={{ color: "#ffffff" }}>
-                Add New Equipment
-              </CardTitle>
-              <CardDescription style={{ color: "#cbd5f5" }}>
-                Register new equipment in the system
-              </CardDescription>
-            </CardHeader>
-            <CardContent className="space-y-4">
-              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                <div>
-                  <Label style={{ color: "#cbd5f5" }}>Equipment Type *</Label>
-                  <Select
-                    value={newEquipmentType}
-                    onValueChange={(value) =>
-                      setNewEquipmentType(value as EquipmentType)
-                    }
-                  >
-                    <SelectTrigger>
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="TUG">TUG (Gas/Diesel)</SelectItem>
-                      <SelectItem value="ELECTRIC_TUG">ELECTRIC TUG</SelectItem>
-                      <SelectItem value="STANDUP_PUSHBACK">
-                        STANDUP PUSHBACK
-                      </SelectItem>
-                      <SelectItem value="LAMBO_PUSHBACK">
-                        LAMBO PUSHBACK
-                      </SelectItem>
-                    </SelectContent>
-                  </Select>
-                </div>
+          {hasPermission(auth?.role, "equipment.create") && (
+            <Card
+              className="border shadow-2xl"
+              style={{
+                background: "rgba(15, 23, 42, 0.92)",
+                borderColor: "rgba(255,255,255,0.18)",
+                borderRadius: "16px",
+                boxShadow: "0 16px 40px rgba(0,0,0,0.45)",
+              }}
+            >
+              <CardHeader>
+                <CardTitle style={{ color: "#ffffff" }}>
+                  Add New Equipment
+                </CardTitle>
+                <CardDescription style={{ color: "#cbd5f5" }}>
+                  Register new equipment in the system
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div>
+                    <Label style={{ color: "#cbd5f5" }}>Equipment Type *</Label>
+                    <Select
+                      value={newEquipmentType}
+                      onValueChange={(value) =>
+                        setNewEquipmentType(value as EquipmentType)
+                      }
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {getEquipmentTypes().map((type) => (
+                          <SelectItem key={type.code} value={type.code}>
+                            {type.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {(() => {
+                      const type = getEquipmentType(newEquipmentType);
+                      if (!type) return null;
+                      return (
+                        <p
+                          className="text-xs mt-1"
+                          style={{ color: "#cbd5f5" }}
+                        >
+                          {POWER_SOURCE_LABELS[type.powerSource]} · IDs match{" "}
+                          {type.idPattern}
+                          {type.requiresCertification &&
+                            " · certified operators only"}
+                        </p>
+                      );
+                    })()}
+                  </div>
 
-                <div>
-                  <Label htmlFor="equipment-id" style={{ color: "#cbd5f5" }}>
-                    Equipment ID *
-                  </Label>
-                  <Input
-                    id="equipment-id"
-                    value={newEquipmentId}
-                    onChange={(e) => setNewEquipmentId(e.target.value)}
-                    placeholder="e.g., TV1500 or TUG-001"
-                    disabled={isProcessing}
-                  />
-                </div>
+                  <div>
+                    <Label htmlFor="equipment-id" style={{ color: "#cbd5f5" }}>
+                      Equipment ID *
+                    </Label>
+                    <Input
+                      id="equipment-id"
+                      value={newEquipmentId}
+                      onChange={(e) => setNewEquipmentId(e.target.value)}
+                      placeholder="e.g., TV1500 or BL0042"
+                      disabled={isProcessing}
+                    />
+                  </div>
 
-                <div>
-                  <Label htmlFor="equipment-label" style={{ color: "#cbd5f5" }}>
-                    Label (Optional)
-                  </Label>
-                  <Input
-                    id="equipment-label"
-                    value={newEquipmentLabel}
-                    onChange={(e) => setNewEquipmentLabel(e.target.value)}
-                    placeholder="e.g., Main Ramp Tug"
-                    disabled={isProcessing}
-                  />
+                  <div>
+                    <Label
+                      htmlFor="equipment-label"
+                      style={{ color: "#cbd5f5" }}
+                    >
+                      Label (Optional)
+                    </Label>
+                    <Input
+                      id="equipment-label"
+                      value={newEquipmentLabel}
+                      onChange={(e) => setNewEquipmentLabel(e.target.value)}
+                      placeholder="e.g., Main Ramp Tug"
+                      disabled={isProcessing}
+                    />
+                  </div>
                 </div>
-              </div>
 
-              {addError && (
-                <Alert variant="destructive">
-                  <AlertCircle className="h-4 w-4" />
-                  <AlertDescription>{addError}</AlertDescription>
-                </Alert>
-              )}
+                {addError && (
+                  <Alert variant="destructive">
+                    <AlertCircle className="h-4 w-4" />
+                    <AlertDescription>{addError}</AlertDescription>
+                  </Alert>
+                )}
 
-              {addSuccess && (
-                <Alert>
-                  <CheckCircle2 className="h-4 w-4" />
-                  <AlertDescription>
-                    Equipment added successfully!
-                  </AlertDescription>
-                </Alert>
-              )}
+                {addSuccess && (
+                  <Alert>
+                    <CheckCircle2 className="h-4 w-4" />
+                    <AlertDescription>
+                      Equipment added successfully!
+                    </AlertDescription>
+                  </Alert>
+                )}
+
+                <Button
+                  onClick={handleAddEquipment}
+                  className="w-full md:w-auto"
+                  disabled={isProcessing}
+                >
+                  {isProcessing ? (
+                    <>
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      Adding...
+                    </>
+                  ) : (
+                    "Add Equipment"
+                  )}
+                </Button>
+              </CardContent>
+            </Card>
+          )}
 
-              <Button
-                onClick={handleAddEquipment}
-                className="w-full md:w-auto"
-                disabled={isProcessing}
+          {/* Units synced from the backend without a station */}
+          {hasPermission(auth?.role, "equipment.edit") &&
+            unassigned.length > 0 && (
+              <Card
+                className="border shadow-2xl"
+                style={{
+                  background: "rgba(15, 23, 42, 0.92)",
+                  borderColor: "#fbbf24",
+                  borderRadius: "16px",
+                  boxShadow: "0 16px 40px rgba(0,0,0,0.45)",
+                }}
               >
-                {isProcessing ? (
-                  <>
-                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                    Adding...
-                  </>
-                ) : (
-                  "Add Equipment"
-                )}
-              </Button>
-            </CardContent>
-          </Card>
+                <CardHeader>
+                  <CardTitle style={{ color: "#ffffff" }}>
+                    Unassigned Units
+                  </CardTitle>
+                  <CardDescription style={{ color: "#cbd5f5" }}>
+                    Added on another device and synced without a station. They
+                    are not part of any fleet until assigned.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  {unassigned.map((equipment) => (
+                    <div
+                      key={equipment.id}
+                      className="flex items-center justify-between p-3 rounded-lg border"
+                      style={{
+                        background: "rgba(30, 41, 59, 0.5)",
+                        borderColor: "rgba(255,255,255,0.1)",
+                      }}
+                    >
+                      <div>
+                        <p
+                          className="font-semibold"
+                          style={{ color: "#ffffff" }}
+                        >
+                          {equipment.id}
+                        </p>
+                        <p className="text-sm" style={{ color: "#cbd5f5" }}>
+                          {formatEquipmentType(equipment.type)}
+                          {equipment.label && ` · ${equipment.label}`}
+                        </p>
+                      </div>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleAssignStation(equipment)}
+                      >
+                        Assign to {stationCode}
+                      </Button>
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            )}
 
           {/* Equipment List */}
           <Card
@@ -368,9 +621,27 @@ export default function ManageEquipmentScreen({
               <CardTitle style={{ color: "#ffffff" }}>
                 Equipment Registry
               </CardTitle>
-              <CardDescription style={{ color: "#cbd5f5" }}>
-                {equipmentList.length} equipment items registered
-              </CardDescription>
+              <div className="flex items-start justify-between gap-4">
+                <CardDescription style={{ color: "#cbd5f5" }}>
+                  {equipmentList.length - retiredCount} equipment items
+                  registered
+                  {retiredCount > 0 && ` · ${retiredCount} retired`}
+                </CardDescription>
+                {retiredCount > 0 && (
+                  <div className="flex items-center gap-2">
+                    <Checkbox
+                      id="show-retired"
+                      checked={showRetired}
+                      onCheckedChange={(checked) =>
+                        setShowRetired(checked === true)
+                      }
+                    />
+                    <Label htmlFor="show-retired" style={{ color: "#cbd5f5" }}>
+                      Show retired
+                    </Label>
+                  </div>
+                )}
+              </div>
             </CardHeader>
             <CardContent className="space-y-4">
               <div className="relative">
@@ -398,53 +669,78 @@ export default function ManageEquipmentScreen({
                 </div>
               ) : (
                 <div className="space-y-3 max-h-[500px] overflow-y-auto">
-                  {filteredEquipment.map((equipment) => (
-                    <button
-                      key={equipment.id}
-                      type="button"
-                      className="w-full text-left flex items-center justify-between p-4 rounded-lg border cursor-pointer hover:bg-white/5 transition-colors"
-                      style={{
-                        background: "rgba(30, 41, 59, 0.5)",
-                        borderColor: "rgba(255,255,255,0.1)",
-                      }}
-                      onClick={() => handleOpenEdit(equipment)}
-                    >
-                      <div className="flex-1">
-                        <div className="flex items-center gap-2">
+                  {filteredEquipment.map((equipment) => {
+                    const overdueMinutes = getOverdueMinutes(equipment);
+                    return (
+                      <button
+                        key={equipment.id}
+                        type="button"
+                        className="w-full text-left flex items-center justify-between p-4 rounded-lg border cursor-pointer hover:bg-white/5 transition-colors"
+                        style={{
+                          background:
+                            overdueMinutes !== null
+                              ? "rgba(251, 191, 36, 0.12)"
+                              : "rgba(30, 41, 59, 0.5)",
+                          borderColor:
+                            overdueMinutes !== null
+                              ? "#fbbf24"
+                              : "rgba(255,255,255,0.1)",
+                        }}
+                        onClick={() => handleOpenEdit(equipment)}
+                      >
+                        <div className="flex-1">
+                          <div className="flex items-center gap-2">
+                            <p
+                              className="font-semibold"
+                              style={{ color: "#ffffff" }}
+                            >
+                              {equipment.id}
+                            </p>
+                            <Badge
+                              variant="outline"
+                              style={{ color: "#cbd5f5" }}
+                            >
+                              {formatEquipmentType(equipment.type)}
+                            </Badge>
+                          </div>
                           <p
-                            className="font-semibold"
-                            style={{ color: "#ffffff" }}
+                            className="text-sm mt-1"
+                            style={{ color: "#cbd5f5" }}
                           >
-                            {equipment.id}
+                            ID: {equipment.id}
                           </p>
-                          <Badge variant="outline" style={{ color: "#cbd5f5" }}>
-                            {formatEquipmentType(equipment.type)}
-                          </Badge>
-                        </div>
-                        <p
-                          className="text-sm mt-1"
-                          style={{ color: "#cbd5f5" }}
-                        >
-                          ID: {equipment.id}
-                        </p>
-                        {equipment.label && (
-                          <p className="text-sm" style={{ color: "#cbd5f5" }}>
-                            {equipment.label}
+                          {equipment.label && (
+                            <p className="text-sm" style={{ color: "#cbd5f5" }}>
+                              {equipment.label}
+                            </p>
+                          )}
+                          <p
+                            className="text-xs mt-1"
+                            style={{ color: "#cbd5f5" }}
+                          >
+                            Added:{" "}
+                            {new Date(equipment.createdAt).toLocaleDateString()}
                           </p>
-                        )}
-                        <p
-                          className="text-xs mt-1"
-                          style={{ color: "#cbd5f5" }}
+                          {overdueMinutes !== null && (
+                            <p
+                              className="text-sm font-medium mt-1 flex items-center gap-1"
+                              style={{ color: "#fbbf24" }}
+                            >
+                              <Clock className="h-4 w-4" />
+                              Overdue by {formatMinutes(overdueMinutes)}
+                              {equipment.lastOperator &&
+                                ` · ${equipment.lastOperator}`}
+                            </p>
+                          )}
+                        </div>
+                        <Badge
+                          variant={getStatusBadgeVariant(equipment.status)}
                         >
-                          Added:{" "}
-                          {new Date(equipment.createdAt).toLocaleDateString()}
-                        </p>
-                      </div>
-                      <Badge variant={getStatusBadgeVariant(equipment.status)}>
-                        {equipment.status}
-                      </Badge>
-                    </button>
-                  ))}
+                          {equipment.status}
+                        </Badge>
+                      </button>
+                    );
+                  })}
                 </div>
               )}
             </CardContent>
@@ -456,6 +752,13 @@ export default function ManageEquipmentScreen({
         </footer>
       </div>
 
+      {showImport && (
+        <EquipmentImportDialog
+          onClose={() => setShowImport(false)}
+          onImported={loadEquipment}
+        />
+      )}
+
       {/* Edit Equipment Dialog */}
       {selectedEquipment && (
         <Dialog open={showEditDialog} onOpenChange={setShowEditDialog}>
@@ -475,14 +778,24 @@ export default function ManageEquipmentScreen({
               </DialogDescription>
             </DialogHeader>
             <div className="space-y-4">
-              <div>
-                <Label style={{ color: "#cbd5f5" }}>Equipment ID</Label>
-                <p
-                  className="text-lg font-semibold mt-1"
-                  style={{ color: "#ffffff" }}
+              <div className="flex items-end justify-between gap-2">
+                <div>
+                  <Label style={{ color: "#cbd5f5" }}>Equipment ID</Label>
+                  <p
+                    className="text-lg font-semibold mt-1"
+                    style={{ color: "#ffffff" }}
+                  >
+                    {selectedEquipment.id}
+                  </p>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => onOpenEquipment(selectedEquipment.id)}
+                  disabled={isProcessing}
                 >
-                  {selectedEquipment.id}
-                </p>
+                  Full Details
+                </Button>
               </div>
 
               <div>
@@ -501,29 +814,177 @@ export default function ManageEquipmentScreen({
                   value={editLabel}
                   onChange={(e) => setEditLabel(e.target.value)}
                   placeholder="Optional label"
-                  disabled={isProcessing}
+                  disabled={isProcessing || isRetired}
                 />
               </div>
 
-              <div>
-                <Label style={{ color: "#cbd5f5" }}>Status</Label>
-                <Select
-                  value={editStatus}
-                  onValueChange={(value) =>
-                    setEditStatus(value as EquipmentStatus)
-                  }
-                  disabled={isProcessing}
+              {selectedEquipment.retirement && (
+                <div>
+                  <Label style={{ color: "#cbd5f5" }}>
+                    {isRetired ? "Retired" : "Out of Service"}
+                  </Label>
+                  <p className="mt-1" style={{ color: "#fbbf24" }}>
+                    {selectedEquipment.retirement.reason}
+                  </p>
+                  <p className="text-xs" style={{ color: "#cbd5f5" }}>
+                    Effective {selectedEquipment.retirement.effectiveDate} ·
+                    approved by {selectedEquipment.retirement.approvedBy}
+                  </p>
+                </div>
+              )}
+
+              {!isRetired && (
+                <div>
+                  <Label style={{ color: "#cbd5f5" }}>Status</Label>
+                  <Select
+                    value={editStatus}
+                    onValueChange={(value) =>
+                      setEditStatus(value as EquipmentStatus)
+                    }
+                    disabled={isProcessing || retireForm !== null}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {selectedEquipment.status === "OUT_OF_SERVICE" ? (
+                        <>
+                          <SelectItem value="OUT_OF_SERVICE">
+                            OUT OF SERVICE
+                          </SelectItem>
+                          <SelectItem value="AVAILABLE">
+                            AVAILABLE (return to service)
+                          </SelectItem>
+                        </>
+                      ) : (
+                        <>
+                          <SelectItem value="AVAILABLE">AVAILABLE</SelectItem>
+                          <SelectItem value="ASSIGNED">ASSIGNED</SelectItem>
+                          <SelectItem value="MAINTENANCE">
+                            MAINTENANCE
+                          </SelectItem>
+                        </>
+                      )}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
+              {editStatus !== selectedEquipment.status && (
+                <div>
+                  <Label htmlFor="edit-reason" style={{ color: "#cbd5f5" }}>
+                    Reason for status change
+                  </Label>
+                  <Input
+                    id="edit-reason"
+                    value={editReason}
+                    onChange={(e) => setEditReason(e.target.value)}
+                    placeholder={
+                      selectedEquipment.status === "MAINTENANCE" ||
+                      selectedEquipment.status === "OUT_OF_SERVICE"
+                        ? "Release notes (repair completed, inspected by...)"
+                        : "Required"
+                    }
+                    disabled={isProcessing}
+                  />
+                </div>
+              )}
+
+              {canRemoveFromService && !retireForm && (
+                <div
+                  className="pt-2 border-t"
+                  style={{ borderColor: "rgba(255,255,255,0.1)" }}
                 >
-                  <SelectTrigger>
-                    <SelectValue />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="AVAILABLE">AVAILABLE</SelectItem>
-                    <SelectItem value="ASSIGNED">ASSIGNED</SelectItem>
-                    <SelectItem value="MAINTENANCE">MAINTENANCE</SelectItem>
-                  </SelectContent>
-                </Select>
-              </div>
+                  <Label style={{ color: "#cbd5f5" }}>
+                    Remove from Service
+                  </Label>
+                  <div className="flex gap-2 mt-2">
+                    {selectedEquipment.status !== "OUT_OF_SERVICE" && (
+                      <Button
+                        variant="outline"
+                        className="flex-1"
+                        onClick={() => handleOpenRetire("OUT_OF_SERVICE")}
+                        disabled={isProcessing}
+                      >
+                        Out of Service
+                      </Button>
+                    )}
+                    <Button
+                      variant="destructive"
+                      className="flex-1"
+                      onClick={() => handleOpenRetire("RETIRED")}
+                      disabled={isProcessing}
+                    >
+                      Retire
+                    </Button>
+                  </div>
+                </div>
+              )}
+
+              {retireForm && (
+                <div
+                  className="space-y-3 pt-2 border-t"
+                  style={{ borderColor: "rgba(255,255,255,0.1)" }}
+                >
+                  <p className="text-sm" style={{ color: "#fbbf24" }}>
+                    {retireForm.status === "RETIRED"
+                      ? `Retiring ${selectedEquipment.id} is permanent. Its history is kept, but it can no longer be checked out, edited or re-imported.`
+                      : `${selectedEquipment.id} will be excluded from counts and check-out until it is returned to service.`}
+                  </p>
+                  <div>
+                    <Label htmlFor="retire-reason" style={{ color: "#cbd5f5" }}>
+                      Reason
+                    </Label>
+                    <Input
+                      id="retire-reason"
+                      value={retireForm.reason}
+                      onChange={(e) =>
+                        setRetireForm({ ...retireForm, reason: e.target.value })
+                      }
+                      placeholder="Required (sold, written off, damaged...)"
+                      disabled={isProcessing}
+                    />
+                  </div>
+                  <div className="flex gap-2">
+                    <div className="flex-1">
+                      <Label htmlFor="retire-date" style={{ color: "#cbd5f5" }}>
+                        Effective date
+                      </Label>
+                      <Input
+                        id="retire-date"
+                        type="date"
+                        value={retireForm.effectiveDate}
+                        onChange={(e) =>
+                          setRetireForm({
+                            ...retireForm,
+                            effectiveDate: e.target.value,
+                          })
+                        }
+                        disabled={isProcessing}
+                      />
+                    </div>
+                    <div className="flex-1">
+                      <Label
+                        htmlFor="retire-approver"
+                        style={{ color: "#cbd5f5" }}
+                      >
+                        Approved by (badge)
+                      </Label>
+                      <Input
+                        id="retire-approver"
+                        value={retireForm.approvedBy}
+                        onChange={(e) =>
+                          setRetireForm({
+                            ...retireForm,
+                            approvedBy: e.target.value,
+                          })
+                        }
+                        disabled={isProcessing}
+                      />
+                    </div>
+                  </div>
+                </div>
+              )}
 
               {editError && (
                 <Alert variant="destructive">
@@ -534,27 +995,42 @@ export default function ManageEquipmentScreen({
 
               <div className="flex gap-2 pt-4">
                 <Button
-                  onClick={() => setShowEditDialog(false)}
+                  onClick={() =>
+                    retireForm ? setRetireForm(null) : setShowEditDialog(false)
+                  }
                   variant="outline"
                   className="flex-1"
                   disabled={isProcessing}
                 >
-                  Cancel
-                </Button>
-                <Button
-                  onClick={handleSaveEdit}
-                  className="flex-1"
-                  disabled={isProcessing}
-                >
-                  {isProcessing ? (
-                    <>
-                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                      Saving...
-                    </>
-                  ) : (
-                    "Save Changes"
-                  )}
+                  {isRetired ? "Close" : "Cancel"}
                 </Button>
+                {!isRetired && (
+                  <Button
+                    onClick={retireForm ? handleRetire : handleSaveEdit}
+                    variant={
+                      retireForm?.status === "RETIRED"
+                        ? "destructive"
+                        : "default"
+                    }
+                    className="flex-1"
+                    disabled={isProcessing}
+                  >
+                    {isProcessing ? (
+                      <>
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        Saving...
+                      </>
+                    ) : retireForm ? (
+                      retireForm.status === "RETIRED" ? (
+                        "Confirm Retirement"
+                      ) : (
+                        "Confirm Out of Service"
+                      )
+                    ) : (
+                      "Save Changes"
+                    )}
+                  </Button>
+                )}
               </div>
             </div>
           </DialogContent>
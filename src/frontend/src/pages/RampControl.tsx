@@ -0,0 +1,608 @@
+import {
+  ArrowDown,
+  ArrowUp,
+  ArrowUpDown,
+  Clock,
+  Maximize,
+  Minimize,
+  Search,
+} from "lucide-react";
+import { useCallback, useEffect, useState } from "react";
+import { Badge } from "../components/ui/badge";
+import { Button } from "../components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "../components/ui/card";
+import { Input } from "../components/ui/input";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "../components/ui/table";
+import { useAuth } from "../contexts/AuthContext";
+import { useActiveStation } from "../hooks/useActiveStation";
+import { useEventHistory } from "../hooks/useEventHistory";
+import { OUT_OF_AREA_LABEL } from "../lib/autoGateLocator";
+import {
+  type EquipmentEvent,
+  gateFromLocation,
+  subscribeToEventHistory,
+} from "../lib/equipmentHistory";
+import {
+  type EquipmentRecord,
+  type EquipmentStatus,
+  getStationEquipment,
+  isInService,
+} from "../lib/equipmentRegistry";
+import { formatEquipmentType } from "../lib/equipmentTypeCatalog";
+import { getStationZones } from "../lib/geofenceStore";
+import { formatMinutes, getOverdueMinutes } from "../lib/overdueCheckouts";
+import { lookupUserByBadge } from "../lib/userStore";
+
+interface RampControlProps {
+  onBack: () => void;
+}
+
+type SortKey = "id" | "type" | "status" | "operator" | "location" | "checkout";
+
+interface FleetRow {
+  equipment: EquipmentRecord;
+  operatorName: string;
+  // Minutes since check-out for assigned units
+  checkedOutMinutes: number | null;
+  // Minutes past the type's checkout limit
+  overdueMinutes: number | null;
+}
+
+// Wall display refresh; event store writes also refresh immediately
+const REFRESH_INTERVAL_MS = 10000;
+
+const STATUS_LABELS: Record<EquipmentStatus, string> = {
+  AVAILABLE: "Available",
+  ASSIGNED: "Assigned",
+  MAINTENANCE: "Maintenance",
+  OUT_OF_SERVICE: "Out of Service",
+  RETIRED: "Retired",
+};
+
+const STATUS_COLORS: Record<EquipmentStatus, string> = {
+  AVAILABLE: "bg-green-500",
+  ASSIGNED: "bg-blue-500",
+  MAINTENANCE: "bg-amber-500",
+  OUT_OF_SERVICE: "bg-slate-500",
+  RETIRED: "bg-slate-700",
+};
+
+const EVENT_LABELS: Record<EquipmentEvent["eventType"], string> = {
+  CHECK_OUT: "checked out",
+  CHECK_IN: "returned",
+  REPORT_ISSUE: "reported an issue on",
+  RELEASE: "released",
+};
+
+const cardStyle = {
+  background: "rgba(15, 23, 42, 0.92)",
+  borderColor: "rgba(255,255,255,0.18)",
+  borderRadius: "16px",
+  boxShadow: "0 16px 40px rgba(0,0,0,0.45)",
+};
+
+function buildRows(equipment: EquipmentRecord[], now: number): FleetRow[] {
+  return equipment.map((item) => ({
+    equipment: item,
+    operatorName: item.lastOperator
+      ? (lookupUserByBadge(item.lastOperator)?.displayName ?? item.lastOperator)
+      : "",
+    checkedOutMinutes:
+      item.status === "ASSIGNED" && item.checkoutTime
+        ? Math.max(
+            0,
+            Math.floor((now - new Date(item.checkoutTime).getTime()) / 60000),
+          )
+        : null,
+    overdueMinutes: getOverdueMinutes(item, now),
+  }));
+}
+
+function compareRows(a: FleetRow, b: FleetRow, key: SortKey): number {
+  switch (key) {
+    case "id":
+      return a.equipment.id.localeCompare(b.equipment.id);
+    case "type":
+      return formatEquipmentType(a.equipment.type).localeCompare(
+        formatEquipmentType(b.equipment.type),
+      );
+    case "status":
+      return a.equipment.status.localeCompare(b.equipment.status);
+    case "operator":
+      return a.operatorName.localeCompare(b.operatorName);
+    case "location":
+      return (a.equipment.location ?? "").localeCompare(
+        b.equipment.location ?? "",
+      );
+    case "checkout":
+      return (a.checkedOutMinutes ?? -1) - (b.checkedOutMinutes ?? -1);
+  }
+}
+
+/**
+ * Ramp control wall display: the station's whole fleet at a glance, refreshed
+ * automatically. Opened directly at #rampControl so a desk screen can stay on
+ * it without going through the menus; the idle lock is suspended meanwhile.
+ */
+export default function RampControl({ onBack }: RampControlProps) {
+  const { setKioskMode } = useAuth();
+  const { stationCode, station } = useActiveStation();
+  // Units out of service or retired are not part of the working fleet
+  const [equipment, setEquipment] = useState<EquipmentRecord[]>(() =>
+    getStationEquipment(stationCode).filter(isInService),
+  );
+  const [now, setNow] = useState(() => Date.now());
+  const [search, setSearch] = useState("");
+  const [statusFilter, setStatusFilter] = useState<EquipmentStatus | "all">(
+    "all",
+  );
+  const [overdueOnly, setOverdueOnly] = useState(false);
+  const [sort, setSort] = useState<{ key: SortKey; descending: boolean }>({
+    key: "checkout",
+    descending: true,
+  });
+  const [isFullscreen, setIsFullscreen] = useState(
+    () => !!document.fullscreenElement,
+  );
+
+  const { events: recentEvents } = useEventHistory({ stationCode }, 12);
+
+  const refresh = useCallback(() => {
+    setEquipment(getStationEquipment(stationCode).filter(isInService));
+    setNow(Date.now());
+  }, [stationCode]);
+
+  useEffect(() => {
+    refresh();
+    const interval = setInterval(refresh, REFRESH_INTERVAL_MS);
+    const unsubscribe = subscribeToEventHistory(refresh);
+    return () => {
+      clearInterval(interval);
+      unsubscribe();
+    };
+  }, [refresh]);
+
+  useEffect(() => {
+    setKioskMode(true);
+    return () => setKioskMode(false);
+  }, [setKioskMode]);
+
+  useEffect(() => {
+    const handleChange = () => setIsFullscreen(!!document.fullscreenElement);
+    document.addEventListener("fullscreenchange", handleChange);
+    return () => document.removeEventListener("fullscreenchange", handleChange);
+  }, []);
+
+  const toggleFullscreen = () => {
+    if (document.fullscreenElement) {
+      void document.exitFullscreen();
+    } else {
+      document.documentElement.requestFullscreen().catch((error) => {
+        console.warn("[RampControl] Fullscreen not available:", error);
+      });
+    }
+  };
+
+  const rows = buildRows(equipment, now);
+  const isOverdueRow = (row: FleetRow) => row.overdueMinutes !== null;
+
+  const counts = {
+    total: rows.length,
+    AVAILABLE: rows.filter((r) => r.equipment.status === "AVAILABLE").length,
+    ASSIGNED: rows.filter((r) => r.equipment.status === "ASSIGNED").length,
+    MAINTENANCE: rows.filter((r) => r.equipment.status === "MAINTENANCE")
+      .length,
+    overdue: rows.filter(isOverdueRow).length,
+  };
+
+  // Assigned units per gate. Every gate of the station is listed, empty or
+  // not, followed by any other zones units were checked out at.
+  const gateOccupancy = new Map<string, number>(
+    getStationZones(stationCode)
+      .filter((zone) => zone.type === "GATE")
+      .map((zone) => zone.label)
+      .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }))
+      .map((label) => [label, 0]),
+  );
+  let outOfArea = 0;
+  for (const row of rows) {
+    if (row.equipment.status !== "ASSIGNED") continue;
+    const gate = gateFromLocation(row.equipment.location);
+    if (gate) {
+      gateOccupancy.set(gate, (gateOccupancy.get(gate) ?? 0) + 1);
+    } else {
+      outOfArea++;
+    }
+  }
+
+  const searchLower = search.trim().toLowerCase();
+  const visibleRows = rows
+    .filter((row) => {
+      if (statusFilter !== "all" && row.equipment.status !== statusFilter) {
+        return false;
+      }
+      if (overdueOnly && !isOverdueRow(row)) return false;
+      if (
+        searchLower &&
+        !row.equipment.id.toLowerCase().includes(searchLower) &&
+        !row.operatorName.toLowerCase().includes(searchLower) &&
+        !(row.equipment.lastOperator ?? "").toLowerCase().includes(searchLower)
+      ) {
+        return false;
+      }
+      return true;
+    })
+    .sort((a, b) => {
+      const result = compareRows(a, b, sort.key);
+      return sort.descending ? -result : result;
+    });
+
+  const handleSort = (key: SortKey) => {
+    setSort((current) =>
+      current.key === key
+        ? { key, descending: !current.descending }
+        : { key, descending: key === "checkout" },
+    );
+  };
+
+  const renderSortHead = (key: SortKey, label: string) => {
+    const Icon =
+      sort.key !== key ? ArrowUpDown : sort.descending ? ArrowDown : ArrowUp;
+    return (
+      <TableHead style={{ color: "#cbd5f5" }}>
+        <button
+          type="button"
+          className="flex items-center gap-1 hover:text-white"
+          onClick={() => handleSort(key)}
+        >
+          {label}
+          <Icon className="h-3 w-3" />
+        </button>
+      </TableHead>
+    );
+  };
+
+  const counterTiles: Array<{
+    label: string;
+    value: number;
+    active: boolean;
+    indicator: string;
+    onClick: () => void;
+  }> = [
+    {
+      label: "Total Fleet",
+      value: counts.total,
+      active: statusFilter === "all" && !overdueOnly,
+      indicator: "bg-slate-400",
+      onClick: () => {
+        setStatusFilter("all");
+        setOverdueOnly(false);
+      },
+    },
+    ...(["AVAILABLE", "ASSIGNED", "MAINTENANCE"] as const).map((status) => ({
+      label: STATUS_LABELS[status],
+      value: counts[status],
+      active: statusFilter === status && !overdueOnly,
+      indicator: STATUS_COLORS[status],
+      onClick: () => {
+        setStatusFilter(status);
+        setOverdueOnly(false);
+      },
+    })),
+    {
+      label: "Overdue",
+      value: counts.overdue,
+      active: overdueOnly,
+      indicator: "bg-red-500",
+      onClick: () => {
+        setStatusFilter("all");
+        setOverdueOnly(true);
+      },
+    },
+  ];
+
+  return (
+    <div
+      className="min-h-screen relative"
+      style={{
+        backgroundImage: "url(/assets/HomescreenBackground.jpg)",
+        backgroundSize: "cover",
+        backgroundPosition: "center",
+        backgroundRepeat: "no-repeat",
+        backgroundAttachment: "fixed",
+      }}
+    >
+      <div className="absolute inset-0 bg-gradient-to-br from-black/30 via-black/40 to-black/30 backdrop-blur-[1px]" />
+
+      <div className="relative z-10">
+        <header className="bg-card/95 backdrop-blur-sm border-b shadow-lg">
+          <div className="px-6 py-4">
+            <div className="flex items-center justify-between">
+              <div>
+                <h1 className="text-2xl font-bold text-foreground">
+                  Ramp Control
+                </h1>
+                <p className="text-sm text-muted-foreground">
+                  Live fleet status · {station?.name ?? stationCode}
+                </p>
+              </div>
+              <div className="flex items-center gap-4">
+                <div className="text-right">
+                  <p className="text-2xl font-bold text-foreground tabular-nums">
+                    {new Date(now).toLocaleTimeString([], {
+                      hour: "2-digit",
+                      minute: "2-digit",
+                      timeZone: station?.timezone,
+                    })}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    Updated {new Date(now).toLocaleTimeString()}
+                  </p>
+                </div>
+                <Button variant="outline" onClick={toggleFullscreen}>
+                  {isFullscreen ? (
+                    <Minimize className="mr-2 h-4 w-4" />
+                  ) : (
+                    <Maximize className="mr-2 h-4 w-4" />
+                  )}
+                  {isFullscreen ? "Exit Full Screen" : "Full Screen"}
+                </Button>
+                <Button variant="outline" onClick={onBack}>
+                  <span className="mr-2">←</span>
+                  Back to Admin Menu
+                </Button>
+              </div>
+            </div>
+          </div>
+        </header>
+
+        <main className="px-6 py-6 space-y-6">
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+            {counterTiles.map((tile) => (
+              <Card
+                key={tile.label}
+                className="border shadow-2xl cursor-pointer"
+                style={{
+                  ...cardStyle,
+                  borderColor: tile.active
+                    ? "#fbbf24"
+                    : "rgba(255,255,255,0.18)",
+                }}
+                onClick={tile.onClick}
+              >
+                <CardHeader className="pb-2">
+                  <CardTitle
+                    className="text-sm font-medium"
+                    style={{ color: "#cbd5f5" }}
+                  >
+                    {tile.label}
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="flex items-center gap-2">
+                    <div className={`h-5 w-5 rounded-full ${tile.indicator}`} />
+                    <p
+                      className="text-4xl font-bold"
+                      style={{ color: "#ffffff" }}
+                    >
+                      {tile.value}
+                    </p>
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-1 xl:grid-cols-4 gap-6">
+            <Card className="border shadow-2xl xl:col-span-3" style={cardStyle}>
+              <CardHeader>
+                <div className="flex items-center justify-between gap-4">
+                  <div>
+                    <CardTitle style={{ color: "#ffffff" }}>Fleet</CardTitle>
+                    <CardDescription style={{ color: "#cbd5f5" }}>
+                      {visibleRows.length} of {rows.length} units
+                    </CardDescription>
+                  </div>
+                  <div className="relative w-72">
+                    <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                    <Input
+                      placeholder="Search equipment ID or operator..."
+                      value={search}
+                      onChange={(e) => setSearch(e.target.value)}
+                      className="pl-9"
+                    />
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent>
+                {visibleRows.length === 0 ? (
+                  <div
+                    className="text-center py-12"
+                    style={{ color: "#cbd5f5" }}
+                  >
+                    <p className="text-lg font-medium">No equipment matches</p>
+                  </div>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow
+                        style={{ borderColor: "rgba(255,255,255,0.1)" }}
+                      >
+                        {renderSortHead("id", "Equipment")}
+                        {renderSortHead("type", "Type")}
+                        {renderSortHead("status", "Status")}
+                        {renderSortHead("operator", "Operator")}
+                        {renderSortHead("location", "Location")}
+                        {renderSortHead("checkout", "Checked Out")}
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {visibleRows.map((row) => {
+                        const overdue = isOverdueRow(row);
+                        return (
+                          <TableRow
+                            key={row.equipment.id}
+                            style={{
+                              borderColor: "rgba(255,255,255,0.1)",
+                              background: overdue
+                                ? "rgba(251, 191, 36, 0.15)"
+                                : undefined,
+                            }}
+                          >
+                            <TableCell
+                              className="font-bold"
+                              style={{ color: "#ffffff" }}
+                            >
+                              {row.equipment.id}
+                            </TableCell>
+                            <TableCell style={{ color: "#cbd5f5" }}>
+                              {formatEquipmentType(row.equipment.type)}
+                            </TableCell>
+                            <TableCell>
+                              <div className="flex items-center gap-2">
+                                <div
+                                  className={`h-3 w-3 rounded-full ${STATUS_COLORS[row.equipment.status]}`}
+                                />
+                                <span style={{ color: "#ffffff" }}>
+                                  {STATUS_LABELS[row.equipment.status]}
+                                </span>
+                              </div>
+                            </TableCell>
+                            <TableCell style={{ color: "#ffffff" }}>
+                              {row.equipment.status === "ASSIGNED"
+                                ? row.operatorName || "—"
+                                : "—"}
+                            </TableCell>
+                            <TableCell style={{ color: "#ffffff" }}>
+                              {row.equipment.status === "ASSIGNED"
+                                ? row.equipment.location || "—"
+                                : "—"}
+                            </TableCell>
+                            <TableCell
+                              style={{ color: overdue ? "#fbbf24" : "#ffffff" }}
+                            >
+                              {row.checkedOutMinutes === null ? (
+                                "—"
+                              ) : (
+                                <span className="flex items-center gap-1">
+                                  {overdue && <Clock className="h-4 w-4" />}
+                                  {formatMinutes(row.checkedOutMinutes)}
+                                </span>
+                              )}
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+
+            <div className="space-y-6">
+              <Card className="border shadow-2xl" style={cardStyle}>
+                <CardHeader>
+                  <CardTitle style={{ color: "#ffffff" }}>
+                    Gate Occupancy
+                  </CardTitle>
+                  <CardDescription style={{ color: "#cbd5f5" }}>
+                    Units checked out at each gate
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <div className="grid grid-cols-3 gap-2">
+                    {[...gateOccupancy].map(([gate, count]) => (
+                      <div
+                        key={gate}
+                        className="rounded-lg p-2 text-center"
+                        style={{
+                          background:
+                            count > 0
+                              ? "rgba(59, 130, 246, 0.35)"
+                              : "rgba(255,255,255,0.06)",
+                        }}
+                      >
+                        <p className="text-xs" style={{ color: "#cbd5f5" }}>
+                          {gate}
+                        </p>
+                        <p
+                          className="text-xl font-bold"
+                          style={{ color: "#ffffff" }}
+                        >
+                          {count}
+                        </p>
+                      </div>
+                    ))}
+                  </div>
+                  {outOfArea > 0 && (
+                    <p className="text-sm mt-3" style={{ color: "#fbbf24" }}>
+                      {outOfArea} checked out {OUT_OF_AREA_LABEL.toLowerCase()}{" "}
+                      or without a location
+                    </p>
+                  )}
+                </CardContent>
+              </Card>
+
+              <Card className="border shadow-2xl" style={cardStyle}>
+                <CardHeader>
+                  <CardTitle style={{ color: "#ffffff" }}>
+                    Recent Activity
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {recentEvents.length === 0 ? (
+                    <p className="text-sm" style={{ color: "#cbd5f5" }}>
+                      No activity recorded yet.
+                    </p>
+                  ) : (
+                    <ul className="space-y-2">
+                      {recentEvents.map((event) => (
+                        <li key={event.id} className="text-sm">
+                          <span style={{ color: "#cbd5f5" }}>
+                            {new Date(event.timestamp).toLocaleTimeString([], {
+                              hour: "2-digit",
+                              minute: "2-digit",
+                            })}
+                          </span>{" "}
+                          <span style={{ color: "#ffffff" }}>
+                            {event.operatorName || event.operator}{" "}
+                            {EVENT_LABELS[event.eventType]}{" "}
+                            <span className="font-bold">
+                              {event.equipmentId}
+                            </span>
+                          </span>
+                          {event.gate && (
+                            <Badge variant="outline" className="ml-2">
+                              {event.gate}
+                            </Badge>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+          </div>
+        </main>
+
+        <footer className="py-6 text-center text-sm text-white/90 drop-shadow-lg">
+          Built by Jayson James and Ramp Track Systems.
+        </footer>
+      </div>
+    </div>
+  );
+}
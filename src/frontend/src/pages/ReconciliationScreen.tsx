@@ -0,0 +1,263 @@
+import { AlertCircle, Loader2, RefreshCw } from "lucide-react";
+import { useState } from "react";
+import { Alert, AlertDescription } from "../components/ui/alert";
+import { Badge } from "../components/ui/badge";
+import { Button } from "../components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "../components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "../components/ui/table";
+import { useEquipmentSync } from "../hooks/useEquipmentSync";
+import type { SyncDivergence, SyncSide } from "../lib/equipmentSync";
+
+interface ReconciliationScreenProps {
+  onBack: () => void;
+}
+
+const RESOLUTION_LABELS: Record<SyncDivergence["resolution"], string> = {
+  pulled: "Backend kept",
+  pushed: "Local kept",
+  created_local: "Added locally",
+  created_remote: "Added to backend",
+};
+
+// Helper to format one side of a divergence
+const formatSide = (side?: SyncSide): string => {
+  if (!side) return "—";
+  const parts: string[] = [side.status];
+  if (side.operator) parts.push(side.operator);
+  if (side.location) parts.push(`@ ${side.location}`);
+  return parts.join(" · ");
+};
+
+export default function ReconciliationScreen({
+  onBack,
+}: ReconciliationScreenProps) {
+  const { report, isSyncing, syncNow } = useEquipmentSync(false);
+  const [showAll, setShowAll] = useState(false);
+
+  const divergences = (report?.divergences ?? []).filter(
+    (d) => showAll || d.resolution === "pulled" || d.resolution === "pushed",
+  );
+
+  return (
+    <div
+      className="min-h-screen relative"
+      style={{
+        backgroundImage: "url(/assets/HomescreenBackground.jpg)",
+        backgroundSize: "cover",
+        backgroundPosition: "center",
+        backgroundRepeat: "no-repeat",
+        backgroundAttachment: "fixed",
+      }}
+    >
+      <div className="absolute inset-0 bg-gradient-to-br from-black/30 via-black/40 to-black/30 backdrop-blur-[1px]" />
+
+      <div className="relative z-10">
+        <header className="bg-card/95 backdrop-blur-sm border-b shadow-lg">
+          <div className="container mx-auto px-4 py-4">
+            <div className="flex items-center justify-between">
+              <div>
+                <h1 className="text-2xl font-bold text-foreground">
+                  Equipment Sync
+                </h1>
+                <p className="text-sm text-muted-foreground">
+                  Reconciliation between this device and the backend
+                </p>
+              </div>
+              <div className="flex items-center gap-4">
+                <Button onClick={syncNow} disabled={isSyncing}>
+                  {isSyncing ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <RefreshCw className="mr-2 h-4 w-4" />
+                  )}
+                  Sync Now
+                </Button>
+                <Button variant="outline" onClick={onBack}>
+                  <span className="mr-2">←</span>
+                  Back to Admin Menu
+                </Button>
+              </div>
+            </div>
+          </div>
+        </header>
+
+        <main className="container mx-auto px-4 py-6 space-y-6">
+          {report?.error && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>
+                Last sync failed: {report.error}
+              </AlertDescription>
+            </Alert>
+          )}
+
+          <div className="grid grid-cols-1 sm:grid-cols-4 gap-4">
+            {[
+              {
+                label: "Last Sync",
+                value: report
+                  ? new Date(report.finishedAt).toLocaleTimeString()
+                  : "Never",
+              },
+              { label: "In Sync", value: report?.inSync ?? 0 },
+              { label: "Pulled", value: report?.pulled ?? 0 },
+              { label: "Pushed", value: report?.pushed ?? 0 },
+            ].map((tile) => (
+              <Card
+                key={tile.label}
+                className="border shadow-2xl"
+                style={{
+                  background: "rgba(15, 23, 42, 0.92)",
+                  borderColor: "rgba(255,255,255,0.18)",
+                  borderRadius: "16px",
+                  boxShadow: "0 16px 40px rgba(0,0,0,0.45)",
+                }}
+              >
+                <CardHeader className="pb-2">
+                  <CardTitle
+                    className="text-sm font-medium"
+                    style={{ color: "#cbd5f5" }}
+                  >
+                    {tile.label}
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <p
+                    className="text-2xl font-bold"
+                    style={{ color: "#ffffff" }}
+                  >
+                    {tile.value}
+                  </p>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+
+          <Card
+            className="border shadow-2xl"
+            style={{
+              background: "rgba(15, 23, 42, 0.92)",
+              borderColor: "rgba(255,255,255,0.18)",
+              borderRadius: "16px",
+              boxShadow: "0 16px 40px rgba(0,0,0,0.45)",
+            }}
+          >
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <div>
+                  <CardTitle style={{ color: "#ffffff" }}>
+                    Divergences
+                  </CardTitle>
+                  <CardDescription style={{ color: "#cbd5f5" }}>
+                    Equipment where this device and the backend disagreed at the
+                    last sync
+                  </CardDescription>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setShowAll((v) => !v)}
+                >
+                  {showAll ? "Hide new records" : "Include new records"}
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {divergences.length === 0 ? (
+                <div className="text-center py-12" style={{ color: "#cbd5f5" }}>
+                  <p className="text-lg font-medium mb-2">No divergences</p>
+                  <p className="text-sm">
+                    This device matched the backend at the last sync.
+                  </p>
+                </div>
+              ) : (
+                <div
+                  className="rounded-lg border overflow-hidden"
+                  style={{ borderColor: "rgba(255,255,255,0.1)" }}
+                >
+                  <Table>
+                    <TableHeader>
+                      <TableRow
+                        style={{ borderColor: "rgba(255,255,255,0.1)" }}
+                      >
+                        <TableHead style={{ color: "#cbd5f5" }}>
+                          Equipment
+                        </TableHead>
+                        <TableHead style={{ color: "#cbd5f5" }}>
+                          This Device
+                        </TableHead>
+                        <TableHead style={{ color: "#cbd5f5" }}>
+                          Backend
+                        </TableHead>
+                        <TableHead style={{ color: "#cbd5f5" }}>
+                          Resolution
+                        </TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {divergences.map((d) => (
+                        <TableRow
+                          key={d.equipmentId}
+                          style={{ borderColor: "rgba(255,255,255,0.1)" }}
+                        >
+                          <TableCell style={{ color: "#ffffff" }}>
+                            {d.equipmentId}
+                          </TableCell>
+                          <TableCell style={{ color: "#cbd5f5" }}>
+                            {formatSide(d.local)}
+                            {d.local?.updatedAt && (
+                              <span className="block text-xs">
+                                {new Date(d.local.updatedAt).toLocaleString()}
+                              </span>
+                            )}
+                          </TableCell>
+                          <TableCell style={{ color: "#cbd5f5" }}>
+                            {formatSide(d.remote)}
+                            {d.remote?.updatedAt && (
+                              <span className="block text-xs">
+                                {new Date(d.remote.updatedAt).toLocaleString()}
+                              </span>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex flex-wrap gap-1">
+                              <Badge variant="secondary">
+                                {RESOLUTION_LABELS[d.resolution]}
+                              </Badge>
+                              {d.concurrent && (
+                                <Badge variant="destructive">
+                                  Changed on both
+                                </Badge>
+                              )}
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </main>
+
+        <footer className="py-6 text-center text-sm text-white/90 drop-shadow-lg">
+          Built by Jayson James and Ramp Track Systems.
+        </footer>
+      </div>
+    </div>
+  );
+}
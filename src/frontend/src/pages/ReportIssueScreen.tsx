@@ -38,18 +38,13 @@ import {
   normalizeEquipmentId,
   updateEquipmentStatus,
 } from "../lib/equipmentRegistry";
+import { formatEquipmentType } from "../lib/equipmentTypeCatalog";
+import type { OutboxSubmitResult } from "../lib/offlineOutbox";
 
 interface ReportIssueScreenProps {
   onBack: () => void;
 }
 
-// Helper to format equipment type for display
-const formatEquipmentType = (type: string): string => {
-  if (type === "ELECTRIC_TUG") return "ELECTRIC TUG";
-  if (type === "TUG") return "TUG";
-  return type.replace("_", " ");
-};
-
 export default function ReportIssueScreen({ onBack }: ReportIssueScreenProps) {
   const [showScanner, setShowScanner] = useState(false);
   const [step, setStep] = useState<"input" | "details" | "photo" | "success">(
@@ -66,6 +61,9 @@ export default function ReportIssueScreen({ onBack }: ReportIssueScreenProps) {
   const [photoPreview, setPhotoPreview] = useState<string>("");
   const [error, setError] = useState<string>("");
   const [isValidatingSession, setIsValidatingSession] = useState(false);
+  // Where the report's backend writes ended up
+  const [syncStatus, setSyncStatus] =
+    useState<OutboxSubmitResult["status"]>("sent");
 
   // PARENT ISOLATION: Prevent scanner re-mount by freezing visibility with ref
   const scannerMountedRef = useRef(false);
@@ -216,51 +214,69 @@ export default function ReportIssueScreen({ onBack }: ReportIssueScreenProps) {
         );
       }
 
-      // Log event to in-memory history
-      logEvent({
+      // Record the event in the persistent event store
+      void logEvent({
         id: `event-${Date.now()}`,
         equipmentId,
         eventType: "REPORT_ISSUE",
         operator: operatorId,
+        operatorName: auth.name,
         timestamp: new Date().toISOString(),
         location,
         notes: `${category}: ${notes}${grounded ? " (GROUNDED)" : ""}`,
       });
 
       // Report issue
-      await reportIssue.mutateAsync({
-        id: issueId,
-        equipment_id: equipmentId,
-        category,
-        location,
-        photo: photoBlob,
-        grounded,
-        notes,
-        operator_id: operatorId,
-        timestamp,
-        status: "open",
-      });
+      const results: OutboxSubmitResult[] = [];
+      results.push(
+        await reportIssue.mutateAsync({
+          id: issueId,
+          equipment_id: equipmentId,
+          category,
+          location,
+          photo: photoBlob,
+          grounded,
+          notes,
+          operator_id: operatorId,
+          timestamp,
+          status: "open",
+        }),
+      );
 
       // If grounded, update equipment status in backend
       if (grounded) {
-        await updateEquipment.mutateAsync({
-          id: equipmentId,
-          name: equipment?.name || equipmentId,
-          status: "maintenance",
-          assigned_operator: equipment?.assigned_operator,
-          last_location: location,
-          last_update_time: timestamp,
-        });
+        results.push(
+          await updateEquipment.mutateAsync({
+            id: equipmentId,
+            name: equipment?.name || equipmentId,
+            status: "maintenance",
+            assigned_operator: equipment?.assigned_operator,
+            last_location: location,
+            last_update_time: timestamp,
+          }),
+        );
       }
 
       // Log activity
-      await logActivity.mutateAsync({
-        id: `activity-${Date.now()}`,
-        action: "report_issue",
-        user_id: operatorId,
-        timestamp,
-        details: `Reported ${category} issue for equipment ${equipmentId}${grounded ? " (GROUNDED)" : ""}`,
-      });
+      results.push(
+        await logActivity.mutateAsync({
+          id: `activity-${Date.now()}`,
+          action: "report_issue",
+          user_id: operatorId,
+          timestamp,
+          details: `Reported ${category} issue for equipment ${equipmentId}${grounded ? " (GROUNDED)" : ""}`,
+        }),
+      );
+
+      // Backend writes that could not be delivered stay in the offline outbox;
+      // rejected or outdated ones wait there as conflicts for a supervisor
+      setSyncStatus(
+        results.some((result) => result.status === "conflict")
+          ? "conflict"
+          : results.some((result) => result.status !== "sent")
+            ? "queued"
+            : "sent",
+      );
 
       setStep("success");
     } catch (err: any) {
@@ -283,6 +299,7 @@ export default function ReportIssueScreen({ onBack }: ReportIssueScreenProps) {
     setPhotoPreview("");
     setError("");
     setIsValidatingSession(false);
+    setSyncStatus("sent");
   };
 
   const handleRetry = () => {
@@ -688,6 +705,18 @@ export default function ReportIssueScreen({ onBack }: ReportIssueScreenProps) {
                         Equipment has been grounded.
                       </span>
                     )}
+                    {syncStatus === "queued" && (
+                      <span className="block mt-2 text-amber-300">
+                        Saved offline. The report will sync when the connection
+                        returns.
+                      </span>
+                    )}
+                    {syncStatus === "conflict" && (
+                      <span className="block mt-2 font-semibold text-red-400">
+                        The backend did not accept this report. A supervisor
+                        must resolve it under Sync Conflicts.
+                      </span>
+                    )}
                   </p>
                   <div className="flex gap-2 pt-4">
                     <Button
@@ -10,6 +10,7 @@ import {
 import { Input } from "../components/ui/input";
 import { Label } from "../components/ui/label";
 import { useAuth } from "../contexts/AuthContext";
+import { readSession } from "../lib/sessionStore";
 
 type LoginMode = "operator" | "admin";
 
@@ -36,11 +37,10 @@ export default function SignInScreen() {
 
       console.log("[SignInScreen] Login successful, auth state persisted");
 
-      // Verify localStorage was written
-      const authState = localStorage.getItem("ramptrack_auth_state");
+      // Verify the session was persisted
       console.log(
-        "[SignInScreen] Verification - ramptrack_auth_state:",
-        authState ? "present" : "missing",
+        "[SignInScreen] Verification - stored session:",
+        readSession() ? "present" : "missing",
       );
 
       // Navigation will happen automatically via App.tsx useEffect watching auth state
@@ -0,0 +1,423 @@
+import { AlertCircle, Plus } from "lucide-react";
+import { useState } from "react";
+import { toast } from "sonner";
+import { Alert, AlertDescription } from "../components/ui/alert";
+import { Badge } from "../components/ui/badge";
+import { Button } from "../components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "../components/ui/card";
+import { Checkbox } from "../components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "../components/ui/dialog";
+import { Input } from "../components/ui/input";
+import { Label } from "../components/ui/label";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "../components/ui/table";
+import { useActiveStation } from "../hooks/useActiveStation";
+import { ensureUserContext } from "../lib/ensureUserContext";
+import { getAllEquipment } from "../lib/equipmentRegistry";
+import { getZones } from "../lib/geofenceStore";
+import {
+  type Station,
+  getStations,
+  getUserStations,
+  hasStationAssignment,
+  saveStation,
+  setUserStations,
+  stationOf,
+} from "../lib/stationStore";
+import { getUsers, isUserActive } from "../lib/userStore";
+
+interface StationManagementScreenProps {
+  onBack: () => void;
+}
+
+interface StationForm {
+  isNew: boolean;
+  code: string;
+  name: string;
+  timezone: string;
+}
+
+const cardStyle = {
+  background: "rgba(15, 23, 42, 0.92)",
+  borderColor: "rgba(255,255,255,0.18)",
+  borderRadius: "16px",
+  boxShadow: "0 16px 40px rgba(0,0,0,0.45)",
+};
+
+export default function StationManagementScreen({
+  onBack,
+}: StationManagementScreenProps) {
+  const { stationCode, switchStation } = useActiveStation();
+  const [stations, setStations] = useState<Station[]>(() => getStations());
+  const [form, setForm] = useState<StationForm | null>(null);
+  const [formError, setFormError] = useState("");
+  // Bumped after assignment changes so the table re-reads localStorage
+  const [assignmentVersion, setAssignmentVersion] = useState(0);
+
+  const equipment = getAllEquipment();
+  const zones = getZones();
+
+  const handleSaveStation = async () => {
+    if (!form) return;
+
+    const isValid = await ensureUserContext();
+    if (!isValid) {
+      toast.error("Session expired. Please log in again.");
+      return;
+    }
+
+    if (
+      form.isNew &&
+      stations.some((s) => s.code === form.code.trim().toUpperCase())
+    ) {
+      setFormError(`Station ${form.code.trim().toUpperCase()} already exists`);
+      return;
+    }
+
+    const result = saveStation(form);
+    if (!result.success) {
+      setFormError(result.error || "Failed to save station");
+      return;
+    }
+
+    toast.success(form.isNew ? "Station added" : "Station updated");
+    setForm(null);
+    setStations(getStations());
+  };
+
+  const handleToggleAssignment = (
+    badgeId: string,
+    code: string,
+    checked: boolean,
+  ) => {
+    const current = hasStationAssignment(badgeId)
+      ? getUserStations(badgeId)
+      : [];
+    const next = checked
+      ? [...current, code]
+      : current.filter((c) => c !== code);
+
+    const result = setUserStations(badgeId, next);
+    if (!result.success) {
+      toast.error(result.error || "Failed to update assignment");
+      return;
+    }
+    setAssignmentVersion((v) => v + 1);
+  };
+
+  return (
+    <div
+      className="min-h-screen relative"
+      style={{
+        backgroundImage: "url(/assets/HomescreenBackground.jpg)",
+        backgroundSize: "cover",
+        backgroundPosition: "center",
+        backgroundRepeat: "no-repeat",
+        backgroundAttachment: "fixed",
+      }}
+    >
+      <div className="absolute inset-0 bg-gradient-to-br from-black/30 via-black/40 to-black/30 backdrop-blur-[1px]" />
+
+      <div className="relative z-10">
+        <header className="bg-card/95 backdrop-blur-sm border-b shadow-lg">
+          <div className="container mx-auto px-4 py-4">
+            <div className="flex items-center justify-between">
+              <div>
+                <h1 className="text-2xl font-bold text-foreground">Stations</h1>
+                <p className="text-sm text-muted-foreground">
+                  Stations, their fleets and who works at each
+                </p>
+              </div>
+              <div className="flex items-center gap-4">
+                <Button
+                  onClick={() => {
+                    setForm({
+                      isNew: true,
+                      code: "",
+                      name: "",
+                      timezone:
+                        Intl.DateTimeFormat().resolvedOptions().timeZone,
+                    });
+                    setFormError("");
+                  }}
+                >
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add Station
+                </Button>
+                <Button variant="outline" onClick={onBack}>
+                  <span className="mr-2">←</span>
+                  Back to Admin Menu
+                </Button>
+              </div>
+            </div>
+          </div>
+        </header>
+
+        <main className="container mx-auto px-4 py-6 space-y-6">
+          <Card className="border shadow-2xl" style={cardStyle}>
+            <CardHeader>
+              <CardTitle style={{ color: "#ffffff" }}>Stations</CardTitle>
+              <CardDescription style={{ color: "#cbd5f5" }}>
+                Equipment, zones and activity are scoped to the active station
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow style={{ borderColor: "rgba(255,255,255,0.1)" }}>
+                    <TableHead style={{ color: "#cbd5f5" }}>Code</TableHead>
+                    <TableHead style={{ color: "#cbd5f5" }}>Name</TableHead>
+                    <TableHead style={{ color: "#cbd5f5" }}>Timezone</TableHead>
+                    <TableHead style={{ color: "#cbd5f5" }}>Fleet</TableHead>
+                    <TableHead style={{ color: "#cbd5f5" }}>Zones</TableHead>
+                    <TableHead style={{ color: "#cbd5f5" }}>Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {stations.map((station) => (
+                    <TableRow
+                      key={station.code}
+                      style={{ borderColor: "rgba(255,255,255,0.1)" }}
+                    >
+                      <TableCell
+                        className="font-medium"
+                        style={{ color: "#ffffff" }}
+                      >
+                        {station.code}{" "}
+                        {station.code === stationCode && (
+                          <Badge variant="secondary">Active</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell style={{ color: "#ffffff" }}>
+                        {station.name}
+                      </TableCell>
+                      <TableCell style={{ color: "#cbd5f5" }}>
+                        {station.timezone}
+                      </TableCell>
+                      <TableCell style={{ color: "#ffffff" }}>
+                        {
+                          equipment.filter((e) => stationOf(e) === station.code)
+                            .length
+                        }
+                      </TableCell>
+                      <TableCell style={{ color: "#ffffff" }}>
+                        {
+                          zones.filter((z) => stationOf(z) === station.code)
+                            .length
+                        }
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex gap-2">
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => {
+                              setForm({ isNew: false, ...station });
+                              setFormError("");
+                            }}
+                          >
+                            Edit
+                          </Button>
+                          {station.code !== stationCode && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => {
+                                switchStation(station.code);
+                                toast.success(
+                                  `Switched to ${station.code} · ${station.name}`,
+                                );
+                              }}
+                            >
+                              Switch
+                            </Button>
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+
+          <Card className="border shadow-2xl" style={cardStyle}>
+            <CardHeader>
+              <CardTitle style={{ color: "#ffffff" }}>
+                Roster Assignments
+              </CardTitle>
+              <CardDescription style={{ color: "#cbd5f5" }}>
+                Users without an assignment work at the default station; admins
+                can reach every station
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table key={assignmentVersion}>
+                <TableHeader>
+                  <TableRow style={{ borderColor: "rgba(255,255,255,0.1)" }}>
+                    <TableHead style={{ color: "#cbd5f5" }}>User</TableHead>
+                    <TableHead style={{ color: "#cbd5f5" }}>Role</TableHead>
+                    {stations.map((station) => (
+                      <TableHead
+                        key={station.code}
+                        style={{ color: "#cbd5f5" }}
+                      >
+                        {station.code}
+                      </TableHead>
+                    ))}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {getUsers()
+                    .filter(isUserActive)
+                    .map((user) => {
+                      const userStations = getUserStations(
+                        user.badgeId,
+                        user.role,
+                      );
+                      return (
+                        <TableRow
+                          key={user.badgeId}
+                          style={{ borderColor: "rgba(255,255,255,0.1)" }}
+                        >
+                          <TableCell style={{ color: "#ffffff" }}>
+                            {user.displayName}
+                            <span
+                              className="block text-xs"
+                              style={{ color: "#cbd5f5" }}
+                            >
+                              {user.badgeId}
+                            </span>
+                          </TableCell>
+                          <TableCell style={{ color: "#cbd5f5" }}>
+                            {user.role}
+                          </TableCell>
+                          {stations.map((station) => (
+                            <TableCell key={station.code}>
+                              <Checkbox
+                                checked={userStations.includes(station.code)}
+                                disabled={user.role === "admin"}
+                                onCheckedChange={(checked) =>
+                                  handleToggleAssignment(
+                                    user.badgeId,
+                                    station.code,
+                                    checked === true,
+                                  )
+                                }
+                              />
+                            </TableCell>
+                          ))}
+                        </TableRow>
+                      );
+                    })}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </main>
+
+        <footer className="py-6 text-center text-sm text-white/90 drop-shadow-lg">
+          Built by Jayson James and Ramp Track Systems.
+        </footer>
+      </div>
+
+      {/* Add/Edit Station Dialog */}
+      {form && (
+        <Dialog open={!!form} onOpenChange={() => setForm(null)}>
+          <DialogContent
+            className="max-w-md"
+            style={{
+              background: "rgba(15, 23, 42, 0.98)",
+              borderColor: "rgba(255,255,255,0.18)",
+            }}
+          >
+            <DialogHeader>
+              <DialogTitle style={{ color: "#ffffff" }}>
+                {form.isNew ? "Add Station" : `Edit ${form.code}`}
+              </DialogTitle>
+              <DialogDescription style={{ color: "#cbd5f5" }}>
+                New stations start with no equipment and no zones.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-4">
+              <div>
+                <Label htmlFor="station-code" style={{ color: "#cbd5f5" }}>
+                  Code
+                </Label>
+                <Input
+                  id="station-code"
+                  value={form.code}
+                  disabled={!form.isNew}
+                  onChange={(e) => setForm({ ...form, code: e.target.value })}
+                  placeholder="e.g. TUS"
+                />
+              </div>
+              <div>
+                <Label htmlFor="station-name" style={{ color: "#cbd5f5" }}>
+                  Name
+                </Label>
+                <Input
+                  id="station-name"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  placeholder="e.g. Tucson International"
+                />
+              </div>
+              <div>
+                <Label htmlFor="station-timezone" style={{ color: "#cbd5f5" }}>
+                  Timezone
+                </Label>
+                <Input
+                  id="station-timezone"
+                  value={form.timezone}
+                  onChange={(e) =>
+                    setForm({ ...form, timezone: e.target.value })
+                  }
+                  placeholder="e.g. America/Phoenix"
+                />
+              </div>
+
+              {formError && (
+                <Alert variant="destructive">
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertDescription>{formError}</AlertDescription>
+                </Alert>
+              )}
+
+              <div className="flex gap-2 pt-2">
+                <Button
+                  variant="outline"
+                  className="flex-1"
+                  onClick={() => setForm(null)}
+                >
+                  Cancel
+                </Button>
+                <Button className="flex-1" onClick={handleSaveStation}>
+                  Save Station
+                </Button>
+              </div>
+            </div>
+          </DialogContent>
+        </Dialog>
+      )}
+    </div>
+  );
+}
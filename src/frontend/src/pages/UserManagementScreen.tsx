@@ -0,0 +1,1040 @@
+import { AlertCircle, Award, KeyRound, Plus, ShieldCheck } from "lucide-react";
+import { useState } from "react";
+import { toast } from "sonner";
+import { Alert, AlertDescription } from "../components/ui/alert";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "../components/ui/alert-dialog";
+import { Badge } from "../components/ui/badge";
+import { Button } from "../components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "../components/ui/card";
+import { Checkbox } from "../components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "../components/ui/dialog";
+import { Input } from "../components/ui/input";
+import { Label } from "../components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "../components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "../components/ui/table";
+import { useAuth } from "../contexts/AuthContext";
+import type { UserRosterEntry } from "../data/userRoster";
+import { ensureUserContext } from "../lib/ensureUserContext";
+import { getEquipmentTypes } from "../lib/equipmentTypeCatalog";
+import { hasPermission } from "../lib/permissions";
+import {
+  clearLockout,
+  generateTotpSecret,
+  getLockoutEnd,
+  getSecondFactorRoles,
+  getTotpUri,
+  hasSecondFactor,
+  hasTotpSecret,
+  setSecondFactorRoles,
+} from "../lib/secondFactor";
+import { getSessionPolicy, setSessionPolicy } from "../lib/sessionPolicy";
+import {
+  USER_ROLES,
+  type UserRole,
+  addUser,
+  clearSecondFactor,
+  getUsers,
+  isUserActive,
+  resetPassword,
+  setUserCertifications,
+  setUserPin,
+  setUserTotpSecret,
+  updateUser,
+} from "../lib/userStore";
+
+interface UserManagementScreenProps {
+  onBack: () => void;
+}
+
+interface NewUserForm {
+  badgeId: string;
+  displayName: string;
+  email: string;
+  role: UserRole;
+  password: string;
+}
+
+const EMPTY_FORM: NewUserForm = {
+  badgeId: "",
+  displayName: "",
+  email: "",
+  role: "operator",
+  password: "",
+};
+
+const cardStyle = {
+  background: "rgba(15, 23, 42, 0.92)",
+  borderColor: "rgba(255,255,255,0.18)",
+  borderRadius: "16px",
+  boxShadow: "0 16px 40px rgba(0,0,0,0.45)",
+};
+
+const dialogStyle = {
+  background: "rgba(15, 23, 42, 0.98)",
+  borderColor: "rgba(255,255,255,0.18)",
+};
+
+export default function UserManagementScreen({
+  onBack,
+}: UserManagementScreenProps) {
+  const { auth } = useAuth();
+  const [users, setUsers] = useState<UserRosterEntry[]>(() => getUsers());
+  const [showInactive, setShowInactive] = useState(false);
+  const [form, setForm] = useState<NewUserForm | null>(null);
+  const [formError, setFormError] = useState("");
+  const [passwordUser, setPasswordUser] = useState<UserRosterEntry | null>(
+    null,
+  );
+  const [newPassword, setNewPassword] = useState("");
+  const [passwordError, setPasswordError] = useState("");
+  const [userToDeactivate, setUserToDeactivate] =
+    useState<UserRosterEntry | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [factorUser, setFactorUser] = useState<UserRosterEntry | null>(null);
+  const [newPin, setNewPin] = useState("");
+  const [newTotpSecret, setNewTotpSecret] = useState("");
+  const [factorError, setFactorError] = useState("");
+  const [certUser, setCertUser] = useState<UserRosterEntry | null>(null);
+  const [certTypes, setCertTypes] = useState<string[]>([]);
+  const [secondFactorRoles, setSecondFactorRolesState] = useState(() =>
+    getSecondFactorRoles(),
+  );
+  const [policyForm, setPolicyForm] = useState(() => {
+    const policy = getSessionPolicy();
+    return {
+      maxSessionHours: String(policy.maxSessionHours),
+      idleLockMinutes: String(policy.idleLockMinutes),
+      shiftChanges: policy.shiftChanges.join(", "),
+    };
+  });
+
+  const currentBadge = auth?.badgeId || auth?.user;
+  const visibleUsers = users.filter((u) => showInactive || isUserActive(u));
+
+  // Re-validate the session before any roster write
+  const checkSession = async (): Promise<boolean> => {
+    const isValid = await ensureUserContext();
+    if (!isValid) {
+      toast.error("Session expired. Please log in again.");
+    }
+    return isValid;
+  };
+
+  const handleAddUser = async () => {
+    if (!form || !(await checkSession())) return;
+
+    setIsSaving(true);
+    const result = await addUser({
+      ...form,
+      password: form.password || undefined,
+    });
+    setIsSaving(false);
+
+    if (!result.success) {
+      setFormError(result.error || "Failed to add user");
+      return;
+    }
+
+    toast.success(`${form.displayName.trim()} added`);
+    setForm(null);
+    setUsers(getUsers());
+  };
+
+  const handleUpdate = async (
+    user: UserRosterEntry,
+    changes: Parameters<typeof updateUser>[1],
+    message: string,
+  ) => {
+    if (!(await checkSession())) return;
+
+    const result = updateUser(user.badgeId, changes);
+    if (result.success) {
+      toast.success(message);
+    } else {
+      toast.error(result.error || "Failed to update user");
+    }
+    setUsers(getUsers());
+  };
+
+  const handleSavePolicy = async () => {
+    if (!(await checkSession())) return;
+
+    const result = setSessionPolicy({
+      maxSessionHours: Number(policyForm.maxSessionHours),
+      idleLockMinutes: Number(policyForm.idleLockMinutes),
+      shiftChanges: policyForm.shiftChanges
+        .split(",")
+        .map((time) => time.trim())
+        .filter(Boolean),
+    });
+    if (result.success) {
+      toast.success("Session policy saved");
+    } else {
+      toast.error(result.error || "Failed to save session policy");
+    }
+  };
+
+  const handleResetPassword = async () => {
+    if (!passwordUser || !(await checkSession())) return;
+
+    setIsSaving(true);
+    const result = await resetPassword(passwordUser.badgeId, newPassword);
+    setIsSaving(false);
+
+    if (!result.success) {
+      setPasswordError(result.error || "Failed to reset password");
+      return;
+    }
+
+    toast.success(`Password reset for ${passwordUser.displayName}`);
+    setPasswordUser(null);
+    setUsers(getUsers());
+  };
+
+  const openFactorDialog = (user: UserRosterEntry) => {
+    setFactorUser(user);
+    setNewPin("");
+    setNewTotpSecret("");
+    setFactorError("");
+  };
+
+  // Apply a second factor change and refresh the dialog's copy of the user
+  const applyFactorChange = (
+    result: { success: boolean; error?: string },
+    message: string,
+  ) => {
+    if (!result.success) {
+      setFactorError(result.error || "Failed to update second factor");
+      return;
+    }
+    toast.success(message);
+    setFactorError("");
+    const refreshed = getUsers();
+    setUsers(refreshed);
+    setFactorUser(
+      refreshed.find((u) => u.badgeId === factorUser?.badgeId) ?? null,
+    );
+  };
+
+  const handleSavePin = async () => {
+    if (!factorUser || !(await checkSession())) return;
+
+    setIsSaving(true);
+    const result = await setUserPin(factorUser.badgeId, newPin);
+    setIsSaving(false);
+    setNewPin("");
+    applyFactorChange(result, `PIN set for ${factorUser.displayName}`);
+  };
+
+  const handleSaveTotp = async () => {
+    if (!factorUser || !(await checkSession())) return;
+
+    const result = setUserTotpSecret(factorUser.badgeId, newTotpSecret);
+    setNewTotpSecret("");
+    applyFactorChange(
+      result,
+      `Authenticator enrolled for ${factorUser.displayName}`,
+    );
+  };
+
+  const handleClearFactor = async () => {
+    if (!factorUser || !(await checkSession())) return;
+
+    applyFactorChange(
+      clearSecondFactor(factorUser.badgeId),
+      `Second factor removed for ${factorUser.displayName}`,
+    );
+  };
+
+  const handleClearLockout = async () => {
+    if (!factorUser || !(await checkSession())) return;
+
+    applyFactorChange(
+      clearLockout(factorUser.badgeId),
+      `Badge ${factorUser.badgeId} unlocked`,
+    );
+  };
+
+  const openCertDialog = (user: UserRosterEntry) => {
+    setCertUser(user);
+    setCertTypes(user.certifications ?? []);
+  };
+
+  const handleSaveCertifications = async () => {
+    if (!certUser || !(await checkSession())) return;
+
+    const result = setUserCertifications(certUser.badgeId, certTypes);
+    if (!result.success) {
+      toast.error(result.error || "Failed to update certifications");
+      return;
+    }
+    toast.success(`Certifications updated for ${certUser.displayName}`);
+    setCertUser(null);
+    setUsers(getUsers());
+  };
+
+  const handleToggleFactorRole = async (role: UserRole, required: boolean) => {
+    if (!(await checkSession())) return;
+
+    const next = required
+      ? [...secondFactorRoles, role]
+      : secondFactorRoles.filter((r) => r !== role);
+    const result = setSecondFactorRoles(next);
+    if (!result.success) {
+      toast.error(result.error || "Failed to save second factor roles");
+      return;
+    }
+    setSecondFactorRolesState(getSecondFactorRoles());
+  };
+
+  const factorLockoutEnd = factorUser
+    ? getLockoutEnd(factorUser.badgeId)
+    : null;
+  const factorTotpEnrolled = !!factorUser && hasTotpSecret(factorUser.badgeId);
+
+  return (
+    <div
+      className="min-h-screen relative"
+      style={{
+        backgroundImage: "url(/assets/HomescreenBackground.jpg)",
+        backgroundSize: "cover",
+        backgroundPosition: "center",
+        backgroundRepeat: "no-repeat",
+        backgroundAttachment: "fixed",
+      }}
+    >
+      <div className="absolute inset-0 bg-gradient-to-br from-black/30 via-black/40 to-black/30 backdrop-blur-[1px]" />
+
+      <div className="relative z-10">
+        <header className="bg-card/95 backdrop-blur-sm border-b shadow-lg">
+          <div className="container mx-auto px-4 py-4">
+            <div className="flex items-center justify-between">
+              <div>
+                <h1 className="text-2xl font-bold text-foreground">Users</h1>
+                <p className="text-sm text-muted-foreground">
+                  Roster, roles and sign-in credentials
+                </p>
+              </div>
+              <div className="flex items-center gap-4">
+                {hasPermission(auth?.role, "user.manage") && (
+                  <Button
+                    onClick={() => {
+                      setForm(EMPTY_FORM);
+                      setFormError("");
+                    }}
+                  >
+                    <Plus className="mr-2 h-4 w-4" />
+                    Add User
+                  </Button>
+                )}
+                <Button variant="outline" onClick={onBack}>
+                  <span className="mr-2">←</span>
+                  Back to Admin Menu
+                </Button>
+              </div>
+            </div>
+          </div>
+        </header>
+
+        <main className="container mx-auto px-4 py-6 space-y-6">
+          {!hasPermission(auth?.role, "user.manage") ? (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>Only admins can manage users.</AlertDescription>
+            </Alert>
+          ) : (
+            <Card className="border shadow-2xl" style={cardStyle}>
+              <CardHeader>
+                <div className="flex items-center justify-between">
+                  <div>
+                    <CardTitle style={{ color: "#ffffff" }}>Roster</CardTitle>
+                    <CardDescription style={{ color: "#cbd5f5" }}>
+                      Deactivated users keep their history but cannot sign in
+                    </CardDescription>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Checkbox
+                      id="show-inactive"
+                      checked={showInactive}
+                      onCheckedChange={(checked) =>
+                        setShowInactive(checked === true)
+                      }
+                    />
+                    <Label htmlFor="show-inactive" style={{ color: "#cbd5f5" }}>
+                      Show deactivated
+                    </Label>
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow style={{ borderColor: "rgba(255,255,255,0.1)" }}>
+                      <TableHead style={{ color: "#cbd5f5" }}>User</TableHead>
+                      <TableHead style={{ color: "#cbd5f5" }}>Email</TableHead>
+                      <TableHead style={{ color: "#cbd5f5" }}>Role</TableHead>
+                      <TableHead style={{ color: "#cbd5f5" }}>
+                        Sign-In
+                      </TableHead>
+                      <TableHead style={{ color: "#cbd5f5" }}>
+                        Actions
+                      </TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {visibleUsers.map((user) => {
+                      const active = isUserActive(user);
+                      const isSelf = user.badgeId === currentBadge;
+                      return (
+                        <TableRow
+                          key={user.badgeId}
+                          style={{
+                            borderColor: "rgba(255,255,255,0.1)",
+                            opacity: active ? 1 : 0.6,
+                          }}
+                        >
+                          <TableCell style={{ color: "#ffffff" }}>
+                            {user.displayName}{" "}
+                            {!active && (
+                              <Badge variant="secondary">Deactivated</Badge>
+                            )}
+                            <span
+                              className="block text-xs"
+                              style={{ color: "#cbd5f5" }}
+                            >
+                              {user.badgeId}
+                            </span>
+                          </TableCell>
+                          <TableCell style={{ color: "#cbd5f5" }}>
+                            {user.email || "—"}
+                          </TableCell>
+                          <TableCell>
+                            <Select
+                              value={user.role}
+                              disabled={!active}
+                              onValueChange={(role) =>
+                                handleUpdate(
+                                  user,
+                                  { role: role as UserRole },
+                                  `${user.displayName} is now ${role}`,
+                                )
+                              }
+                            >
+                              <SelectTrigger className="w-32">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {USER_ROLES.map((role) => (
+                                  <SelectItem key={role} value={role}>
+                                    {role}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </TableCell>
+                          <TableCell style={{ color: "#cbd5f5" }}>
+                            {user.passwordHash
+                              ? "Badge or password"
+                              : "Badge only"}
+                            {hasSecondFactor(user) && (
+                              <span className="block text-xs">
+                                + PIN / authenticator
+                              </span>
+                            )}
+                            {getLockoutEnd(user.badgeId) && (
+                              <Badge variant="destructive">Locked</Badge>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex gap-2">
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                disabled={!active}
+                                onClick={() => {
+                                  setPasswordUser(user);
+                                  setNewPassword("");
+                                  setPasswordError("");
+                                }}
+                              >
+                                <KeyRound className="mr-1 h-4 w-4" />
+                                {user.passwordHash ? "Reset" : "Set"} Password
+                              </Button>
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                disabled={!active}
+                                onClick={() => openFactorDialog(user)}
+                              >
+                                <ShieldCheck className="mr-1 h-4 w-4" />
+                                Second Factor
+                              </Button>
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                disabled={!active}
+                                onClick={() => openCertDialog(user)}
+                              >
+                                <Award className="mr-1 h-4 w-4" />
+                                Certifications
+                              </Button>
+                              {active ? (
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  disabled={isSelf}
+                                  title={
+                                    isSelf
+                                      ? "You cannot deactivate yourself"
+                                      : undefined
+                                  }
+                                  onClick={() => setUserToDeactivate(user)}
+                                >
+                                  Deactivate
+                                </Button>
+                              ) : (
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  onClick={() =>
+                                    handleUpdate(
+                                      user,
+                                      { active: true },
+                                      `${user.displayName} reactivated`,
+                                    )
+                                  }
+                                >
+                                  Reactivate
+                                </Button>
+                              )}
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          )}
+
+          {hasPermission(auth?.role, "user.manage") && (
+            <Card className="border shadow-2xl" style={cardStyle}>
+              <CardHeader>
+                <CardTitle style={{ color: "#ffffff" }}>
+                  Session Policy
+                </CardTitle>
+                <CardDescription style={{ color: "#cbd5f5" }}>
+                  Shared devices sign out at the lifetime or a shift change and
+                  lock to a badge re-scan when idle
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div>
+                    <Label htmlFor="max-hours" style={{ color: "#cbd5f5" }}>
+                      Session Lifetime (hours)
+                    </Label>
+                    <Input
+                      id="max-hours"
+                      type="number"
+                      min={1}
+                      max={24}
+                      value={policyForm.maxSessionHours}
+                      onChange={(e) =>
+                        setPolicyForm({
+                          ...policyForm,
+                          maxSessionHours: e.target.value,
+                        })
+                      }
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="idle-minutes" style={{ color: "#cbd5f5" }}>
+                      Idle Lock (minutes)
+                    </Label>
+                    <Input
+                      id="idle-minutes"
+                      type="number"
+                      min={1}
+                      max={120}
+                      value={policyForm.idleLockMinutes}
+                      onChange={(e) =>
+                        setPolicyForm({
+                          ...policyForm,
+                          idleLockMinutes: e.target.value,
+                        })
+                      }
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="shift-changes" style={{ color: "#cbd5f5" }}>
+                      Shift Changes (station time)
+                    </Label>
+                    <Input
+                      id="shift-changes"
+                      value={policyForm.shiftChanges}
+                      onChange={(e) =>
+                        setPolicyForm({
+                          ...policyForm,
+                          shiftChanges: e.target.value,
+                        })
+                      }
+                      placeholder="e.g. 05:00, 13:00, 21:00"
+                    />
+                  </div>
+                </div>
+                <Button onClick={handleSavePolicy}>Save Policy</Button>
+
+                <div className="space-y-2 pt-2">
+                  <Label style={{ color: "#cbd5f5" }}>
+                    Badge sign-in needs a PIN or authenticator code for
+                  </Label>
+                  <div className="flex flex-wrap gap-4">
+                    {USER_ROLES.map((role) => (
+                      <div key={role} className="flex items-center gap-2">
+                        <Checkbox
+                          id={`factor-role-${role}`}
+                          checked={secondFactorRoles.includes(role)}
+                          onCheckedChange={(checked) =>
+                            handleToggleFactorRole(role, checked === true)
+                          }
+                        />
+                        <Label
+                          htmlFor={`factor-role-${role}`}
+                          style={{ color: "#ffffff" }}
+                        >
+                          {role}
+                        </Label>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+        </main>
+
+        <footer className="py-6 text-center text-sm text-white/90 drop-shadow-lg">
+          Built by Jayson James and Ramp Track Systems.
+        </footer>
+      </div>
+
+      {/* Add User Dialog */}
+      {form && (
+        <Dialog open={!!form} onOpenChange={() => setForm(null)}>
+          <DialogContent className="max-w-md" style={dialogStyle}>
+            <DialogHeader>
+              <DialogTitle style={{ color: "#ffffff" }}>Add User</DialogTitle>
+              <DialogDescription style={{ color: "#cbd5f5" }}>
+                Leave the password empty for badge-only sign-in.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <Label htmlFor="user-badge" style={{ color: "#cbd5f5" }}>
+                    Badge ID
+                  </Label>
+                  <Input
+                    id="user-badge"
+                    value={form.badgeId}
+                    onChange={(e) =>
+                      setForm({ ...form, badgeId: e.target.value })
+                    }
+                    placeholder="e.g. 970311"
+                  />
+                </div>
+                <div>
+                  <Label style={{ color: "#cbd5f5" }}>Role</Label>
+                  <Select
+                    value={form.role}
+                    onValueChange={(role) =>
+                      setForm({ ...form, role: role as UserRole })
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {USER_ROLES.map((role) => (
+                        <SelectItem key={role} value={role}>
+                          {role}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div>
+                <Label htmlFor="user-name" style={{ color: "#cbd5f5" }}>
+                  Display Name
+                </Label>
+                <Input
+                  id="user-name"
+                  value={form.displayName}
+                  onChange={(e) =>
+                    setForm({ ...form, displayName: e.target.value })
+                  }
+                />
+              </div>
+              <div>
+                <Label htmlFor="user-email" style={{ color: "#cbd5f5" }}>
+                  Email (optional)
+                </Label>
+                <Input
+                  id="user-email"
+                  type="email"
+                  value={form.email}
+                  onChange={(e) => setForm({ ...form, email: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="user-password" style={{ color: "#cbd5f5" }}>
+                  Password (optional)
+                </Label>
+                <Input
+                  id="user-password"
+                  type="password"
+                  autoComplete="new-password"
+                  value={form.password}
+                  onChange={(e) =>
+                    setForm({ ...form, password: e.target.value })
+                  }
+                />
+              </div>
+
+              {formError && (
+                <Alert variant="destructive">
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertDescription>{formError}</AlertDescription>
+                </Alert>
+              )}
+
+              <div className="flex gap-2 pt-2">
+                <Button
+                  variant="outline"
+                  className="flex-1"
+                  onClick={() => setForm(null)}
+                >
+                  Cancel
+                </Button>
+                <Button
+                  className="flex-1"
+                  disabled={isSaving}
+                  onClick={handleAddUser}
+                >
+                  Add User
+                </Button>
+              </div>
+            </div>
+          </DialogContent>
+        </Dialog>
+      )}
+
+      {/* Reset Password Dialog */}
+      {passwordUser && (
+        <Dialog
+          open={!!passwordUser}
+          onOpenChange={() => setPasswordUser(null)}
+        >
+          <DialogContent className="max-w-md" style={dialogStyle}>
+            <DialogHeader>
+              <DialogTitle style={{ color: "#ffffff" }}>
+                Password for {passwordUser.displayName}
+              </DialogTitle>
+              <DialogDescription style={{ color: "#cbd5f5" }}>
+                The old password stops working immediately.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-4">
+              <div>
+                <Label htmlFor="new-password" style={{ color: "#cbd5f5" }}>
+                  New Password
+                </Label>
+                <Input
+                  id="new-password"
+                  type="password"
+                  autoComplete="new-password"
+                  value={newPassword}
+                  onChange={(e) => setNewPassword(e.target.value)}
+                />
+              </div>
+
+              {passwordError && (
+                <Alert variant="destructive">
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertDescription>{passwordError}</AlertDescription>
+                </Alert>
+              )}
+
+              <div className="flex gap-2 pt-2">
+                <Button
+                  variant="outline"
+                  className="flex-1"
+                  onClick={() => setPasswordUser(null)}
+                >
+                  Cancel
+                </Button>
+                <Button
+                  className="flex-1"
+                  disabled={isSaving || !newPassword}
+                  onClick={handleResetPassword}
+                >
+                  Save Password
+                </Button>
+              </div>
+            </div>
+          </DialogContent>
+        </Dialog>
+      )}
+
+      {/* Second Factor Dialog */}
+      {factorUser && (
+        <Dialog open={!!factorUser} onOpenChange={() => setFactorUser(null)}>
+          <DialogContent className="max-w-md" style={dialogStyle}>
+            <DialogHeader>
+              <DialogTitle style={{ color: "#ffffff" }}>
+                Second Factor for {factorUser.displayName}
+              </DialogTitle>
+              <DialogDescription style={{ color: "#cbd5f5" }}>
+                {secondFactorRoles.includes(factorUser.role)
+                  ? `Badge sign-in as ${factorUser.role} asks for a PIN or authenticator code.`
+                  : `Not required for ${factorUser.role} badge sign-in.`}{" "}
+                PIN: {factorUser.pinHash ? "set" : "not set"}. Authenticator:{" "}
+                {factorTotpEnrolled ? "enrolled" : "not enrolled"}.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-4">
+              {factorLockoutEnd && (
+                <Alert variant="destructive">
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertDescription className="flex items-center justify-between gap-2">
+                    Locked until {factorLockoutEnd.toLocaleTimeString()} after
+                    failed attempts.
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={handleClearLockout}
+                    >
+                      Unlock
+                    </Button>
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              <div>
+                <Label htmlFor="new-pin" style={{ color: "#cbd5f5" }}>
+                  Badge PIN (4–8 digits)
+                </Label>
+                <div className="flex gap-2">
+                  <Input
+                    id="new-pin"
+                    type="password"
+                    inputMode="numeric"
+                    autoComplete="new-password"
+                    value={newPin}
+                    onChange={(e) => setNewPin(e.target.value)}
+                  />
+                  <Button
+                    disabled={isSaving || !newPin}
+                    onClick={handleSavePin}
+                  >
+                    Save PIN
+                  </Button>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label style={{ color: "#cbd5f5" }}>Authenticator App</Label>
+                {newTotpSecret ? (
+                  <>
+                    <p className="text-sm" style={{ color: "#cbd5f5" }}>
+                      Add this key to the authenticator app, then save. Codes
+                      are checked on the device, no network needed.
+                    </p>
+                    <code
+                      className="block break-all rounded p-2 text-sm"
+                      style={{
+                        color: "#ffffff",
+                        background: "rgba(255,255,255,0.08)",
+                      }}
+                    >
+                      {newTotpSecret.match(/.{1,4}/g)?.join(" ")}
+                    </code>
+                    <code
+                      className="block break-all text-xs"
+                      style={{ color: "#cbd5f5" }}
+                    >
+                      {getTotpUri(newTotpSecret, factorUser.badgeId)}
+                    </code>
+                    <Button className="w-full" onClick={handleSaveTotp}>
+                      Save Authenticator
+                    </Button>
+                  </>
+                ) : (
+                  <Button
+                    variant="outline"
+                    className="w-full"
+                    onClick={() => setNewTotpSecret(generateTotpSecret())}
+                  >
+                    {factorTotpEnrolled ? "Replace" : "Enroll"} Authenticator
+                  </Button>
+                )}
+              </div>
+
+              {factorError && (
+                <Alert variant="destructive">
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertDescription>{factorError}</AlertDescription>
+                </Alert>
+              )}
+
+              <div className="flex gap-2 pt-2">
+                <Button
+                  variant="outline"
+                  className="flex-1"
+                  disabled={!hasSecondFactor(factorUser)}
+                  onClick={handleClearFactor}
+                >
+                  Remove PIN & Authenticator
+                </Button>
+                <Button
+                  variant="outline"
+                  className="flex-1"
+                  onClick={() => setFactorUser(null)}
+                >
+                  Done
+                </Button>
+              </div>
+            </div>
+          </DialogContent>
+        </Dialog>
+      )}
+
+      {/* Certifications Dialog */}
+      {certUser && (
+        <Dialog open={!!certUser} onOpenChange={() => setCertUser(null)}>
+          <DialogContent className="max-w-md" style={dialogStyle}>
+            <DialogHeader>
+              <DialogTitle style={{ color: "#ffffff" }}>
+                Certifications for {certUser.displayName}
+              </DialogTitle>
+              <DialogDescription style={{ color: "#cbd5f5" }}>
+                Equipment types that require certification can only be checked
+                out by certified operators unless a supervisor overrides.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-4">
+              {getEquipmentTypes()
+                .filter((type) => type.requiresCertification)
+                .map((type) => (
+                  <div key={type.code} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`cert-${type.code}`}
+                      checked={certTypes.includes(type.code)}
+                      onCheckedChange={(checked) =>
+                        setCertTypes((current) =>
+                          checked === true
+                            ? [...current, type.code]
+                            : current.filter((code) => code !== type.code),
+                        )
+                      }
+                    />
+                    <Label
+                      htmlFor={`cert-${type.code}`}
+                      style={{ color: "#ffffff" }}
+                    >
+                      {type.name}
+                    </Label>
+                  </div>
+                ))}
+
+              <div className="flex gap-2 pt-2">
+                <Button
+                  variant="outline"
+                  className="flex-1"
+                  onClick={() => setCertUser(null)}
+                >
+                  Cancel
+                </Button>
+                <Button className="flex-1" onClick={handleSaveCertifications}>
+                  Save
+                </Button>
+              </div>
+            </div>
+          </DialogContent>
+        </Dialog>
+      )}
+
+      {/* Deactivate Confirmation */}
+      <AlertDialog
+        open={!!userToDeactivate}
+        onOpenChange={(open) => !open && setUserToDeactivate(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              Deactivate {userToDeactivate?.displayName}?
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              Their badge and password stop working. Equipment history stays
+              intact and the user can be reactivated later.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (userToDeactivate) {
+                  handleUpdate(
+                    userToDeactivate,
+                    { active: false },
+                    `${userToDeactivate.displayName} deactivated`,
+                  );
+                }
+                setUserToDeactivate(null);
+              }}
+            >
+              Deactivate
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -1,11 +1,6 @@
 import { useCallback, useEffect, useRef, useState } from "react";
 import { type CameraConfig, useCamera } from "../camera/useCamera";
-
-declare global {
-  interface Window {
-    jsQR: any;
-  }
-}
+import { decodeFrame, releaseDecoder } from "../lib/barcodeScanner";
 
 export interface QRResult {
   data: string;
@@ -15,20 +10,13 @@ export interface QRResult {
 export interface QRScannerConfig extends CameraConfig {
   scanInterval?: number;
   maxResults?: number;
-  jsQRUrl?: string;
 }
 
 export const useQRScanner = (config: QRScannerConfig) => {
-  const {
-    scanInterval = 100,
-    maxResults = 10,
-    jsQRUrl = "https://cdn.jsdelivr.net/npm/jsqr@1.4.0/dist/jsQR.js",
-    ...cameraConfig
-  } = config;
+  const { scanInterval = 100, maxResults = 10, ...cameraConfig } = config;
 
   const [qrResults, setQrResults] = useState<QRResult[]>([]);
   const [isScanning, setIsScanning] = useState(false);
-  const [jsQRLoaded, setJsQRLoaded] = useState(false);
 
   const scanIntervalRef = useRef<NodeJS.Timeout | null>(null);
   const lastScanRef = useRef<string>("");
@@ -36,71 +24,38 @@ export const useQRScanner = (config: QRScannerConfig) => {
 
   const camera = useCamera(cameraConfig);
 
-  useEffect(() => {
-    if (typeof window === "undefined") return;
-    if (window.jsQR) {
-      setJsQRLoaded(true);
-      return;
-    }
-    const script = document.createElement("script");
-    script.src = jsQRUrl;
-    script.onload = () => {
-      if (isMountedRef.current) {
-        setJsQRLoaded(true);
-      }
-    };
-    script.onerror = () => console.error("Failed to load jsQR library");
-    document.head.appendChild(script);
-    return () => {
-      if (document.head.contains(script)) {
-        document.head.removeChild(script);
-      }
-    };
-  }, [jsQRUrl]);
-
   useEffect(() => {
     return () => {
       isMountedRef.current = false;
       if (scanIntervalRef.current) {
         clearInterval(scanIntervalRef.current);
       }
+      releaseDecoder();
     };
   }, []);
 
-  const scanQRCode = useCallback(() => {
-    if (
-      !camera.videoRef.current ||
-      !camera.canvasRef.current ||
-      !jsQRLoaded ||
-      !window.jsQR
-    ) {
-      return;
-    }
-    const video = camera.videoRef.current;
-    const canvas = camera.canvasRef.current;
-    const context = canvas.getContext("2d");
-    if (!context || video.readyState !== video.HAVE_ENOUGH_DATA) {
+  const scanQRCode = useCallback(async () => {
+    if (!camera.videoRef.current || !camera.canvasRef.current) {
       return;
     }
-    canvas.width = video.videoWidth;
-    canvas.height = video.videoHeight;
-    context.drawImage(video, 0, 0, canvas.width, canvas.height);
-    const imageData = context.getImageData(0, 0, canvas.width, canvas.height);
-    const code = window.jsQR(imageData.data, imageData.width, imageData.height);
-    if (code?.data && code.data !== lastScanRef.current) {
-      lastScanRef.current = code.data;
+    const code = await decodeFrame(
+      camera.videoRef.current,
+      camera.canvasRef.current,
+    );
+    if (code?.text && code.text !== lastScanRef.current) {
+      lastScanRef.current = code.text;
       const newResult: QRResult = {
-        data: code.data,
+        data: code.text,
         timestamp: Date.now(),
       };
       if (isMountedRef.current) {
         setQrResults((prev) => [newResult, ...prev.slice(0, maxResults - 1)]);
       }
     }
-  }, [camera.videoRef, camera.canvasRef, jsQRLoaded, maxResults]);
+  }, [camera.videoRef, camera.canvasRef, maxResults]);
 
   useEffect(() => {
-    if (isScanning && camera.isActive && jsQRLoaded) {
+    if (isScanning && camera.isActive) {
       scanIntervalRef.current = setInterval(scanQRCode, scanInterval);
     } else {
       if (scanIntervalRef.current) {
@@ -113,7 +68,7 @@ export const useQRScanner = (config: QRScannerConfig) => {
         clearInterval(scanIntervalRef.current);
       }
     };
-  }, [isScanning, camera.isActive, jsQRLoaded, scanQRCode, scanInterval]);
+  }, [isScanning, camera.isActive, scanQRCode, scanInterval]);
 
   const startScanning = useCallback(async (): Promise<boolean> => {
     if (!camera.isActive) {
@@ -157,7 +112,6 @@ export const useQRScanner = (config: QRScannerConfig) => {
     // QR Scanner state
     qrResults,
     isScanning,
-    jsQRLoaded,
 
     // Camera state (pass-through)
     isActive: camera.isActive,
@@ -179,8 +133,7 @@ export const useQRScanner = (config: QRScannerConfig) => {
     canvasRef: camera.canvasRef,
 
     // Computed state
-    isReady: jsQRLoaded && camera.isSupported !== false,
-    canStartScanning:
-      jsQRLoaded && camera.isSupported === true && !camera.isLoading,
+    isReady: camera.isSupported !== false,
+    canStartScanning: camera.isSupported === true && !camera.isLoading,
   };
 };
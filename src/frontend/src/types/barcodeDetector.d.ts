@@ -0,0 +1,21 @@
+// Type definitions for the Shape Detection API's BarcodeDetector, available
+// natively on Chromium-based browsers (Android scanners included)
+declare global {
+  interface DetectedBarcode {
+    rawValue: string;
+    format: string;
+  }
+
+  interface BarcodeDetector {
+    detect(image: ImageBitmapSource): Promise<DetectedBarcode[]>;
+  }
+
+  var BarcodeDetector:
+    | {
+        new (options?: { formats?: string[] }): BarcodeDetector;
+        getSupportedFormats(): Promise<string[]>;
+      }
+    | undefined;
+}
+
+export {};
@@ -1,3 +1,4 @@
+import { readFileSync, writeFileSync } from "fs";
 import { fileURLToPath, URL } from "url";
 import react from "@vitejs/plugin-react";
 import { defineConfig } from "vite";
@@ -12,6 +13,38 @@ process.env.II_URL = process.env.II_URL || ii_url;
 process.env.STORAGE_GATEWAY_URL =
   process.env.STORAGE_GATEWAY_URL || "https://blob.caffeine.ai";
 
+// Fills the DECODER_ASSETS list in the built sw.js with the content-hashed
+// decoder worker files, so a changed worker changes sw.js and is precached
+// without a hand-edited version. Fails the build if the list is missing.
+const DECODER_ASSETS_PLACEHOLDER = "const DECODER_ASSETS = [];";
+
+function precacheDecoders() {
+  return {
+    name: "precache-decoders",
+    apply: "build",
+    writeBundle(options, bundle) {
+      const files = Object.keys(bundle)
+        .filter((file) => file.startsWith("decoders/"))
+        .sort();
+      if (files.length === 0) {
+        this.error("No decoder worker files were emitted for sw.js");
+      }
+      const swPath = `${options.dir}/sw.js`;
+      const sw = readFileSync(swPath, "utf8");
+      if (!sw.includes(DECODER_ASSETS_PLACEHOLDER)) {
+        this.error(`sw.js no longer declares "${DECODER_ASSETS_PLACEHOLDER}"`);
+      }
+      writeFileSync(
+        swPath,
+        sw.replace(
+          DECODER_ASSETS_PLACEHOLDER,
+          `const DECODER_ASSETS = ${JSON.stringify(files.map((file) => `/${file}`))};`,
+        ),
+      );
+    },
+  };
+}
+
 export default defineConfig({
   logLevel: "error",
   build: {
@@ -22,6 +55,16 @@ export default defineConfig({
   css: {
     postcss: "./postcss.config.js",
   },
+  worker: {
+    format: "es",
+    rollupOptions: {
+      output: {
+        // Outside /assets/ so public/sw.js precaches them (precacheDecoders)
+        entryFileNames: "decoders/[name]-[hash].js",
+        chunkFileNames: "decoders/[name]-[hash].js",
+      },
+    },
+  },
   optimizeDeps: {
     esbuildOptions: {
       define: {
@@ -43,7 +86,12 @@ export default defineConfig({
     environment(["II_URL"]),
     environment(["STORAGE_GATEWAY_URL"]),
     react(),
+    precacheDecoders(),
   ],
+  test: {
+    // Stores persist to localStorage
+    environment: "happy-dom",
+  },
   resolve: {
     alias: [
       {